@@ -11,13 +11,15 @@ interface StreamCallbacks {
   onTranscript?: (text: string, full: string) => void;
   onComplete?: (transcript: string) => void;
   onError?: (error: Error) => void;
+  /** Events this hook doesn't handle itself, e.g. app-specific ones */
+  onEvent?: (event: { type: string; [key: string]: unknown }) => void;
 }
 
 export function useVoiceStream(callbacks: StreamCallbacks = {}) {
   const playback = useAudioPlayback();
 
   const streamVoiceResponse = useCallback(
-    async (url: string, audioBlob: Blob) => {
+    async (url: string, audioBlob: Blob, extraBody: Record<string, unknown> = {}) => {
       await playback.init();
       playback.clear();
 
@@ -33,7 +35,7 @@ export function useVoiceStream(callbacks: StreamCallbacks = {}) {
       const response = await fetch(url, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ audio: base64Audio }),
+        body: JSON.stringify({ ...extraBody, audio: base64Audio }),
       });
 
       if (!response.ok) throw new Error("Voice request failed");
@@ -96,6 +98,9 @@ export function useVoiceStream(callbacks: StreamCallbacks = {}) {
 
               case "error":
                 throw new Error(event.error);
+
+              default:
+                callbacks.onEvent?.(event);
             }
           } catch (e) {
             if (!(e instanceof SyntaxError)) {
@@ -8,13 +8,14 @@ import { ThemeToggle } from "@/components/theme-toggle";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { Button } from "@/components/ui/button";
-import { TrendingUp, LayoutDashboard, BookOpen, Trophy, LogOut, Users, Bot } from "lucide-react";
+import { TrendingUp, LayoutDashboard, BookOpen, Trophy, LogOut, Users, Bot, FlaskConical } from "lucide-react";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import AuthPage from "@/pages/auth-page";
 import Discovery from "@/pages/discovery";
 import Agents from "@/pages/agents";
 import Social from "@/pages/social";
+import Backtests from "@/pages/backtests";
 
 function Header() {
   const { user, logoutMutation } = useAuth();
@@ -76,6 +77,16 @@ function Header() {
                   Agents
                 </Button>
               </Link>
+              <Link href="/backtests">
+                <Button 
+                  variant={location === "/backtests" ? "secondary" : "ghost"} 
+                  size="sm"
+                  data-testid="nav-backtests"
+                >
+                  <FlaskConical className="h-4 w-4 mr-1" />
+                  Backtests
+                </Button>
+              </Link>
             </nav>
           )}
         </div>
@@ -153,6 +164,16 @@ function MobileNav() {
             <span className="text-xs mt-1">Agents</span>
           </Button>
         </Link>
+        <Link href="/backtests">
+          <Button 
+            variant={location === "/backtests" ? "secondary" : "ghost"} 
+            size="sm"
+            className="flex-col h-auto py-2 px-3"
+          >
+            <FlaskConical className="h-5 w-5" />
+            <span className="text-xs mt-1">Backtest</span>
+          </Button>
+        </Link>
       </div>
     </nav>
   );
@@ -165,6 +186,7 @@ function Router() {
       <ProtectedRoute path="/discover" component={Discovery} />
       <ProtectedRoute path="/social" component={Social} />
       <ProtectedRoute path="/agents" component={Agents} />
+      <ProtectedRoute path="/backtests" component={Backtests} />
       <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
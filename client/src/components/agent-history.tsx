@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Columns2, History, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AgentReportView } from "@/components/agent-reports";
+import type { AgentRun, AgentRunSummary, AgentType } from "@shared/schema";
+
+const AGENT_LABELS: Record<AgentType, string> = {
+  research: "Research",
+  sentiment: "Sentiment",
+  game_theory: "Game Theory",
+  risk: "Risk",
+};
+
+// Two runs side by side is as many as the dialog has room for
+const MAX_COMPARED = 2;
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function RunInput({ run }: { run: AgentRun }) {
+  const { symbol, query, scenario, options } = run.input;
+  const fields = [
+    ["Symbol", symbol],
+    ["Question", query],
+    ["Scenario", scenario],
+    ["Options", options],
+  ].filter((field): field is [string, string] => !!field[1]);
+
+  if (fields.length === 0) return null;
+  return (
+    <dl className="space-y-1 text-sm">
+      {fields.map(([label, value]) => (
+        <div key={label}>
+          <dt className="text-xs font-semibold uppercase text-muted-foreground">{label}</dt>
+          <dd className="whitespace-pre-wrap">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+// The account as the agent saw it, so an old report can be read against it
+function PortfolioSnapshot({ portfolio }: { portfolio: NonNullable<AgentRun["portfolio"]> }) {
+  return (
+    <div className="rounded-md border border-border p-2 text-xs space-y-2" data-testid="agent-run-portfolio">
+      <div className="grid grid-cols-2 gap-1 font-mono">
+        <span className="text-muted-foreground">Total value</span>
+        <span className="text-right">{formatCurrency(portfolio.totalValue)}</span>
+        <span className="text-muted-foreground">Cash</span>
+        <span className="text-right">{formatCurrency(portfolio.cash)}</span>
+        <span className="text-muted-foreground">Day change</span>
+        <span className={`text-right ${portfolio.dayChange >= 0 ? "text-gain" : "text-loss"}`}>
+          {formatCurrency(portfolio.dayChange)}
+        </span>
+        <span className="text-muted-foreground">Total P/L</span>
+        <span className={`text-right ${portfolio.totalProfitLossPercent >= 0 ? "text-gain" : "text-loss"}`}>
+          {formatPercent(portfolio.totalProfitLossPercent)}
+        </span>
+      </div>
+      {portfolio.positions.length > 0 && (
+        <ul className="border-t border-border pt-2 space-y-1 font-mono">
+          {portfolio.positions.map((position) => (
+            <li key={position.symbol} className="flex justify-between gap-2">
+              <span>{position.quantity} {position.symbol}</span>
+              <span className={position.profitLossPercent >= 0 ? "text-gain" : "text-loss"}>
+                {formatPercent(position.profitLossPercent)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function RunDetail({ id }: { id: string }) {
+  const { data: run, isLoading, error } = useQuery<AgentRun>({
+    queryKey: ["/api/agent-runs", id],
+  });
+
+  if (isLoading) return <Skeleton className="h-64 w-full" />;
+  if (error || !run) return <p className="text-sm text-destructive">This run could not be loaded.</p>;
+
+  return (
+    <div className="space-y-3 min-w-0" data-testid={`agent-run-detail-${run.id}`}>
+      <div>
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary">{AGENT_LABELS[run.agent]}</Badge>
+          <span className="text-sm text-muted-foreground">{format(new Date(run.createdAt), "MMM d, yyyy h:mm a")}</span>
+        </div>
+        <p className="text-xs text-muted-foreground font-mono mt-1">
+          {run.model} · {run.usage.inputTokens.toLocaleString()} in / {run.usage.outputTokens.toLocaleString()} out tokens
+        </p>
+      </div>
+      <RunInput run={run} />
+      {run.portfolio && <PortfolioSnapshot portfolio={run.portfolio} />}
+      <div className="border-t border-border pt-3">
+        <AgentReportView run={run} />
+      </div>
+    </div>
+  );
+}
+
+// Past agent runs with their reports. Tick one run to reopen it, or two to
+// read them side by side.
+export function AgentHistory() {
+  const { toast } = useToast();
+  const [agent, setAgent] = useState<AgentType | "all">("all");
+  const [symbol, setSymbol] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+
+  const filter = symbol.trim();
+  const { data: runs, isLoading } = useQuery<AgentRunSummary[]>({
+    queryKey: ["/api/agent-runs", { agent, symbol: filter }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (agent !== "all") params.set("agent", agent);
+      if (filter) params.set("symbol", filter);
+      const res = await fetch(`/api/agent-runs?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to load agent runs");
+      return res.json();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/agent-runs/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      setSelected((current) => current.filter((s) => s !== id));
+      queryClient.invalidateQueries({ queryKey: ["/api/agent-runs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Ticking a third run lets go of the first one ticked
+  const toggle = (id: string) => {
+    setSelected((current) =>
+      current.includes(id)
+        ? current.filter((s) => s !== id)
+        : [...current, id].slice(-MAX_COMPARED)
+    );
+  };
+
+  return (
+    <Card className="flex flex-col" data-testid="agent-history">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-5 w-5 text-primary" />
+          Run History
+        </CardTitle>
+        <CardDescription>Every agent run is saved with its report.</CardDescription>
+      </CardHeader>
+      <CardContent className="flex-1 flex flex-col gap-3">
+        <div className="flex gap-2">
+          <Select value={agent} onValueChange={(value) => setAgent(value as AgentType | "all")}>
+            <SelectTrigger className="flex-1" data-testid="select-history-agent">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All agents</SelectItem>
+              {(Object.keys(AGENT_LABELS) as AgentType[]).map((type) => (
+                <SelectItem key={type} value={type}>{AGENT_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Symbol"
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+            className="w-24"
+            data-testid="input-history-symbol"
+          />
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setComparing(true)}
+          disabled={selected.length === 0}
+          data-testid="button-compare-runs"
+        >
+          <Columns2 className="h-4 w-4 mr-2" />
+          {selected.length === MAX_COMPARED ? "Compare runs" : "Open run"}
+        </Button>
+
+        <ScrollArea className="h-[480px] pr-2">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[0, 1, 2].map((i) => <Skeleton key={i} className="h-16 w-full" />)}
+            </div>
+          ) : !runs || runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No runs yet. Reports from the agents will show up here.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {runs.map((run) => (
+                <li
+                  key={run.id}
+                  className={`rounded-md border p-2 flex items-start gap-2 ${selected.includes(run.id) ? "border-primary" : "border-border"}`}
+                  data-testid={`agent-run-${run.id}`}
+                >
+                  <Checkbox
+                    checked={selected.includes(run.id)}
+                    onCheckedChange={() => toggle(run.id)}
+                    className="mt-1"
+                    data-testid={`checkbox-agent-run-${run.id}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-1 flex-wrap">
+                      <Badge variant="secondary" className="text-[10px]">{AGENT_LABELS[run.agent]}</Badge>
+                      {run.symbol && <Badge variant="outline" className="text-[10px] font-mono">{run.symbol}</Badge>}
+                    </div>
+                    <p className="text-sm mt-1 line-clamp-2">{run.headline}</p>
+                    <p className="text-xs text-muted-foreground">{format(new Date(run.createdAt), "MMM d, h:mm a")}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 flex-shrink-0"
+                    onClick={() => deleteMutation.mutate(run.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-agent-run-${run.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </CardContent>
+
+      <Dialog open={comparing} onOpenChange={setComparing}>
+        <DialogContent className={`w-[95vw] max-h-[90vh] overflow-y-auto ${selected.length === MAX_COMPARED ? "max-w-5xl" : "max-w-2xl"}`}>
+          <DialogHeader>
+            <DialogTitle>{selected.length === MAX_COMPARED ? "Compare Runs" : "Agent Run"}</DialogTitle>
+            <DialogDescription>The report, the request and the portfolio as the agent saw it.</DialogDescription>
+          </DialogHeader>
+          <div className={`grid gap-6 ${selected.length === MAX_COMPARED ? "md:grid-cols-2" : ""}`}>
+            {selected.map((id) => <RunDetail key={id} id={id} />)}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Markdown } from "@/components/markdown";
+import type { AgentRun, ResearchReport, ResearchToolCall, SentimentReport, GameTheoryReport, RiskReport } from "@shared/schema";
+
+export function ToolCallBadges({ toolCalls }: { toolCalls: ResearchToolCall[] }) {
+  return (
+    <div className="flex flex-wrap gap-1" data-testid="research-tool-calls">
+      {toolCalls.map((call, i) => (
+        <Badge key={i} variant="outline" className="text-[10px] font-mono">
+          {call.tool}{typeof call.input.symbol === "string" ? ` ${call.input.symbol}` : ""}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+export function ResearchReportView({ report }: { report: ResearchReport }) {
+  return (
+    <div className="space-y-3 text-sm" data-testid="research-report">
+      {report.summary && <p className="font-medium">{report.summary}</p>}
+      {report.sections.map((section, i) => (
+        <div key={i} data-testid={`research-section-${i}`}>
+          <h4 className="font-semibold mb-1">{section.title}</h4>
+          <Markdown className="text-muted-foreground">{section.content}</Markdown>
+          {section.citations.length > 0 && (
+            <div className="mt-1 text-xs">
+              {section.citations.map((n) => (
+                <a key={n} href={`#research-source-${n}`} className="text-primary mr-1">[{n}]</a>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      {report.sources.length > 0 && (
+        <div className="border-t border-border pt-2">
+          <h4 className="text-xs font-semibold uppercase text-muted-foreground mb-1">Sources</h4>
+          <ol className="space-y-1 text-xs">
+            {report.sources.map((source) => (
+              <li key={source.number} id={`research-source-${source.number}`}>
+                [{source.number}]{" "}
+                <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                  {source.headline}
+                </a>{" "}
+                <span className="text-muted-foreground">
+                  {source.source}, {format(new Date(source.datetime), "MMM d, yyyy")}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+      {report.toolCalls.length > 0 && <ToolCallBadges toolCalls={report.toolCalls} />}
+    </div>
+  );
+}
+
+const STANCE_CLASSES = {
+  bullish: "text-gain",
+  bearish: "text-loss",
+  neutral: "text-muted-foreground",
+};
+
+const SEVERITY_VARIANTS = {
+  low: "outline",
+  medium: "secondary",
+  high: "destructive",
+} as const;
+
+function ScoreBar({ label, score, detail }: { label: string; score: number; detail: React.ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="flex items-center gap-2">
+          {detail}
+          <span className="font-mono font-semibold">{score}/10</span>
+        </span>
+      </div>
+      <Progress value={score * 10} className="h-2" />
+    </div>
+  );
+}
+
+export function SentimentReportView({ report }: { report: SentimentReport }) {
+  return (
+    <div className="space-y-3 text-sm" data-testid="sentiment-report">
+      <ScoreBar
+        label="Sentiment"
+        score={report.score}
+        detail={<span className={`capitalize font-medium ${STANCE_CLASSES[report.sentiment]}`}>{report.sentiment}</span>}
+      />
+      <p>{report.summary}</p>
+      <ul className="space-y-1">
+        {report.narratives.map((n, i) => (
+          <li key={i} className="flex gap-2" data-testid={`sentiment-narrative-${i}`}>
+            <Badge variant="outline" className={`text-[10px] capitalize h-5 ${STANCE_CLASSES[n.stance]}`}>{n.stance}</Badge>
+            <span className="text-muted-foreground">{n.narrative}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function GameTheoryReportView({ report }: { report: GameTheoryReport }) {
+  return (
+    <div className="space-y-3 text-sm" data-testid="game-theory-report">
+      <p className="font-medium">{report.summary}</p>
+      <div>
+        <h4 className="font-semibold mb-1">Players</h4>
+        <ul className="space-y-1 text-muted-foreground">
+          {report.players.map((player, i) => (
+            <li key={i}><span className="text-foreground">{player.name}:</span> {player.incentive}</li>
+          ))}
+        </ul>
+      </div>
+      <div>
+        <h4 className="font-semibold mb-1">Equilibrium</h4>
+        <p className="text-muted-foreground">{report.equilibrium}</p>
+      </div>
+      <div className="space-y-2">
+        <h4 className="font-semibold">Strategies</h4>
+        {report.strategies.map((strategy, i) => {
+          const recommended = strategy.name === report.recommendation.strategy;
+          return (
+            <div
+              key={i}
+              className={`rounded-md border p-2 ${recommended ? "border-primary" : "border-border"}`}
+              data-testid={`game-theory-strategy-${i}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{strategy.name}</span>
+                {recommended && <Badge className="text-[10px]">Recommended</Badge>}
+              </div>
+              <div className="flex gap-4 text-xs font-mono mt-1">
+                <span>{(strategy.successProbability * 100).toFixed(0)}% success</span>
+                <span className={strategy.expectedReturnPercent >= 0 ? "text-gain" : "text-loss"}>
+                  {strategy.expectedReturnPercent >= 0 ? "+" : ""}{strategy.expectedReturnPercent.toFixed(1)}% expected
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">Upside: {strategy.upside}</p>
+              <p className="text-xs text-muted-foreground">Downside: {strategy.downside}</p>
+            </div>
+          );
+        })}
+      </div>
+      <div className="rounded-md bg-primary/5 p-2">
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <span className="font-semibold">{report.recommendation.strategy}</span>
+          <Badge variant="outline" className="text-[10px] capitalize">{report.confidence} confidence</Badge>
+        </div>
+        <p className="text-muted-foreground">{report.recommendation.rationale}</p>
+      </div>
+    </div>
+  );
+}
+
+export function RiskReportView({ report }: { report: RiskReport }) {
+  return (
+    <div className="space-y-3 text-sm" data-testid="risk-report">
+      <ScoreBar
+        label="Risk"
+        score={report.score}
+        detail={<Badge variant={report.level === "low" ? "outline" : report.level === "moderate" ? "secondary" : "destructive"} className="capitalize">{report.level}</Badge>}
+      />
+      <p>{report.summary}</p>
+      <div className="space-y-2">
+        {report.findings.map((finding, i) => (
+          <div key={i} className="rounded-md border border-border p-2" data-testid={`risk-finding-${i}`}>
+            <div className="flex items-center gap-2 mb-1">
+              <Badge variant={SEVERITY_VARIANTS[finding.severity]} className="text-[10px] capitalize">{finding.severity}</Badge>
+              <span className="text-xs font-medium capitalize">{finding.category}</span>
+            </div>
+            <p>{finding.finding}</p>
+            <p className="text-xs text-muted-foreground mt-1">{finding.recommendation}</p>
+          </div>
+        ))}
+      </div>
+      {report.hedges.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-1">Hedges</h4>
+          <ul className="list-disc pl-5 text-muted-foreground space-y-1">
+            {report.hedges.map((hedge, i) => <li key={i}>{hedge}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A saved run's report, in the same view the agent card shows it
+export function AgentReportView({ run }: { run: AgentRun }) {
+  switch (run.agent) {
+    case "research":
+      return <ResearchReportView report={run.output} />;
+    case "sentiment":
+      return <SentimentReportView report={run.output} />;
+    case "game_theory":
+      return <GameTheoryReportView report={run.output} />;
+    case "risk":
+      return <RiskReportView report={run.output} />;
+  }
+}
@@ -1,23 +1,12 @@
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Sparkles, RefreshCw } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { Markdown } from "@/components/markdown";
+import { useAgentStream } from "@/hooks/use-agent-stream";
 
 export function AITips() {
-  const [tips, setTips] = useState<string | null>(null);
-
-  const tipsMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/ai/tips", {});
-      return res.json();
-    },
-    onSuccess: (data) => {
-      setTips(data.tips);
-    },
-  });
+  const tips = useAgentStream("/api/ai/tips/stream");
 
   return (
     <Card className="border-primary/20 bg-gradient-to-br from-primary/5 to-background">
@@ -30,11 +19,11 @@ export function AITips() {
           <Button
             size="sm"
             variant="outline"
-            onClick={() => tipsMutation.mutate()}
-            disabled={tipsMutation.isPending}
+            onClick={() => tips.start()}
+            disabled={tips.isStreaming}
             data-testid="button-get-tips"
           >
-            {tipsMutation.isPending ? (
+            {tips.isStreaming ? (
               <RefreshCw className="h-4 w-4 animate-spin" />
             ) : (
               <>
@@ -46,18 +35,16 @@ export function AITips() {
         </div>
       </CardHeader>
       <CardContent>
-        {tipsMutation.isPending ? (
+        {tips.isStreaming && !tips.text ? (
           <div className="space-y-3">
             <Skeleton className="h-4 w-full" />
             <Skeleton className="h-4 w-3/4" />
             <Skeleton className="h-4 w-5/6" />
             <Skeleton className="h-4 w-2/3" />
           </div>
-        ) : tips ? (
-          <div className="prose prose-sm dark:prose-invert max-w-none">
-            <div className="whitespace-pre-wrap text-sm leading-relaxed" data-testid="text-ai-tips">
-              {tips}
-            </div>
+        ) : tips.text ? (
+          <div data-testid="text-ai-tips">
+            <Markdown>{tips.text}</Markdown>
           </div>
         ) : (
           <div className="text-center py-6">
@@ -68,7 +55,7 @@ export function AITips() {
           </div>
         )}
         
-        {tipsMutation.isError && (
+        {tips.error && (
           <p className="text-sm text-destructive mt-2">
             Failed to generate tips. Please try again.
           </p>
@@ -0,0 +1,119 @@
+import { ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import { format } from "date-fns";
+import type { Candle, IndicatorSeries } from "@shared/schema";
+import { INDICATOR_COLORS } from "@/components/indicator-pane";
+
+interface CandlestickChartProps {
+  candles: Candle[];
+  // Price-axis indicators, one value per candle
+  overlays?: IndicatorSeries[];
+  intraday?: boolean;
+  height?: number;
+}
+
+const GAIN_COLOR = "hsl(142, 70%, 45%)";
+const LOSS_COLOR = "hsl(0, 72%, 51%)";
+
+function formatPrice(value: number): string {
+  return value >= 1 ? value.toFixed(2) : value.toFixed(4);
+}
+
+function formatVolume(value: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(value);
+}
+
+// Recharts hands a range bar the pixel box spanning low to high; the body is
+// placed inside it in proportion to open and close
+function CandleShape(props: { x?: number; y?: number; width?: number; height?: number; payload?: Candle }) {
+  const { x = 0, y = 0, width = 0, height = 0, payload } = props;
+  if (!payload) return null;
+
+  const { open, high, low, close } = payload;
+  const color = close >= open ? GAIN_COLOR : LOSS_COLOR;
+  const pixelsPerDollar = high > low ? height / (high - low) : 0;
+  const bodyTop = y + (high - Math.max(open, close)) * pixelsPerDollar;
+  const bodyHeight = Math.max(1, Math.abs(close - open) * pixelsPerDollar);
+  const bodyWidth = Math.max(1, width * 0.7);
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} />
+      <rect x={center - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+function CandleTooltip({ active, payload, intraday }: { active?: boolean; payload?: { payload: Candle }[]; intraday: boolean }) {
+  if (!active || !payload?.length) return null;
+  const candle = payload[0].payload;
+
+  return (
+    <div className="rounded-md border bg-card px-3 py-2 text-xs shadow-sm">
+      <div className="font-medium mb-1">
+        {format(new Date(candle.time), intraday ? "MMM d, h:mm a" : "MMM d, yyyy")}
+      </div>
+      <div className="grid grid-cols-2 gap-x-3 font-mono">
+        <span className="text-muted-foreground">O</span><span>{formatPrice(candle.open)}</span>
+        <span className="text-muted-foreground">H</span><span>{formatPrice(candle.high)}</span>
+        <span className="text-muted-foreground">L</span><span>{formatPrice(candle.low)}</span>
+        <span className="text-muted-foreground">C</span><span>{formatPrice(candle.close)}</span>
+        <span className="text-muted-foreground">Vol</span><span>{formatVolume(candle.volume)}</span>
+      </div>
+    </div>
+  );
+}
+
+export function CandlestickChart({ candles, overlays = [], intraday = false, height = 220 }: CandlestickChartProps) {
+  const overlayLines = overlays.flatMap((series) =>
+    Object.entries(series.lines).map(([line, values]) => ({ key: `${series.id}/${line}`, series, line, values }))
+  );
+  const data = candles.map((candle, i) => ({
+    ...candle,
+    range: [candle.low, candle.high],
+    ...Object.fromEntries(overlayLines.map(({ key, values }) => [key, values[i]])),
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <ComposedChart data={data} margin={{ top: 5, right: 5, left: 0, bottom: 0 }} barCategoryGap={1}>
+        <XAxis
+          dataKey="time"
+          stroke="hsl(var(--muted-foreground))"
+          fontSize={11}
+          tickLine={false}
+          minTickGap={40}
+          tickFormatter={(time) => format(new Date(time), intraday ? "h:mm a" : "MMM d")}
+        />
+        <YAxis
+          yAxisId="price"
+          orientation="right"
+          domain={["auto", "auto"]}
+          stroke="hsl(var(--muted-foreground))"
+          fontSize={11}
+          tickLine={false}
+          tickFormatter={formatPrice}
+          width={55}
+        />
+        {/* Volume sits in the bottom quarter, under the candles */}
+        <YAxis yAxisId="volume" hide domain={[0, (max: number) => max * 4]} />
+        <Tooltip content={<CandleTooltip intraday={intraday} />} cursor={{ fill: "hsl(var(--muted))", opacity: 0.3 }} />
+        <Bar yAxisId="volume" dataKey="volume" fill="hsl(var(--muted-foreground))" opacity={0.25} isAnimationActive={false} />
+        <Bar yAxisId="price" dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+        {overlayLines.map(({ key, series, line }) => (
+          <Line
+            key={key}
+            yAxisId="price"
+            dataKey={key}
+            stroke={INDICATOR_COLORS[series.name]}
+            strokeWidth={1.25}
+            strokeDasharray={series.name === "bollinger" && line !== "middle" ? "4 3" : undefined}
+            dot={false}
+            connectNulls={false}
+            isAnimationActive={false}
+          />
+        ))}
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,366 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, MessageSquare, Plus, Send, Square, Trash2, X } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAgentStream } from "@/hooks/use-agent-stream";
+import { Markdown } from "@/components/markdown";
+import { StockDetailModal } from "@/components/stock-detail-modal";
+import type { Conversation, Message, TradeProposal, TradeProposalStatus } from "@shared/schema";
+
+type ConversationWithMessages = Conversation & { messages: Message[] };
+
+interface SearchResult {
+  symbol: string;
+  description: string;
+}
+
+// The "$AAP" being typed at the end of the message, if any
+const PARTIAL_TICKER = /\$([A-Za-z][A-Za-z.]{0,9})$/;
+
+function ChatBubble({ role, content, onSymbolClick }: { role: string; content: string; onSymbolClick: (symbol: string) => void }) {
+  const isUser = role === "user";
+  return (
+    <div className={`flex ${isUser ? "justify-end" : "justify-start"}`}>
+      <div className={`max-w-[85%] rounded-lg px-3 py-2 ${isUser ? "bg-primary/10" : "bg-muted"}`}>
+        <Markdown onSymbolClick={onSymbolClick}>{content}</Markdown>
+      </div>
+    </div>
+  );
+}
+
+const STATUS_VARIANTS: Record<TradeProposalStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  executing: "default",
+  executed: "secondary",
+  rejected: "outline",
+  expired: "outline",
+  failed: "destructive",
+  invalid: "destructive",
+};
+
+function proposalsKey(conversationId: number | null) {
+  return ["/api/trade-proposals", conversationId];
+}
+
+// An order the assistant drafted. It only reaches the market through Confirm,
+// which runs it through the same checks as the trading panel.
+function ProposalCard({ proposal }: { proposal: TradeProposal }) {
+  const { toast } = useToast();
+
+  const decideMutation = useMutation({
+    mutationFn: async (decision: "confirm" | "reject") => {
+      const res = await apiRequest("POST", `/api/trade-proposals/${proposal.id}/${decision}`);
+      return (await res.json()) as TradeProposal;
+    },
+    onSuccess: (decided) => {
+      queryClient.invalidateQueries({ queryKey: proposalsKey(proposal.conversationId) });
+      if (decided.status === "executed") {
+        queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/orders?status=open"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/options"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/options/trades"] });
+        toast({ title: "Order Executed", description: decided.result ?? decided.summary });
+      } else if (decided.status !== "rejected") {
+        toast({
+          title: "Order Not Executed",
+          description: decided.result ?? undefined,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: proposalsKey(proposal.conversationId) });
+      toast({
+        title: "Confirmation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="rounded-md border border-border p-3 text-sm space-y-2" data-testid={`proposal-${proposal.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">{proposal.summary}</span>
+        <Badge variant={STATUS_VARIANTS[proposal.status]} className="text-xs capitalize">
+          {proposal.status}
+        </Badge>
+      </div>
+      {proposal.result && <p className="text-xs text-muted-foreground">{proposal.result}</p>}
+      {proposal.status === "pending" && (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={() => decideMutation.mutate("confirm")}
+            disabled={decideMutation.isPending}
+            data-testid={`button-confirm-proposal-${proposal.id}`}
+          >
+            <Check className="h-4 w-4 mr-1" />
+            Confirm
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => decideMutation.mutate("reject")}
+            disabled={decideMutation.isPending}
+            data-testid={`button-reject-proposal-${proposal.id}`}
+          >
+            <X className="h-4 w-4 mr-1" />
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Chat with the assistant about your own account. The server gives it a fresh
+// look at your portfolio on every message; write tickers as $AAPL to pull in
+// their quotes and to get a link to the stock in the reply. Asking it to trade
+// produces an order card to confirm or reject.
+export function ChatPanel() {
+  const { toast } = useToast();
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [input, setInput] = useState("");
+  const [pending, setPending] = useState<string | null>(null);
+  const [detailSymbol, setDetailSymbol] = useState<string | null>(null);
+  const [tickerQuery, setTickerQuery] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const reply = useAgentStream<Message>(`/api/conversations/${activeId}/messages`);
+
+  useEffect(() => {
+    const partial = input.match(PARTIAL_TICKER)?.[1] ?? "";
+    const timer = setTimeout(() => setTickerQuery(partial), 300);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const { data: tickerResults } = useQuery<SearchResult[]>({
+    queryKey: ["/api/search", tickerQuery],
+    queryFn: async () => {
+      const res = await fetch(`/api/search?q=${encodeURIComponent(tickerQuery)}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Search failed");
+      return res.json();
+    },
+    enabled: tickerQuery.length >= 1,
+  });
+  const showTickers = PARTIAL_TICKER.test(input) && tickerQuery.length >= 1 && (tickerResults?.length ?? 0) > 0;
+
+  const insertTicker = (symbol: string) => {
+    setInput((current) => current.replace(PARTIAL_TICKER, `$${symbol} `));
+    setTickerQuery("");
+  };
+
+  const { data: conversations } = useQuery<Conversation[]>({
+    queryKey: ["/api/conversations"],
+  });
+
+  const { data: conversation } = useQuery<ConversationWithMessages>({
+    queryKey: ["/api/conversations", activeId],
+    enabled: activeId !== null,
+  });
+
+  const { data: proposals } = useQuery<TradeProposal[]>({
+    queryKey: proposalsKey(activeId),
+    queryFn: async () => {
+      const res = await fetch(`/api/trade-proposals?conversationId=${activeId}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to load proposals");
+      return res.json();
+    },
+    enabled: activeId !== null,
+  });
+
+  // Once a reply has finished, the saved messages replace the streamed copy
+  useEffect(() => {
+    if (pending === null || reply.isStreaming || activeId === null) return;
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeId] }),
+      queryClient.invalidateQueries({ queryKey: proposalsKey(activeId) }),
+    ]).then(() => setPending(null));
+  }, [pending, reply.isStreaming, activeId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [conversation?.messages.length, proposals?.length, reply.text, pending]);
+
+  const send = async () => {
+    const content = input.trim();
+    if (!content || reply.isStreaming) return;
+
+    let id = activeId;
+    if (id === null) {
+      try {
+        const res = await apiRequest("POST", "/api/conversations", { title: content.slice(0, 60) });
+        const created = (await res.json()) as Conversation;
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+        id = created.id;
+        setActiveId(id);
+      } catch (error) {
+        toast({
+          title: "Chat Failed",
+          description: error instanceof Error ? error.message : "Could not start a conversation",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    setInput("");
+    setPending(content);
+    reply.start({ content }, `/api/conversations/${id}/messages`);
+  };
+
+  const remove = async () => {
+    if (activeId === null) return;
+    try {
+      await apiRequest("DELETE", `/api/conversations/${activeId}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      setActiveId(null);
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Could not delete the conversation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const messages = activeId !== null ? conversation?.messages ?? [] : [];
+
+  // Proposals are saved just after the reply that made them, so sorting by
+  // time places each card under its message
+  const timeline = [
+    ...messages.map((message) => ({ at: new Date(message.createdAt).getTime(), message })),
+    ...(activeId !== null ? proposals ?? [] : []).map((proposal) => ({ at: proposal.createdAt, proposal })),
+  ].sort((a, b) => a.at - b.at);
+
+  return (
+    <Card className="mt-6" data-testid="chat-panel">
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <MessageSquare className="h-5 w-5 text-primary" />
+              AI Chat
+            </CardTitle>
+            <CardDescription>
+              Ask about your portfolio or any stock. Mention tickers as $AAPL.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={activeId !== null ? String(activeId) : ""}
+              onValueChange={(value) => setActiveId(parseInt(value))}
+              disabled={reply.isStreaming}
+            >
+              <SelectTrigger className="w-48" data-testid="select-conversation">
+                <SelectValue placeholder="Past conversations" />
+              </SelectTrigger>
+              <SelectContent>
+                {conversations?.map((c) => (
+                  <SelectItem key={c.id} value={String(c.id)}>{c.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={() => setActiveId(null)}
+              disabled={reply.isStreaming}
+              data-testid="button-new-chat"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={remove}
+              disabled={activeId === null || reply.isStreaming}
+              data-testid="button-delete-chat"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="h-80 overflow-y-auto space-y-3 rounded-md border border-border p-3" data-testid="chat-messages">
+          {messages.length === 0 && pending === null && (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              Start a conversation, e.g. "How concentrated is my portfolio?" or "Compare $AAPL and $MSFT".
+            </p>
+          )}
+          {timeline.map((item) => "message" in item ? (
+            <ChatBubble key={item.message.id} role={item.message.role} content={item.message.content} onSymbolClick={setDetailSymbol} />
+          ) : (
+            <ProposalCard key={item.proposal.id} proposal={item.proposal} />
+          ))}
+          {pending !== null && (
+            <>
+              <ChatBubble role="user" content={pending} onSymbolClick={setDetailSymbol} />
+              <ChatBubble role="assistant" content={reply.text || "Thinking..."} onSymbolClick={setDetailSymbol} />
+              {reply.proposals.map((proposal) => (
+                <ProposalCard key={proposal.id} proposal={proposal} />
+              ))}
+            </>
+          )}
+          {reply.error && <p className="text-sm text-destructive">{reply.error}</p>}
+          <div ref={bottomRef} />
+        </div>
+
+        <div className="relative flex gap-2">
+          {showTickers && (
+            <div className="absolute bottom-full z-50 mb-1 w-full max-h-48 overflow-y-auto rounded-md border border-border bg-popover shadow-lg">
+              {tickerResults!.slice(0, 6).map((result) => (
+                <button
+                  key={result.symbol}
+                  type="button"
+                  className="w-full px-3 py-2 text-left hover-elevate flex justify-between items-center"
+                  onClick={() => insertTicker(result.symbol)}
+                  data-testid={`chat-ticker-${result.symbol}`}
+                >
+                  <span className="font-mono font-semibold">${result.symbol}</span>
+                  <span className="text-sm text-muted-foreground truncate ml-2">{result.description}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <Textarea
+            placeholder="Ask the assistant..."
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                send();
+              }
+            }}
+            className="min-h-[44px] flex-1"
+            data-testid="input-chat-message"
+          />
+          {reply.isStreaming ? (
+            <Button variant="outline" onClick={reply.stop} data-testid="button-stop-chat">
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button onClick={send} disabled={!input.trim()} data-testid="button-send-chat">
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+      <StockDetailModal symbol={detailSymbol} onClose={() => setDetailSymbol(null)} />
+    </Card>
+  );
+}
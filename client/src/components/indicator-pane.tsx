@@ -0,0 +1,89 @@
+import { ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, ReferenceLine, ResponsiveContainer, Cell } from "recharts";
+import { format } from "date-fns";
+import type { IndicatorName, IndicatorSeries } from "@shared/schema";
+
+export const INDICATOR_COLORS: Record<IndicatorName, string> = {
+  sma: "hsl(38, 92%, 50%)",
+  ema: "hsl(199, 89%, 48%)",
+  bollinger: "hsl(262, 83%, 63%)",
+  vwap: "hsl(330, 81%, 60%)",
+  rsi: "hsl(262, 83%, 63%)",
+  macd: "hsl(199, 89%, 48%)",
+  atr: "hsl(38, 92%, 50%)",
+  obv: "hsl(173, 80%, 40%)",
+};
+
+const SIGNAL_COLOR = "hsl(38, 92%, 50%)";
+const GAIN_COLOR = "hsl(142, 70%, 45%)";
+const LOSS_COLOR = "hsl(0, 72%, 51%)";
+
+interface IndicatorPaneProps {
+  series: IndicatorSeries;
+  times: number[];
+  intraday?: boolean;
+  height?: number;
+}
+
+function formatValue(value: number): string {
+  if (Math.abs(value) >= 10000) {
+    return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(value);
+  }
+  return value.toFixed(2);
+}
+
+// A separate chart under the price chart for indicators on their own scale
+export function IndicatorPane({ series, times, intraday = false, height = 90 }: IndicatorPaneProps) {
+  const data = times.map((time, i) => ({
+    time,
+    ...Object.fromEntries(Object.entries(series.lines).map(([line, values]) => [line, values[i]])),
+  }));
+  const isRsi = series.name === "rsi";
+  const isMacd = series.name === "macd";
+
+  return (
+    <div data-testid={`indicator-pane-${series.name}`}>
+      <div className="text-[10px] font-mono uppercase text-muted-foreground">{series.id.replace(/:/g, " ")}</div>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={data} margin={{ top: 2, right: 5, left: 0, bottom: 0 }} barCategoryGap={1}>
+          <XAxis dataKey="time" hide />
+          <YAxis
+            orientation="right"
+            domain={isRsi ? [0, 100] : ["auto", "auto"]}
+            ticks={isRsi ? [30, 70] : undefined}
+            stroke="hsl(var(--muted-foreground))"
+            fontSize={10}
+            tickLine={false}
+            tickFormatter={formatValue}
+            width={55}
+          />
+          <Tooltip
+            labelFormatter={(time) => format(new Date(time as number), intraday ? "MMM d, h:mm a" : "MMM d, yyyy")}
+            formatter={(value: number, name: string) => [formatValue(value), name]}
+            contentStyle={{ fontSize: 11 }}
+          />
+          {isRsi && (
+            <>
+              <ReferenceLine y={70} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+              <ReferenceLine y={30} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+            </>
+          )}
+          {isMacd ? (
+            <>
+              <Bar dataKey="histogram" isAnimationActive={false}>
+                {data.map((_, i) => (
+                  <Cell key={i} fill={(series.lines.histogram[i] ?? 0) >= 0 ? GAIN_COLOR : LOSS_COLOR} opacity={0.5} />
+                ))}
+              </Bar>
+              <Line dataKey="macd" stroke={INDICATOR_COLORS.macd} strokeWidth={1.25} dot={false} isAnimationActive={false} />
+              <Line dataKey="signal" stroke={SIGNAL_COLOR} strokeWidth={1.25} dot={false} isAnimationActive={false} />
+            </>
+          ) : (
+            Object.keys(series.lines).map((line) => (
+              <Line key={line} dataKey={line} stroke={INDICATOR_COLORS[series.name]} strokeWidth={1.25} dot={false} isAnimationActive={false} />
+            ))
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -80,6 +80,7 @@ export function Leaderboard() {
               <p className="font-medium truncate">{user.username}</p>
               <p className="text-sm text-muted-foreground">
                 {user.tradesCount} trades
+                {user.botTradesCount > 0 && ` · ${user.botTradesCount} by bots`}
               </p>
             </div>
             
@@ -0,0 +1,108 @@
+import { Fragment, type ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "paragraph"; text: string };
+
+type SymbolClick = ((symbol: string) => void) | undefined;
+
+// Bold, italics, inline code and, given a click handler, $TICKER cashtags;
+// anything else is left as written
+function renderInline(text: string, onSymbolClick: SymbolClick): ReactNode[] {
+  return text.split(/(\*\*[^*]+\*\*|`[^`]+`|\*[^*\s][^*]*\*|\$[A-Z]{1,5}(?:\.[A-Z])?\b)/g).map((part, i) => {
+    if (onSymbolClick && /^\$[A-Z]/.test(part)) {
+      const symbol = part.slice(1);
+      return (
+        <button
+          key={i}
+          type="button"
+          onClick={() => onSymbolClick(symbol)}
+          className="font-mono font-semibold text-primary hover:underline"
+          data-testid={`link-symbol-${symbol}`}
+        >
+          {part}
+        </button>
+      );
+    }
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={i}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+      return <code key={i} className="rounded bg-muted px-1 font-mono text-xs">{part.slice(1, -1)}</code>;
+    }
+    if (part.startsWith("*") && part.endsWith("*") && part.length > 2) {
+      return <em key={i}>{part.slice(1, -1)}</em>;
+    }
+    return <Fragment key={i}>{part}</Fragment>;
+  });
+}
+
+function parseBlocks(source: string): Block[] {
+  const blocks: Block[] = [];
+  source.split("\n").forEach((raw) => {
+    const line = raw.trimEnd();
+    const last = blocks[blocks.length - 1];
+    const heading = line.match(/^(#{1,4})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*•]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+
+    if (!line.trim()) {
+      blocks.push({ type: "paragraph", text: "" });
+    } else if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+    } else if (bullet || numbered) {
+      const ordered = !!numbered;
+      const text = (bullet ?? numbered)![1];
+      if (last?.type === "list" && last.ordered === ordered) {
+        last.items.push(text);
+      } else {
+        blocks.push({ type: "list", ordered, items: [text] });
+      }
+    } else if (last?.type === "paragraph" && last.text) {
+      last.text += "\n" + line;
+    } else if (last?.type === "list") {
+      // An indented continuation of the previous list item
+      last.items[last.items.length - 1] += " " + line.trim();
+    } else {
+      blocks.push({ type: "paragraph", text: line });
+    }
+  });
+  return blocks.filter((block) => block.type !== "paragraph" || block.text);
+}
+
+interface MarkdownProps {
+  children: string;
+  className?: string;
+  onSymbolClick?: (symbol: string) => void;
+}
+
+// A small markdown renderer for AI output. It copes with half-written input,
+// so streamed text can be re-rendered as each token arrives.
+export function Markdown({ children, className, onSymbolClick }: MarkdownProps) {
+  return (
+    <div className={cn("space-y-2 text-sm leading-relaxed", className)}>
+      {parseBlocks(children).map((block, i) => {
+        switch (block.type) {
+          case "heading":
+            return (
+              <p key={i} className={cn("font-semibold", block.level <= 2 && "text-base")}>
+                {renderInline(block.text, onSymbolClick)}
+              </p>
+            );
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List key={i} className={cn("space-y-1 pl-5", block.ordered ? "list-decimal" : "list-disc")}>
+                {block.items.map((item, j) => <li key={j}>{renderInline(item, onSymbolClick)}</li>)}
+              </List>
+            );
+          }
+          case "paragraph":
+            return <p key={i} className="whitespace-pre-wrap">{renderInline(block.text, onSymbolClick)}</p>;
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ListOrdered, X } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Order } from "@shared/schema";
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+const ORDER_TYPE_LABELS: Record<Order["orderType"], string> = {
+  limit: "LMT",
+  stop: "STP",
+  stop_limit: "STP LMT",
+};
+
+function describePrices(order: Order): string {
+  const parts: string[] = [];
+  if (order.stopPrice !== null) {
+    parts.push(`stop ${formatCurrency(order.stopPrice)}`);
+  }
+  if (order.limitPrice !== null) {
+    parts.push(`limit ${formatCurrency(order.limitPrice)}`);
+  }
+  return parts.join(" / ");
+}
+
+export function OpenOrders() {
+  const { toast } = useToast();
+
+  const { data: orders, isLoading } = useQuery<Order[]>({
+    queryKey: ["/api/orders?status=open"],
+    refetchInterval: 15000, // Matches the server-side matcher cadence
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/orders/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders?status=open"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      toast({ title: "Order Cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Cancel Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-4 w-24" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (!orders || orders.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2" data-testid="open-orders">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <ListOrdered className="h-4 w-4" />
+        Open Orders
+        <Badge variant="secondary" className="ml-auto font-mono">
+          {orders.length}
+        </Badge>
+      </div>
+      {orders.map((order) => (
+        <div
+          key={order.id}
+          className="flex justify-between items-center p-2 rounded-md bg-muted/30 text-sm"
+          data-testid={`order-${order.id}`}
+        >
+          <div>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant={order.side === "buy" ? "default" : "destructive"} className="text-xs">
+                {order.side.toUpperCase()}
+              </Badge>
+              <span className="font-mono font-semibold">{order.quantity} {order.symbol}</span>
+              <Badge variant="outline" className="text-xs font-mono">
+                {ORDER_TYPE_LABELS[order.orderType]}
+              </Badge>
+            </div>
+            <div className="text-xs text-muted-foreground mt-0.5">
+              {describePrices(order)} · {order.timeInForce.toUpperCase()}
+              {order.triggered && " · triggered"}
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => cancelMutation.mutate(order.id)}
+            disabled={cancelMutation.isPending}
+            data-testid={`button-cancel-order-${order.id}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
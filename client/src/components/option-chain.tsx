@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { OptionChain as OptionChainData, OptionChainEntry, OptionType } from "@shared/schema";
+
+export interface OptionContractSelection {
+  optionType: OptionType;
+  strikePrice: number;
+  expirationDate: string;
+}
+
+interface OptionChainProps {
+  symbol: string;
+  selected?: OptionContractSelection;
+  onSelect: (contract: OptionContractSelection) => void;
+}
+
+function formatPrice(value: number): string {
+  return value.toFixed(2);
+}
+
+// Expiration dates are calendar days; parse at noon so no time zone shifts them
+function formatExpiration(date: string): string {
+  return format(new Date(`${date}T12:00:00`), "MMM d, yyyy");
+}
+
+export function OptionChain({ symbol, selected, onSelect }: OptionChainProps) {
+  const [expiration, setExpiration] = useState<string | undefined>(undefined);
+
+  const { data: chain, isLoading } = useQuery<OptionChainData>({
+    queryKey: [expiration
+      ? `/api/options/chain/${encodeURIComponent(symbol)}?expiration=${expiration}`
+      : `/api/options/chain/${encodeURIComponent(symbol)}`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-9 w-full" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (!chain) {
+    return null;
+  }
+
+  const isSelected = (optionType: OptionType, strikePrice: number) =>
+    selected?.optionType === optionType &&
+    selected.strikePrice === strikePrice &&
+    selected.expirationDate === chain.expirationDate;
+
+  const renderCell = (optionType: OptionType, strikePrice: number, entry: OptionChainEntry) => (
+    <button
+      type="button"
+      onClick={() => onSelect({ optionType, strikePrice, expirationDate: chain.expirationDate })}
+      className={`w-full grid grid-cols-3 gap-1 px-1 py-1 rounded font-mono hover-elevate ${
+        isSelected(optionType, strikePrice) ? "bg-primary/15" : ""
+      }`}
+      data-testid={`chain-${optionType}-${strikePrice}`}
+    >
+      <span>{formatPrice(entry.bid)}</span>
+      <span>{formatPrice(entry.ask)}</span>
+      <span className="text-muted-foreground">{entry.greeks.delta.toFixed(2)}</span>
+    </button>
+  );
+
+  return (
+    <div className="space-y-2" data-testid="option-chain">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-sm">Option Chain</Label>
+        <Select value={chain.expirationDate} onValueChange={setExpiration}>
+          <SelectTrigger className="w-40" data-testid="select-chain-expiration">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {chain.expirations.map((date) => (
+              <SelectItem key={date} value={date}>
+                {formatExpiration(date)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_1fr] gap-1 text-xs text-muted-foreground text-center">
+        <div className="grid grid-cols-3 gap-1">
+          <span>Bid</span>
+          <span>Ask</span>
+          <span>Δ</span>
+        </div>
+        <span className="w-16">Strike</span>
+        <div className="grid grid-cols-3 gap-1">
+          <span>Bid</span>
+          <span>Ask</span>
+          <span>Δ</span>
+        </div>
+      </div>
+
+      <ScrollArea className="h-[220px]">
+        <div className="space-y-0.5 text-xs text-center">
+          {chain.strikes.map((row) => {
+            const callInTheMoney = row.strikePrice < chain.underlyingPrice;
+            return (
+              <div key={row.strikePrice} className="grid grid-cols-[1fr_auto_1fr] gap-1 items-center">
+                <div className={callInTheMoney ? "bg-muted/50 rounded" : ""}>
+                  {renderCell("call", row.strikePrice, row.call)}
+                </div>
+                <span className="w-16 font-mono font-semibold">{formatPrice(row.strikePrice)}</span>
+                <div className={!callInTheMoney ? "bg-muted/50 rounded" : ""}>
+                  {renderCell("put", row.strikePrice, row.put)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Calls</span>
+        <span>IV {(chain.impliedVolatility * 100).toFixed(1)}%</span>
+        <span>Puts</span>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,21 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { TrendingUp, TrendingDown, Layers } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
-import type { OptionPosition } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TrendingUp, TrendingDown, Layers, MoreVertical } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { PayoffChart } from "@/components/payoff-chart";
+import type { OptionPosition, OptionSettlement, OptionStrategy, StrategyType } from "@shared/schema";
 import { format } from "date-fns";
 
 function formatCurrency(value: number): string {
@@ -15,11 +27,100 @@ function formatCurrency(value: number): string {
   }).format(value);
 }
 
+const STRATEGY_LABELS: Record<StrategyType, string> = {
+  vertical: "VERTICAL",
+  straddle: "STRADDLE",
+  strangle: "STRANGLE",
+  iron_condor: "IRON CONDOR",
+  butterfly: "BUTTERFLY",
+  calendar: "CALENDAR",
+};
+
+function isInTheMoney(option: OptionPosition): boolean {
+  if (option.underlyingPrice === null) return false;
+  return option.optionType === "call"
+    ? option.underlyingPrice > option.strikePrice
+    : option.underlyingPrice < option.strikePrice;
+}
+
 export function OptionsPositions() {
-  const { data: options, isLoading } = useQuery<OptionPosition[]>({
+  const { toast } = useToast();
+
+  const { data: allOptions, isLoading } = useQuery<OptionPosition[]>({
     queryKey: ["/api/options"],
   });
 
+  const { data: strategies } = useQuery<OptionStrategy[]>({
+    queryKey: ["/api/options/strategies"],
+  });
+
+  // Strategy legs are listed under their strategy instead
+  const options = allOptions?.filter((o) => !o.strategyId);
+  const positionCount = (options?.length ?? 0) + (strategies?.length ?? 0);
+
+  const exerciseMutation = useMutation({
+    mutationFn: async ({ id, settlement }: { id: string; settlement: OptionSettlement }) => {
+      return apiRequest("POST", `/api/options/${id}/exercise`, { settlement });
+    },
+    onSuccess: (_, { settlement }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/options"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/options/trades"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
+      toast({
+        title: "Option Exercised",
+        description: settlement === "cash" ? "Settled in cash at intrinsic value" : "Shares delivered at the strike price",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Exercise Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeStrategyMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/options/strategies/${id}/close`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/options/strategies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/options"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/options/trades"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      toast({
+        title: "Strategy Closed",
+        description: "Every leg was closed at its current mark",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Close Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const settlementMutation = useMutation({
+    mutationFn: async ({ id, settlement }: { id: string; settlement: OptionSettlement }) => {
+      return apiRequest("PATCH", `/api/options/${id}`, { settlement });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/options"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoading) {
     return (
       <Card>
@@ -53,15 +154,15 @@ export function OptionsPositions() {
         <CardTitle className="text-lg flex items-center gap-2">
           <Layers className="h-5 w-5" />
           Options Positions
-          {options && options.length > 0 && (
+          {positionCount > 0 && (
             <Badge variant="secondary" className="ml-auto font-mono">
-              {options.length}
+              {positionCount}
             </Badge>
           )}
         </CardTitle>
       </CardHeader>
       <CardContent>
-        {!options || options.length === 0 ? (
+        {positionCount === 0 ? (
           <div className="text-center py-6 text-muted-foreground">
             <Layers className="h-10 w-10 mx-auto mb-2 opacity-30" />
             <p>No options positions</p>
@@ -69,9 +170,75 @@ export function OptionsPositions() {
           </div>
         ) : (
           <div className="space-y-2">
-            {options.map((option) => {
+            {strategies?.map((strategy) => {
+              const value = strategy.legs.reduce((sum, l) => sum + l.currentPremium * l.contracts * 100, 0);
+              const profitLoss = strategy.legs.reduce((sum, l) => sum + l.profitLoss, 0);
+              const isPositive = profitLoss >= 0;
+              const isDebit = strategy.netPremium >= 0;
+              return (
+                <div
+                  key={strategy.id}
+                  className="p-3 rounded-md bg-muted/30 space-y-2"
+                  data-testid={`strategy-${strategy.id}`}
+                >
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-mono font-semibold">{strategy.symbol}</span>
+                        <Badge variant="secondary" className="text-xs">
+                          {STRATEGY_LABELS[strategy.strategyType]}
+                        </Badge>
+                        <Badge variant="outline" className="text-xs font-mono">
+                          {strategy.quantity}x
+                        </Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Net {isDebit ? "debit" : "credit"}: {formatCurrency(Math.abs(strategy.netPremium))} per share
+                        {strategy.collateral > 0 && ` | Collateral: ${formatCurrency(strategy.collateral)}`}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-mono font-medium">{formatCurrency(value)}</div>
+                      <div className={`text-sm flex items-center justify-end gap-1 ${isPositive ? "text-gain" : "text-loss"}`}>
+                        {isPositive ? (
+                          <TrendingUp className="h-3 w-3" />
+                        ) : (
+                          <TrendingDown className="h-3 w-3" />
+                        )}
+                        <span className="font-mono">
+                          {isPositive ? "+" : ""}{formatCurrency(profitLoss)}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="space-y-0.5">
+                    {strategy.legs.map((l) => (
+                      <div key={l.id} className="flex justify-between text-xs font-mono text-muted-foreground">
+                        <span>
+                          {l.contracts > 0 ? "+" : ""}{l.contracts} {format(new Date(l.expirationDate), "MMM d")} {formatCurrency(l.strikePrice)} {l.optionType === "call" ? "C" : "P"}
+                        </span>
+                        <span>{formatCurrency(l.currentPremium)}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <PayoffChart payoff={strategy.payoff} underlyingPrice={strategy.legs[0]?.underlyingPrice} height={120} />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => closeStrategyMutation.mutate(strategy.id)}
+                    disabled={closeStrategyMutation.isPending}
+                    data-testid={`button-close-strategy-${strategy.id}`}
+                  >
+                    Close Strategy
+                  </Button>
+                </div>
+              );
+            })}
+            {options?.map((option) => {
               const isPositive = option.profitLoss >= 0;
               const isCall = option.optionType === "call";
+              const canExercise = option.contracts > 0 && isInTheMoney(option);
               return (
                 <div
                   key={option.id}
@@ -84,31 +251,77 @@ export function OptionsPositions() {
                       <Badge variant={isCall ? "default" : "destructive"} className="text-xs">
                         {isCall ? "CALL" : "PUT"}
                       </Badge>
+                      {option.contracts < 0 && (
+                        <Badge variant="outline" className="text-xs">
+                          {isCall ? "COVERED" : "CASH-SECURED"}
+                        </Badge>
+                      )}
                       <Badge variant="outline" className="text-xs font-mono">
-                        {option.contracts} contracts
+                        {Math.abs(option.contracts)} {option.contracts < 0 ? "written" : "contracts"}
                       </Badge>
                     </div>
                     <div className="text-sm text-muted-foreground mt-1">
                       Strike: {formatCurrency(option.strikePrice)} | Exp: {format(new Date(option.expirationDate), "MMM d, yyyy")}
                     </div>
                     <div className="text-xs text-muted-foreground mt-0.5">
-                      Premium: {formatCurrency(option.premium)} per share
+                      {option.contracts < 0 ? "Received" : "Paid"}: {formatCurrency(option.premium)} | Mark: {formatCurrency(option.currentPremium)} per share
                     </div>
+                    {option.greeks && (
+                      <div className="text-xs text-muted-foreground font-mono mt-0.5" data-testid={`option-greeks-${option.id}`}>
+                        Δ {option.greeks.delta.toFixed(2)} · Γ {option.greeks.gamma.toFixed(3)} · Θ {option.greeks.theta.toFixed(3)} · ν {option.greeks.vega.toFixed(3)}
+                      </div>
+                    )}
                   </div>
-                  <div className="text-right">
-                    <div className="font-mono font-medium">
-                      {formatCurrency(option.currentPremium * option.contracts * 100)}
-                    </div>
-                    <div className={`text-sm flex items-center justify-end gap-1 ${isPositive ? "text-gain" : "text-loss"}`}>
-                      {isPositive ? (
-                        <TrendingUp className="h-3 w-3" />
-                      ) : (
-                        <TrendingDown className="h-3 w-3" />
-                      )}
-                      <span className="font-mono">
-                        {isPositive ? "+" : ""}{formatCurrency(option.profitLoss)}
-                      </span>
+                  <div className="flex items-start gap-1">
+                    <div className="text-right">
+                      <div className="font-mono font-medium">
+                        {formatCurrency(option.currentPremium * Math.abs(option.contracts) * 100)}
+                      </div>
+                      <div className={`text-sm flex items-center justify-end gap-1 ${isPositive ? "text-gain" : "text-loss"}`}>
+                        {isPositive ? (
+                          <TrendingUp className="h-3 w-3" />
+                        ) : (
+                          <TrendingDown className="h-3 w-3" />
+                        )}
+                        <span className="font-mono">
+                          {isPositive ? "+" : ""}{formatCurrency(option.profitLoss)}
+                        </span>
+                      </div>
                     </div>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" data-testid={`button-option-menu-${option.id}`}>
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          disabled={!canExercise || exerciseMutation.isPending}
+                          onClick={() => exerciseMutation.mutate({ id: option.id, settlement: "cash" })}
+                          data-testid={`button-exercise-cash-${option.id}`}
+                        >
+                          Exercise for cash
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          disabled={!canExercise || exerciseMutation.isPending}
+                          onClick={() => exerciseMutation.mutate({ id: option.id, settlement: "deliver" })}
+                          data-testid={`button-exercise-deliver-${option.id}`}
+                        >
+                          Exercise for shares
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuCheckboxItem
+                          checked={option.settlement === "deliver"}
+                          onCheckedChange={(checked) => settlementMutation.mutate({
+                            id: option.id,
+                            settlement: checked ? "deliver" : "cash",
+                          })}
+                          data-testid={`toggle-deliver-at-expiry-${option.id}`}
+                        >
+                          Deliver shares at expiry
+                        </DropdownMenuCheckboxItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 </div>
               );
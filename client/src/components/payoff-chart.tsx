@@ -0,0 +1,82 @@
+import { useId } from "react";
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import type { PayoffPoint } from "@shared/schema";
+
+interface PayoffChartProps {
+  payoff: PayoffPoint[];
+  underlyingPrice?: number | null;
+  height?: number;
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+// P/L at expiry across underlying prices, green above breakeven and red below
+export function PayoffChart({ payoff, underlyingPrice, height = 160 }: PayoffChartProps) {
+  // Gradients are split at each chart's own zero line, so ids must be unique
+  const id = useId().replace(/:/g, "");
+  const values = payoff.map((p) => p.value);
+  const max = Math.max(...values, 0);
+  const min = Math.min(...values, 0);
+  // Where zero sits in the gradient, measured from the top of the chart
+  const zeroOffset = max === min ? 0.5 : max / (max - min);
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <AreaChart data={payoff} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+        <defs>
+          <linearGradient id={`payoffFill${id}`} x1="0" y1="0" x2="0" y2="1">
+            <stop offset={zeroOffset} stopColor="hsl(142, 70%, 45%)" stopOpacity={0.3} />
+            <stop offset={zeroOffset} stopColor="hsl(0, 72%, 51%)" stopOpacity={0.3} />
+          </linearGradient>
+          <linearGradient id={`payoffStroke${id}`} x1="0" y1="0" x2="0" y2="1">
+            <stop offset={zeroOffset} stopColor="hsl(142, 70%, 45%)" />
+            <stop offset={zeroOffset} stopColor="hsl(0, 72%, 51%)" />
+          </linearGradient>
+        </defs>
+        <XAxis
+          dataKey="price"
+          type="number"
+          domain={["dataMin", "dataMax"]}
+          stroke="hsl(var(--muted-foreground))"
+          fontSize={11}
+          tickLine={false}
+          tickFormatter={(value) => `$${Math.round(value)}`}
+        />
+        <YAxis
+          stroke="hsl(var(--muted-foreground))"
+          fontSize={11}
+          tickLine={false}
+          tickFormatter={formatCurrency}
+          width={60}
+        />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: "hsl(var(--card))",
+            borderColor: "hsl(var(--border))",
+            borderRadius: "6px",
+          }}
+          labelFormatter={(value) => `Underlying $${Number(value).toFixed(2)}`}
+          formatter={(value: number) => [formatCurrency(value), "P/L at expiry"]}
+        />
+        <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+        {underlyingPrice != null && (
+          <ReferenceLine x={underlyingPrice} stroke="hsl(var(--primary))" strokeDasharray="3 3" />
+        )}
+        <Area
+          type="linear"
+          dataKey="value"
+          stroke={`url(#payoffStroke${id})`}
+          strokeWidth={2}
+          fill={`url(#payoffFill${id})`}
+        />
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+}
@@ -46,6 +46,16 @@ export function PortfolioSummary({ portfolio, isLoading }: PortfolioSummaryProps
     return null;
   }
 
+  const { margin, buyingPower } = portfolio;
+  let buyingPowerSubtitle = "Available to trade";
+  if (margin.marginCall) {
+    buyingPowerSubtitle = `Margin call: equity ${formatCurrency(margin.equity)} below ${formatCurrency(margin.maintenanceRequirement)} required`;
+  } else if (margin.debitBalance > 0) {
+    buyingPowerSubtitle = `${formatCurrency(margin.debitBalance)} borrowed on margin`;
+  } else if (buyingPower.reserved > 0) {
+    buyingPowerSubtitle = `${formatCurrency(buyingPower.cash)} cash, ${formatCurrency(buyingPower.reserved)} reserved for orders and written puts`;
+  }
+
   const stats = [
     {
       title: "Total Portfolio Value",
@@ -56,9 +66,9 @@ export function PortfolioSummary({ portfolio, isLoading }: PortfolioSummaryProps
       icon: Wallet,
     },
     {
-      title: "Cash Balance",
-      value: formatCurrency(portfolio.cash),
-      subtitle: "Available to trade",
+      title: "Buying Power",
+      value: formatCurrency(buyingPower.available),
+      subtitle: buyingPowerSubtitle,
       icon: DollarSign,
     },
     {
@@ -4,6 +4,7 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { TrendingUp, TrendingDown, Briefcase, ArrowRight } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import { usePriceStream, usePriceStreamConnected } from "@/hooks/use-price-stream";
 import type { Position, StockQuote } from "@shared/schema";
 
 interface PositionsListProps {
@@ -26,10 +27,12 @@ function formatPercent(value: number): string {
 }
 
 export function PositionsList({ onSelectStock, onOpenDetail }: PositionsListProps) {
+  const streaming = usePriceStreamConnected();
   const { data: positions, isLoading } = useQuery<Position[]>({
     queryKey: ["/api/positions"],
-    refetchInterval: 30000, // Refresh every 30 seconds
+    refetchInterval: streaming ? false : 30000,
   });
+  usePriceStream(positions?.map((p) => p.symbol) ?? []);
 
   const handleSelectPosition = async (position: Position) => {
     if (onOpenDetail) {
@@ -102,6 +105,7 @@ export function PositionsList({ onSelectStock, onOpenDetail }: PositionsListProp
           <div className="space-y-2">
             {positions.map((position) => {
               const isPositive = position.profitLoss >= 0;
+              const isShort = position.quantity < 0;
               return (
                 <div
                   key={position.id}
@@ -113,11 +117,19 @@ export function PositionsList({ onSelectStock, onOpenDetail }: PositionsListProp
                     <div className="flex items-center gap-2">
                       <span className="font-mono font-semibold">{position.symbol}</span>
                       <Badge variant="outline" className="text-xs font-mono">
-                        {position.quantity} shares
+                        {Math.abs(position.quantity)} shares
                       </Badge>
+                      {isShort && (
+                        <Badge variant="destructive" className="text-xs">
+                          SHORT
+                        </Badge>
+                      )}
                     </div>
                     <div className="text-sm text-muted-foreground mt-0.5">
-                      Avg: {formatCurrency(position.averagePrice)}
+                      {isShort ? "Sold" : "Avg"}: {formatCurrency(position.averagePrice)}
+                      {isShort && position.borrowFees > 0 && (
+                        <span className="text-xs"> · Borrow fees: {formatCurrency(position.borrowFees)}</span>
+                      )}
                     </div>
                   </div>
                   <div className="text-right">
@@ -80,6 +80,11 @@ export function SocialFeed() {
                 <Badge variant={trade.type === "buy" ? "default" : "secondary"} className="text-xs">
                   {trade.type.toUpperCase()}
                 </Badge>
+                {trade.botId && (
+                  <Badge variant="outline" className="text-xs">
+                    BOT
+                  </Badge>
+                )}
               </div>
               <p className="text-sm text-muted-foreground">
                 {trade.quantity} {trade.symbol} @ {formatCurrency(trade.price)}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import {
   Dialog,
   DialogContent,
@@ -8,10 +8,14 @@ import {
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { TrendingUp, TrendingDown, Calendar, DollarSign, BarChart3, Clock, X } from "lucide-react";
+import { TrendingUp, TrendingDown, Calendar, DollarSign, BarChart3, CandlestickChart as CandlestickIcon, Clock, X } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import type { StockQuote, Trade, Position, CompanyProfile } from "@shared/schema";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CandlestickChart } from "@/components/candlestick-chart";
+import { IndicatorPane } from "@/components/indicator-pane";
+import { usePriceStream } from "@/hooks/use-price-stream";
+import type { StockQuote, Trade, Position, CompanyProfile, Candle, CandleResolution, IndicatorResponse } from "@shared/schema";
 
 interface StockDetailModalProps {
   symbol: string | null;
@@ -41,18 +45,51 @@ function formatDate(timestamp: number): string {
   });
 }
 
-interface PerformanceStats {
-  oneDay: number;
-  oneWeek: number;
-  oneMonth: number;
-  threeMonth: number;
-  sixMonth: number;
-  oneYear: number;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Timeframe = "1D" | "1W" | "1M" | "3M" | "1Y" | "5Y";
+
+const TIMEFRAMES: Record<Timeframe, { resolution: CandleResolution; days: number }> = {
+  "1D": { resolution: "5", days: 1 },
+  "1W": { resolution: "60", days: 7 },
+  "1M": { resolution: "D", days: 30 },
+  "3M": { resolution: "D", days: 91 },
+  "1Y": { resolution: "D", days: 365 },
+  "5Y": { resolution: "W", days: 5 * 365 },
+};
+
+// Overlays draw on the price chart; the rest open a pane underneath it
+const INDICATOR_OPTIONS = [
+  { spec: "sma:20", label: "SMA 20" },
+  { spec: "ema:50", label: "EMA 50" },
+  { spec: "bollinger:20:2", label: "BB" },
+  { spec: "vwap", label: "VWAP" },
+  { spec: "rsi:14", label: "RSI" },
+  { spec: "macd:12:26:9", label: "MACD" },
+  { spec: "atr:14", label: "ATR" },
+  { spec: "obv", label: "OBV" },
+];
+
+const RETURN_PERIODS = [
+  { label: "1 Week", days: 7 },
+  { label: "1 Month", days: 30 },
+  { label: "3 Months", days: 91 },
+  { label: "6 Months", days: 182 },
+  { label: "1 Year", days: 365 },
+];
+
+// Change from the last close at or before `days` ago to the current price;
+// null when the history doesn't reach back that far
+function periodReturn(history: Candle[], price: number, days: number): number | null {
+  const cutoff = Date.now() - days * DAY_MS;
+  const base = history.filter((c) => c.time <= cutoff).pop();
+  return base ? ((price - base.close) / base.close) * 100 : null;
 }
 
 export function StockDetailModal({ symbol, onClose }: StockDetailModalProps) {
-  const [performanceStats, setPerformanceStats] = useState<PerformanceStats | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
+  const [timeframe, setTimeframe] = useState<Timeframe>("3M");
+  const [indicators, setIndicators] = useState<string[]>([]);
 
   const { data: quote, isLoading: quoteLoading } = useQuery<StockQuote>({
     queryKey: ["/api/quote", symbol],
@@ -63,6 +100,7 @@ export function StockDetailModal({ symbol, onClose }: StockDetailModalProps) {
     },
     enabled: !!symbol,
   });
+  usePriceStream(symbol ? [symbol] : []);
 
   const { data: profile } = useQuery<CompanyProfile>({
     queryKey: ["/api/company", symbol],
@@ -84,6 +122,43 @@ export function StockDetailModal({ symbol, onClose }: StockDetailModalProps) {
     enabled: !!symbol,
   });
 
+  // Ranges are fixed when the symbol or timeframe changes so query keys stay stable
+  const chartFrom = useMemo(
+    () => Date.now() - TIMEFRAMES[timeframe].days * DAY_MS,
+    [symbol, timeframe]
+  );
+  const { resolution } = TIMEFRAMES[timeframe];
+  const { data: candles, isLoading: candlesLoading } = useQuery<Candle[]>({
+    queryKey: [`/api/candles/${encodeURIComponent(symbol ?? "")}?resolution=${resolution}&from=${chartFrom}`],
+    enabled: !!symbol,
+  });
+
+  // Kept in option order so toggling back and forth reuses cached results
+  const indicatorSpecs = INDICATOR_OPTIONS.map((o) => o.spec).filter((spec) => indicators.includes(spec));
+  const { data: indicatorData } = useQuery<IndicatorResponse>({
+    queryKey: [`/api/indicators/${encodeURIComponent(symbol ?? "")}?resolution=${resolution}&from=${chartFrom}&indicators=${indicatorSpecs.join(",")}`],
+    enabled: !!symbol && indicatorSpecs.length > 0,
+  });
+  // Indicator values line up with the candles they came back with, so chart those
+  const chartCandles = indicatorSpecs.length > 0 && indicatorData ? indicatorData.candles : candles;
+  const chartIndicators = indicatorSpecs.length > 0 ? indicatorData?.indicators ?? [] : [];
+  const intraday = resolution !== "D" && resolution !== "W";
+
+  // A year of daily closes, plus a margin for weekends and holidays
+  const historyFrom = useMemo(() => Date.now() - 372 * DAY_MS, [symbol]);
+  const { data: dailyHistory } = useQuery<Candle[]>({
+    queryKey: [`/api/candles/${encodeURIComponent(symbol ?? "")}?resolution=D&from=${historyFrom}`],
+    enabled: !!symbol,
+  });
+
+  const performanceStats = useMemo(() => {
+    if (!quote || !dailyHistory) return null;
+    const periods = RETURN_PERIODS
+      .map(({ label, days }) => ({ label, value: periodReturn(dailyHistory, quote.currentPrice, days) }))
+      .filter((p): p is { label: string; value: number } => p.value !== null);
+    return [{ label: "1 Day", value: quote.changePercent }, ...periods];
+  }, [quote, dailyHistory]);
+
   const symbolTrades = trades?.filter((t) => t.symbol === symbol) || [];
   const position = positions?.find((p) => p.symbol === symbol);
 
@@ -93,29 +168,6 @@ export function StockDetailModal({ symbol, onClose }: StockDetailModalProps) {
     }
   }, [symbol]);
 
-  useEffect(() => {
-    if (quote) {
-      const volatility = 0.02;
-      
-      const generateReturn = (days: number): number => {
-        const annualReturn = (Math.random() - 0.3) * 0.4;
-        const dailyReturn = annualReturn / 252;
-        const periodReturn = dailyReturn * days;
-        const noise = (Math.random() - 0.5) * volatility * Math.sqrt(days);
-        return (periodReturn + noise) * 100;
-      };
-
-      setPerformanceStats({
-        oneDay: quote.changePercent,
-        oneWeek: generateReturn(5),
-        oneMonth: generateReturn(21),
-        threeMonth: generateReturn(63),
-        sixMonth: generateReturn(126),
-        oneYear: generateReturn(252),
-      });
-    }
-  }, [quote]);
-
   const StatCard = ({ label, value, icon: Icon, delay }: { label: string; value: number; icon: typeof Calendar; delay: number }) => {
     const isPositive = value >= 0;
     return (
@@ -275,6 +327,71 @@ export function StockDetailModal({ symbol, onClose }: StockDetailModalProps) {
                 </CardContent>
               </Card>
 
+              <div style={{ animation: 'slideInUp 0.4s ease-out 0.15s both' }}>
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <h3 className="text-xs sm:text-sm font-semibold flex items-center gap-2 text-muted-foreground uppercase tracking-wide">
+                    <CandlestickIcon className="h-4 w-4" />
+                    Chart
+                  </h3>
+                  <div className="flex gap-1">
+                    {(Object.keys(TIMEFRAMES) as Timeframe[]).map((tf) => (
+                      <Button
+                        key={tf}
+                        variant={tf === timeframe ? "secondary" : "ghost"}
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => setTimeframe(tf)}
+                        data-testid={`button-timeframe-${tf}`}
+                      >
+                        {tf}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                {candlesLoading ? (
+                  <Skeleton className="h-[220px] w-full rounded-lg" />
+                ) : chartCandles && chartCandles.length > 0 ? (
+                  <>
+                    <CandlestickChart
+                      candles={chartCandles}
+                      overlays={chartIndicators.filter((series) => series.overlay)}
+                      intraday={intraday}
+                    />
+                    {chartIndicators.filter((series) => !series.overlay).map((series) => (
+                      <IndicatorPane
+                        key={series.id}
+                        series={series}
+                        times={chartCandles.map((c) => c.time)}
+                        intraday={intraday}
+                      />
+                    ))}
+                  </>
+                ) : (
+                  <div className="h-[220px] flex items-center justify-center text-sm text-muted-foreground">
+                    No price history for this range
+                  </div>
+                )}
+                <ToggleGroup
+                  type="multiple"
+                  value={indicators}
+                  onValueChange={setIndicators}
+                  className="flex-wrap justify-start mt-2"
+                >
+                  {INDICATOR_OPTIONS.map(({ spec, label }) => (
+                    <ToggleGroupItem
+                      key={spec}
+                      value={spec}
+                      size="sm"
+                      variant="outline"
+                      className="h-6 px-2 text-xs"
+                      data-testid={`toggle-indicator-${spec.split(":")[0]}`}
+                    >
+                      {label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+
               {performanceStats && (
                 <div style={{ animation: 'slideInUp 0.4s ease-out 0.2s both' }}>
                   <h3 className="text-xs sm:text-sm font-semibold mb-2 flex items-center gap-2 text-muted-foreground uppercase tracking-wide">
@@ -282,12 +399,15 @@ export function StockDetailModal({ symbol, onClose }: StockDetailModalProps) {
                     Performance
                   </h3>
                   <div className="grid grid-cols-2 gap-2">
-                    <StatCard label="1 Day" value={performanceStats.oneDay} icon={Clock} delay={100} />
-                    <StatCard label="1 Week" value={performanceStats.oneWeek} icon={Calendar} delay={150} />
-                    <StatCard label="1 Month" value={performanceStats.oneMonth} icon={Calendar} delay={200} />
-                    <StatCard label="3 Months" value={performanceStats.threeMonth} icon={Calendar} delay={250} />
-                    <StatCard label="6 Months" value={performanceStats.sixMonth} icon={Calendar} delay={300} />
-                    <StatCard label="1 Year" value={performanceStats.oneYear} icon={Calendar} delay={350} />
+                    {performanceStats.map((stat, i) => (
+                      <StatCard
+                        key={stat.label}
+                        label={stat.label}
+                        value={stat.value}
+                        icon={i === 0 ? Clock : Calendar}
+                        delay={100 + i * 50}
+                      />
+                    ))}
                   </div>
                 </div>
               )}
@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { TrendingUp, TrendingDown } from "lucide-react";
+import { usePriceStream, usePriceStreamConnected } from "@/hooks/use-price-stream";
 import type { StockQuote } from "@shared/schema";
 
 interface TickerItem {
@@ -8,10 +9,13 @@ interface TickerItem {
 }
 
 export function StockTicker() {
+  const streaming = usePriceStreamConnected();
   const { data: tickerData } = useQuery<TickerItem[]>({
     queryKey: ["/api/ticker"],
-    refetchInterval: 15000,
+    // Live ticks arrive over the price stream; poll only while it is down
+    refetchInterval: streaming ? false : 15000,
   });
+  usePriceStream(tickerData?.map((item) => item.symbol) ?? []);
 
   const validData = tickerData?.filter(item => item.quote !== null) || [];
 
@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Layers } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { PayoffChart } from "@/components/payoff-chart";
+import type { OptionChain, OptionType, StrategyQuote, StrategyType } from "@shared/schema";
+
+interface StrategyBuilderProps {
+  symbol: string;
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+// Expiration dates are calendar days; parse at noon so no time zone shifts them
+function formatExpiration(date: string): string {
+  return format(new Date(`${date}T12:00:00`), "MMM d, yyyy");
+}
+
+const STRATEGY_LABELS: Record<StrategyType, string> = {
+  vertical: "Vertical Spread",
+  straddle: "Straddle",
+  strangle: "Strangle",
+  iron_condor: "Iron Condor",
+  butterfly: "Butterfly",
+  calendar: "Calendar Spread",
+};
+
+// Strike inputs each template takes, and their offsets from the at-the-money
+// strike in ladder steps, used to pre-fill the form
+const STRIKE_FIELDS: Record<StrategyType, { label: string; offset: number }[]> = {
+  vertical: [{ label: "Long Strike", offset: 0 }, { label: "Short Strike", offset: 2 }],
+  straddle: [{ label: "Strike", offset: 0 }],
+  strangle: [{ label: "Put Strike", offset: -2 }, { label: "Call Strike", offset: 2 }],
+  iron_condor: [
+    { label: "Long Put", offset: -4 },
+    { label: "Short Put", offset: -2 },
+    { label: "Short Call", offset: 2 },
+    { label: "Long Call", offset: 4 },
+  ],
+  butterfly: [{ label: "Lower", offset: -2 }, { label: "Middle", offset: 0 }, { label: "Upper", offset: 2 }],
+  calendar: [{ label: "Strike", offset: 0 }],
+};
+
+const HAS_SIDE: StrategyType[] = ["straddle", "strangle", "iron_condor", "butterfly"];
+const HAS_OPTION_TYPE: StrategyType[] = ["vertical", "butterfly", "calendar"];
+
+export function StrategyBuilder({ symbol }: StrategyBuilderProps) {
+  const { toast } = useToast();
+  const [strategyType, setStrategyType] = useState<StrategyType>("vertical");
+  const [side, setSide] = useState<"long" | "short">("long");
+  const [optionType, setOptionType] = useState<OptionType>("call");
+  const [expiration, setExpiration] = useState("");
+  const [farExpiration, setFarExpiration] = useState("");
+  const [strikes, setStrikes] = useState<string[]>([]);
+  const [quantity, setQuantity] = useState("1");
+  const [preview, setPreview] = useState<StrategyQuote | null>(null);
+
+  const { data: chain } = useQuery<OptionChain>({
+    queryKey: [`/api/options/chain/${encodeURIComponent(symbol)}`],
+  });
+
+  // Pre-fill strikes and expirations around the money whenever the template changes
+  useEffect(() => {
+    if (!chain) return;
+    const ladder = chain.strikes.map((row) => row.strikePrice);
+    const atm = ladder.reduce((best, strike, i) =>
+      Math.abs(strike - chain.underlyingPrice) < Math.abs(ladder[best] - chain.underlyingPrice) ? i : best, 0);
+    setStrikes(STRIKE_FIELDS[strategyType].map(({ offset }) =>
+      String(ladder[Math.min(ladder.length - 1, Math.max(0, atm + offset))])));
+    setExpiration(chain.expirations[0]);
+    setFarExpiration(chain.expirations[Math.min(chain.expirations.length - 1, 4)]);
+    setSide(strategyType === "iron_condor" ? "short" : "long");
+    setPreview(null);
+  }, [chain, strategyType]);
+
+  const buildOrder = () => {
+    const s = strikes.map((value) => parseFloat(value));
+    const base = { symbol, quantity: parseInt(quantity, 10) || 0 };
+    switch (strategyType) {
+      case "vertical":
+        return { ...base, strategyType, optionType, expirationDate: expiration, longStrike: s[0], shortStrike: s[1] };
+      case "straddle":
+        return { ...base, strategyType, side, expirationDate: expiration, strikePrice: s[0] };
+      case "strangle":
+        return { ...base, strategyType, side, expirationDate: expiration, putStrike: s[0], callStrike: s[1] };
+      case "iron_condor":
+        return { ...base, strategyType, side, expirationDate: expiration, strikes: s };
+      case "butterfly":
+        return { ...base, strategyType, side, optionType, expirationDate: expiration, lowerStrike: s[0], middleStrike: s[1], upperStrike: s[2] };
+      case "calendar":
+        return { ...base, strategyType, optionType, strikePrice: s[0], nearExpiration: expiration, farExpiration };
+    }
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/options/strategies/quote", buildOrder());
+      return res.json() as Promise<StrategyQuote>;
+    },
+    onSuccess: (quote) => setPreview(quote),
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({
+        title: "Pricing Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const placeMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/options/strategies", buildOrder());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/options/strategies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/options"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/options/trades"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      toast({
+        title: "Strategy Opened",
+        description: `${STRATEGY_LABELS[strategyType]} on ${symbol} filled`,
+      });
+      setPreview(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Strategy Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateStrike = (index: number, value: string) => {
+    setStrikes((current) => current.map((s, i) => (i === index ? value : s)));
+    setPreview(null);
+  };
+
+  const isDebit = preview ? preview.netPremium >= 0 : true;
+  const netTotal = preview ? Math.abs(preview.netPremium) * preview.quantity * 100 : 0;
+
+  return (
+    <div className="space-y-3 border-t border-border pt-4" data-testid="strategy-builder">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Layers className="h-4 w-4" />
+        Multi-Leg Strategy
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Select value={strategyType} onValueChange={(v) => setStrategyType(v as StrategyType)}>
+          <SelectTrigger data-testid="select-strategy-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(STRATEGY_LABELS) as StrategyType[]).map((type) => (
+              <SelectItem key={type} value={type}>{STRATEGY_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {HAS_SIDE.includes(strategyType) ? (
+          <Select value={side} onValueChange={(v) => { setSide(v as "long" | "short"); setPreview(null); }}>
+            <SelectTrigger data-testid="select-strategy-side">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="long">Long</SelectItem>
+              <SelectItem value="short">Short</SelectItem>
+            </SelectContent>
+          </Select>
+        ) : HAS_OPTION_TYPE.includes(strategyType) ? (
+          <Select value={optionType} onValueChange={(v) => { setOptionType(v as OptionType); setPreview(null); }}>
+            <SelectTrigger data-testid="select-strategy-option-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="call">Calls</SelectItem>
+              <SelectItem value="put">Puts</SelectItem>
+            </SelectContent>
+          </Select>
+        ) : null}
+      </div>
+
+      {strategyType === "butterfly" && (
+        <Select value={optionType} onValueChange={(v) => { setOptionType(v as OptionType); setPreview(null); }}>
+          <SelectTrigger data-testid="select-butterfly-option-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="call">Calls</SelectItem>
+            <SelectItem value="put">Puts</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {chain && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">{strategyType === "calendar" ? "Near Expiration" : "Expiration"}</Label>
+            <Select value={expiration} onValueChange={(v) => { setExpiration(v); setPreview(null); }}>
+              <SelectTrigger data-testid="select-strategy-expiration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {chain.expirations.map((date) => (
+                  <SelectItem key={date} value={date}>{formatExpiration(date)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {strategyType === "calendar" && (
+            <div className="space-y-1">
+              <Label className="text-xs">Far Expiration</Label>
+              <Select value={farExpiration} onValueChange={(v) => { setFarExpiration(v); setPreview(null); }}>
+                <SelectTrigger data-testid="select-strategy-far-expiration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {chain.expirations.map((date) => (
+                    <SelectItem key={date} value={date}>{formatExpiration(date)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {STRIKE_FIELDS[strategyType].map(({ label }, i) => (
+          <div key={label} className="space-y-1">
+            <Label className="text-xs">{label}</Label>
+            <Input
+              type="number"
+              step="0.5"
+              value={strikes[i] ?? ""}
+              onChange={(e) => updateStrike(i, e.target.value)}
+              className="font-mono"
+              data-testid={`input-strategy-strike-${i}`}
+            />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <Label className="text-xs">Quantity</Label>
+          <Input
+            type="number"
+            min="1"
+            value={quantity}
+            onChange={(e) => { setQuantity(e.target.value); setPreview(null); }}
+            className="font-mono"
+            data-testid="input-strategy-quantity"
+          />
+        </div>
+      </div>
+
+      {preview && (
+        <div className="bg-muted/50 rounded-md p-3 space-y-1" data-testid="strategy-preview">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Net {isDebit ? "Debit" : "Credit"}</span>
+            <span className="font-mono font-medium">{formatCurrency(netTotal)}</span>
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Max Profit</span>
+            <span className="font-mono">{preview.maxProfit === null ? "Unlimited" : formatCurrency(preview.maxProfit)}</span>
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Max Loss</span>
+            <span className="font-mono">{preview.maxLoss === null ? "Unlimited" : formatCurrency(preview.maxLoss)}</span>
+          </div>
+          {preview.collateral > 0 && (
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Collateral Reserved</span>
+              <span className="font-mono">{formatCurrency(preview.collateral)}</span>
+            </div>
+          )}
+          <PayoffChart payoff={preview.payoff} underlyingPrice={preview.underlyingPrice} />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={() => previewMutation.mutate()}
+          disabled={previewMutation.isPending || !chain}
+          data-testid="button-preview-strategy"
+        >
+          {previewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Preview
+        </Button>
+        <Button
+          className="flex-1"
+          onClick={() => placeMutation.mutate()}
+          disabled={placeMutation.isPending || !preview || preview.maxLoss === null}
+          data-testid="button-place-strategy"
+        >
+          {placeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Place Strategy
+        </Button>
+      </div>
+    </div>
+  );
+}
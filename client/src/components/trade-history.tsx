@@ -4,7 +4,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { History, ArrowUpCircle, ArrowDownCircle } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import type { Trade, OptionTrade } from "@shared/schema";
+import type { Trade, OptionTrade, OptionTradeAction, TradeReason } from "@shared/schema";
 import { format } from "date-fns";
 
 function formatCurrency(value: number): string {
@@ -16,15 +16,32 @@ function formatCurrency(value: number): string {
   }).format(value);
 }
 
+const ACTION_LABELS: Record<OptionTradeAction, string> = {
+  buy: "BUY",
+  sell: "SELL",
+  expire: "EXPIRED",
+  exercise: "EXERCISED",
+  assign: "ASSIGNED",
+};
+
+const REASON_LABELS: Record<TradeReason, string> = {
+  margin_call: "MARGIN CALL",
+  short_maintenance: "FORCED COVER",
+  option_exercise: "EXERCISE",
+  option_assignment: "ASSIGNMENT",
+};
+
 interface CombinedTrade {
   id: string;
   symbol: string;
   type: "stock" | "option";
-  action: "buy" | "sell";
+  action: OptionTradeAction;
   quantity: number;
   price: number;
   total: number;
   timestamp: number;
+  reason?: TradeReason | null;
+  botId?: string | null;
   optionDetails?: {
     optionType: "call" | "put";
     strikePrice: number;
@@ -57,6 +74,8 @@ export function TradeHistory() {
         price: trade.price,
         total: trade.total,
         timestamp: trade.timestamp,
+        reason: trade.reason,
+        botId: trade.botId,
       });
     });
   }
@@ -133,6 +152,8 @@ export function TradeHistory() {
             <div className="space-y-2">
               {allTrades.map((trade) => {
                 const isBuy = trade.action === "buy";
+                // Buys and assignments pay out; everything else pays in
+                const isOutflow = isBuy || trade.action === "assign";
                 return (
                   <div
                     key={trade.id}
@@ -148,14 +169,24 @@ export function TradeHistory() {
                       <div>
                         <div className="flex items-center gap-2">
                           <span className="font-mono font-medium">{trade.symbol}</span>
-                          <Badge variant={isBuy ? "default" : "destructive"} className="text-xs">
-                            {isBuy ? "BUY" : "SELL"}
+                          <Badge variant={isBuy ? "default" : trade.action === "sell" ? "destructive" : "secondary"} className="text-xs">
+                            {ACTION_LABELS[trade.action]}
                           </Badge>
                           {trade.type === "option" && (
                             <Badge variant="outline" className="text-xs">
                               {trade.optionDetails?.optionType.toUpperCase()}
                             </Badge>
                           )}
+                          {trade.botId && (
+                            <Badge variant="outline" className="text-xs">
+                              Bot
+                            </Badge>
+                          )}
+                          {trade.reason && (
+                            <Badge variant="outline" className="text-xs text-loss border-loss">
+                              {REASON_LABELS[trade.reason]}
+                            </Badge>
+                          )}
                         </div>
                         <div className="text-sm text-muted-foreground mt-0.5">
                           {trade.type === "stock" ? (
@@ -176,8 +207,8 @@ export function TradeHistory() {
                         </div>
                       </div>
                     </div>
-                    <div className={`font-mono text-sm font-medium ${isBuy ? "text-loss" : "text-gain"}`}>
-                      {isBuy ? "-" : "+"}{formatCurrency(trade.total)}
+                    <div className={`font-mono text-sm font-medium ${isOutflow ? "text-loss" : "text-gain"}`}>
+                      {isOutflow ? "-" : "+"}{formatCurrency(trade.total)}
                     </div>
                   </div>
                 );
@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Cpu, Plus, OctagonX, ScrollText } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Bot, BotRun, BotRunAction } from "@shared/schema";
+
+// "Buy 10 shares when RSI drops under 30, sell at +5%"
+const EXAMPLE_RULES = {
+  entry: [{ left: "rsi:14", op: "<", right: 30 }],
+  exit: [],
+  sizing: { type: "fixed_shares", value: 10 },
+  takeProfitPercent: 5,
+};
+
+const RUN_BADGES: Record<BotRunAction, { label: string; className: string }> = {
+  buy: { label: "Buy", className: "bg-gain/20 text-gain border-gain/30" },
+  sell: { label: "Sell", className: "bg-loss/20 text-loss border-loss/30" },
+  skip: { label: "Skip", className: "" },
+  error: { label: "Error", className: "text-loss border-loss" },
+  enable: { label: "On", className: "" },
+  pause: { label: "Paused", className: "" },
+  kill: { label: "Killed", className: "text-loss border-loss" },
+};
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function describeRules(bot: Bot): string {
+  const condition = (c: { left: string; op: string; right: string | number }) =>
+    `${c.left} ${c.op.replace("_", " ")} ${c.right}`;
+  const parts = [`Enter when ${bot.rules.entry.map(condition).join(" and ")}`];
+  if (bot.rules.exit.length > 0) parts.push(`exit when ${bot.rules.exit.map(condition).join(" or ")}`);
+  if (bot.rules.stopLossPercent) parts.push(`stop -${bot.rules.stopLossPercent}%`);
+  if (bot.rules.takeProfitPercent) parts.push(`target +${bot.rules.takeProfitPercent}%`);
+  return parts.join(", ");
+}
+
+function BotRunLog({ botId }: { botId: string }) {
+  const { data: runs, isLoading } = useQuery<BotRun[]>({
+    queryKey: ["/api/bots", botId, "runs"],
+    refetchInterval: 30000,
+  });
+
+  if (isLoading) return <Skeleton className="h-16 w-full" />;
+  if (!runs || runs.length === 0) {
+    return <p className="text-xs text-muted-foreground">Nothing logged yet</p>;
+  }
+
+  return (
+    <div className="max-h-48 overflow-auto space-y-1" data-testid={`bot-runs-${botId}`}>
+      {runs.map((run) => (
+        <div key={run.id} className="flex items-center gap-2 text-xs">
+          <Badge variant="outline" className={`text-[10px] w-14 justify-center ${RUN_BADGES[run.action].className}`}>
+            {RUN_BADGES[run.action].label}
+          </Badge>
+          <span className="flex-1 truncate">{run.message}</span>
+          <span className="text-muted-foreground whitespace-nowrap">
+            {formatDistanceToNow(new Date(run.createdAt), { addSuffix: true })}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function BotCard({ bot }: { bot: Bot }) {
+  const { toast } = useToast();
+  const [showLog, setShowLog] = useState(false);
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/bots"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: async (enabled: boolean) => apiRequest("PATCH", `/api/bots/${bot.id}`, { enabled }),
+    onSettled,
+  });
+
+  const killMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/bots/${bot.id}/kill`),
+    onSuccess: () => {
+      toast({ title: "Bot Killed", description: `${bot.name} is paused and its shares were sold` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Kill Switch", description: error.message, variant: "destructive" });
+    },
+    onSettled,
+  });
+
+  const budgetUsed = bot.budget > 0 ? Math.min(100, (bot.invested / bot.budget) * 100) : 0;
+
+  return (
+    <Card data-testid={`bot-${bot.id}`}>
+      <CardContent className="pt-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-semibold truncate">{bot.name}</span>
+              <Badge variant="outline" className="font-mono text-xs">{bot.symbol}</Badge>
+              <Badge variant={bot.enabled ? "default" : "secondary"} className="text-xs">
+                {bot.enabled ? "Running" : "Paused"}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">{describeRules(bot)}</p>
+          </div>
+          <Switch
+            checked={bot.enabled}
+            onCheckedChange={(enabled) => toggleMutation.mutate(enabled)}
+            disabled={toggleMutation.isPending}
+            data-testid={`switch-bot-${bot.id}`}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Budget</span>
+            <span className="font-mono">{formatCurrency(bot.invested)} / {formatCurrency(bot.budget)}</span>
+          </div>
+          <Progress value={budgetUsed} className="h-1.5" />
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {bot.quantity > 0 ? `Holding ${bot.quantity} @ ${formatCurrency(bot.entryPrice ?? 0)}` : "Flat"}
+          </span>
+          <span>
+            {bot.lastRunAt ? `Ran ${formatDistanceToNow(new Date(bot.lastRunAt), { addSuffix: true })}` : "Not run yet"}
+          </span>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setShowLog(!showLog)}
+            data-testid={`button-bot-log-${bot.id}`}
+          >
+            <ScrollText className="h-3.5 w-3.5 mr-1" />
+            {showLog ? "Hide Log" : "Run Log"}
+          </Button>
+          <Button
+            variant="destructive"
+            size="sm"
+            className="h-7 text-xs ml-auto"
+            onClick={() => killMutation.mutate()}
+            disabled={killMutation.isPending || (!bot.enabled && bot.quantity === 0)}
+            data-testid={`button-kill-bot-${bot.id}`}
+          >
+            <OctagonX className="h-3.5 w-3.5 mr-1" />
+            Kill
+          </Button>
+        </div>
+
+        {showLog && <BotRunLog botId={bot.id} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+function NewBotForm({ onCreated }: { onCreated: () => void }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("RSI dip buyer");
+  const [symbol, setSymbol] = useState("AAPL");
+  const [resolution, setResolution] = useState("D");
+  const [budget, setBudget] = useState("5000");
+  const [rules, setRules] = useState(JSON.stringify(EXAMPLE_RULES, null, 2));
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      let parsedRules: unknown;
+      try {
+        parsedRules = JSON.parse(rules);
+      } catch {
+        throw new Error("Rules must be valid JSON");
+      }
+      return apiRequest("POST", "/api/bots", {
+        name,
+        symbol,
+        resolution,
+        budget: parseFloat(budget),
+        rules: parsedRules,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bots"] });
+      toast({ title: "Bot Created", description: "Switch it on when you are ready for it to trade" });
+      onCreated();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Bot Not Created", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="pt-4 space-y-3">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="bot-name">Name</Label>
+            <Input id="bot-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-bot-name" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bot-symbol">Symbol</Label>
+            <Input
+              id="bot-symbol"
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+              data-testid="input-bot-symbol"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bot-budget">Budget</Label>
+            <Input
+              id="bot-budget"
+              type="number"
+              min="1"
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+              data-testid="input-bot-budget"
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Bars</Label>
+          <Select value={resolution} onValueChange={setResolution}>
+            <SelectTrigger className="w-40" data-testid="select-bot-resolution">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="15">15 minutes</SelectItem>
+              <SelectItem value="60">Hourly</SelectItem>
+              <SelectItem value="D">Daily</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bot-rules">Rules</Label>
+          <Textarea
+            id="bot-rules"
+            value={rules}
+            onChange={(e) => setRules(e.target.value)}
+            className="font-mono text-xs min-h-[160px]"
+            spellCheck={false}
+            data-testid="input-bot-rules"
+          />
+          <p className="text-xs text-muted-foreground">
+            Same format as backtests. Percent sizing is a percentage of the bot's budget.
+          </p>
+        </div>
+        <Button
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending}
+          data-testid="button-create-bot"
+        >
+          {createMutation.isPending ? "Creating..." : "Create Bot"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function TradingBots() {
+  const { toast } = useToast();
+  const [creating, setCreating] = useState(false);
+
+  const { data: bots, isLoading } = useQuery<Bot[]>({
+    queryKey: ["/api/bots"],
+    refetchInterval: 30000,
+  });
+
+  const killAllMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/bots/kill"),
+    onSuccess: () => {
+      toast({ title: "All Bots Killed", description: "Every bot is paused and its shares were sold" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Kill Switch", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
+    },
+  });
+
+  const anyActive = bots?.some((b) => b.enabled || b.quantity > 0) ?? false;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-3">
+            <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+              <Cpu className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Trading Bots</CardTitle>
+              <CardDescription className="text-sm">
+                Rule-based bots that trade your paper account on a schedule
+              </CardDescription>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setCreating(!creating)} data-testid="button-new-bot">
+              <Plus className="h-4 w-4 mr-1" />
+              New Bot
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => killAllMutation.mutate()}
+              disabled={!anyActive || killAllMutation.isPending}
+              data-testid="button-kill-all-bots"
+            >
+              <OctagonX className="h-4 w-4 mr-1" />
+              Kill All
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {creating && <NewBotForm onCreated={() => setCreating(false)} />}
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : bots && bots.length > 0 ? (
+          <div className="grid gap-3 grid-cols-1 md:grid-cols-2">
+            {bots.map((bot) => (
+              <BotCard key={bot.id} bot={bot} />
+            ))}
+          </div>
+        ) : (
+          !creating && <p className="text-sm text-muted-foreground">No bots yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,11 +6,15 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { Loader2, TrendingUp, TrendingDown, ArrowUpCircle, ArrowDownCircle } from "lucide-react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { StockQuote, Portfolio } from "@shared/schema";
+import { OpenOrders } from "@/components/open-orders";
+import { OptionChain, type OptionContractSelection } from "@/components/option-chain";
+import { StrategyBuilder } from "@/components/strategy-builder";
+import type { StockQuote, Portfolio, Account, AccountType, OptionPosition, OptionQuote, OrderType, TimeInForce, TradeType } from "@shared/schema";
 
 interface TradingPanelProps {
   selectedStock: { symbol: string; quote: StockQuote } | null;
@@ -29,18 +33,90 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
   const { toast } = useToast();
   const [tradeTab, setTradeTab] = useState("stocks");
   const [quantity, setQuantity] = useState("");
+  const [orderType, setOrderType] = useState<"market" | OrderType>("market");
+  const [limitPrice, setLimitPrice] = useState("");
+  const [stopPrice, setStopPrice] = useState("");
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>("day");
   const [optionType, setOptionType] = useState<"call" | "put">("call");
   const [strikePrice, setStrikePrice] = useState("");
   const [expiration, setExpiration] = useState("");
   const [contracts, setContracts] = useState("");
-  const [premium, setPremium] = useState("");
 
   const { data: portfolio } = useQuery<Portfolio>({
     queryKey: ["/api/portfolio"],
   });
 
+  const strikePriceNum = parseFloat(strikePrice);
+  const optionQuoteParams = selectedStock && strikePriceNum > 0 && expiration
+    ? new URLSearchParams({
+        symbol: selectedStock.symbol,
+        optionType,
+        strikePrice: String(strikePriceNum),
+        expirationDate: expiration,
+      }).toString()
+    : null;
+
+  // Fair premium from the server's pricing model; trades fill at this price
+  const { data: optionQuote, isFetching: optionQuoteLoading } = useQuery<OptionQuote>({
+    queryKey: [`/api/options/quote?${optionQuoteParams}`],
+    enabled: optionQuoteParams !== null,
+  });
+
+  const { data: optionPositions } = useQuery<OptionPosition[]>({
+    queryKey: ["/api/options"],
+  });
+
+  const { data: account } = useQuery<Account>({
+    queryKey: ["/api/account"],
+  });
+
+  const shortingMutation = useMutation({
+    mutationFn: async (shortingEnabled: boolean) => {
+      return apiRequest("PATCH", "/api/account", { shortingEnabled });
+    },
+    onSuccess: (_, shortingEnabled) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/account"] });
+      toast({
+        title: shortingEnabled ? "Short Selling Enabled" : "Short Selling Disabled",
+        description: shortingEnabled
+          ? "Sells beyond your holdings now open short positions"
+          : "Sells are limited to the shares you hold",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const accountTypeMutation = useMutation({
+    mutationFn: async (accountType: AccountType) => {
+      return apiRequest("PATCH", "/api/account", { accountType });
+    },
+    onSuccess: (_, accountType) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/account"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      toast({
+        title: accountType === "margin" ? "Margin Account" : "Cash Account",
+        description: accountType === "margin"
+          ? "Buying power is now 2x equity; debit balances accrue interest"
+          : "Trades are limited to settled cash",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const buyMutation = useMutation({
-    mutationFn: async (data: { symbol: string; quantity: number; price: number }) => {
+    mutationFn: async (data: { symbol: string; quantity: number }) => {
       return apiRequest("POST", "/api/trades/buy", data);
     },
     onSuccess: () => {
@@ -63,7 +139,7 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
   });
 
   const sellMutation = useMutation({
-    mutationFn: async (data: { symbol: string; quantity: number; price: number }) => {
+    mutationFn: async (data: { symbol: string; quantity: number }) => {
       return apiRequest("POST", "/api/trades/sell", data);
     },
     onSuccess: () => {
@@ -85,6 +161,38 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
     },
   });
 
+  const orderMutation = useMutation({
+    mutationFn: async (data: {
+      symbol: string;
+      side: TradeType;
+      orderType: OrderType;
+      quantity: number;
+      limitPrice?: number;
+      stopPrice?: number;
+      timeInForce: TimeInForce;
+    }) => {
+      return apiRequest("POST", "/api/orders", data);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders?status=open"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      setQuantity("");
+      setLimitPrice("");
+      setStopPrice("");
+      toast({
+        title: "Order Placed",
+        description: `${variables.side === "buy" ? "Buy" : "Sell"} ${variables.quantity} ${variables.symbol} order is working`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Order Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const optionMutation = useMutation({
     mutationFn: async (data: {
       symbol: string;
@@ -92,7 +200,6 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
       strikePrice: number;
       expirationDate: string;
       contracts: number;
-      premium: number;
       action: "buy" | "sell";
     }) => {
       return apiRequest("POST", "/api/options/trade", data);
@@ -102,7 +209,6 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/options"] });
       queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
       setContracts("");
-      setPremium("");
       setStrikePrice("");
       setExpiration("");
       toast({
@@ -119,14 +225,32 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
     },
   });
 
+  const placeOrder = (side: TradeType, qty: number) => {
+    if (!selectedStock || orderType === "market") return;
+    const limit = parseFloat(limitPrice);
+    const stop = parseFloat(stopPrice);
+    orderMutation.mutate({
+      symbol: selectedStock.symbol,
+      side,
+      orderType,
+      quantity: qty,
+      limitPrice: orderType !== "stop" && !isNaN(limit) ? limit : undefined,
+      stopPrice: orderType !== "limit" && !isNaN(stop) ? stop : undefined,
+      timeInForce,
+    });
+  };
+
   const handleBuy = () => {
     if (!selectedStock || !quantity) return;
     const qty = parseInt(quantity, 10);
     if (isNaN(qty) || qty <= 0) return;
+    if (orderType !== "market") {
+      placeOrder("buy", qty);
+      return;
+    }
     buyMutation.mutate({
       symbol: selectedStock.symbol,
       quantity: qty,
-      price: selectedStock.quote.currentPrice,
     });
   };
 
@@ -134,19 +258,26 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
     if (!selectedStock || !quantity) return;
     const qty = parseInt(quantity, 10);
     if (isNaN(qty) || qty <= 0) return;
+    if (orderType !== "market") {
+      placeOrder("sell", qty);
+      return;
+    }
     sellMutation.mutate({
       symbol: selectedStock.symbol,
       quantity: qty,
-      price: selectedStock.quote.currentPrice,
     });
   };
 
+  const handleChainSelect = (contract: OptionContractSelection) => {
+    setOptionType(contract.optionType);
+    setStrikePrice(String(contract.strikePrice));
+    setExpiration(contract.expirationDate);
+  };
+
   const handleOptionTrade = (action: "buy" | "sell") => {
-    if (!selectedStock || !contracts || !premium || !strikePrice || !expiration) return;
+    if (!selectedStock || !contracts || !strikePrice || !expiration) return;
     const contractsNum = parseInt(contracts, 10);
-    const premiumNum = parseFloat(premium);
-    const strikePriceNum = parseFloat(strikePrice);
-    if (isNaN(contractsNum) || isNaN(premiumNum) || isNaN(strikePriceNum)) return;
+    if (isNaN(contractsNum) || isNaN(strikePriceNum)) return;
 
     optionMutation.mutate({
       symbol: selectedStock.symbol,
@@ -154,15 +285,31 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
       strikePrice: strikePriceNum,
       expirationDate: expiration,
       contracts: contractsNum,
-      premium: premiumNum,
       action,
     });
   };
 
   const stockQuantity = parseInt(quantity, 10) || 0;
-  const estimatedCost = selectedStock ? stockQuantity * selectedStock.quote.currentPrice : 0;
+  const needsLimit = orderType === "limit" || orderType === "stop_limit";
+  const needsStop = orderType === "stop" || orderType === "stop_limit";
+  const orderPricesMissing = (needsLimit && !(parseFloat(limitPrice) > 0)) || (needsStop && !(parseFloat(stopPrice) > 0));
+  const referencePrice = needsLimit && parseFloat(limitPrice) > 0
+    ? parseFloat(limitPrice)
+    : selectedStock?.quote.currentPrice ?? 0;
+  const estimatedCost = stockQuantity * referencePrice;
+  const buyPending = buyMutation.isPending || orderMutation.isPending;
+  const sellPending = sellMutation.isPending || orderMutation.isPending;
   const optionContractsNum = parseInt(contracts, 10) || 0;
-  const optionPremiumNum = parseFloat(premium) || 0;
+  // Contracts already held in the selected contract; negative when written
+  const heldContracts = optionPositions?.find((o) =>
+    o.symbol === selectedStock?.symbol &&
+    o.optionType === optionType &&
+    o.strikePrice === strikePriceNum &&
+    o.expirationDate === expiration &&
+    !o.strategyId
+  )?.contracts ?? 0;
+  const optionLabel = optionType === "call" ? "Call" : "Put";
+  const optionPremiumNum = optionQuote?.premium ?? 0;
   const optionCost = optionContractsNum * optionPremiumNum * 100; // 100 shares per contract
 
   const isPositive = selectedStock ? selectedStock.quote.change >= 0 : true;
@@ -179,6 +326,7 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
             <p>Search for a stock to start trading</p>
             <p className="text-sm mt-1">Use the search bar above to find stocks</p>
           </div>
+          <OpenOrders />
         </CardContent>
       </Card>
     );
@@ -208,6 +356,72 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
           </TabsList>
 
           <TabsContent value="stocks" className="space-y-4 mt-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Order Type</Label>
+                <Select value={orderType} onValueChange={(v) => setOrderType(v as "market" | OrderType)}>
+                  <SelectTrigger data-testid="select-order-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="market">Market</SelectItem>
+                    <SelectItem value="limit">Limit</SelectItem>
+                    <SelectItem value="stop">Stop</SelectItem>
+                    <SelectItem value="stop_limit">Stop Limit</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {orderType !== "market" && (
+                <div className="space-y-2">
+                  <Label>Time in Force</Label>
+                  <Select value={timeInForce} onValueChange={(v) => setTimeInForce(v as TimeInForce)}>
+                    <SelectTrigger data-testid="select-time-in-force">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="day">Day</SelectItem>
+                      <SelectItem value="gtc">Good 'til Cancelled</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {(needsStop || needsLimit) && (
+              <div className="grid grid-cols-2 gap-3">
+                {needsStop && (
+                  <div className="space-y-2">
+                    <Label htmlFor="stop-price">Stop Price</Label>
+                    <Input
+                      id="stop-price"
+                      type="number"
+                      step="0.01"
+                      placeholder="0.00"
+                      value={stopPrice}
+                      onChange={(e) => setStopPrice(e.target.value)}
+                      className="font-mono"
+                      data-testid="input-stop-price"
+                    />
+                  </div>
+                )}
+                {needsLimit && (
+                  <div className="space-y-2">
+                    <Label htmlFor="limit-price">Limit Price</Label>
+                    <Input
+                      id="limit-price"
+                      type="number"
+                      step="0.01"
+                      placeholder="0.00"
+                      value={limitPrice}
+                      onChange={(e) => setLimitPrice(e.target.value)}
+                      className="font-mono"
+                      data-testid="input-limit-price"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="quantity">Quantity</Label>
               <Input
@@ -225,8 +439,8 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
             {stockQuantity > 0 && (
               <div className="bg-muted/50 rounded-md p-3 space-y-1">
                 <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Market Price</span>
-                  <span className="font-mono">{formatCurrency(selectedStock.quote.currentPrice)}</span>
+                  <span className="text-muted-foreground">{needsLimit ? "Limit Price" : "Market Price"}</span>
+                  <span className="font-mono">{formatCurrency(referencePrice)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Quantity</span>
@@ -238,8 +452,8 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
                 </div>
                 {portfolio && (
                   <div className="flex justify-between text-xs text-muted-foreground">
-                    <span>Available Cash</span>
-                    <span className="font-mono">{formatCurrency(portfolio.cash)}</span>
+                    <span>Buying Power</span>
+                    <span className="font-mono">{formatCurrency(portfolio.buyingPower.available)}</span>
                   </div>
                 )}
               </div>
@@ -249,10 +463,10 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
               <Button
                 className="flex-1"
                 onClick={handleBuy}
-                disabled={buyMutation.isPending || !quantity || stockQuantity <= 0 || (portfolio && estimatedCost > portfolio.cash)}
+                disabled={buyPending || !quantity || stockQuantity <= 0 || orderPricesMissing || (portfolio && estimatedCost > portfolio.buyingPower.available)}
                 data-testid="button-buy"
               >
-                {buyMutation.isPending ? (
+                {buyPending ? (
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                 ) : (
                   <ArrowUpCircle className="h-4 w-4 mr-2" />
@@ -263,10 +477,10 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
                 variant="destructive"
                 className="flex-1"
                 onClick={handleSell}
-                disabled={sellMutation.isPending || !quantity || stockQuantity <= 0}
+                disabled={sellPending || !quantity || stockQuantity <= 0 || orderPricesMissing}
                 data-testid="button-sell"
               >
-                {sellMutation.isPending ? (
+                {sellPending ? (
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                 ) : (
                   <ArrowDownCircle className="h-4 w-4 mr-2" />
@@ -274,9 +488,49 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
                 Sell
               </Button>
             </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-sm text-muted-foreground">Account type</Label>
+              <Select
+                value={account?.accountType ?? "cash"}
+                onValueChange={(v) => accountTypeMutation.mutate(v as AccountType)}
+                disabled={!account || accountTypeMutation.isPending}
+              >
+                <SelectTrigger className="w-32" data-testid="select-account-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="margin">Margin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="shorting" className="text-sm text-muted-foreground">
+                Allow short selling
+              </Label>
+              <Switch
+                id="shorting"
+                checked={account?.shortingEnabled ?? false}
+                onCheckedChange={(checked) => shortingMutation.mutate(checked)}
+                disabled={!account || shortingMutation.isPending}
+                data-testid="switch-shorting"
+              />
+            </div>
+
+            <OpenOrders />
           </TabsContent>
 
           <TabsContent value="options" className="space-y-4 mt-4">
+            <OptionChain
+              symbol={selectedStock.symbol}
+              selected={strikePriceNum > 0 && expiration
+                ? { optionType, strikePrice: strikePriceNum, expirationDate: expiration }
+                : undefined}
+              onSelect={handleChainSelect}
+            />
+
             <div className="grid grid-cols-2 gap-3">
               <div className="space-y-2">
                 <Label>Option Type</Label>
@@ -332,19 +586,38 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
               </div>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="premium">Premium per Share</Label>
-              <Input
-                id="premium"
-                type="number"
-                step="0.01"
-                placeholder="0.00"
-                value={premium}
-                onChange={(e) => setPremium(e.target.value)}
-                className="font-mono"
-                data-testid="input-premium"
-              />
-            </div>
+            {optionQuoteParams && (
+              <div className="bg-muted/50 rounded-md p-3 space-y-1" data-testid="option-quote">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Fair Premium per Share</span>
+                  <span className="font-mono font-medium" data-testid="text-option-premium">
+                    {optionQuoteLoading && !optionQuote ? (
+                      <Loader2 className="h-3 w-3 animate-spin inline" />
+                    ) : optionQuote ? (
+                      formatCurrency(optionQuote.premium)
+                    ) : (
+                      "Unavailable"
+                    )}
+                  </span>
+                </div>
+                {optionQuote && (
+                  <>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>Implied volatility</span>
+                      <span className="font-mono">{(optionQuote.impliedVolatility * 100).toFixed(1)}%</span>
+                    </div>
+                    <div className="grid grid-cols-5 gap-1 text-xs text-center pt-1">
+                      {(["delta", "gamma", "theta", "vega", "rho"] as const).map((greek) => (
+                        <div key={greek}>
+                          <div className="text-muted-foreground capitalize">{greek}</div>
+                          <div className="font-mono">{optionQuote.greeks[greek].toFixed(3)}</div>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
 
             {optionContractsNum > 0 && optionPremiumNum > 0 && (
               <div className="bg-muted/50 rounded-md p-3 space-y-1">
@@ -354,6 +627,14 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
                   </span>
                   <span className="font-mono">{expiration || "No date"}</span>
                 </div>
+                {heldContracts !== 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Currently held</span>
+                    <span className="font-mono">
+                      {heldContracts > 0 ? `${heldContracts} long` : `${-heldContracts} written`}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Contracts x 100 shares</span>
                   <span className="font-mono">{optionContractsNum} x 100</span>
@@ -369,7 +650,7 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
               <Button
                 className="flex-1"
                 onClick={() => handleOptionTrade("buy")}
-                disabled={optionMutation.isPending || !contracts || !premium || !strikePrice || !expiration}
+                disabled={optionMutation.isPending || !contracts || !optionQuote || !strikePrice || !expiration}
                 data-testid="button-buy-option"
               >
                 {optionMutation.isPending ? (
@@ -377,13 +658,13 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
                 ) : (
                   <ArrowUpCircle className="h-4 w-4 mr-2" />
                 )}
-                Buy {optionType === "call" ? "Call" : "Put"}
+                {heldContracts < 0 ? "Buy to Close" : `Buy ${optionLabel}`}
               </Button>
               <Button
                 variant="destructive"
                 className="flex-1"
                 onClick={() => handleOptionTrade("sell")}
-                disabled={optionMutation.isPending || !contracts || !premium || !strikePrice || !expiration}
+                disabled={optionMutation.isPending || !contracts || !optionQuote || !strikePrice || !expiration}
                 data-testid="button-sell-option"
               >
                 {optionMutation.isPending ? (
@@ -391,9 +672,11 @@ export function TradingPanel({ selectedStock }: TradingPanelProps) {
                 ) : (
                   <ArrowDownCircle className="h-4 w-4 mr-2" />
                 )}
-                Sell {optionType === "call" ? "Call" : "Put"}
+                {heldContracts > 0 ? "Sell to Close" : `Write ${optionLabel}`}
               </Button>
             </div>
+
+            <StrategyBuilder symbol={selectedStock.symbol} />
           </TabsContent>
         </Tabs>
       </CardContent>
@@ -0,0 +1,140 @@
+import { useCallback, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Mic, Loader2, Volume2 } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useVoiceRecorder, useVoiceStream } from "../../replit_integrations/audio";
+import type { TradeProposal } from "@shared/schema";
+
+type Phase = "idle" | "recording" | "thinking";
+
+// Hold the button, ask, let go. Orders the assistant drafts wait for the next
+// recording: say "confirm" to place one or "cancel" to drop it.
+export function VoiceAssistant() {
+  const recorder = useVoiceRecorder();
+  const [phase, setPhase] = useState<Phase>("idle");
+  const [question, setQuestion] = useState("");
+  const [reply, setReply] = useState("");
+  const [proposal, setProposal] = useState<TradeProposal | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const holdingRef = useRef(false);
+
+  const onEvent = useCallback((event: { type: string; [key: string]: unknown }) => {
+    if (event.type !== "proposal") return;
+    const next = event.proposal as TradeProposal;
+    setProposal(next);
+    if (next.status === "executed") {
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders?status=open"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/options"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/options/trades"] });
+    }
+  }, []);
+
+  const voice = useVoiceStream({
+    onUserTranscript: setQuestion,
+    onSentence: (_, text) => setReply((current) => (current ? `${current} ${text}` : text)),
+    onEvent,
+    onError: (e) => setError(e.message),
+  });
+
+  const send = async () => {
+    setPhase("thinking");
+    const blob = await recorder.stopRecording();
+    setQuestion("");
+    setReply("");
+    try {
+      const pending = proposal?.status === "pending" ? { proposalId: proposal.id } : {};
+      await voice.streamVoiceResponse("/api/voice/turn", blob, pending);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Voice request failed");
+    } finally {
+      setPhase("idle");
+    }
+  };
+
+  const startTalking = async () => {
+    if (phase !== "idle" || holdingRef.current) return;
+    holdingRef.current = true;
+    setError(null);
+    try {
+      await recorder.startRecording();
+    } catch {
+      holdingRef.current = false;
+      setError("Microphone access is needed to talk to the assistant.");
+      return;
+    }
+    setPhase("recording");
+    // Let go while the microphone was still starting up
+    if (!holdingRef.current) await send();
+  };
+
+  const stopTalking = () => {
+    if (!holdingRef.current) return;
+    holdingRef.current = false;
+    if (phase === "recording") send();
+  };
+
+  return (
+    <Card data-testid="voice-assistant">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Mic className="h-5 w-5 text-primary" />
+            Voice Assistant
+          </CardTitle>
+          {voice.playbackState === "playing" && <Volume2 className="h-4 w-4 text-primary animate-pulse" />}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Button
+          className="w-full select-none"
+          variant={phase === "recording" ? "destructive" : "default"}
+          onPointerDown={startTalking}
+          onPointerUp={stopTalking}
+          onPointerLeave={stopTalking}
+          disabled={phase === "thinking"}
+          data-testid="button-push-to-talk"
+        >
+          {phase === "thinking" ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Mic className="h-4 w-4 mr-2" />
+          )}
+          {phase === "recording" ? "Listening... release to send" : phase === "thinking" ? "Thinking..." : "Hold to talk"}
+        </Button>
+
+        {question && (
+          <p className="text-sm text-muted-foreground" data-testid="text-voice-question">"{question}"</p>
+        )}
+        {reply && <p className="text-sm" data-testid="text-voice-reply">{reply}</p>}
+        {!question && !reply && phase === "idle" && (
+          <p className="text-sm text-muted-foreground text-center">
+            Try "How's my P/L today?" or "Buy 10 shares of Apple".
+          </p>
+        )}
+
+        {proposal && (
+          <div className="rounded-md border border-border p-3 text-sm space-y-1" data-testid="voice-proposal">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{proposal.summary}</span>
+              <Badge variant={proposal.status === "executed" ? "secondary" : "outline"} className="text-xs capitalize">
+                {proposal.status}
+              </Badge>
+            </div>
+            {proposal.status === "pending" ? (
+              <p className="text-xs text-muted-foreground">Hold to talk and say "confirm" to place it, or "cancel".</p>
+            ) : proposal.result && (
+              <p className="text-xs text-muted-foreground">{proposal.result}</p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Star, X, TrendingUp, TrendingDown } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { usePriceStream, usePriceStreamConnected } from "@/hooks/use-price-stream";
 import type { WatchlistItem, StockQuote } from "@shared/schema";
 
 interface WatchlistProps {
@@ -30,10 +31,12 @@ interface WatchlistItemWithQuote extends WatchlistItem {
 }
 
 export function Watchlist({ onSelectStock, onOpenDetail }: WatchlistProps) {
+  const streaming = usePriceStreamConnected();
   const { data: watchlist, isLoading } = useQuery<WatchlistItemWithQuote[]>({
     queryKey: ["/api/watchlist"],
-    refetchInterval: 30000,
+    refetchInterval: streaming ? false : 30000,
   });
+  usePriceStream(watchlist?.map((item) => item.symbol) ?? []);
 
   const removeMutation = useMutation({
     mutationFn: async (symbol: string) => {
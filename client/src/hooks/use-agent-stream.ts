@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ResearchToolCall, TradeProposal } from "@shared/schema";
+
+type StreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "tool"; tool: string; input: Record<string, unknown> }
+  | { type: "retry"; attempt: number; error: string }
+  | { type: "proposal"; proposal: TradeProposal }
+  | { type: "done"; result?: unknown }
+  | { type: "error"; error: string };
+
+interface AgentStreamState<T> {
+  text: string;
+  toolCalls: ResearchToolCall[];
+  proposals: TradeProposal[];
+  // Reports redone after failing validation
+  retries: number;
+  result: T | null;
+  error: string | null;
+  isStreaming: boolean;
+}
+
+const IDLE = { text: "", toolCalls: [], proposals: [], retries: 0, result: null, error: null, isStreaming: false };
+
+// Posts to one of the streaming AI endpoints and accumulates the server-sent
+// events. Starting again, stopping, or unmounting aborts the request in flight,
+// which also cancels the model call on the server. start() can post to another
+// url, for endpoints whose path is only known at the time of the call.
+export function useAgentStream<T = never>(url: string) {
+  const [state, setState] = useState<AgentStreamState<T>>(IDLE);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState((current) => ({ ...current, isStreaming: false }));
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = useCallback(async (body: unknown = {}, target: string = url) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setState({ ...IDLE, isStreaming: true });
+
+    const apply = (event: StreamEvent) => {
+      setState((current) => {
+        switch (event.type) {
+          case "delta":
+            return { ...current, text: current.text + event.text };
+          case "tool":
+            return { ...current, toolCalls: [...current.toolCalls, { tool: event.tool, input: event.input }] };
+          case "retry":
+            return { ...current, retries: current.retries + 1 };
+          case "proposal":
+            return { ...current, proposals: [...current.proposals, event.proposal] };
+          case "done":
+            return { ...current, result: (event.result as T) ?? null, isStreaming: false };
+          case "error":
+            return { ...current, error: event.error, isStreaming: false };
+        }
+      });
+    };
+
+    try {
+      const res = await fetch(target, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        credentials: "include",
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events end with a blank line; the last piece may still be arriving
+        const chunks = buffer.split("\n\n");
+        buffer = chunks.pop() ?? "";
+        chunks.forEach((chunk) => {
+          const data = chunk.split("\n").filter((line) => line.startsWith("data: ")).map((line) => line.slice(6)).join("");
+          if (data) apply(JSON.parse(data));
+        });
+      }
+      setState((current) => ({ ...current, isStreaming: false }));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setState((current) => ({
+        ...current,
+        error: error instanceof Error ? error.message : "Stream failed",
+        isStreaming: false,
+      }));
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, [url]);
+
+  return { ...state, start, stop };
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { Portfolio, Position, PriceStreamMessage, PriceStreamRequest, StockQuote } from "@shared/schema";
+
+const STREAM_PATH = "/ws/quotes";
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// One socket for the whole app; components share it through reference counts
+let socket: WebSocket | null = null;
+let connected = false;
+let reconnectDelay = 1000;
+const subscriptions = new Map<string, number>();
+const listeners = new Set<(connected: boolean) => void>();
+
+function setConnected(value: boolean) {
+  connected = value;
+  listeners.forEach((listener) => listener(value));
+}
+
+function send(request: PriceStreamRequest) {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(request));
+  }
+}
+
+type SymbolQuote = { symbol: string; quote?: StockQuote | null };
+
+function withQuote<T extends SymbolQuote>(items: T[] | undefined, quote: StockQuote): T[] | undefined {
+  return items?.map((item) => (item.symbol === quote.symbol ? { ...item, quote } : item));
+}
+
+// Reprices a position the same way the server does
+function repricePosition(position: Position, price: number): Position {
+  const totalValue = position.quantity * price;
+  const costBasis = position.quantity * position.averagePrice;
+  const profitLoss = totalValue - costBasis;
+  return {
+    ...position,
+    currentPrice: price,
+    totalValue,
+    profitLoss,
+    profitLossPercent: costBasis !== 0 ? (profitLoss / Math.abs(costBasis)) * 100 : 0,
+  };
+}
+
+function applyQuote(quote: StockQuote) {
+  queryClient.setQueryData<StockQuote>(["/api/quote", quote.symbol], (current) => (current ? quote : current));
+  queryClient.setQueryData<SymbolQuote[]>(["/api/ticker"], (items) => withQuote(items, quote));
+  queryClient.setQueryData<SymbolQuote[]>(["/api/watchlist"], (items) => withQuote(items, quote));
+
+  const positions = queryClient.getQueryData<Position[]>(["/api/positions"]);
+  const held = positions?.find((p) => p.symbol === quote.symbol);
+  if (!positions || !held || held.currentPrice === quote.currentPrice) return;
+
+  // The move in this position carries straight through to the portfolio totals
+  const delta = held.quantity * (quote.currentPrice - held.currentPrice);
+  queryClient.setQueryData<Position[]>(["/api/positions"], positions.map((p) =>
+    p.symbol === quote.symbol ? repricePosition(p, quote.currentPrice) : p
+  ));
+  queryClient.setQueryData<Portfolio>(["/api/portfolio"], (portfolio) => {
+    if (!portfolio) return portfolio;
+    const startingValue = portfolio.totalValue - portfolio.totalProfitLoss;
+    const stocksValue = portfolio.stocksValue + delta;
+    const dayChange = portfolio.dayChange + delta;
+    const totalProfitLoss = portfolio.totalProfitLoss + delta;
+    return {
+      ...portfolio,
+      totalValue: portfolio.totalValue + delta,
+      stocksValue,
+      dayChange,
+      dayChangePercent: stocksValue > 0 ? (dayChange / stocksValue) * 100 : 0,
+      totalProfitLoss,
+      totalProfitLossPercent: startingValue > 0 ? (totalProfitLoss / startingValue) * 100 : 0,
+    };
+  });
+}
+
+function connect() {
+  const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+  const ws = new WebSocket(`${protocol}://${window.location.host}${STREAM_PATH}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    reconnectDelay = 1000;
+    setConnected(true);
+    if (subscriptions.size > 0) {
+      send({ type: "subscribe", symbols: Array.from(subscriptions.keys()) });
+    }
+  };
+
+  ws.onmessage = (event) => {
+    const message = JSON.parse(event.data) as PriceStreamMessage;
+    if (message.type === "quote") {
+      applyQuote(message.quote);
+    } else {
+      console.error("Price stream error:", message.error);
+    }
+  };
+
+  ws.onclose = () => {
+    socket = null;
+    setConnected(false);
+    // Back off while the server is unreachable; polling covers the gap
+    if (subscriptions.size > 0) {
+      setTimeout(() => {
+        if (!socket && subscriptions.size > 0) connect();
+      }, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    }
+  };
+}
+
+function subscribe(symbols: string[]) {
+  const added = symbols.filter((symbol) => {
+    const count = subscriptions.get(symbol) ?? 0;
+    subscriptions.set(symbol, count + 1);
+    return count === 0;
+  });
+
+  if (!socket) {
+    connect();
+  } else if (added.length > 0) {
+    send({ type: "subscribe", symbols: added });
+  }
+}
+
+function unsubscribe(symbols: string[]) {
+  const removed = symbols.filter((symbol) => {
+    const count = (subscriptions.get(symbol) ?? 0) - 1;
+    if (count > 0) {
+      subscriptions.set(symbol, count);
+      return false;
+    }
+    subscriptions.delete(symbol);
+    return true;
+  });
+
+  if (removed.length > 0) {
+    send({ type: "unsubscribe", symbols: removed });
+  }
+}
+
+// Streams live quotes for the symbols into the query cache, so the ticker,
+// watchlist, positions and portfolio move without polling
+export function usePriceStream(symbols: string[]) {
+  const key = Array.from(new Set(symbols.map((s) => s.toUpperCase()))).sort().join(",");
+
+  useEffect(() => {
+    if (!key) return;
+    const list = key.split(",");
+    subscribe(list);
+    return () => unsubscribe(list);
+  }, [key]);
+}
+
+// Whether the price stream is up; callers poll as a fallback while it is down
+export function usePriceStreamConnected(): boolean {
+  const [isConnected, setIsConnected] = useState(connected);
+
+  useEffect(() => {
+    listeners.add(setIsConnected);
+    return () => {
+      listeners.delete(setIsConnected);
+    };
+  }, []);
+
+  return isConnected;
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,9 +13,23 @@ import {
   Sparkles,
   AlertTriangle,
   MessageSquare,
-  Rocket
+  Rocket,
+  Square
 } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { useAgentStream } from "@/hooks/use-agent-stream";
+import { Markdown } from "@/components/markdown";
+import { ChatPanel } from "@/components/chat-panel";
+import { TradingBots } from "@/components/trading-bots";
+import { AgentHistory } from "@/components/agent-history";
+import {
+  ToolCallBadges,
+  ResearchReportView,
+  SentimentReportView,
+  GameTheoryReportView,
+  RiskReportView,
+} from "@/components/agent-reports";
+import type { ResearchReport, SentimentReport, GameTheoryReport, RiskReport } from "@shared/schema";
 
 interface AgentCardProps {
   icon: any;
@@ -46,17 +60,72 @@ function AgentCard({ icon: Icon, title, description, badge, badgeVariant = "seco
   );
 }
 
+// Progress for agents that answer with a typed report rather than text
+function ReportStatus({ isStreaming, retries, error }: { isStreaming: boolean; retries: number; error: string | null }) {
+  if (!isStreaming && !error) return null;
+  return (
+    <div className="border-t border-border pt-3">
+      {isStreaming && (
+        <p className="text-sm text-muted-foreground">
+          {retries > 0 ? `Correcting the report (retry ${retries})...` : "Thinking..."}
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// Streamed agent output, re-rendered as markdown with each token
+function StreamOutput({ text, error, isStreaming, testId }: { text: string; error: string | null; isStreaming: boolean; testId: string }) {
+  if (!text && !error && !isStreaming) return null;
+  return (
+    <div className="border-t border-border pt-3" data-testid={testId}>
+      {text ? (
+        <Markdown>{text}</Markdown>
+      ) : isStreaming ? (
+        <p className="text-sm text-muted-foreground">Thinking...</p>
+      ) : null}
+      {error && <p className="text-sm text-destructive mt-2">{error}</p>}
+    </div>
+  );
+}
+
+function RunButton({ isStreaming, onRun, onStop, disabled, label, testId }: {
+  isStreaming: boolean;
+  onRun: () => void;
+  onStop: () => void;
+  disabled?: boolean;
+  label: string;
+  testId: string;
+}) {
+  if (isStreaming) {
+    return (
+      <Button variant="outline" onClick={onStop} className="w-full" data-testid={`${testId}-stop`}>
+        <Square className="h-4 w-4 mr-2" />
+        Stop
+      </Button>
+    );
+  }
+  return (
+    <Button onClick={onRun} disabled={disabled} className="w-full" data-testid={testId}>
+      <Rocket className="h-4 w-4 mr-2" />
+      {label}
+    </Button>
+  );
+}
+
+// A finished run has been saved on the server, so the history is out of date
+function useRefreshHistory(result: unknown) {
+  useEffect(() => {
+    if (result) queryClient.invalidateQueries({ queryKey: ["/api/agent-runs"] });
+  }, [result]);
+}
+
 function ResearchAgent() {
-  const { toast } = useToast();
   const [symbol, setSymbol] = useState("");
   const [query, setQuery] = useState("");
-
-  const handleClick = () => {
-    toast({
-      title: "Coming Soon!",
-      description: "This feature is coming in v3 of Nomad Tradings.",
-    });
-  };
+  const research = useAgentStream<ResearchReport>("/api/agents/research/stream");
+  useRefreshHistory(research.result);
 
   return (
     <div className="flex flex-col gap-3 flex-1">
@@ -73,28 +142,32 @@ function ResearchAgent() {
         className="flex-1 min-h-[80px]"
         data-testid="input-research-query"
       />
-      <Button 
-        onClick={handleClick}
-        className="w-full"
-        data-testid="button-research"
-      >
-        <Rocket className="h-4 w-4 mr-2" />
-        Research
-      </Button>
+      <RunButton
+        isStreaming={research.isStreaming}
+        onRun={() => research.start({ symbol: symbol.trim() || undefined, query: query.trim() || undefined })}
+        onStop={research.stop}
+        disabled={!symbol.trim() && !query.trim()}
+        label="Research"
+        testId="button-research"
+      />
+      {research.result ? (
+        <div className="border-t border-border pt-3">
+          <ResearchReportView report={research.result} />
+        </div>
+      ) : (
+        <>
+          {research.toolCalls.length > 0 && <ToolCallBadges toolCalls={research.toolCalls} />}
+          <StreamOutput text={research.text} error={research.error} isStreaming={research.isStreaming} testId="text-research-stream" />
+        </>
+      )}
     </div>
   );
 }
 
 function SentimentAgent() {
-  const { toast } = useToast();
   const [symbol, setSymbol] = useState("");
-
-  const handleClick = () => {
-    toast({
-      title: "Coming Soon!",
-      description: "This feature is coming in v3 of Nomad Tradings.",
-    });
-  };
+  const sentiment = useAgentStream<SentimentReport>("/api/agents/sentiment/stream");
+  useRefreshHistory(sentiment.result);
 
   return (
     <div className="flex flex-col gap-3 flex-1">
@@ -104,28 +177,28 @@ function SentimentAgent() {
         onChange={(e) => setSymbol(e.target.value.toUpperCase())}
         data-testid="input-sentiment-symbol"
       />
-      <Button 
-        onClick={handleClick}
-        className="w-full"
-        data-testid="button-sentiment"
-      >
-        <Rocket className="h-4 w-4 mr-2" />
-        Analyze Sentiment
-      </Button>
+      <RunButton
+        isStreaming={sentiment.isStreaming}
+        onRun={() => sentiment.start({ symbol: symbol.trim() || undefined })}
+        onStop={sentiment.stop}
+        label="Analyze Sentiment"
+        testId="button-sentiment"
+      />
+      {sentiment.result ? (
+        <div className="border-t border-border pt-3">
+          <SentimentReportView report={sentiment.result} />
+        </div>
+      ) : (
+        <ReportStatus isStreaming={sentiment.isStreaming} retries={sentiment.retries} error={sentiment.error} />
+      )}
     </div>
   );
 }
 
 function GameTheoryAgent() {
-  const { toast } = useToast();
   const [scenario, setScenario] = useState("");
-
-  const handleClick = () => {
-    toast({
-      title: "Coming Soon!",
-      description: "This feature is coming in v3 of Nomad Tradings.",
-    });
-  };
+  const gameTheory = useAgentStream<GameTheoryReport>("/api/agents/game-theory/stream");
+  useRefreshHistory(gameTheory.result);
 
   return (
     <div className="flex flex-col gap-3 flex-1">
@@ -136,48 +209,54 @@ function GameTheoryAgent() {
         className="flex-1 min-h-[100px]"
         data-testid="input-game-scenario"
       />
-      <Button 
-        onClick={handleClick}
-        className="w-full"
-        data-testid="button-game-theory"
-      >
-        <Rocket className="h-4 w-4 mr-2" />
-        Analyze Strategy
-      </Button>
+      <RunButton
+        isStreaming={gameTheory.isStreaming}
+        onRun={() => gameTheory.start({ scenario: scenario.trim() || undefined })}
+        onStop={gameTheory.stop}
+        label="Analyze Strategy"
+        testId="button-game-theory"
+      />
+      {gameTheory.result ? (
+        <div className="border-t border-border pt-3">
+          <GameTheoryReportView report={gameTheory.result} />
+        </div>
+      ) : (
+        <ReportStatus isStreaming={gameTheory.isStreaming} retries={gameTheory.retries} error={gameTheory.error} />
+      )}
     </div>
   );
 }
 
 function RiskAgent() {
-  const { toast } = useToast();
-
-  const handleClick = () => {
-    toast({
-      title: "Coming Soon!",
-      description: "This feature is coming in v3 of Nomad Tradings.",
-    });
-  };
+  const risk = useAgentStream<RiskReport>("/api/agents/risk/stream");
+  useRefreshHistory(risk.result);
 
   return (
     <div className="flex flex-col gap-3 flex-1">
       <p className="text-sm text-muted-foreground">
         Analyzes your current portfolio for concentration risk, volatility exposure, and provides hedging recommendations.
       </p>
-      <Button 
-        onClick={handleClick}
-        className="w-full"
-        data-testid="button-risk"
-      >
-        <Rocket className="h-4 w-4 mr-2" />
-        Analyze Portfolio Risk
-      </Button>
+      <RunButton
+        isStreaming={risk.isStreaming}
+        onRun={() => risk.start()}
+        onStop={risk.stop}
+        label="Analyze Portfolio Risk"
+        testId="button-risk"
+      />
+      {risk.result ? (
+        <div className="border-t border-border pt-3">
+          <RiskReportView report={risk.result} />
+        </div>
+      ) : (
+        <ReportStatus isStreaming={risk.isStreaming} retries={risk.retries} error={risk.error} />
+      )}
     </div>
   );
 }
 
 export default function Agents() {
   return (
-    <div className="container mx-auto px-4 py-6 max-w-6xl pb-20 md:pb-6">
+    <div className="container mx-auto px-4 py-6 max-w-7xl pb-20 md:pb-6">
       <div className="mb-6">
         <div className="flex flex-wrap items-center gap-3 mb-2">
           <Bot className="h-8 w-8 text-primary" />
@@ -192,44 +271,52 @@ export default function Agents() {
         </p>
       </div>
 
-      <div className="grid gap-4 sm:gap-6 grid-cols-1 md:grid-cols-2">
-        <AgentCard
-          icon={Search}
-          title="Research Agent"
-          description="Deep-dive analysis on any stock with key metrics, news, and investment thesis."
-          badge="Research"
-        >
-          <ResearchAgent />
-        </AgentCard>
+      <div className="grid gap-4 sm:gap-6 grid-cols-1 xl:grid-cols-[minmax(0,1fr)_320px] items-start">
+        <div className="grid gap-4 sm:gap-6 grid-cols-1 md:grid-cols-2">
+          <AgentCard
+            icon={Search}
+            title="Research Agent"
+            description="Looks up live quotes, price history, news and your portfolio, then writes a cited research report."
+            badge="Research"
+          >
+            <ResearchAgent />
+          </AgentCard>
 
-        <AgentCard
-          icon={TrendingUp}
-          title="Sentiment Agent"
-          description="Analyze social media and market sentiment for any stock or sector."
-          badge="Analysis"
-        >
-          <SentimentAgent />
-        </AgentCard>
+          <AgentCard
+            icon={TrendingUp}
+            title="Sentiment Agent"
+            description="Analyze social media and market sentiment for any stock or sector."
+            badge="Analysis"
+          >
+            <SentimentAgent />
+          </AgentCard>
 
-        <AgentCard
-          icon={Brain}
-          title="Game Theory Agent"
-          description="Apply game theory principles to optimize your trading decisions and strategies."
-          badge="Strategy"
-        >
-          <GameTheoryAgent />
-        </AgentCard>
+          <AgentCard
+            icon={Brain}
+            title="Game Theory Agent"
+            description="Apply game theory principles to optimize your trading decisions and strategies."
+            badge="Strategy"
+          >
+            <GameTheoryAgent />
+          </AgentCard>
 
-        <AgentCard
-          icon={Shield}
-          title="Risk Analysis Agent"
-          description="Comprehensive portfolio risk assessment with hedging recommendations."
-          badge="Risk"
-        >
-          <RiskAgent />
-        </AgentCard>
+          <AgentCard
+            icon={Shield}
+            title="Risk Analysis Agent"
+            description="Comprehensive portfolio risk assessment with hedging recommendations."
+            badge="Risk"
+          >
+            <RiskAgent />
+          </AgentCard>
+        </div>
+
+        <AgentHistory />
       </div>
 
+      <ChatPanel />
+
+      <TradingBots />
+
       <Card className="mt-6 bg-gradient-to-br from-primary/5 to-background border-primary/20">
         <CardContent className="pt-6">
           <div className="flex flex-col sm:flex-row items-start gap-4">
@@ -0,0 +1,427 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FlaskConical, Play, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Backtest, BacktestSummary, BacktestExitReason } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS = [
+  { value: "1", label: "1 year" },
+  { value: "3", label: "3 years" },
+  { value: "5", label: "5 years" },
+  { value: "10", label: "10 years" },
+];
+
+// A moving-average crossover with RSI and stop exits, to start from
+const EXAMPLE_RULES = {
+  entry: [{ left: "sma:20", op: "crosses_above", right: "sma:50" }],
+  exit: [
+    { left: "sma:20", op: "crosses_below", right: "sma:50" },
+    { left: "rsi:14", op: ">", right: 75 },
+  ],
+  sizing: { type: "percent_equity", value: 25 },
+  stopLossPercent: 8,
+  takeProfitPercent: 25,
+};
+
+const EXIT_LABELS: Record<BacktestExitReason, string> = {
+  signal: "Signal",
+  stop_loss: "Stop loss",
+  take_profit: "Take profit",
+  end_of_test: "End of test",
+};
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatPercent(value: number): string {
+  const sign = value >= 0 ? "+" : "";
+  return `${sign}${value.toFixed(2)}%`;
+}
+
+function Stat({ label, value, tone }: { label: string; value: string; tone?: "gain" | "loss" }) {
+  return (
+    <div className="p-3 rounded-md bg-muted/30">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className={`font-mono font-semibold ${tone === "gain" ? "text-gain" : tone === "loss" ? "text-loss" : ""}`}>
+        {value}
+      </div>
+    </div>
+  );
+}
+
+function BacktestResults({ id }: { id: string }) {
+  const { data: backtest, isLoading } = useQuery<Backtest>({
+    queryKey: ["/api/backtests", id],
+  });
+
+  if (isLoading || !backtest) {
+    return <Skeleton className="h-[480px] w-full rounded-lg" />;
+  }
+
+  const { stats, config } = backtest;
+  const tone = (value: number) => (value >= 0 ? "gain" : "loss");
+  const intraday = config.resolution !== "D" && config.resolution !== "W" && config.resolution !== "M";
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg flex items-center justify-between gap-2">
+            <span data-testid="text-backtest-name">{backtest.name}</span>
+            <span className="text-xs font-normal text-muted-foreground">
+              {config.symbols.join(", ")} · {format(new Date(config.from), "MMM d, yyyy")} – {format(new Date(config.to!), "MMM d, yyyy")}
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2" data-testid="backtest-stats">
+            <Stat label="Total Return" value={formatPercent(stats.totalReturn)} tone={tone(stats.totalReturn)} />
+            <Stat label="CAGR" value={formatPercent(stats.cagr)} tone={tone(stats.cagr)} />
+            <Stat label="Sharpe" value={stats.sharpe.toFixed(2)} />
+            <Stat label="Max Drawdown" value={`${stats.maxDrawdown.toFixed(2)}%`} tone={stats.maxDrawdown > 0 ? "loss" : undefined} />
+            <Stat label="Win Rate" value={`${stats.winRate.toFixed(1)}%`} />
+            <Stat label="Trades" value={String(stats.tradeCount)} />
+          </div>
+
+          <ResponsiveContainer width="100%" height={240}>
+            <AreaChart data={backtest.equityCurve} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+              <defs>
+                <linearGradient id="equityGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3} />
+                  <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <XAxis
+                dataKey="time"
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={11}
+                tickLine={false}
+                minTickGap={40}
+                tickFormatter={(time) => format(new Date(time), intraday ? "MMM d" : "MMM yyyy")}
+              />
+              <YAxis
+                orientation="right"
+                domain={["auto", "auto"]}
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={11}
+                tickLine={false}
+                width={70}
+                tickFormatter={(value) => `$${Math.round(value).toLocaleString()}`}
+              />
+              <Tooltip
+                labelFormatter={(time) => format(new Date(time as number), intraday ? "MMM d, h:mm a" : "MMM d, yyyy")}
+                formatter={(value: number) => [formatCurrency(value), "Equity"]}
+                contentStyle={{ fontSize: 12 }}
+              />
+              <Area
+                type="monotone"
+                dataKey="equity"
+                stroke="hsl(var(--primary))"
+                fill="url(#equityGradient)"
+                strokeWidth={1.5}
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Trades</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {backtest.trades.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The rules never entered a position in this range</p>
+          ) : (
+            <div className="max-h-[400px] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead className="text-right">Shares</TableHead>
+                    <TableHead>Entry</TableHead>
+                    <TableHead>Exit</TableHead>
+                    <TableHead className="text-right">P/L</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {backtest.trades.map((trade, i) => (
+                    <TableRow key={i} data-testid={`row-backtest-trade-${i}`}>
+                      <TableCell className="font-medium">{trade.symbol}</TableCell>
+                      <TableCell className="text-right font-mono">{trade.quantity}</TableCell>
+                      <TableCell className="text-xs">
+                        <div>{format(new Date(trade.entryTime), "MMM d, yyyy")}</div>
+                        <div className="font-mono text-muted-foreground">{formatCurrency(trade.entryPrice)}</div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <div>{format(new Date(trade.exitTime), "MMM d, yyyy")}</div>
+                        <div className="font-mono text-muted-foreground">{formatCurrency(trade.exitPrice)}</div>
+                      </TableCell>
+                      <TableCell className={`text-right font-mono ${trade.profitLoss >= 0 ? "text-gain" : "text-loss"}`}>
+                        <div>{formatCurrency(trade.profitLoss)}</div>
+                        <div className="text-xs">{formatPercent(trade.returnPercent)}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-xs">{EXIT_LABELS[trade.exitReason]}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function Backtests() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("SMA crossover");
+  const [symbols, setSymbols] = useState("AAPL, MSFT");
+  const [resolution, setResolution] = useState("D");
+  const [years, setYears] = useState("3");
+  const [startingCash, setStartingCash] = useState("100000");
+  const [rules, setRules] = useState(JSON.stringify(EXAMPLE_RULES, null, 2));
+
+  const { data: backtests, isLoading } = useQuery<BacktestSummary[]>({
+    queryKey: ["/api/backtests"],
+  });
+
+  // Show the newest run until one is picked
+  useEffect(() => {
+    if (!selectedId && backtests && backtests.length > 0) {
+      setSelectedId(backtests[0].id);
+    }
+  }, [backtests, selectedId]);
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      let parsedRules: unknown;
+      try {
+        parsedRules = JSON.parse(rules);
+      } catch {
+        throw new Error("Rules must be valid JSON");
+      }
+      const res = await apiRequest("POST", "/api/backtests", {
+        name,
+        symbols: symbols.split(",").map((s) => s.trim()).filter(Boolean),
+        resolution,
+        from: Date.now() - parseInt(years) * 365 * DAY_MS,
+        startingCash: parseFloat(startingCash),
+        rules: parsedRules,
+      });
+      return (await res.json()) as Backtest;
+    },
+    onSuccess: (backtest) => {
+      queryClient.setQueryData(["/api/backtests", backtest.id], backtest);
+      queryClient.invalidateQueries({ queryKey: ["/api/backtests"], exact: true });
+      setSelectedId(backtest.id);
+      toast({
+        title: "Backtest Complete",
+        description: `${backtest.name}: ${formatPercent(backtest.stats.totalReturn)} over ${backtest.stats.tradeCount} trades`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Backtest Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/backtests/${id}`);
+    },
+    onSuccess: (_, id) => {
+      if (selectedId === id) setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/backtests"], exact: true });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background pb-20 md:pb-6">
+      <div className="container mx-auto px-4 py-4 sm:py-6">
+        <div className="flex items-center gap-3 mb-6">
+          <FlaskConical className="h-6 w-6 sm:h-8 sm:w-8 text-primary" />
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold">Backtests</h1>
+            <p className="text-sm text-muted-foreground">Replay historical prices through a set of trading rules before paper-trading them</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+          <div className="space-y-4">
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">New Backtest</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="space-y-1">
+                  <Label htmlFor="backtest-name">Name</Label>
+                  <Input id="backtest-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-backtest-name" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="backtest-symbols">Symbols</Label>
+                  <Input
+                    id="backtest-symbols"
+                    value={symbols}
+                    onChange={(e) => setSymbols(e.target.value.toUpperCase())}
+                    placeholder="AAPL, MSFT"
+                    data-testid="input-backtest-symbols"
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-1">
+                    <Label>Bars</Label>
+                    <Select value={resolution} onValueChange={setResolution}>
+                      <SelectTrigger data-testid="select-backtest-resolution">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="D">Daily</SelectItem>
+                        <SelectItem value="W">Weekly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Period</Label>
+                    <Select value={years} onValueChange={setYears}>
+                      <SelectTrigger data-testid="select-backtest-period">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PERIODS.map((p) => (
+                          <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="backtest-cash">Cash</Label>
+                    <Input
+                      id="backtest-cash"
+                      type="number"
+                      min="1"
+                      value={startingCash}
+                      onChange={(e) => setStartingCash(e.target.value)}
+                      data-testid="input-backtest-cash"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="backtest-rules">Rules</Label>
+                  <Textarea
+                    id="backtest-rules"
+                    value={rules}
+                    onChange={(e) => setRules(e.target.value)}
+                    className="font-mono text-xs min-h-[240px]"
+                    spellCheck={false}
+                    data-testid="input-backtest-rules"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Operands are bar fields (close, volume...) or indicators such as sma:50, rsi:14 or
+                    bollinger:20:2.lower. Entry needs every condition; exit needs any one.
+                  </p>
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={() => runMutation.mutate()}
+                  disabled={runMutation.isPending}
+                  data-testid="button-run-backtest"
+                >
+                  <Play className="h-4 w-4 mr-1" />
+                  {runMutation.isPending ? "Running..." : "Run Backtest"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Saved Runs</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {isLoading ? (
+                  <Skeleton className="h-16 w-full" />
+                ) : backtests && backtests.length > 0 ? (
+                  backtests.map((b) => (
+                    <div
+                      key={b.id}
+                      className={`flex items-center justify-between gap-2 p-2 rounded-md cursor-pointer hover-elevate ${b.id === selectedId ? "bg-muted" : ""}`}
+                      onClick={() => setSelectedId(b.id)}
+                      data-testid={`backtest-${b.id}`}
+                    >
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium truncate">{b.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {b.config.symbols.join(", ")} · {format(new Date(b.createdAt), "MMM d")}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <span className={`text-sm font-mono ${b.stats.totalReturn >= 0 ? "text-gain" : "text-loss"}`}>
+                          {formatPercent(b.stats.totalReturn)}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteMutation.mutate(b.id);
+                          }}
+                          data-testid={`button-delete-backtest-${b.id}`}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">No backtests yet</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2">
+            {selectedId ? (
+              <BacktestResults id={selectedId} />
+            ) : (
+              <Card>
+                <CardContent className="py-16 text-center text-sm text-muted-foreground">
+                  Run a backtest to see its equity curve, trades and statistics
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
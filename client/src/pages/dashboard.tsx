@@ -9,6 +9,7 @@ import { OptionsPositions } from "@/components/options-positions";
 import { Watchlist } from "@/components/watchlist";
 import { TradeHistory } from "@/components/trade-history";
 import { AITips } from "@/components/ai-tips";
+import { VoiceAssistant } from "@/components/voice-assistant";
 import { StockTicker } from "@/components/stock-ticker";
 import { StockDetailModal } from "@/components/stock-detail-modal";
 import type { Portfolio, StockQuote } from "@shared/schema";
@@ -44,6 +45,7 @@ export default function Dashboard() {
           {/* Trading Column - Shows first on mobile */}
           <div className="lg:col-span-4 lg:order-2 space-y-4 sm:space-y-6">
             <Watchlist onSelectStock={handleSelectStock} onOpenDetail={handleOpenDetail} />
+            <VoiceAssistant />
             <AITips />
             <StockSearch onSelectStock={handleSelectStock} />
             <TradingPanel selectedStock={selectedStock} />
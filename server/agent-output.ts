@@ -0,0 +1,189 @@
+// Typed results for the sentiment, game theory and risk agents. Each agent has
+// one tool whose input is its report. Claude is forced to call it, the input is
+// checked against the agent's zod schema, and a report that fails the check is
+// handed back as a tool error so the next attempt can fix it.
+import type Anthropic from "@anthropic-ai/sdk";
+import type { z } from "zod";
+import {
+  sentimentReportSchema,
+  gameTheoryReportSchema,
+  riskReportSchema,
+  type SentimentReport,
+  type GameTheoryReport,
+  type RiskReport,
+  type AgentPortfolioSnapshot,
+  type AgentUsage,
+} from "@shared/schema";
+import type { AgentPrompt } from "./agent-prompts";
+import { MODEL, type EventStream } from "./agent-stream";
+
+const MAX_ATTEMPTS = 3;
+
+// A finished run: the report plus what the run history records about it
+export interface AgentResult<T> {
+  output: T;
+  model: string;
+  usage: AgentUsage;
+  portfolio: AgentPortfolioSnapshot | null;
+}
+
+export interface AgentOutput<T> {
+  tool: Anthropic.Tool;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+const STANCE = { type: "string", enum: ["bullish", "bearish", "neutral"] };
+
+export const SENTIMENT_OUTPUT: AgentOutput<SentimentReport> = {
+  schema: sentimentReportSchema,
+  tool: {
+    name: "submit_sentiment",
+    description: "Submit the sentiment analysis.",
+    input_schema: {
+      type: "object",
+      properties: {
+        score: { type: "integer", minimum: 1, maximum: 10, description: "10 is extremely bullish" },
+        sentiment: STANCE,
+        summary: { type: "string", description: "Two or three sentences" },
+        narratives: {
+          type: "array",
+          description: "One to eight key narratives",
+          items: {
+            type: "object",
+            properties: { stance: STANCE, narrative: { type: "string" } },
+            required: ["stance", "narrative"],
+          },
+        },
+      },
+      required: ["score", "sentiment", "summary", "narratives"],
+    },
+  },
+};
+
+export const GAME_THEORY_OUTPUT: AgentOutput<GameTheoryReport> = {
+  schema: gameTheoryReportSchema,
+  tool: {
+    name: "submit_strategy",
+    description: "Submit the game theory analysis.",
+    input_schema: {
+      type: "object",
+      properties: {
+        summary: { type: "string", description: "Two or three sentences" },
+        players: {
+          type: "array",
+          description: "The market participants that matter, up to six",
+          items: {
+            type: "object",
+            properties: { name: { type: "string" }, incentive: { type: "string" } },
+            required: ["name", "incentive"],
+          },
+        },
+        equilibrium: { type: "string", description: "The likely equilibrium and why" },
+        strategies: {
+          type: "array",
+          description: "The options weighed, up to six",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              successProbability: { type: "number", minimum: 0, maximum: 1 },
+              expectedReturnPercent: { type: "number" },
+              upside: { type: "string" },
+              downside: { type: "string" },
+            },
+            required: ["name", "successProbability", "expectedReturnPercent", "upside", "downside"],
+          },
+        },
+        recommendation: {
+          type: "object",
+          properties: {
+            strategy: { type: "string", description: "Exactly the name of one of the strategies" },
+            rationale: { type: "string" },
+          },
+          required: ["strategy", "rationale"],
+        },
+        confidence: { type: "string", enum: ["low", "medium", "high"] },
+      },
+      required: ["summary", "players", "equilibrium", "strategies", "recommendation", "confidence"],
+    },
+  },
+};
+
+export const RISK_OUTPUT: AgentOutput<RiskReport> = {
+  schema: riskReportSchema,
+  tool: {
+    name: "submit_risk_report",
+    description: "Submit the portfolio risk assessment.",
+    input_schema: {
+      type: "object",
+      properties: {
+        score: { type: "integer", minimum: 1, maximum: 10, description: "10 is the riskiest" },
+        level: { type: "string", enum: ["low", "moderate", "high", "severe"] },
+        summary: { type: "string", description: "Two or three sentences" },
+        findings: {
+          type: "array",
+          description: "One to eight findings, most severe first",
+          items: {
+            type: "object",
+            properties: {
+              category: { type: "string", enum: ["concentration", "sector", "volatility", "downside", "liquidity", "leverage"] },
+              severity: { type: "string", enum: ["low", "medium", "high"] },
+              finding: { type: "string" },
+              recommendation: { type: "string" },
+            },
+            required: ["category", "severity", "finding", "recommendation"],
+          },
+        },
+        hedges: { type: "array", items: { type: "string" }, description: "Up to five hedging ideas" },
+      },
+      required: ["score", "level", "summary", "findings", "hedges"],
+    },
+  },
+};
+
+export async function runStructuredAgent<T>(
+  anthropic: Anthropic,
+  { prompt, maxTokens, portfolio }: AgentPrompt,
+  output: AgentOutput<T>,
+  stream?: EventStream,
+): Promise<AgentResult<T>> {
+  const { name } = output.tool;
+  const messages: Anthropic.MessageParam[] = [{ role: "user", content: prompt }];
+  const usage: AgentUsage = { inputTokens: 0, outputTokens: 0 };
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const response = await anthropic.messages.create({
+      model: MODEL,
+      max_tokens: maxTokens,
+      tools: [output.tool],
+      tool_choice: { type: "tool", name },
+      messages,
+    }, { signal: stream?.signal });
+    usage.inputTokens += response.usage.input_tokens;
+    usage.outputTokens += response.usage.output_tokens;
+
+    const use = response.content.find((block): block is Anthropic.ToolUseBlock => block.type === "tool_use");
+    // Only a reply cut off before the tool call has none; ask again as it was
+    if (!use) continue;
+
+    const result = output.schema.safeParse(use.input);
+    if (result.success) {
+      return { output: result.data, model: response.model, usage, portfolio: portfolio ?? null };
+    }
+
+    const problems = result.error.errors.map(e => `${e.path.join(".") || "report"}: ${e.message}`).join("; ");
+    stream?.send({ type: "retry", attempt, error: problems });
+    messages.push({ role: "assistant", content: response.content });
+    messages.push({
+      role: "user",
+      content: [{
+        type: "tool_result",
+        tool_use_id: use.id,
+        content: `The report was rejected: ${problems}. Call ${name} again with a corrected report.`,
+        is_error: true,
+      }],
+    });
+  }
+
+  throw new Error(`${name} did not produce a valid report in ${MAX_ATTEMPTS} attempts`);
+}
@@ -0,0 +1,187 @@
+// Prompts for the single-shot AI endpoints. Each one is served both as a plain
+// JSON response and as a token stream, so both read from here. The system
+// prompts for chat and the voice assistant live here too, since they draw on
+// the same portfolio data.
+import type { AgentPortfolioSnapshot } from "@shared/schema";
+import { storage } from "./storage";
+import { getQuotes } from "./quote-cache";
+
+export interface AgentPrompt {
+  prompt: string;
+  maxTokens: number;
+  // The holdings the prompt was written from, saved with the agent's run
+  portfolio?: AgentPortfolioSnapshot;
+}
+
+export async function portfolioSnapshot(userId: number): Promise<AgentPortfolioSnapshot> {
+  const portfolio = await storage.getPortfolio(userId);
+  const positions = await storage.getPositions(userId);
+  return {
+    cash: portfolio.cash,
+    totalValue: portfolio.totalValue,
+    dayChange: portfolio.dayChange,
+    totalProfitLossPercent: portfolio.totalProfitLossPercent,
+    positions: positions.map(({ symbol, quantity, averagePrice, currentPrice, profitLossPercent }) => ({
+      symbol,
+      quantity,
+      averagePrice,
+      currentPrice,
+      profitLossPercent,
+    })),
+  };
+}
+
+export async function tipsPrompt(userId: number): Promise<AgentPrompt> {
+  const portfolio = await storage.getPortfolio(userId);
+  const positions = await storage.getPositions(userId);
+  const watchlist = await storage.getWatchlist(userId);
+
+  const positionSummary = positions.map(p =>
+    `${p.symbol}: ${p.quantity} shares @ $${p.averagePrice.toFixed(2)} (current: $${p.currentPrice.toFixed(2)}, P/L: ${p.profitLossPercent.toFixed(2)}%)`
+  ).join("\n");
+
+  const watchlistSymbols = watchlist.map(w => w.symbol).join(", ");
+
+  const prompt = `You are a helpful AI trading assistant for a paper trading simulator called "Nomad Tradings".
+
+Current portfolio status:
+- Cash: $${portfolio.cash.toFixed(2)}
+- Total Value: $${portfolio.totalValue.toFixed(2)}
+- Total P/L: ${portfolio.totalProfitLossPercent.toFixed(2)}%
+
+Current positions:
+${positionSummary || "No positions yet"}
+
+Watchlist: ${watchlistSymbols || "Empty"}
+
+Provide 3 actionable trading tips based on this portfolio. Be specific and educational. Consider:
+1. Portfolio diversification
+2. Risk management
+3. Potential opportunities
+
+Keep each tip concise (2-3 sentences). Format as a numbered list.`;
+
+  return { prompt, maxTokens: 500 };
+}
+
+// The sentiment, game theory and risk prompts are answered through the tools in
+// agent-output.ts, which hold the shape of each report
+export function sentimentPrompt(symbol: string | undefined): AgentPrompt {
+  const prompt = `You are a social media sentiment analyst specializing in stock market analysis. Analyze the general market sentiment for ${symbol || "the overall market"}.
+
+Consider:
+- Typical retail investor sentiment patterns
+- Common bullish and bearish narratives
+- Social media trends and discussions
+- News sentiment impact
+
+Give a sentiment score (1-10, where 10 is extremely bullish), the overall sentiment, a short summary of your reasoning, and the key narratives with the stance each one supports.`;
+
+  return { prompt, maxTokens: 1500 };
+}
+
+export async function gameTheoryPrompt(userId: number, scenario?: string, options?: string): Promise<AgentPrompt> {
+  const portfolio = await portfolioSnapshot(userId);
+
+  const prompt = `You are a game theory strategist specializing in market dynamics and trading decisions.
+
+Current portfolio: $${portfolio.totalValue.toFixed(2)} (Cash: $${portfolio.cash.toFixed(2)})
+
+Scenario: ${scenario || "Standard market conditions - help optimize trading strategy"}
+Options being considered: ${options || "Buy, hold, or sell positions"}
+
+Apply game theory principles to analyze:
+1. The market participants involved and their incentives
+2. Nash equilibrium considerations
+3. Risk/reward asymmetries across the options
+4. Optimal strategy given current conditions
+
+Weigh each option with a probability of success and an expected return, then recommend one of them.`;
+
+  return { prompt, maxTokens: 2000, portfolio };
+}
+
+export async function riskPrompt(userId: number): Promise<AgentPrompt> {
+  const portfolio = await portfolioSnapshot(userId);
+
+  const positionSummary = portfolio.positions.map(p =>
+    `${p.symbol}: ${p.quantity} shares @ $${p.averagePrice.toFixed(2)} (${((p.quantity * p.currentPrice / portfolio.totalValue) * 100).toFixed(1)}% of portfolio)`
+  ).join("\n");
+
+  const prompt = `You are a risk management expert. Analyze this portfolio for potential risks:
+
+Portfolio Value: $${portfolio.totalValue.toFixed(2)}
+Cash: $${portfolio.cash.toFixed(2)} (${((portfolio.cash / portfolio.totalValue) * 100).toFixed(1)}%)
+
+Positions:
+${positionSummary || "No positions"}
+
+Analyze:
+1. Concentration risk
+2. Sector exposure
+3. Volatility considerations
+4. Downside scenarios
+5. Hedging recommendations
+
+Give a risk score (1-10, where 10 is the riskiest) and overall level, then each finding with its severity and a specific recommendation, and any hedges worth considering.`;
+
+  return { prompt, maxTokens: 1500, portfolio };
+}
+
+// Tickers written as cashtags, e.g. "$AAPL" or "$BRK.B"
+export function mentionedSymbols(text: string): string[] {
+  const matches = text.match(/\$[A-Za-z]{1,5}(\.[A-Za-z])?\b/g) ?? [];
+  return Array.from(new Set(matches.map(tag => tag.slice(1).toUpperCase())));
+}
+
+// Holdings as the conversational assistants see them, rebuilt on every turn
+async function accountSnapshot(userId: number): Promise<string> {
+  const portfolio = await storage.getPortfolio(userId);
+  const positions = await storage.getPositions(userId);
+  const watchlist = await storage.getWatchlist(userId);
+
+  const positionSummary = positions.map(p =>
+    `- ${p.symbol}: ${p.quantity} shares @ $${p.averagePrice.toFixed(2)} (current: $${p.currentPrice.toFixed(2)}, P/L: ${p.profitLossPercent.toFixed(2)}%)`
+  ).join("\n");
+
+  return `Snapshot of the user's account as of ${new Date().toISOString()}:
+- Cash: $${portfolio.cash.toFixed(2)}
+- Total Value: $${portfolio.totalValue.toFixed(2)}
+- Today: ${portfolio.dayChange >= 0 ? "+" : "-"}$${Math.abs(portfolio.dayChange).toFixed(2)} (${portfolio.dayChangePercent.toFixed(2)}%)
+- Total P/L: $${portfolio.totalProfitLoss.toFixed(2)} (${portfolio.totalProfitLossPercent.toFixed(2)}%)
+
+Positions:
+${positionSummary || "No positions yet"}
+
+Watchlist: ${watchlist.map(w => w.symbol).join(", ") || "Empty"}`;
+}
+
+// The account snapshot, plus quotes for tickers mentioned in the conversation
+export async function chatSystemPrompt(userId: number, symbols: string[]): Promise<string> {
+  const quotes = await getQuotes(symbols.slice(0, 10));
+
+  const quoteSummary = Array.from(quotes.entries()).map(([symbol, quote]) =>
+    quote
+      ? `- ${symbol}: $${quote.currentPrice.toFixed(2)} (${quote.changePercent >= 0 ? "+" : ""}${quote.changePercent.toFixed(2)}% today, range $${quote.low.toFixed(2)}-$${quote.high.toFixed(2)})`
+      : `- ${symbol}: no quote available`
+  ).join("\n");
+
+  return `You are the trading assistant in "Nomad Tradings", a paper trading simulator. Be concise and educational, and remember the money is virtual.
+
+${await accountSnapshot(userId)}
+${quoteSummary ? `\nQuotes for tickers mentioned in this conversation:\n${quoteSummary}\n` : ""}
+Refer to tickers as cashtags like $AAPL so the app can link them. Only quote prices that appear above.
+
+When the user asks you to trade, call propose_order. It only drafts the order: the user confirms or rejects it in the app, so never say an order has been placed.`;
+}
+
+// Replies are read aloud, so they have to work without any formatting
+export async function voiceSystemPrompt(userId: number, pendingOrder?: string): Promise<string> {
+  return `You are the voice assistant in "Nomad Tradings", a paper trading simulator. The money is virtual.
+
+${await accountSnapshot(userId)}
+
+Your answers are spoken aloud. Reply in two or three short sentences of plain speech: no markdown, lists, symbols or tables. Say tickers as letters or company names and round prices to the cent.
+
+Use get_quote for any price not in the snapshot; never guess one. When the user asks to trade, call propose_order for one order at a time. It only drafts the order, and the user has to confirm it out loud before it is placed, so never say it has been placed.${pendingOrder ? `\n\nAn order is waiting for the user's confirmation: ${pendingOrder}. If they seem unsure, remind them to say confirm or cancel.` : ""}`;
+}
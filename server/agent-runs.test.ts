@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { AgentRun } from "@shared/schema";
+import { request, signUp, startTestApp } from "./test-app";
+
+// The background jobs trade on their own schedule and would only add noise
+vi.mock("./order-matcher", async (importOriginal) => ({ ...await importOriginal<object>(), startOrderMatcher: vi.fn() }));
+vi.mock("./risk-monitor", async (importOriginal) => ({ ...await importOriginal<object>(), startRiskMonitor: vi.fn() }));
+vi.mock("./option-expiry", async (importOriginal) => ({ ...await importOriginal<object>(), startOptionExpiry: vi.fn() }));
+vi.mock("./price-stream", async (importOriginal) => ({ ...await importOriginal<object>(), startPriceStream: vi.fn() }));
+vi.mock("./bot-runner", async (importOriginal) => ({ ...await importOriginal<object>(), startBotRunner: vi.fn() }));
+vi.mock("./trade-proposals", async (importOriginal) => ({ ...await importOriginal<object>(), startProposalSweep: vi.fn() }));
+
+let stopApp: () => Promise<void>;
+
+beforeAll(async () => {
+  stopApp = await startTestApp();
+});
+
+afterAll(async () => {
+  await stopApp?.();
+});
+
+describe("agent run history", () => {
+  it("reads a saved report back with its agent", async () => {
+    const cookie = await signUp();
+    const { storage } = await import("./storage");
+    const { body: user } = await request<{ id: number }>(cookie, "GET", "/api/user");
+    const output = {
+      symbol: "AAPL",
+      summary: "Steady quarter",
+      sections: [{ title: "Earnings", content: "Beat estimates [1]", citations: [1] }],
+      sources: [{ number: 1, headline: "Apple beats", source: "Wire", url: "https://example.com", datetime: 0 }],
+      toolCalls: [{ tool: "get_quote", input: { symbol: "AAPL" } }],
+    };
+    const saved = await storage.createAgentRun(user.id, {
+      agent: "research",
+      symbol: "AAPL",
+      input: { symbol: "AAPL" },
+      portfolio: null,
+      model: "test",
+      inputTokens: 1,
+      outputTokens: 1,
+      headline: output.summary,
+      output,
+    });
+
+    const res = await request<AgentRun>(cookie, "GET", `/api/agent-runs/${saved.id}`);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ agent: "research", output });
+    expect((await request(cookie, "GET", "/api/agent-runs/0")).status).toBe(400);
+  });
+
+  it("treats a report that no longer matches its schema as not found", async () => {
+    const cookie = await signUp();
+    const { storage } = await import("./storage");
+    const { db } = await import("./db");
+    const { agentRuns } = await import("@shared/schema");
+    const { eq } = await import("drizzle-orm");
+    const { body: user } = await request<{ id: number }>(cookie, "GET", "/api/user");
+    const saved = await storage.createAgentRun(user.id, {
+      agent: "research",
+      symbol: "AAPL",
+      input: { symbol: "AAPL" },
+      portfolio: null,
+      model: "test",
+      inputTokens: 1,
+      outputTokens: 1,
+      headline: "Steady quarter",
+      output: { symbol: "AAPL", summary: "Steady quarter", sections: [], sources: [], toolCalls: [] },
+    });
+    // A research report from before sections were required
+    const stale = { symbol: "AAPL", summary: "Steady quarter" } as unknown as AgentRun["output"];
+    await db.update(agentRuns).set({ output: stale }).where(eq(agentRuns.id, Number(saved.id)));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect((await request(cookie, "GET", `/api/agent-runs/${saved.id}`)).status).toBe(404);
+    expect((await request<unknown[]>(cookie, "GET", "/api/agent-runs")).body).toHaveLength(1);
+  });
+});
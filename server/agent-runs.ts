@@ -0,0 +1,43 @@
+// Run history for the Agents page. Every agent endpoint goes through
+// recordAgentRun, which saves what the agent was asked, the portfolio it saw,
+// the model and tokens it used, and the report it returned.
+import type { AgentRun, AgentRunInput, AgentType } from "@shared/schema";
+import { storage } from "./storage";
+import type { AgentResult } from "./agent-output";
+
+type AgentOutputs = { [R in AgentRun as R["agent"]]: R["output"] };
+
+// One line for the history list, enough to tell runs apart at a glance
+const HEADLINES: { [A in AgentType]: (output: AgentOutputs[A]) => string } = {
+  research: (output) => output.summary || output.sections[0]?.title || "Research report",
+  sentiment: (output) => `${output.score}/10, ${output.sentiment}`,
+  game_theory: (output) => `${output.recommendation.strategy} (${output.confidence} confidence)`,
+  risk: (output) => `${output.score}/10, ${output.level} risk`,
+};
+
+// Runs an agent and saves the run. Losing the history entry is not worth
+// losing the report over, so a failed save is only logged.
+export async function recordAgentRun<A extends AgentType>(
+  userId: number,
+  agent: A,
+  input: AgentRunInput,
+  run: () => Promise<AgentResult<AgentOutputs[A]>>,
+): Promise<AgentOutputs[A]> {
+  const { output, model, usage, portfolio } = await run();
+  try {
+    await storage.createAgentRun(userId, {
+      agent,
+      symbol: input.symbol ?? null,
+      input,
+      portfolio,
+      model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      headline: HEADLINES[agent](output).slice(0, 300),
+      output,
+    });
+  } catch (error) {
+    console.error("Error saving agent run:", error);
+  }
+  return output;
+}
@@ -0,0 +1,73 @@
+// Server-sent events for the AI endpoints. Events are JSON objects with a type,
+// the same shape the batch helpers send:
+//   { type: "delta", text }            tokens as Claude produces them
+//   { type: "tool", tool, input }      a data lookup made by the research agent
+//   { type: "retry", attempt, error }  a report failed validation and is being redone
+//   { type: "proposal", proposal }     an order the chat drafted, awaiting confirmation
+//   { type: "done", result? }          the stream finished
+//   { type: "error", error }           the stream failed part way
+// The voice assistant also sends user_transcript, sentence and audio events in
+// the shape the audio integration's useVoiceStream hook reads.
+// Closing the connection aborts the Claude request.
+import type { Response } from "express";
+import Anthropic, { APIUserAbortError } from "@anthropic-ai/sdk";
+import type { AgentPrompt } from "./agent-prompts";
+
+export type AgentStreamEvent = { type: string; [key: string]: unknown };
+
+export interface EventStream {
+  send(event: AgentStreamEvent): void;
+  // Aborted once the client goes away
+  signal: AbortSignal;
+}
+
+export const MODEL = "claude-sonnet-4-20250514";
+
+function openEventStream(res: Response): EventStream {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  return {
+    send(event) {
+      if (!controller.signal.aborted) res.write(`data: ${JSON.stringify(event)}\n\n`);
+    },
+    signal: controller.signal,
+  };
+}
+
+// Streams one Claude reply to the client and resolves with the full text
+export async function streamPrompt(anthropic: Anthropic, { prompt, maxTokens }: AgentPrompt, stream: EventStream): Promise<string> {
+  const message = anthropic.messages.stream(
+    { model: MODEL, max_tokens: maxTokens, messages: [{ role: "user", content: prompt }] },
+    { signal: stream.signal },
+  );
+  message.on("text", text => stream.send({ type: "delta", text }));
+  return message.finalText();
+}
+
+// Runs handler against a fresh event stream; label names it in logs and errors
+export async function serveEventStream(
+  res: Response,
+  label: string,
+  handler: (stream: EventStream) => Promise<unknown>,
+): Promise<void> {
+  const stream = openEventStream(res);
+  try {
+    const result = await handler(stream);
+    stream.send(result === undefined ? { type: "done" } : { type: "done", result });
+  } catch (error) {
+    // A client that went away has no one left to tell
+    if (!(error instanceof APIUserAbortError) && !stream.signal.aborted) {
+      console.error(`Error in ${label}:`, error);
+      stream.send({ type: "error", error: `${label.charAt(0).toUpperCase()}${label.slice(1)} failed` });
+    }
+  }
+  res.end();
+}
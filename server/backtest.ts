@@ -0,0 +1,303 @@
+// Backtests replay historical candles through a rule set. Fills follow the live
+// rules for a cash account: whole shares, no commission, buys capped by cash.
+// Stop-loss and take-profit exits are evaluated like resting stop and limit orders.
+import type {
+  Candle,
+  BacktestConfig,
+  BacktestCondition,
+  BacktestResult,
+  BacktestRules,
+  BacktestStats,
+  BacktestTrade,
+  BacktestExitReason,
+  EquityPoint,
+  IndicatorSeries,
+} from "@shared/schema";
+import { parseIndicatorSpec, warmupBars, computeIndicator, IndicatorSpecError } from "./indicators";
+import { evaluateOrder } from "./order-matcher";
+import { DAY_MS } from "./margin";
+
+const BAR_FIELDS = ["open", "high", "low", "close", "volume"] as const;
+type BarField = typeof BAR_FIELDS[number];
+
+type Operand = (i: number) => number | null;
+
+function isBarField(operand: string): operand is BarField {
+  return (BAR_FIELDS as readonly string[]).includes(operand);
+}
+
+function conditions(rules: BacktestRules): BacktestCondition[] {
+  return [...rules.entry, ...rules.exit];
+}
+
+function indicatorOperands(rules: BacktestRules): string[] {
+  return conditions(rules)
+    .flatMap(c => [c.left, c.right])
+    .filter((o): o is string => typeof o === "string" && !isBarField(o));
+}
+
+// Bars to load before the test starts so every indicator is settled on day one
+export function rulesWarmupBars(rules: BacktestRules): number {
+  const specs = indicatorOperands(rules).map(operand => parseIndicatorSpec(operand.split(".")[0]));
+  return Math.max(0, ...specs.map(warmupBars));
+}
+
+// Rejects operands naming an indicator line that doesn't exist, before any data is loaded
+export function validateRules(rules: BacktestRules): void {
+  const sample: Candle[] = [];
+  indicatorOperands(rules).forEach(operand => {
+    const [spec, line] = operand.split(".");
+    const series = computeIndicator(parseIndicatorSpec(spec), sample);
+    if (line && !(line in series.lines)) {
+      throw new IndicatorSpecError(`${series.name} has no "${line}" line; use ${Object.keys(series.lines).join(", ")}`);
+    }
+  });
+}
+
+function compileOperand(
+  operand: string | number,
+  bars: Candle[],
+  computed: Map<string, IndicatorSeries>,
+  sessionMs?: number,
+): Operand {
+  if (typeof operand === "number") return () => operand;
+  if (isBarField(operand)) return i => bars[i][operand];
+
+  const [specText, line] = operand.split(".");
+  const spec = parseIndicatorSpec(specText);
+  let series = computed.get(spec.id);
+  if (!series) {
+    series = computeIndicator(spec, bars, sessionMs);
+    computed.set(spec.id, series);
+  }
+  // Without a line, an indicator stands for its first one (the MACD line, Bollinger's middle band)
+  const values = series.lines[line ?? Object.keys(series.lines)[0]];
+  return i => values[i];
+}
+
+function compileCondition(
+  condition: BacktestCondition,
+  bars: Candle[],
+  computed: Map<string, IndicatorSeries>,
+  sessionMs?: number,
+): (i: number) => boolean {
+  const left = compileOperand(condition.left, bars, computed, sessionMs);
+  const right = compileOperand(condition.right, bars, computed, sessionMs);
+  const above = (i: number): boolean | null => {
+    const l = left(i);
+    const r = right(i);
+    return l === null || r === null ? null : l > r;
+  };
+  const below = (i: number): boolean | null => {
+    const l = left(i);
+    const r = right(i);
+    return l === null || r === null ? null : l < r;
+  };
+
+  switch (condition.op) {
+    case ">":
+      return i => above(i) === true;
+    case "<":
+      return i => below(i) === true;
+    case "crosses_above":
+      return i => i > 0 && above(i - 1) === false && above(i) === true;
+    case "crosses_below":
+      return i => i > 0 && below(i - 1) === false && below(i) === true;
+  }
+}
+
+// Entry needs every entry condition at bar i, exit any one exit condition
+export function compileRules(rules: BacktestRules, bars: Candle[], sessionMs?: number) {
+  const computed = new Map<string, IndicatorSeries>();
+  const entry = rules.entry.map(c => compileCondition(c, bars, computed, sessionMs));
+  const exit = rules.exit.map(c => compileCondition(c, bars, computed, sessionMs));
+  return {
+    entry: (i: number) => entry.every(check => check(i)),
+    exit: (i: number) => exit.some(check => check(i)),
+  };
+}
+
+interface OpenPosition {
+  quantity: number;
+  entryPrice: number;
+  entryTime: number;
+}
+
+interface SymbolState {
+  symbol: string;
+  bars: Candle[];
+  indexByTime: Map<number, number>;
+  entry: (i: number) => boolean;
+  exit: (i: number) => boolean;
+  position: OpenPosition | null;
+  pending: "buy" | "sell" | null;
+  lastClose: number | null;
+}
+
+// Price a protective order fills at within a bar, or null if it isn't reached.
+// A bar that opens through the level fills at the open, as a gap would live.
+function protectiveFill(
+  order: Parameters<typeof evaluateOrder>[0],
+  level: number,
+  bar: Candle,
+  extreme: number,
+): number | null {
+  if (evaluateOrder(order, bar.open) === "fill") return bar.open;
+  if (evaluateOrder(order, extreme) === "fill") return level;
+  return null;
+}
+
+// Stop-loss or take-profit fill for a long entered at entryPrice, checked over
+// one bar. The stop goes first, so a bar that reaches both counts as a loss.
+export function protectiveExit(
+  rules: BacktestRules,
+  entryPrice: number,
+  bar: Candle,
+): { price: number; reason: "stop_loss" | "take_profit" } | null {
+  if (rules.stopLossPercent !== undefined) {
+    const stopPrice = entryPrice * (1 - rules.stopLossPercent / 100);
+    const order = { side: "sell", orderType: "stop", limitPrice: null, stopPrice, triggered: false } as const;
+    const fill = protectiveFill(order, stopPrice, bar, bar.low);
+    if (fill !== null) return { price: fill, reason: "stop_loss" };
+  }
+  if (rules.takeProfitPercent !== undefined) {
+    const limitPrice = entryPrice * (1 + rules.takeProfitPercent / 100);
+    const order = { side: "sell", orderType: "limit", limitPrice, stopPrice: null, triggered: false } as const;
+    const fill = protectiveFill(order, limitPrice, bar, bar.high);
+    if (fill !== null) return { price: fill, reason: "take_profit" };
+  }
+  return null;
+}
+
+function computeStats(startingCash: number, curve: EquityPoint[], trades: BacktestTrade[]): BacktestStats {
+  const endingEquity = curve.length > 0 ? curve[curve.length - 1].equity : startingCash;
+  const years = curve.length > 1 ? (curve[curve.length - 1].time - curve[0].time) / (365.25 * DAY_MS) : 0;
+
+  let cagr = 0;
+  if (years > 0) {
+    cagr = endingEquity > 0 ? (Math.pow(endingEquity / startingCash, 1 / years) - 1) * 100 : -100;
+  }
+
+  // Annualized from the bars actually seen, so it holds for any resolution and for 24/7 crypto
+  const returns = curve.slice(1).map((point, i) => point.equity / curve[i].equity - 1);
+  let sharpe = 0;
+  if (returns.length > 1 && years > 0) {
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const sd = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1));
+    sharpe = sd > 0 ? (mean / sd) * Math.sqrt(returns.length / years) : 0;
+  }
+
+  let peak = startingCash;
+  let maxDrawdown = 0;
+  curve.forEach(({ equity }) => {
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+  });
+
+  const wins = trades.filter(t => t.profitLoss > 0).length;
+  return {
+    startingEquity: startingCash,
+    endingEquity,
+    totalReturn: ((endingEquity - startingCash) / startingCash) * 100,
+    cagr,
+    sharpe,
+    maxDrawdown,
+    winRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+    tradeCount: trades.length,
+  };
+}
+
+// Runs the rules over each symbol's bars, which may start before config.from
+// to warm up indicators; trading starts at config.from. Signals are read at a
+// bar's close and filled at the next bar's open.
+export function runBacktest(
+  config: BacktestConfig & { to: number },
+  barsBySymbol: Map<string, Candle[]>,
+  sessionMs?: number,
+): BacktestResult {
+  const { rules, startingCash } = config;
+
+  const states: SymbolState[] = Array.from(barsBySymbol.entries()).map(([symbol, bars]) => ({
+    symbol,
+    bars,
+    indexByTime: new Map(bars.map((bar, i) => [bar.time, i])),
+    ...compileRules(rules, bars, sessionMs),
+    position: null,
+    pending: null,
+    lastClose: null,
+  }));
+
+  const times = Array.from(new Set(
+    states.flatMap(s => s.bars.filter(b => b.time >= config.from && b.time <= config.to).map(b => b.time))
+  )).sort((a, b) => a - b);
+
+  let cash = startingCash;
+  let equity = startingCash;
+  const equityCurve: EquityPoint[] = [];
+  const trades: BacktestTrade[] = [];
+
+  const close = (state: SymbolState, price: number, time: number, exitReason: BacktestExitReason) => {
+    const { quantity, entryPrice, entryTime } = state.position!;
+    cash += quantity * price;
+    trades.push({
+      symbol: state.symbol,
+      quantity,
+      entryTime,
+      entryPrice,
+      exitTime: time,
+      exitPrice: price,
+      profitLoss: quantity * (price - entryPrice),
+      returnPercent: ((price - entryPrice) / entryPrice) * 100,
+      exitReason,
+    });
+    state.position = null;
+  };
+
+  const sharesFor = (price: number): number => {
+    const { sizing } = rules;
+    const wanted = sizing.type === "fixed_shares"
+      ? sizing.value
+      : Math.floor((sizing.type === "fixed_cash" ? sizing.value : (equity * sizing.value) / 100) / price);
+    return Math.min(wanted, Math.floor(cash / price));
+  };
+
+  for (const time of times) {
+    for (const state of states) {
+      const i = state.indexByTime.get(time);
+      if (i === undefined) continue;
+      const bar = state.bars[i];
+
+      if (state.pending === "buy" && !state.position) {
+        const quantity = sharesFor(bar.open);
+        if (quantity > 0) {
+          cash -= quantity * bar.open;
+          state.position = { quantity, entryPrice: bar.open, entryTime: bar.time };
+        }
+      } else if (state.pending === "sell" && state.position) {
+        close(state, bar.open, bar.time, "signal");
+      }
+      state.pending = null;
+
+      const stopped = state.position ? protectiveExit(rules, state.position.entryPrice, bar) : null;
+      if (stopped) close(state, stopped.price, bar.time, stopped.reason);
+
+      state.lastClose = bar.close;
+      if (!state.position && state.entry(i)) {
+        state.pending = "buy";
+      } else if (state.position && state.exit(i)) {
+        state.pending = "sell";
+      }
+    }
+
+    equity = cash + states.reduce((sum, s) => sum + (s.position ? s.position.quantity * s.lastClose! : 0), 0);
+    equityCurve.push({ time, equity });
+  }
+
+  // Whatever is still open is marked out at the last close
+  const lastTime = times[times.length - 1];
+  states.forEach(state => {
+    if (state.position) close(state, state.lastClose!, lastTime, "end_of_test");
+  });
+
+  return { stats: computeStats(startingCash, equityCurve, trades), equityCurve, trades };
+}
@@ -0,0 +1,139 @@
+// Runs enabled trading bots against live quotes. Like a backtest, entry and
+// exit rules are read at a bar's close and acted on once per bar; stop-loss
+// and take-profit levels are watched on every run.
+import type { Bot, Candle, StockQuote } from "@shared/schema";
+import { storage, TradeRejectedError } from "./storage";
+import { isQuoteStale } from "./market-data";
+import { getQuote, getQuotes } from "./quote-cache";
+import { getCandles, BAR_MS } from "./candles";
+import { compileRules, protectiveExit, rulesWarmupBars } from "./backtest";
+import { DAY_MS } from "./margin";
+
+const RUN_INTERVAL_MS = 60000;
+
+const EXIT_MESSAGES = {
+  stop_loss: "Stop loss hit",
+  take_profit: "Take profit hit",
+};
+
+// Shares the rules' sizing asks for, within what is left of the budget.
+// Percent sizing is a percentage of the bot's budget.
+function sharesFor(bot: Bot, price: number): number {
+  const { sizing } = bot.rules;
+  const wanted = sizing.type === "fixed_shares"
+    ? sizing.value
+    : Math.floor((sizing.type === "fixed_cash" ? sizing.value : (bot.budget * sizing.value) / 100) / price);
+  return Math.min(wanted, Math.floor((bot.budget - bot.invested) / price));
+}
+
+async function trade(bot: Bot, type: "buy" | "sell", quantity: number, quote: StockQuote, message: string): Promise<void> {
+  try {
+    await storage.executeBotTrade(bot.id, {
+      symbol: bot.symbol,
+      type,
+      quantity,
+      price: quote.currentPrice,
+      quoteTimestamp: quote.timestamp,
+    }, message);
+  } catch (error) {
+    if (!(error instanceof TradeRejectedError)) throw error;
+    await storage.logBotRun(bot.id, "error", `${type === "buy" ? "Buy" : "Sell"} rejected: ${error.message}`);
+  }
+}
+
+// Signals for the newest closed bar, or null when it has been acted on already
+async function closedBarSignals(bot: Bot, now: number): Promise<{ time: number; entry: boolean; exit: boolean } | null> {
+  const barMs = BAR_MS[bot.resolution];
+  if (bot.lastBarTime !== null && bot.lastBarTime + 2 * barMs > now) return null;
+
+  const lookback = (rulesWarmupBars(bot.rules) + 3) * barMs;
+  const bars: Candle[] = (await getCandles(bot.symbol, bot.resolution, now - lookback, now))
+    .filter(bar => bar.time + barMs <= now);
+  if (bars.length === 0) return null;
+
+  const i = bars.length - 1;
+  if (bot.lastBarTime !== null && bars[i].time <= bot.lastBarTime) return null;
+
+  const { entry, exit } = compileRules(bot.rules, bars, barMs < DAY_MS ? DAY_MS : undefined);
+  return { time: bars[i].time, entry: entry(i), exit: exit(i) };
+}
+
+async function runBot(bot: Bot, quote: StockQuote, now: number): Promise<void> {
+  const price = quote.currentPrice;
+
+  if (bot.quantity > 0 && bot.entryPrice !== null) {
+    const stopped = protectiveExit(bot.rules, bot.entryPrice, { time: now, open: price, high: price, low: price, close: price, volume: 0 });
+    if (stopped) {
+      await trade(bot, "sell", bot.quantity, quote, `${EXIT_MESSAGES[stopped.reason]} at ${price.toFixed(2)}`);
+      await storage.markBotRun(bot.id);
+      return;
+    }
+  }
+
+  const signals = await closedBarSignals(bot, now);
+  if (!signals) {
+    await storage.markBotRun(bot.id);
+    return;
+  }
+
+  if (bot.quantity > 0 && signals.exit) {
+    await trade(bot, "sell", bot.quantity, quote, "Exit rule triggered");
+  } else if (bot.quantity === 0 && signals.entry) {
+    const quantity = sharesFor(bot, price);
+    if (quantity > 0) {
+      await trade(bot, "buy", quantity, quote, "Entry rule triggered");
+    } else {
+      await storage.logBotRun(bot.id, "skip", "Entry rule triggered but the remaining budget is less than one share");
+    }
+  }
+  await storage.markBotRun(bot.id, signals.time);
+}
+
+async function runBots(): Promise<void> {
+  const enabled = await storage.getEnabledBots();
+  const quotes = await getQuotes(enabled.map(b => b.symbol));
+  const now = Date.now();
+
+  for (const bot of enabled) {
+    // Bots sit out while their market is closed
+    const quote = quotes.get(bot.symbol);
+    if (!quote || isQuoteStale(quote)) continue;
+
+    try {
+      await runBot(bot, quote, now);
+    } catch (error) {
+      console.error(`Error running bot ${bot.id}:`, error);
+      await storage.logBotRun(bot.id, "error", "Bot run failed");
+    }
+  }
+}
+
+// Pauses a bot and sells whatever it holds at market
+export async function killBot(userId: number, bot: Bot): Promise<void> {
+  await storage.updateBot(userId, bot.id, { enabled: false });
+  await storage.logBotRun(bot.id, "kill", "Kill switch used");
+  if (bot.quantity === 0) return;
+
+  const quote = await getQuote(bot.symbol);
+  if (!quote || isQuoteStale(quote)) {
+    throw new TradeRejectedError("No fresh quote to sell the bot's shares; it has been paused");
+  }
+  await trade(bot, "sell", bot.quantity, quote, "Sold by kill switch");
+}
+
+export function startBotRunner(): void {
+  let running = false;
+
+  setInterval(async () => {
+    // Skip a tick rather than overlap a slow one
+    if (running) return;
+    running = true;
+    try {
+      await runBots();
+    } catch (error) {
+      console.error("Error running bots:", error);
+    } finally {
+      running = false;
+    }
+  }, RUN_INTERVAL_MS);
+}
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { marketData } from "./market-data";
+import { getCandles } from "./candles";
+
+vi.mock("./storage", () => ({
+  storage: { getCandleCoverage: vi.fn(), setCandleCoverage: vi.fn(), saveCandles: vi.fn(), getCandles: vi.fn() },
+}));
+vi.mock("./market-data", () => ({ marketData: { getCandles: vi.fn() } }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2025-03-12T15:00:00Z");
+
+function bar(time: number) {
+  return { time, open: 100, high: 100, low: 100, close: 100, volume: 0 };
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+  vi.mocked(storage.getCandles).mockResolvedValue([]);
+});
+
+describe("getCandles", () => {
+  it("covers an empty range that is entirely in the past", async () => {
+    // A weekend of daily bars
+    const from = NOW - 10 * DAY_MS;
+    const to = NOW - 8 * DAY_MS;
+    vi.mocked(marketData.getCandles).mockResolvedValue([]);
+
+    await getCandles("aapl", "D", from, to);
+    expect(storage.setCandleCoverage).toHaveBeenCalledWith("AAPL", "D", from, to);
+  });
+
+  it("extends coverage back over empty past segments", async () => {
+    vi.mocked(storage.getCandleCoverage).mockResolvedValue({ from: NOW - 10 * DAY_MS, to: NOW - 5 * DAY_MS });
+    vi.mocked(marketData.getCandles).mockResolvedValue([]);
+
+    await getCandles("AAPL", "D", NOW - 12 * DAY_MS, NOW - 6 * DAY_MS);
+    expect(storage.setCandleCoverage).toHaveBeenCalledWith("AAPL", "D", NOW - 12 * DAY_MS, NOW - 5 * DAY_MS);
+  });
+
+  it("leaves an empty segment that is still forming uncovered", async () => {
+    vi.mocked(storage.getCandleCoverage).mockResolvedValue({ from: NOW - 10 * DAY_MS, to: NOW - 5 * DAY_MS });
+    vi.mocked(marketData.getCandles).mockResolvedValue([]);
+
+    await getCandles("AAPL", "D", NOW - 8 * DAY_MS, NOW);
+    expect(storage.setCandleCoverage).not.toHaveBeenCalled();
+  });
+
+  it("covers a forming segment only up to its last bar", async () => {
+    vi.mocked(storage.getCandleCoverage).mockResolvedValue({ from: NOW - 10 * DAY_MS, to: NOW - 5 * DAY_MS });
+    vi.mocked(marketData.getCandles).mockResolvedValue([bar(NOW - 3 * DAY_MS), bar(NOW - DAY_MS / 2)]);
+
+    await getCandles("AAPL", "D", NOW - 8 * DAY_MS, NOW);
+    expect(storage.saveCandles).toHaveBeenCalled();
+    expect(storage.setCandleCoverage).toHaveBeenCalledWith("AAPL", "D", NOW - 10 * DAY_MS, NOW - DAY_MS / 2);
+  });
+
+  it("leaves coverage alone when the provider fails", async () => {
+    vi.mocked(marketData.getCandles).mockRejectedValue(new Error("Finnhub candle API error: 502"));
+
+    await expect(getCandles("AAPL", "D", NOW - 10 * DAY_MS, NOW - 8 * DAY_MS)).rejects.toThrow("502");
+    expect(storage.setCandleCoverage).not.toHaveBeenCalled();
+  });
+});
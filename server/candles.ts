@@ -0,0 +1,72 @@
+// Historical candles, read through the candle cache table. Only the parts of a
+// request the cache has not seen yet are fetched from the market data provider.
+import type { Candle, CandleResolution } from "@shared/schema";
+import { storage } from "./storage";
+import { marketData } from "./market-data";
+import { DAY_MS } from "./margin";
+
+const MINUTE_MS = 60 * 1000;
+
+export const MAX_CANDLES = 5000;
+
+// Length of one bar; months are taken at their longest
+export const BAR_MS: Record<CandleResolution, number> = {
+  "1": MINUTE_MS,
+  "5": 5 * MINUTE_MS,
+  "15": 15 * MINUTE_MS,
+  "30": 30 * MINUTE_MS,
+  "60": 60 * MINUTE_MS,
+  D: DAY_MS,
+  W: 7 * DAY_MS,
+  M: 31 * DAY_MS,
+};
+
+interface Fetched {
+  bars: Candle[];
+  // Cached bars end here; a bar still forming is fetched again next time
+  coveredTo: number;
+}
+
+// Null when nothing new can be cached: the segment is empty but a bar in it
+// may still be forming
+async function fetchSegment(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<Fetched | null> {
+  const bars = await marketData.getCandles(symbol, resolution, from, to);
+  const stillForming = to > Date.now() - BAR_MS[resolution];
+  // Providers reject on failure, so an empty past segment (a weekend, a
+  // holiday, a halt) really has no bars and is covered like any other
+  if (bars.length === 0) {
+    return stillForming ? null : { bars, coveredTo: to };
+  }
+
+  await storage.saveCandles(symbol, resolution, bars);
+  return { bars, coveredTo: stillForming ? bars[bars.length - 1].time : to };
+}
+
+export async function getCandles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<Candle[]> {
+  const upperSymbol = symbol.toUpperCase();
+  const coverage = await storage.getCandleCoverage(upperSymbol, resolution);
+
+  // Coverage is a single span, so a request that doesn't touch it starts over
+  if (!coverage || to < coverage.from || from > coverage.to) {
+    const fetched = await fetchSegment(upperSymbol, resolution, from, to);
+    if (fetched) {
+      await storage.setCandleCoverage(upperSymbol, resolution, from, fetched.coveredTo);
+    }
+    return storage.getCandles(upperSymbol, resolution, from, to);
+  }
+
+  let { from: coveredFrom, to: coveredTo } = coverage;
+  if (from < coveredFrom) {
+    const fetched = await fetchSegment(upperSymbol, resolution, from, coveredFrom);
+    if (fetched) coveredFrom = from;
+  }
+  if (to > coveredTo) {
+    const fetched = await fetchSegment(upperSymbol, resolution, coveredTo, to);
+    if (fetched) coveredTo = fetched.coveredTo;
+  }
+  if (coveredFrom !== coverage.from || coveredTo !== coverage.to) {
+    await storage.setCandleCoverage(upperSymbol, resolution, coveredFrom, coveredTo);
+  }
+
+  return storage.getCandles(upperSymbol, resolution, from, to);
+}
@@ -1,56 +1,31 @@
-import type { StockQuote, CompanyProfile, NewsArticle } from "@shared/schema";
+import type { StockQuote, CompanyProfile, NewsArticle, Candle, CandleResolution } from "@shared/schema";
+import type { MarketDataProvider } from "./market-data";
+import { TokenBucket } from "./rate-limit";
+import { simulatedMarket } from "./simulated-market";
+import { CRYPTO_PROFILES, isCryptoSymbol, searchCatalog, type SymbolMatch } from "./symbol-catalog";
 
 const FINNHUB_API_KEY = process.env.FINNHUB_API_KEY;
 const BASE_URL = "https://finnhub.io/api/v1";
 
-// Approximate crypto prices for paper trading (updated periodically as reference)
-const CRYPTO_REFERENCE_PRICES: Record<string, number> = {
-  "BINANCE:BTCUSDT": 105000,
-  "BINANCE:ETHUSDT": 3300,
-  "BINANCE:SOLUSDT": 250,
-  "BINANCE:BNBUSDT": 700,
-  "BINANCE:XRPUSDT": 3.2,
-  "BINANCE:ADAUSDT": 1.05,
-  "BINANCE:DOGEUSDT": 0.38,
-  "BINANCE:DOTUSDT": 7.5,
-  "BINANCE:MATICUSDT": 0.5,
-  "BINANCE:LTCUSDT": 130,
-};
+// The free tier allows 60 calls a minute; bursts of up to 10 go straight through
+const CALLS_PER_MINUTE = parseInt(process.env.FINNHUB_CALLS_PER_MINUTE || "60", 10);
+export const finnhubLimiter = new TokenBucket(Math.min(10, CALLS_PER_MINUTE), CALLS_PER_MINUTE / 60);
+
+// Every Finnhub request waits its turn here rather than risk a 429
+async function finnhubFetch(url: string, init?: RequestInit): Promise<Response> {
+  await finnhubLimiter.take();
+  return fetch(url, init);
+}
 
 export async function getQuote(symbol: string): Promise<StockQuote | null> {
   try {
-    // Check if this is a crypto symbol (has exchange prefix like BINANCE:)
-    const isCrypto = symbol.includes(":");
-    const upperSymbol = symbol.toUpperCase();
-    
-    if (isCrypto) {
-      // For crypto, use reference prices with small random variation for paper trading
-      const basePrice = CRYPTO_REFERENCE_PRICES[upperSymbol];
-      if (!basePrice) {
-        return null;
-      }
-      
-      // Add small random variation (+/- 2%) to simulate market movement
-      const variation = (Math.random() - 0.5) * 0.04;
-      const currentPrice = basePrice * (1 + variation);
-      const change = currentPrice - basePrice;
-      const changePercent = (change / basePrice) * 100;
-      
-      return {
-        symbol: upperSymbol,
-        currentPrice: Math.round(currentPrice * 100) / 100,
-        change: Math.round(change * 100) / 100,
-        changePercent: Math.round(changePercent * 100) / 100,
-        high: Math.round(currentPrice * 1.01 * 100) / 100,
-        low: Math.round(currentPrice * 0.99 * 100) / 100,
-        open: basePrice,
-        previousClose: basePrice,
-        timestamp: Date.now(),
-      };
+    // Finnhub's free plan has no crypto quotes, so pairs follow the simulator
+    if (isCryptoSymbol(symbol)) {
+      return simulatedMarket.getQuote(symbol);
     }
     
     // For stocks, use Finnhub API
-    const response = await fetch(
+    const response = await finnhubFetch(
       `${BASE_URL}/quote?symbol=${encodeURIComponent(symbol)}&token=${FINNHUB_API_KEY}`
     );
     
@@ -83,19 +58,6 @@ export async function getQuote(symbol: string): Promise<StockQuote | null> {
   }
 }
 
-const CRYPTO_PROFILES: Record<string, CompanyProfile> = {
-  "BINANCE:BTCUSDT": { symbol: "BINANCE:BTCUSDT", name: "Bitcoin", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://bitcoin.org" },
-  "BINANCE:ETHUSDT": { symbol: "BINANCE:ETHUSDT", name: "Ethereum", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://ethereum.org" },
-  "BINANCE:SOLUSDT": { symbol: "BINANCE:SOLUSDT", name: "Solana", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://solana.com" },
-  "BINANCE:BNBUSDT": { symbol: "BINANCE:BNBUSDT", name: "Binance Coin", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://www.binance.com" },
-  "BINANCE:XRPUSDT": { symbol: "BINANCE:XRPUSDT", name: "Ripple", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://ripple.com" },
-  "BINANCE:ADAUSDT": { symbol: "BINANCE:ADAUSDT", name: "Cardano", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://cardano.org" },
-  "BINANCE:DOGEUSDT": { symbol: "BINANCE:DOGEUSDT", name: "Dogecoin", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://dogecoin.com" },
-  "BINANCE:DOTUSDT": { symbol: "BINANCE:DOTUSDT", name: "Polkadot", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://polkadot.network" },
-  "BINANCE:MATICUSDT": { symbol: "BINANCE:MATICUSDT", name: "Polygon", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://polygon.technology" },
-  "BINANCE:LTCUSDT": { symbol: "BINANCE:LTCUSDT", name: "Litecoin", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://litecoin.org" },
-};
-
 export async function getCompanyProfile(symbol: string): Promise<CompanyProfile | null> {
   try {
     // Check if this is a crypto symbol
@@ -104,7 +66,7 @@ export async function getCompanyProfile(symbol: string): Promise<CompanyProfile
       return CRYPTO_PROFILES[upperSymbol];
     }
     
-    const response = await fetch(
+    const response = await finnhubFetch(
       `${BASE_URL}/stock/profile2?symbol=${encodeURIComponent(symbol)}&token=${FINNHUB_API_KEY}`
     );
     
@@ -134,74 +96,9 @@ export async function getCompanyProfile(symbol: string): Promise<CompanyProfile
   }
 }
 
-const CRYPTO_SYMBOLS = [
-  { symbol: "BINANCE:BTCUSDT", description: "Bitcoin / US Dollar", keywords: ["bitcoin", "btc", "crypto"] },
-  { symbol: "BINANCE:ETHUSDT", description: "Ethereum / US Dollar", keywords: ["ethereum", "eth", "crypto"] },
-  { symbol: "BINANCE:SOLUSDT", description: "Solana / US Dollar", keywords: ["solana", "sol", "crypto"] },
-  { symbol: "BINANCE:BNBUSDT", description: "Binance Coin / US Dollar", keywords: ["binance", "bnb", "crypto"] },
-  { symbol: "BINANCE:XRPUSDT", description: "Ripple / US Dollar", keywords: ["ripple", "xrp", "crypto"] },
-  { symbol: "BINANCE:ADAUSDT", description: "Cardano / US Dollar", keywords: ["cardano", "ada", "crypto"] },
-  { symbol: "BINANCE:DOGEUSDT", description: "Dogecoin / US Dollar", keywords: ["dogecoin", "doge", "crypto"] },
-  { symbol: "BINANCE:DOTUSDT", description: "Polkadot / US Dollar", keywords: ["polkadot", "dot", "crypto"] },
-  { symbol: "BINANCE:MATICUSDT", description: "Polygon / US Dollar", keywords: ["polygon", "matic", "crypto"] },
-  { symbol: "BINANCE:LTCUSDT", description: "Litecoin / US Dollar", keywords: ["litecoin", "ltc", "crypto"] },
-];
-
-const POPULAR_STOCKS = [
-  { symbol: "AAPL", description: "Apple Inc", keywords: ["apple", "iphone", "mac", "tech"] },
-  { symbol: "MSFT", description: "Microsoft Corporation", keywords: ["microsoft", "windows", "azure", "tech"] },
-  { symbol: "GOOGL", description: "Alphabet Inc", keywords: ["google", "alphabet", "youtube", "tech"] },
-  { symbol: "AMZN", description: "Amazon.com Inc", keywords: ["amazon", "aws", "ecommerce", "tech"] },
-  { symbol: "NVDA", description: "NVIDIA Corporation", keywords: ["nvidia", "gpu", "ai", "tech", "graphics"] },
-  { symbol: "META", description: "Meta Platforms Inc", keywords: ["meta", "facebook", "instagram", "whatsapp", "tech"] },
-  { symbol: "TSLA", description: "Tesla Inc", keywords: ["tesla", "electric", "ev", "car", "musk"] },
-  { symbol: "JPM", description: "JPMorgan Chase & Co", keywords: ["jpmorgan", "chase", "bank", "finance"] },
-  { symbol: "V", description: "Visa Inc", keywords: ["visa", "payment", "credit", "finance"] },
-  { symbol: "MA", description: "Mastercard Inc", keywords: ["mastercard", "payment", "credit", "finance"] },
-  { symbol: "WMT", description: "Walmart Inc", keywords: ["walmart", "retail", "store"] },
-  { symbol: "JNJ", description: "Johnson & Johnson", keywords: ["johnson", "pharma", "healthcare"] },
-  { symbol: "PG", description: "Procter & Gamble Co", keywords: ["procter", "gamble", "consumer"] },
-  { symbol: "UNH", description: "UnitedHealth Group Inc", keywords: ["unitedhealth", "health", "insurance"] },
-  { symbol: "HD", description: "Home Depot Inc", keywords: ["home", "depot", "retail", "hardware"] },
-  { symbol: "BAC", description: "Bank of America Corp", keywords: ["bank", "america", "finance"] },
-  { symbol: "KO", description: "Coca-Cola Co", keywords: ["coca", "cola", "coke", "beverage"] },
-  { symbol: "PEP", description: "PepsiCo Inc", keywords: ["pepsi", "pepsico", "beverage"] },
-  { symbol: "DIS", description: "Walt Disney Co", keywords: ["disney", "entertainment", "streaming"] },
-  { symbol: "NFLX", description: "Netflix Inc", keywords: ["netflix", "streaming", "entertainment"] },
-  { symbol: "AMD", description: "Advanced Micro Devices Inc", keywords: ["amd", "cpu", "gpu", "tech", "chips"] },
-  { symbol: "INTC", description: "Intel Corporation", keywords: ["intel", "cpu", "chips", "tech"] },
-  { symbol: "CRM", description: "Salesforce Inc", keywords: ["salesforce", "crm", "cloud", "tech"] },
-  { symbol: "ORCL", description: "Oracle Corporation", keywords: ["oracle", "database", "cloud", "tech"] },
-  { symbol: "ADBE", description: "Adobe Inc", keywords: ["adobe", "photoshop", "creative", "tech"] },
-  { symbol: "PYPL", description: "PayPal Holdings Inc", keywords: ["paypal", "payment", "fintech"] },
-  { symbol: "UBER", description: "Uber Technologies Inc", keywords: ["uber", "rideshare", "delivery"] },
-  { symbol: "ABNB", description: "Airbnb Inc", keywords: ["airbnb", "travel", "rental"] },
-  { symbol: "SQ", description: "Block Inc", keywords: ["block", "square", "payment", "fintech"] },
-  { symbol: "SPOT", description: "Spotify Technology SA", keywords: ["spotify", "music", "streaming"] },
-  { symbol: "ZM", description: "Zoom Video Communications", keywords: ["zoom", "video", "conferencing"] },
-  { symbol: "SHOP", description: "Shopify Inc", keywords: ["shopify", "ecommerce", "tech"] },
-  { symbol: "SNAP", description: "Snap Inc", keywords: ["snap", "snapchat", "social"] },
-  { symbol: "PINS", description: "Pinterest Inc", keywords: ["pinterest", "social", "images"] },
-  { symbol: "PLTR", description: "Palantir Technologies Inc", keywords: ["palantir", "data", "analytics", "ai"] },
-  { symbol: "COIN", description: "Coinbase Global Inc", keywords: ["coinbase", "crypto", "exchange"] },
-  { symbol: "GME", description: "GameStop Corp", keywords: ["gamestop", "gaming", "retail"] },
-  { symbol: "AMC", description: "AMC Entertainment Holdings", keywords: ["amc", "movies", "theater"] },
-  { symbol: "NKE", description: "Nike Inc", keywords: ["nike", "shoes", "sports", "apparel"] },
-  { symbol: "SBUX", description: "Starbucks Corporation", keywords: ["starbucks", "coffee", "restaurant"] },
-  { symbol: "MCD", description: "McDonald's Corporation", keywords: ["mcdonalds", "fast food", "restaurant"] },
-  { symbol: "XOM", description: "Exxon Mobil Corporation", keywords: ["exxon", "mobil", "oil", "energy"] },
-  { symbol: "CVX", description: "Chevron Corporation", keywords: ["chevron", "oil", "energy"] },
-  { symbol: "BA", description: "Boeing Co", keywords: ["boeing", "airplane", "aerospace"] },
-  { symbol: "GE", description: "General Electric Co", keywords: ["general", "electric", "industrial"] },
-  { symbol: "F", description: "Ford Motor Company", keywords: ["ford", "car", "auto"] },
-  { symbol: "GM", description: "General Motors Co", keywords: ["general", "motors", "car", "auto"] },
-  { symbol: "T", description: "AT&T Inc", keywords: ["att", "telecom", "phone"] },
-  { symbol: "VZ", description: "Verizon Communications", keywords: ["verizon", "telecom", "phone"] },
-];
-
 export async function getMarketNews(category: string = "general"): Promise<NewsArticle[]> {
   try {
-    const response = await fetch(
+    const response = await finnhubFetch(
       `${BASE_URL}/news?category=${encodeURIComponent(category)}&token=${FINNHUB_API_KEY}`
     );
     
@@ -237,7 +134,7 @@ export async function getCompanyNews(symbol: string): Promise<NewsArticle[]> {
     const fromDate = lastMonth.toISOString().split('T')[0];
     const toDate = today.toISOString().split('T')[0];
     
-    const response = await fetch(
+    const response = await finnhubFetch(
       `${BASE_URL}/company-news?symbol=${encodeURIComponent(symbol)}&from=${fromDate}&to=${toDate}&token=${FINNHUB_API_KEY}`
     );
     
@@ -264,37 +161,18 @@ export async function getCompanyNews(symbol: string): Promise<NewsArticle[]> {
   }
 }
 
-export async function searchSymbols(query: string): Promise<{ symbol: string; description: string }[]> {
+export async function searchSymbols(query: string): Promise<SymbolMatch[]> {
   try {
-    const lowerQuery = query.toLowerCase();
-    
-    // Check for crypto matches first
-    const cryptoMatches = CRYPTO_SYMBOLS.filter(crypto => 
-      crypto.keywords.some(keyword => keyword.includes(lowerQuery)) ||
-      crypto.symbol.toLowerCase().includes(lowerQuery) ||
-      crypto.description.toLowerCase().includes(lowerQuery)
-    ).map(crypto => ({
-      symbol: crypto.symbol,
-      description: crypto.description,
-    }));
-    
-    // Check for popular stock matches (by symbol, name, or keywords)
-    const popularMatches = POPULAR_STOCKS.filter(stock => 
-      stock.symbol.toLowerCase().includes(lowerQuery) ||
-      stock.description.toLowerCase().includes(lowerQuery) ||
-      stock.keywords.some(keyword => keyword.includes(lowerQuery))
-    ).map(stock => ({
-      symbol: stock.symbol,
-      description: stock.description,
-    }));
+    // Crypto pairs and popular stocks match locally, by symbol, name or keyword
+    const localMatches = searchCatalog(query);
     
     // Also try Finnhub API for additional stocks (with timeout)
-    let finnhubResults: { symbol: string; description: string }[] = [];
+    let finnhubResults: SymbolMatch[] = [];
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 3000);
       
-      const response = await fetch(
+      const response = await finnhubFetch(
         `${BASE_URL}/search?q=${encodeURIComponent(query)}&token=${FINNHUB_API_KEY}`,
         { signal: controller.signal }
       );
@@ -317,7 +195,7 @@ export async function searchSymbols(query: string): Promise<{ symbol: string; de
     // Combine results: crypto first, then popular stocks, then Finnhub
     // Remove duplicates by symbol
     const seen = new Set<string>();
-    const allResults = [...cryptoMatches, ...popularMatches, ...finnhubResults];
+    const allResults = [...localMatches, ...finnhubResults];
     const uniqueResults = allResults.filter(item => {
       if (seen.has(item.symbol)) return false;
       seen.add(item.symbol);
@@ -330,3 +208,49 @@ export async function searchSymbols(query: string): Promise<{ symbol: string; de
     return [];
   }
 }
+
+// Throws when Finnhub fails, so an empty answer always means the range holds
+// no bars and the candle cache can trust it
+export async function getCandles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<Candle[]> {
+  if (isCryptoSymbol(symbol)) {
+    return simulatedMarket.getCandles(symbol, resolution, from, to);
+  }
+  
+  // Finnhub takes and returns Unix seconds
+  const response = await finnhubFetch(
+    `${BASE_URL}/stock/candle?symbol=${encodeURIComponent(symbol)}&resolution=${resolution}&from=${Math.floor(from / 1000)}&to=${Math.floor(to / 1000)}&token=${FINNHUB_API_KEY}`
+  );
+  
+  if (!response.ok) {
+    throw new Error(`Finnhub candle API error: ${response.status}`);
+  }
+  
+  const data = await response.json();
+  
+  // "no_data" when the range holds no bars
+  if (data?.s === "no_data") {
+    return [];
+  }
+  if (data?.s !== "ok" || !Array.isArray(data.t)) {
+    throw new Error(`Unexpected Finnhub candle response for ${symbol}`);
+  }
+  
+  return data.t.map((time: number, i: number) => ({
+    time: time * 1000,
+    open: data.o[i],
+    high: data.h[i],
+    low: data.l[i],
+    close: data.c[i],
+    volume: data.v[i],
+  }));
+}
+
+export const finnhubProvider: MarketDataProvider = {
+  name: "finnhub",
+  getQuote,
+  getCompanyProfile,
+  getMarketNews,
+  getCompanyNews,
+  searchSymbols,
+  getCandles,
+};
@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+import type { Candle } from "@shared/schema";
+import { atr, bollinger, ema, macd, obv, rsi, sma, vwap } from "./indicators";
+
+// Published tables are rounded to cents, so compare within a tolerance and
+// check the warm-up bars are null
+function expectSeries(actual: (number | null)[], warmup: number, expected: number[], tolerance: number) {
+  expect(actual.length).toBe(warmup + expected.length);
+  expect(actual.slice(0, warmup)).toEqual(Array(warmup).fill(null));
+  actual.slice(warmup).forEach((value, i) => {
+    expect(value).not.toBeNull();
+    expect(Math.abs(value! - expected[i])).toBeLessThanOrEqual(tolerance + 1e-9);
+  });
+}
+
+function candle(time: number, high: number, low: number, close: number, volume: number = 0): Candle {
+  return { time, open: close, high, low, close, volume };
+}
+
+// StockCharts' moving average worked example (10 periods)
+const MOVING_AVERAGE_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29,
+  22.15, 22.39, 22.38, 22.61, 23.36, 24.05, 23.75, 23.83, 23.95, 23.63,
+  23.82, 23.87, 23.65, 23.19, 23.10, 23.33, 22.68, 23.10, 22.40, 22.17,
+];
+
+// StockCharts' RSI worked example (14 periods)
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08,
+  45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03, 46.41, 46.22, 45.64,
+  46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13,
+];
+
+// StockCharts' Bollinger Bands worked example (20 periods, 2 deviations)
+const BOLLINGER_CLOSES = [
+  86.16, 89.09, 88.78, 90.32, 89.07, 91.15, 89.44, 89.18, 86.93, 87.68,
+  86.96, 89.43, 89.32, 88.72, 87.45, 87.26, 89.50, 87.90, 89.13, 90.70,
+  92.90, 92.98, 91.80, 92.66, 92.68, 92.30, 92.77, 92.54, 92.95,
+];
+
+describe("sma", () => {
+  it("matches the published 10-day table", () => {
+    expectSeries(sma(MOVING_AVERAGE_CLOSES, 10), 9, [
+      22.22, 22.21, 22.23, 22.26, 22.31, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21,
+      23.38, 23.53, 23.65, 23.71, 23.69, 23.61, 23.51, 23.43, 23.28, 23.13,
+    ], 0.01);
+  });
+
+  it("is all null when there are fewer values than the period", () => {
+    expect(sma([1, 2, 3], 4)).toEqual([null, null, null]);
+    expect(sma([], 4)).toEqual([]);
+  });
+});
+
+describe("ema", () => {
+  it("matches the published 10-day table", () => {
+    expectSeries(ema(MOVING_AVERAGE_CLOSES, 10), 9, [
+      22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.80, 22.97, 23.13, 23.28, 23.34,
+      23.43, 23.51, 23.54, 23.47, 23.40, 23.39, 23.26, 23.23, 23.08, 22.92,
+    ], 0.01);
+  });
+
+  it("starts from the simple average of the first period", () => {
+    expect(ema([2, 4, 6, 8], 3)).toEqual([null, null, 4, 6]);
+  });
+
+  it("is all null when there are fewer values than the period", () => {
+    expect(ema([1, 2, 3], 4)).toEqual([null, null, null]);
+  });
+});
+
+describe("rsi", () => {
+  // The table was worked from unrounded prices, so the cent closes above land
+  // up to 0.08 away from it
+  it("matches the published 14-day table", () => {
+    expectSeries(rsi(RSI_CLOSES, 14), 14, [
+      70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38,
+      54.71, 50.42, 39.99, 41.46, 41.87, 45.46, 37.30, 33.08, 37.77,
+    ], 0.1);
+  });
+
+  it("needs one more close than the period", () => {
+    expect(rsi(RSI_CLOSES.slice(0, 14), 14)).toEqual(Array(14).fill(null));
+    expect(rsi(RSI_CLOSES.slice(0, 15), 14)[14]).not.toBeNull();
+  });
+
+  it("is 100 with only gains and 50 on a flat series", () => {
+    expect(rsi([1, 2, 3, 4], 3)[3]).toBe(100);
+    expect(rsi([5, 5, 5, 5], 3)[3]).toBe(50);
+  });
+});
+
+describe("macd", () => {
+  // An SMA-seeded EMA of a straight line trails it by slope * (n - 1) / 2, so
+  // MACD(12, 26) of a line rising 0.5 a bar is 0.5 * (25 - 11) / 2 = 3.5
+  it("settles at the closed form on a straight line", () => {
+    const closes = Array.from({ length: 40 }, (_, i) => 100 + 0.5 * i);
+    const result = macd(closes, 12, 26, 9);
+    expectSeries(result.macd, 25, Array(15).fill(3.5), 1e-9);
+    expectSeries(result.signal, 33, Array(7).fill(3.5), 1e-9);
+    expectSeries(result.histogram, 33, Array(7).fill(0), 1e-9);
+  });
+
+  it("matches a hand-worked example", () => {
+    // EMA(2): 1.5, 19/6, 55/18, 235/54; EMA(3): 7/3, 8/3, 23/6
+    const result = macd([1, 2, 4, 3, 5], 2, 3, 2);
+    expectSeries(result.macd, 2, [5 / 6, 7 / 18, 14 / 27], 1e-9);
+    expectSeries(result.signal, 3, [11 / 18, 89 / 162], 1e-9);
+    expectSeries(result.histogram, 3, [-2 / 9, -5 / 162], 1e-9);
+  });
+
+  it("has no signal until the MACD line has a full signal period", () => {
+    const closes = Array.from({ length: 30 }, (_, i) => 100 + i);
+    const result = macd(closes, 12, 26, 9);
+    expect(result.macd.filter(v => v !== null)).toHaveLength(5);
+    expect(result.signal.every(v => v === null)).toBe(true);
+    expect(result.histogram.every(v => v === null)).toBe(true);
+  });
+
+  it("is all null when there are fewer closes than the slow period", () => {
+    const result = macd([1, 2, 3], 12, 26, 9);
+    expect(result).toEqual({ macd: [null, null, null], signal: [null, null, null], histogram: [null, null, null] });
+  });
+});
+
+describe("bollinger", () => {
+  it("matches the published 20-day table", () => {
+    const { middle, upper, lower } = bollinger(BOLLINGER_CLOSES, 20, 2);
+    expectSeries(middle, 19, [88.71, 89.05, 89.24, 89.39, 89.51, 89.69, 89.75, 89.91, 90.08, 90.38], 0.01);
+    expectSeries(upper, 19, [91.29, 91.95, 92.61, 92.93, 93.31, 93.73, 93.90, 94.26, 94.56, 94.79], 0.01);
+    expectSeries(lower, 19, [86.13, 86.14, 85.87, 85.85, 85.70, 85.65, 85.59, 85.56, 85.60, 85.98], 0.01);
+  });
+
+  it("collapses onto the average when prices are flat", () => {
+    const { middle, upper, lower } = bollinger([10, 10, 10], 3, 2);
+    expect([middle[2], upper[2], lower[2]]).toEqual([10, 10, 10]);
+  });
+
+  it("is all null when there are fewer closes than the period", () => {
+    const { middle, upper, lower } = bollinger([1, 2], 3, 2);
+    expect([...middle, ...upper, ...lower]).toEqual(Array(6).fill(null));
+  });
+});
+
+describe("atr", () => {
+  // True ranges 2, 3, 1.5, 3.5 (gap up), 4.5 (gap down), 1. The first bar has
+  // no previous close, so its range is high - low as in the StockCharts method.
+  const candles = [
+    candle(0, 10, 8, 9),
+    candle(1, 12, 9, 11),
+    candle(2, 11.5, 10, 10.5),
+    candle(3, 14, 11, 13.5),
+    candle(4, 13, 9, 9.5),
+    candle(5, 10, 9, 9.8),
+  ];
+
+  it("matches a hand-worked example with Wilder's smoothing", () => {
+    expectSeries(atr(candles, 3), 2, [13 / 6, 47 / 18, 175 / 54, 202 / 81], 1e-9);
+  });
+
+  it("is all null when there are fewer bars than the period", () => {
+    expect(atr(candles.slice(0, 2), 3)).toEqual([null, null]);
+  });
+});
+
+describe("vwap", () => {
+  it("weights the typical price by volume", () => {
+    const result = vwap([
+      candle(0, 12, 9, 9, 100),    // typical 10
+      candle(1, 13, 11, 12, 300),  // typical 12
+      candle(2, 13, 12, 11, 0),
+    ]);
+    expect(result).toEqual([10, 11.5, 11.5]);
+  });
+
+  it("is null until there is volume", () => {
+    expect(vwap([candle(0, 12, 9, 9, 0), candle(1, 12, 9, 9, 10)])).toEqual([null, 10]);
+  });
+
+  it("restarts at each session boundary", () => {
+    const day = 24 * 60 * 60 * 1000;
+    const result = vwap([
+      candle(0, 12, 9, 9, 100),
+      candle(day, 21, 18, 21, 100),    // typical 20
+      candle(day + 1, 33, 27, 30, 100), // typical 30
+    ], day);
+    expect(result).toEqual([10, 20, 25]);
+  });
+});
+
+describe("obv", () => {
+  it("adds volume on up closes and subtracts it on down closes", () => {
+    const result = obv([
+      candle(0, 10, 10, 10, 1000),
+      candle(1, 11, 11, 11, 200),
+      candle(2, 10.5, 10.5, 10.5, 300),
+      candle(3, 10.5, 10.5, 10.5, 400),
+      candle(4, 12, 12, 12, 500),
+    ]);
+    expect(result).toEqual([0, 200, -100, -100, 400]);
+  });
+
+  it("is empty for no bars", () => {
+    expect(obv([])).toEqual([]);
+  });
+});
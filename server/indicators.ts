@@ -0,0 +1,248 @@
+// Technical indicators over candle series. Every function is pure and returns
+// one value per input bar, null until enough bars have been seen.
+import type { Candle, IndicatorName, IndicatorSeries } from "@shared/schema";
+
+type Series = (number | null)[];
+
+export function sma(values: number[], period: number): Series {
+  const out: Series = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    out.push(i >= period - 1 ? sum / period : null);
+  }
+  return out;
+}
+
+// Seeded with the simple average of the first `period` values
+export function ema(values: number[], period: number): Series {
+  const k = 2 / (period + 1);
+  const out: Series = [];
+  let prev: number | null = null;
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      out.push(null);
+      continue;
+    }
+    prev = prev === null
+      ? values.slice(0, period).reduce((a, b) => a + b, 0) / period
+      : values[i] * k + prev * (1 - k);
+    out.push(prev);
+  }
+  return out;
+}
+
+// Wilder's smoothing: seeded with a simple average, then avg = (avg * (n - 1) + x) / n
+function wilder(values: number[], period: number, firstIndex: number): Series {
+  const out: Series = values.map(() => null);
+  if (values.length - firstIndex < period) return out;
+
+  let avg = values.slice(firstIndex, firstIndex + period).reduce((a, b) => a + b, 0) / period;
+  out[firstIndex + period - 1] = avg;
+  for (let i = firstIndex + period; i < values.length; i++) {
+    avg = (avg * (period - 1) + values[i]) / period;
+    out[i] = avg;
+  }
+  return out;
+}
+
+export function rsi(closes: number[], period: number = 14): Series {
+  const gains = closes.map((c, i) => (i === 0 ? 0 : Math.max(0, c - closes[i - 1])));
+  const losses = closes.map((c, i) => (i === 0 ? 0 : Math.max(0, closes[i - 1] - c)));
+  const avgGain = wilder(gains, period, 1);
+  const avgLoss = wilder(losses, period, 1);
+
+  return closes.map((_, i) => {
+    const gain = avgGain[i];
+    const loss = avgLoss[i];
+    if (gain === null || loss === null) return null;
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+}
+
+export function macd(closes: number[], fast: number = 12, slow: number = 26, signalPeriod: number = 9) {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line = closes.map((_, i) => {
+    const f = fastEma[i];
+    const s = slowEma[i];
+    return f === null || s === null ? null : f - s;
+  });
+
+  // The signal line is an EMA of the MACD line from its first value on
+  const start = line.findIndex(v => v !== null);
+  const signal: Series = closes.map(() => null);
+  if (start >= 0) {
+    ema(line.slice(start) as number[], signalPeriod).forEach((v, i) => {
+      signal[start + i] = v;
+    });
+  }
+
+  const histogram = line.map((v, i) => {
+    const s = signal[i];
+    return v === null || s === null ? null : v - s;
+  });
+  return { macd: line, signal, histogram };
+}
+
+// Middle band is the SMA; outer bands sit `deviations` population standard deviations away
+export function bollinger(closes: number[], period: number = 20, deviations: number = 2) {
+  const middle = sma(closes, period);
+  const upper: Series = [];
+  const lower: Series = [];
+
+  closes.forEach((_, i) => {
+    const mean = middle[i];
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+    const window = closes.slice(i - period + 1, i + 1);
+    const sd = Math.sqrt(window.reduce((sum, c) => sum + (c - mean) ** 2, 0) / period);
+    upper.push(mean + deviations * sd);
+    lower.push(mean - deviations * sd);
+  });
+  return { middle, upper, lower };
+}
+
+export function atr(candles: Candle[], period: number = 14): Series {
+  const trueRanges = candles.map((c, i) => {
+    if (i === 0) return c.high - c.low;
+    const prevClose = candles[i - 1].close;
+    return Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+  });
+  return wilder(trueRanges, period, 0);
+}
+
+// Volume-weighted typical price, cumulative from the first bar. With
+// `sessionMs` set the running totals restart at each session boundary.
+export function vwap(candles: Candle[], sessionMs?: number): Series {
+  let priceVolume = 0;
+  let volume = 0;
+  let session: number | null = null;
+
+  return candles.map(c => {
+    if (sessionMs) {
+      const current = Math.floor(c.time / sessionMs);
+      if (current !== session) {
+        session = current;
+        priceVolume = 0;
+        volume = 0;
+      }
+    }
+    priceVolume += ((c.high + c.low + c.close) / 3) * c.volume;
+    volume += c.volume;
+    return volume > 0 ? priceVolume / volume : null;
+  });
+}
+
+// On-balance volume: add the bar's volume on up closes, subtract it on down closes
+export function obv(candles: Candle[]): number[] {
+  let total = 0;
+  return candles.map((c, i) => {
+    if (i > 0) {
+      if (c.close > candles[i - 1].close) total += c.volume;
+      else if (c.close < candles[i - 1].close) total -= c.volume;
+    }
+    return total;
+  });
+}
+
+const DEFAULT_PARAMS: Record<IndicatorName, number[]> = {
+  sma: [20],
+  ema: [20],
+  bollinger: [20, 2],
+  vwap: [],
+  rsi: [14],
+  macd: [12, 26, 9],
+  atr: [14],
+  obv: [],
+};
+
+const MAX_PERIOD = 500;
+
+export class IndicatorSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IndicatorSpecError";
+  }
+}
+
+export interface IndicatorSpec {
+  id: string;
+  name: IndicatorName;
+  params: number[];
+}
+
+// "macd:12:26" -> macd with the signal period left at its default. The name is
+// assumed valid (the query schema checks it); the parameters are checked here.
+export function parseIndicatorSpec(spec: string): IndicatorSpec {
+  const [rawName, ...rawParams] = spec.split(":");
+  const name = rawName as IndicatorName;
+  const defaults = DEFAULT_PARAMS[name];
+  if (rawParams.length > defaults.length) {
+    throw new IndicatorSpecError(`${name} takes at most ${defaults.length} parameter(s)`);
+  }
+
+  const params = defaults.map((fallback, i) => (i < rawParams.length ? Number(rawParams[i]) : fallback));
+  params.forEach((value, i) => {
+    // Bollinger's second parameter is a band width in deviations; everything else is a bar count
+    const isPeriod = !(name === "bollinger" && i === 1);
+    if (isPeriod ? !Number.isInteger(value) || value < 1 || value > MAX_PERIOD : !(value > 0)) {
+      throw new IndicatorSpecError(`Invalid ${name} parameter: ${rawParams[i]}`);
+    }
+  });
+  if (name === "macd" && params[0] >= params[1]) {
+    throw new IndicatorSpecError("macd fast period must be shorter than the slow period");
+  }
+
+  return { id: [name, ...params].join(":"), name, params };
+}
+
+// Bars to load ahead of the requested range so values are settled by its first bar.
+// EMA-based indicators never fully forget their seed; three periods gets close enough.
+export function warmupBars(spec: IndicatorSpec): number {
+  switch (spec.name) {
+    case "sma":
+    case "bollinger":
+      return spec.params[0];
+    case "ema":
+    case "rsi":
+    case "atr":
+      return spec.params[0] * 3;
+    case "macd":
+      return spec.params[1] * 3 + spec.params[2];
+    case "vwap":
+    case "obv":
+      return 0;
+  }
+}
+
+export function computeIndicator(spec: IndicatorSpec, candles: Candle[], sessionMs?: number): IndicatorSeries {
+  const closes = candles.map(c => c.close);
+  const [p1, p2, p3] = spec.params;
+  const series = (overlay: boolean, lines: Record<string, (number | null)[]>): IndicatorSeries =>
+    ({ id: spec.id, name: spec.name, overlay, lines });
+
+  switch (spec.name) {
+    case "sma":
+      return series(true, { sma: sma(closes, p1) });
+    case "ema":
+      return series(true, { ema: ema(closes, p1) });
+    case "bollinger":
+      return series(true, bollinger(closes, p1, p2));
+    case "vwap":
+      return series(true, { vwap: vwap(candles, sessionMs) });
+    case "rsi":
+      return series(false, { rsi: rsi(closes, p1) });
+    case "macd":
+      return series(false, macd(closes, p1, p2, p3));
+    case "atr":
+      return series(false, { atr: atr(candles, p1) });
+    case "obv":
+      return series(false, { obv: obv(candles) });
+  }
+}
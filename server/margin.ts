@@ -0,0 +1,78 @@
+// Margin rules for short positions and margin accounts (Reg T style)
+
+// Opening a short needs the proceeds plus this fraction of the short's value in cash
+export const SHORT_INITIAL_MARGIN = 0.5;
+
+// Equity must stay above this fraction of short market value, or shorts are covered
+export const SHORT_MAINTENANCE_MARGIN = 0.3;
+
+// Annual stock borrow rate, accrued daily on short market value
+export const SHORT_BORROW_RATE = 0.03;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cash a short book requires before any new short can open
+export function shortInitialRequirement(shortMarketValue: number): number {
+  return shortMarketValue * (1 + SHORT_INITIAL_MARGIN);
+}
+
+export function shortMaintenanceRequirement(shortMarketValue: number): number {
+  return shortMarketValue * SHORT_MAINTENANCE_MARGIN;
+}
+
+// Margin accounts may hold positions worth up to this multiple of equity
+export const MARGIN_MAX_LEVERAGE = 2;
+
+// Equity must stay above this fraction of long market value in a margin account
+export const MARGIN_MAINTENANCE = 0.25;
+
+// Annual interest rate charged daily on a negative cash (debit) balance
+export const MARGIN_INTEREST_RATE = 0.08;
+
+export interface Exposure {
+  cash: number;
+  longMarketValue: number;
+  shortMarketValue: number;
+}
+
+export function accountEquity(exposure: Exposure): number {
+  return exposure.cash + exposure.longMarketValue - exposure.shortMarketValue;
+}
+
+// Extra gross exposure a margin account can still take on
+export function marginBuyingPower(exposure: Exposure): number {
+  const gross = exposure.longMarketValue + exposure.shortMarketValue;
+  return Math.max(0, MARGIN_MAX_LEVERAGE * accountEquity(exposure) - gross);
+}
+
+export function marginMaintenanceRequirement(exposure: Exposure): number {
+  return exposure.longMarketValue * MARGIN_MAINTENANCE + shortMaintenanceRequirement(exposure.shortMarketValue);
+}
+
+// Whole days owed since the last accrual, and the charge for them
+function dailyAccrual(amount: number, annualRate: number, accruedAt: number, now: number): { days: number; charge: number } {
+  const days = Math.floor((now - accruedAt) / DAY_MS);
+  if (days <= 0) {
+    return { days: 0, charge: 0 };
+  }
+  return { days, charge: amount * (annualRate / 365) * days };
+}
+
+export function borrowFeeDue(
+  shares: number,
+  price: number,
+  accruedAt: number,
+  now: number = Date.now(),
+): { days: number; fee: number } {
+  const { days, charge } = dailyAccrual(Math.abs(shares) * price, SHORT_BORROW_RATE, accruedAt, now);
+  return { days, fee: charge };
+}
+
+export function marginInterestDue(
+  debitBalance: number,
+  accruedAt: number,
+  now: number = Date.now(),
+): { days: number; interest: number } {
+  const { days, charge } = dailyAccrual(debitBalance, MARGIN_INTEREST_RATE, accruedAt, now);
+  return { days, interest: charge };
+}
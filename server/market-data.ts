@@ -0,0 +1,43 @@
+// Market data sits behind one interface so the app can run against Finnhub or,
+// with no network or API key, against the offline simulator
+import type { StockQuote, CompanyProfile, NewsArticle, Candle, CandleResolution } from "@shared/schema";
+import type { SymbolMatch } from "./symbol-catalog";
+import { finnhubProvider } from "./finnhub";
+import { simulatedMarket } from "./simulated-market";
+
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuote(symbol: string): Promise<StockQuote | null>;
+  getCompanyProfile(symbol: string): Promise<CompanyProfile | null>;
+  getMarketNews(category?: string): Promise<NewsArticle[]>;
+  getCompanyNews(symbol: string): Promise<NewsArticle[]>;
+  searchSymbols(query: string): Promise<SymbolMatch[]>;
+  // Bars opening between from and to (milliseconds), oldest first. Rejects when
+  // the provider fails; an empty array means there were no bars.
+  getCandles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<Candle[]>;
+}
+
+// Quotes older than this are not used to price fills
+const MAX_FILL_QUOTE_AGE_MS = 15 * 60 * 1000;
+
+export function isQuoteStale(quote: StockQuote, maxAgeMs: number = MAX_FILL_QUOTE_AGE_MS): boolean {
+  if (!quote.timestamp || !(quote.currentPrice > 0)) {
+    return true;
+  }
+  return Date.now() - quote.timestamp > maxAgeMs;
+}
+
+// MARKET_DATA_PROVIDER picks "finnhub" or "simulated". Left unset, Finnhub is
+// used whenever an API key is configured.
+function selectProvider(): MarketDataProvider {
+  const choice = process.env.MARKET_DATA_PROVIDER ?? (process.env.FINNHUB_API_KEY ? "finnhub" : "simulated");
+  if (choice === "simulated") {
+    return simulatedMarket;
+  }
+  if (choice !== "finnhub") {
+    console.warn(`Unknown MARKET_DATA_PROVIDER "${choice}", using Finnhub`);
+  }
+  return finnhubProvider;
+}
+
+export const marketData = selectProvider();
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Candle, OptionPosition, StockQuote } from "@shared/schema";
+import { storage, TradeRejectedError } from "./storage";
+import { getQuote } from "./quote-cache";
+import { getCandles } from "./candles";
+import { settleExpiredOptions, settlementPrice } from "./option-expiry";
+
+vi.mock("./storage", () => ({
+  storage: { getExpiringOptionPositions: vi.fn(), settleExpiredOption: vi.fn() },
+  TradeRejectedError: class extends Error {},
+}));
+vi.mock("./quote-cache", () => ({ getQuote: vi.fn() }));
+vi.mock("./candles", () => ({ getCandles: vi.fn() }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Friday 2025-01-17, 4pm New York
+const CLOSE = Date.parse("2025-01-17T21:00:00Z");
+
+function quote(currentPrice: number, timestamp: number): StockQuote {
+  return { symbol: "AAPL", currentPrice, change: 0, changePercent: 0, high: 0, low: 0, open: 0, previousClose: 0, timestamp };
+}
+
+function dailyBar(date: string, close: number): Candle {
+  return { time: Date.parse(`${date}T00:00:00Z`), open: close, high: close, low: close, close, volume: 0 };
+}
+
+beforeEach(() => {
+  vi.mocked(getQuote).mockReset();
+  vi.mocked(getCandles).mockReset();
+  vi.mocked(storage.getExpiringOptionPositions).mockReset();
+  vi.mocked(storage.settleExpiredOption).mockReset();
+});
+
+describe("settlementPrice", () => {
+  it("uses the quote from the close on expiration evening", async () => {
+    vi.mocked(getQuote).mockResolvedValue(quote(150, CLOSE));
+    await expect(settlementPrice("AAPL", "2025-01-17", CLOSE + 60 * 60 * 1000)).resolves.toBe(150);
+    expect(getCandles).not.toHaveBeenCalled();
+  });
+
+  it("waits rather than settle at a quote from before the close", async () => {
+    vi.mocked(getQuote).mockResolvedValue(quote(150, CLOSE - 2 * 60 * 60 * 1000));
+    await expect(settlementPrice("AAPL", "2025-01-17", CLOSE + 60 * 60 * 1000)).resolves.toBeNull();
+  });
+
+  it("settles at the expiration-day close after downtime, not today's price", async () => {
+    vi.mocked(getQuote).mockResolvedValue(quote(200, CLOSE + 3 * DAY_MS));
+    vi.mocked(getCandles).mockResolvedValue([dailyBar("2025-01-16", 148), dailyBar("2025-01-17", 150)]);
+    await expect(settlementPrice("AAPL", "2025-01-17", CLOSE + 3 * DAY_MS)).resolves.toBe(150);
+    expect(getQuote).not.toHaveBeenCalled();
+  });
+
+  it("uses the last close before an expiration date the market was shut", async () => {
+    // Good Friday 2025-04-18
+    vi.mocked(getCandles).mockResolvedValue([dailyBar("2025-04-16", 99), dailyBar("2025-04-17", 101)]);
+    await expect(settlementPrice("AAPL", "2025-04-18", Date.parse("2025-04-21T15:00:00Z"))).resolves.toBe(101);
+  });
+
+  it("is null while the provider has no bars", async () => {
+    vi.mocked(getCandles).mockResolvedValue([]);
+    await expect(settlementPrice("AAPL", "2025-01-17", CLOSE + 3 * DAY_MS)).resolves.toBeNull();
+  });
+});
+
+describe("settleExpiredOptions", () => {
+  it("moves on to the next position when a cash fallback fails", async () => {
+    const expired = (id: string) => ({ id, symbol: "AAPL", expirationDate: "2025-01-17", settlement: "deliver", userId: 1 }) as OptionPosition & { userId: number };
+    vi.mocked(storage.getExpiringOptionPositions).mockResolvedValue([expired("1"), expired("2")]);
+    vi.mocked(getCandles).mockResolvedValue([dailyBar("2025-01-17", 150)]);
+    vi.mocked(storage.settleExpiredOption).mockImplementation(async (id, _price, settlement) => {
+      if (id !== "1") return undefined;
+      throw settlement === "cash" ? new Error("connection reset") : new TradeRejectedError("Insufficient funds");
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await settleExpiredOptions();
+    expect(storage.settleExpiredOption).toHaveBeenCalledWith("1", 150, "cash");
+    expect(storage.settleExpiredOption).toHaveBeenCalledWith("2", 150);
+  });
+});
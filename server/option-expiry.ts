@@ -0,0 +1,110 @@
+import { storage, TradeRejectedError } from "./storage";
+import { isQuoteStale } from "./market-data";
+import { getQuote } from "./quote-cache";
+import { getCandles } from "./candles";
+import { expirationTime, yearsToExpiry } from "./option-pricing";
+import { DAY_MS } from "./margin";
+import { log } from "./log";
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// From the 4pm close to midnight New York, when the day's bar may not be final
+const EXPIRATION_EVENING_MS = 8 * 60 * 60 * 1000;
+
+// A live quote only stands in for the close if it was taken around the close
+const CLOSE_QUOTE_MARGIN_MS = 15 * 60 * 1000;
+
+// Daily bars looked up before expiration, enough to reach back over a holiday
+const CLOSE_LOOKBACK_MS = 7 * DAY_MS;
+
+// Legacy dates that never parsed have no close to look up, so they settle at
+// the last trade, which can be from Friday's close by Monday
+const UNDATED_QUOTE_MAX_AGE_MS = 4 * DAY_MS;
+
+// The underlying's close on the expiration date, or the last close before it
+// when the market was shut that day. Null until a price is available.
+export async function settlementPrice(symbol: string, expirationDate: string, now: number): Promise<number | null> {
+  const expiresAt = expirationTime(expirationDate);
+  if (isNaN(expiresAt)) {
+    const quote = await getQuote(symbol);
+    return quote && !isQuoteStale(quote, UNDATED_QUOTE_MAX_AGE_MS) ? quote.currentPrice : null;
+  }
+
+  // Still expiration day: the live quote is the close
+  if (now < expiresAt + EXPIRATION_EVENING_MS) {
+    const quote = await getQuote(symbol);
+    const fromClose = quote && quote.currentPrice > 0 && quote.timestamp >= expiresAt - CLOSE_QUOTE_MARGIN_MS;
+    return fromClose ? quote.currentPrice : null;
+  }
+
+  const dayStart = Date.parse(`${expirationDate}T00:00:00Z`);
+  const bars = await getCandles(symbol, "D", dayStart - CLOSE_LOOKBACK_MS, dayStart + DAY_MS - 1);
+  const close = bars.filter(bar => bar.time < dayStart + DAY_MS).pop();
+  return close?.close ?? null;
+}
+
+export async function settleExpiredOptions(): Promise<void> {
+  const now = Date.now();
+  const today = new Date(now).toISOString().split("T")[0];
+  const expired = (await storage.getExpiringOptionPositions(today))
+    .filter(o => yearsToExpiry(o.expirationDate, now) <= 0);
+
+  // Positions on the same contract date settle at the same price
+  const prices = new Map<string, number | null>();
+  for (const option of expired) {
+    const key = `${option.symbol}:${option.expirationDate}`;
+    if (!prices.has(key)) {
+      try {
+        prices.set(key, await settlementPrice(option.symbol, option.expirationDate, now));
+      } catch (error) {
+        console.error(`Error pricing ${key} for settlement:`, error);
+        prices.set(key, null);
+      }
+    }
+
+    // Retried on the next run once a price is available
+    const price = prices.get(key);
+    if (price == null) continue;
+
+    try {
+      await storage.settleExpiredOption(option.id, price);
+    } catch (error) {
+      if (!(error instanceof TradeRejectedError && option.settlement === "deliver")) {
+        console.error(`Error settling option ${option.id}:`, error);
+        continue;
+      }
+      
+      // Cannot take or make delivery (no cash or shares), so settle for cash.
+      // A failure here is this position's alone; the rest still settle.
+      log(`Option ${option.id} delivery rejected (${error.message}), settling in cash`, "option-expiry");
+      try {
+        await storage.settleExpiredOption(option.id, price, "cash");
+      } catch (cashError) {
+        console.error(`Error settling option ${option.id} in cash:`, cashError);
+      }
+    }
+  }
+}
+
+export function startOptionExpiry(): void {
+  let running = false;
+
+  storage.normalizeOptionExpirations()
+    .then((count) => {
+      if (count > 0) log(`Normalized ${count} free-form option expiration dates`, "option-expiry");
+    })
+    .catch((error) => console.error("Error normalizing option expirations:", error));
+
+  setInterval(async () => {
+    // Skip a tick rather than overlap a slow one
+    if (running) return;
+    running = true;
+    try {
+      await settleExpiredOptions();
+    } catch (error) {
+      console.error("Error settling expired options:", error);
+    } finally {
+      running = false;
+    }
+  }, CHECK_INTERVAL_MS);
+}
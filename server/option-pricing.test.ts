@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { expirationTime, normalizeExpirationDate, yearsToExpiry } from "./option-pricing";
+
+describe("expirationTime", () => {
+  it("is 4pm New York in standard time", () => {
+    expect(expirationTime("2025-01-17")).toBe(Date.parse("2025-01-17T21:00:00Z"));
+  });
+
+  it("is 4pm New York in daylight time", () => {
+    expect(expirationTime("2025-07-18")).toBe(Date.parse("2025-07-18T20:00:00Z"));
+  });
+
+  it("follows the clock change on the day it happens", () => {
+    expect(expirationTime("2025-03-09")).toBe(Date.parse("2025-03-09T20:00:00Z"));
+    expect(expirationTime("2025-11-02")).toBe(Date.parse("2025-11-02T21:00:00Z"));
+  });
+
+  it("is NaN for anything but YYYY-MM-DD", () => {
+    expect(expirationTime("Jan 17, 2025")).toBeNaN();
+    expect(expirationTime("2025-13-40")).toBeNaN();
+  });
+});
+
+describe("yearsToExpiry", () => {
+  it("treats an unparseable date as expired", () => {
+    expect(yearsToExpiry("next Friday", Date.parse("2025-01-01T00:00:00Z"))).toBe(0);
+  });
+
+  it("runs out at the close", () => {
+    const close = Date.parse("2025-07-18T20:00:00Z");
+    expect(yearsToExpiry("2025-07-18", close - 60000)).toBeGreaterThan(0);
+    expect(yearsToExpiry("2025-07-18", close)).toBe(0);
+  });
+});
+
+describe("normalizeExpirationDate", () => {
+  it("keeps ISO dates", () => {
+    expect(normalizeExpirationDate("2025-01-17")).toBe("2025-01-17");
+  });
+
+  it("rewrites free-form dates", () => {
+    expect(normalizeExpirationDate("01/17/2025")).toBe("2025-01-17");
+    expect(normalizeExpirationDate("Jan 17, 2025")).toBe("2025-01-17");
+  });
+
+  it("gives up on strings that are not dates", () => {
+    expect(normalizeExpirationDate("next Friday")).toBeNull();
+    expect(normalizeExpirationDate("2025-13-40")).toBeNull();
+  });
+});
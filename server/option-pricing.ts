@@ -0,0 +1,285 @@
+// Black-Scholes pricing for European equity options (no dividends)
+import type { OptionType, OptionGreeks, OptionQuote, OptionChain, OptionChainEntry, StockQuote } from "@shared/schema";
+
+// Annual risk-free rate used for discounting
+export const RISK_FREE_RATE = 0.045;
+
+// Used when the quote has no intraday range to estimate from
+export const DEFAULT_VOLATILITY = 0.3;
+
+const MIN_VOLATILITY = 0.1;
+const MAX_VOLATILITY = 1.5;
+const TRADING_DAYS_PER_YEAR = 252;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface OptionPrice {
+  premium: number;
+  greeks: OptionGreeks;
+}
+
+// Standard normal density
+function normPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error below 1.5e-7)
+function normCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+// Annualized volatility from the day's high/low (Parkinson estimator),
+// clamped to a sane range since a single day is a noisy sample
+export function estimateVolatility(quote: Pick<StockQuote, "high" | "low">): number {
+  if (!(quote.high > 0) || !(quote.low > 0) || quote.high <= quote.low) {
+    return DEFAULT_VOLATILITY;
+  }
+  const daily = Math.log(quote.high / quote.low) / Math.sqrt(4 * Math.LN2);
+  const annual = daily * Math.sqrt(TRADING_DAYS_PER_YEAR);
+  return Math.min(MAX_VOLATILITY, Math.max(MIN_VOLATILITY, annual));
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const NEW_YORK_CLOCK = new Intl.DateTimeFormat("en-US", {
+  timeZone: "America/New_York",
+  hourCycle: "h23",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+
+// How far New York's wall clock is ahead of UTC at an instant: -5h in
+// standard time, -4h while daylight time is in effect
+function newYorkOffsetMs(at: number): number {
+  const parts = Object.fromEntries(NEW_YORK_CLOCK.formatToParts(at).map(p => [p.type, Number(p.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - (at - (at % 1000));
+}
+
+// Options expire at the close on their expiration date, 4pm New York time.
+// Clocks change at 2am, so the offset at 4pm UTC is the offset at the close.
+export function expirationTime(expirationDate: string): number {
+  const closeAsUtc = ISO_DATE.test(expirationDate) ? Date.parse(`${expirationDate}T16:00:00Z`) : NaN;
+  if (isNaN(closeAsUtc)) {
+    return NaN;
+  }
+  return closeAsUtc - newYorkOffsetMs(closeAsUtc);
+}
+
+// Positions opened before expirations were validated can hold free-form dates
+// ("01/17/2025", "Jan 17, 2025"). Returns YYYY-MM-DD, or null when the string
+// is not a date at all.
+export function normalizeExpirationDate(value: string): string | null {
+  if (ISO_DATE.test(value)) {
+    return isNaN(Date.parse(value)) ? null : value;
+  }
+  // Anything but an ISO date parses as local midnight
+  const parsed = new Date(value.trim());
+  if (isNaN(parsed.getTime())) {
+    return null;
+  }
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+// A date that does not parse counts as expired, so the position still settles
+export function yearsToExpiry(expirationDate: string, now: number = Date.now()): number {
+  const expiresAt = expirationTime(expirationDate);
+  if (isNaN(expiresAt)) {
+    return 0;
+  }
+  return Math.max(0, (expiresAt - now) / YEAR_MS);
+}
+
+// Premium per share and Greeks. Theta is per calendar day, vega per
+// volatility point and rho per percentage point of rate.
+export function priceOption(params: {
+  optionType: OptionType;
+  spot: number;
+  strike: number;
+  years: number;
+  volatility: number;
+  rate?: number;
+}): OptionPrice {
+  const { optionType, spot, strike, years, volatility } = params;
+  const rate = params.rate ?? RISK_FREE_RATE;
+  const isCall = optionType === "call";
+
+  // At expiry the option is worth its intrinsic value
+  if (years <= 0 || volatility <= 0) {
+    const intrinsic = Math.max(0, isCall ? spot - strike : strike - spot);
+    const inTheMoney = intrinsic > 0;
+    return {
+      premium: intrinsic,
+      greeks: {
+        delta: inTheMoney ? (isCall ? 1 : -1) : 0,
+        gamma: 0,
+        theta: 0,
+        vega: 0,
+        rho: 0,
+      },
+    };
+  }
+
+  const sqrtT = Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (rate + volatility * volatility / 2) * years) / (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const discount = Math.exp(-rate * years);
+
+  const premium = isCall
+    ? spot * normCdf(d1) - strike * discount * normCdf(d2)
+    : strike * discount * normCdf(-d2) - spot * normCdf(-d1);
+
+  const decay = -(spot * normPdf(d1) * volatility) / (2 * sqrtT);
+  const theta = isCall
+    ? decay - rate * strike * discount * normCdf(d2)
+    : decay + rate * strike * discount * normCdf(-d2);
+  const rho = isCall
+    ? strike * years * discount * normCdf(d2)
+    : -strike * years * discount * normCdf(-d2);
+
+  return {
+    premium: Math.max(0, premium),
+    greeks: {
+      delta: isCall ? normCdf(d1) : normCdf(d1) - 1,
+      gamma: normPdf(d1) / (spot * volatility * sqrtT),
+      theta: theta / 365,
+      vega: (spot * normPdf(d1) * sqrtT) / 100,
+      rho: rho / 100,
+    },
+  };
+}
+
+// Fair value of a contract at the underlying's current quote
+export function quoteOption(
+  quote: StockQuote,
+  contract: { optionType: OptionType; strikePrice: number; expirationDate: string },
+  now: number = Date.now(),
+): OptionQuote {
+  const impliedVolatility = estimateVolatility(quote);
+  const { premium, greeks } = priceOption({
+    optionType: contract.optionType,
+    spot: quote.currentPrice,
+    strike: contract.strikePrice,
+    years: yearsToExpiry(contract.expirationDate, now),
+    volatility: impliedVolatility,
+  });
+
+  return {
+    symbol: quote.symbol,
+    optionType: contract.optionType,
+    strikePrice: contract.strikePrice,
+    expirationDate: contract.expirationDate,
+    underlyingPrice: quote.currentPrice,
+    impliedVolatility,
+    premium,
+    greeks,
+  };
+}
+
+const WEEKLY_EXPIRATIONS = 4;
+const MONTHLY_EXPIRATIONS = 3;
+const STRIKES_EACH_SIDE = 8;
+
+// Quoted spread as a fraction of the mark, with a one-cent floor on each side
+const CHAIN_HALF_SPREAD = 0.02;
+const MIN_HALF_SPREAD = 0.01;
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// Standard listings: the next few Friday weeklies, then monthlies on the
+// third Friday of the following months
+export function optionExpirations(now: number = Date.now()): string[] {
+  const expirations = new Set<string>();
+  const today = new Date(now);
+  const cursor = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+
+  while (expirations.size < WEEKLY_EXPIRATIONS) {
+    const date = toDateString(cursor);
+    if (cursor.getUTCDay() === 5 && yearsToExpiry(date, now) > 0) {
+      expirations.add(date);
+    }
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  let monthlies = 0;
+  const month = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth(), 1));
+  while (monthlies < MONTHLY_EXPIRATIONS) {
+    const firstFriday = 1 + ((5 - month.getUTCDay() + 7) % 7);
+    const thirdFriday = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), firstFriday + 14));
+    if (thirdFriday.getTime() > cursor.getTime()) {
+      expirations.add(toDateString(thirdFriday));
+      monthlies++;
+    }
+    month.setUTCMonth(month.getUTCMonth() + 1);
+  }
+
+  return Array.from(expirations).sort();
+}
+
+// Listed strike spacing widens with the share price
+function strikeIncrement(spot: number): number {
+  if (spot < 25) return 1;
+  if (spot < 100) return 2.5;
+  if (spot < 250) return 5;
+  if (spot < 1000) return 10;
+  return 50;
+}
+
+export function strikeLadder(spot: number): number[] {
+  const increment = strikeIncrement(spot);
+  const atTheMoney = Math.round(spot / increment) * increment;
+  const strikes: number[] = [];
+  for (let i = -STRIKES_EACH_SIDE; i <= STRIKES_EACH_SIDE; i++) {
+    const strike = atTheMoney + i * increment;
+    if (strike > 0) {
+      strikes.push(Math.round(strike * 100) / 100);
+    }
+  }
+  return strikes;
+}
+
+function chainEntry(price: OptionPrice): OptionChainEntry {
+  const mark = Math.round(price.premium * 100) / 100;
+  const halfSpread = Math.max(MIN_HALF_SPREAD, mark * CHAIN_HALF_SPREAD);
+  return {
+    bid: Math.max(0, Math.round((mark - halfSpread) * 100) / 100),
+    ask: Math.round((mark + halfSpread) * 100) / 100,
+    mark,
+    greeks: price.greeks,
+  };
+}
+
+// Chain for one expiration (the nearest when none is given)
+export function buildOptionChain(quote: StockQuote, expiration?: string, now: number = Date.now()): OptionChain {
+  const expirations = optionExpirations(now);
+  const expirationDate = expiration ?? expirations[0];
+  const impliedVolatility = estimateVolatility(quote);
+  const years = yearsToExpiry(expirationDate, now);
+
+  const strikes = strikeLadder(quote.currentPrice).map(strikePrice => {
+    const params = { spot: quote.currentPrice, strike: strikePrice, years, volatility: impliedVolatility };
+    return {
+      strikePrice,
+      call: chainEntry(priceOption({ ...params, optionType: "call" })),
+      put: chainEntry(priceOption({ ...params, optionType: "put" })),
+    };
+  });
+
+  return {
+    symbol: quote.symbol,
+    underlyingPrice: quote.currentPrice,
+    impliedVolatility,
+    expirations,
+    expirationDate,
+    strikes,
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { strategyOrderSchema } from "@shared/schema";
+import { strategyCollateral, strategyLegs, strategyPayoff } from "./option-strategies";
+
+const EXPIRATION = "2030-01-18";
+
+function legs(order: Record<string, unknown>) {
+  return strategyLegs(strategyOrderSchema.parse({ symbol: "SPY", expirationDate: EXPIRATION, ...order }));
+}
+
+describe("strategyCollateral", () => {
+  it("holds nothing back for a debit vertical", () => {
+    expect(strategyCollateral(legs({ strategyType: "vertical", optionType: "call", quantity: 1, longStrike: 100, shortStrike: 110 }))).toBe(0);
+  });
+
+  it("holds the strike width for a credit vertical", () => {
+    // Short the 100 call, long the 110: worst case is a $10 spread per share
+    expect(strategyCollateral(legs({ strategyType: "vertical", optionType: "call", quantity: 2, longStrike: 110, shortStrike: 100 }))).toBe(2000);
+    // Short the 100 put, long the 90
+    expect(strategyCollateral(legs({ strategyType: "vertical", optionType: "put", quantity: 1, longStrike: 90, shortStrike: 100 }))).toBe(1000);
+  });
+
+  it("holds nothing back for a long straddle", () => {
+    expect(strategyCollateral(legs({ strategyType: "straddle", side: "long", quantity: 1, strikePrice: 100 }))).toBe(0);
+  });
+
+  it("refuses a short straddle, whose naked call has no worst case", () => {
+    expect(strategyCollateral(legs({ strategyType: "straddle", side: "short", quantity: 1, strikePrice: 100 }))).toBeNull();
+  });
+
+  it("holds the wider wing for a short iron condor", () => {
+    // $5 put wing, $10 call wing; only one side can finish in the money
+    const condor = legs({ strategyType: "iron_condor", side: "short", quantity: 3, strikes: [90, 95, 105, 115] });
+    expect(strategyCollateral(condor)).toBe(3000);
+  });
+
+  it("holds nothing back for a long iron condor", () => {
+    expect(strategyCollateral(legs({ strategyType: "iron_condor", side: "long", quantity: 1, strikes: [90, 95, 105, 110] }))).toBe(0);
+  });
+});
+
+describe("strategyPayoff", () => {
+  it("is the spread less the debit at expiration", () => {
+    // Long the 100 call for $6, short the 110 call for $2: $4 debit
+    const spread = legs({ strategyType: "vertical", optionType: "call", quantity: 1, longStrike: 100, shortStrike: 110 })
+      .map(l => ({ ...l, premium: l.strikePrice === 100 ? 6 : 2 }));
+    const payoff = new Map(strategyPayoff(spread, 105, 0.3).map(p => [p.price, p.value]));
+
+    expect(payoff.get(100)).toBe(-400);
+    expect(payoff.get(110)).toBe(600);
+    const values = Array.from(payoff.values());
+    expect(Math.min(...values)).toBe(-400);
+    expect(Math.max(...values)).toBe(600);
+  });
+});
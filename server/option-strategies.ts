@@ -0,0 +1,159 @@
+// Multi-leg option strategies: leg templates, payoff at expiry and collateral
+import type {
+  OptionType,
+  PayoffPoint,
+  StockQuote,
+  StrategyLeg,
+  StrategyOrder,
+  StrategyQuote,
+} from "@shared/schema";
+import { estimateVolatility, expirationTime, priceOption, quoteOption, yearsToExpiry } from "./option-pricing";
+
+const PAYOFF_POINTS = 60;
+
+type LegTemplate = Omit<StrategyLeg, "premium">;
+
+function leg(optionType: OptionType, strikePrice: number, expirationDate: string, contracts: number): LegTemplate {
+  return { optionType, strikePrice, expirationDate, contracts };
+}
+
+// Signed contracts per leg for a template; long sides buy the body
+export function strategyLegs(order: StrategyOrder): LegTemplate[] {
+  const q = order.quantity;
+
+  switch (order.strategyType) {
+    case "vertical":
+      return [
+        leg(order.optionType, order.longStrike, order.expirationDate, q),
+        leg(order.optionType, order.shortStrike, order.expirationDate, -q),
+      ];
+    case "straddle": {
+      const sign = order.side === "long" ? 1 : -1;
+      return [
+        leg("call", order.strikePrice, order.expirationDate, sign * q),
+        leg("put", order.strikePrice, order.expirationDate, sign * q),
+      ];
+    }
+    case "strangle": {
+      const sign = order.side === "long" ? 1 : -1;
+      return [
+        leg("put", order.putStrike, order.expirationDate, sign * q),
+        leg("call", order.callStrike, order.expirationDate, sign * q),
+      ];
+    }
+    case "iron_condor": {
+      // A short condor sells the inner strikes and buys the wings
+      const sign = order.side === "short" ? 1 : -1;
+      const [putWing, putBody, callBody, callWing] = order.strikes;
+      return [
+        leg("put", putWing, order.expirationDate, sign * q),
+        leg("put", putBody, order.expirationDate, -sign * q),
+        leg("call", callBody, order.expirationDate, -sign * q),
+        leg("call", callWing, order.expirationDate, sign * q),
+      ];
+    }
+    case "butterfly": {
+      const sign = order.side === "long" ? 1 : -1;
+      return [
+        leg(order.optionType, order.lowerStrike, order.expirationDate, sign * q),
+        leg(order.optionType, order.middleStrike, order.expirationDate, -2 * sign * q),
+        leg(order.optionType, order.upperStrike, order.expirationDate, sign * q),
+      ];
+    }
+    case "calendar":
+      return [
+        leg(order.optionType, order.strikePrice, order.nearExpiration, -q),
+        leg(order.optionType, order.strikePrice, order.farExpiration, q),
+      ];
+  }
+}
+
+function intrinsic(optionType: OptionType, strike: number, price: number): number {
+  return Math.max(0, optionType === "call" ? price - strike : strike - price);
+}
+
+function firstExpiration(legs: LegTemplate[]): string {
+  return legs.map(l => l.expirationDate).sort()[0];
+}
+
+// Dollars owed (negative) or received at the first expiration if every leg
+// settled at intrinsic value. Later legs are worth at least that much.
+function settlementValue(legs: LegTemplate[], price: number): number {
+  return legs.reduce((sum, l) => sum + l.contracts * 100 * intrinsic(l.optionType, l.strikePrice, price), 0);
+}
+
+// Change in value per $1 of underlying far above every strike; deep calls
+// track the stock whether or not they have expired
+function upperSlope(legs: LegTemplate[]): number {
+  return legs
+    .filter(l => l.optionType === "call")
+    .reduce((sum, l) => sum + l.contracts * 100, 0);
+}
+
+// Cash that must stay reserved to cover the worst settlement, or null when
+// the worst case is unbounded (more calls written than bought)
+export function strategyCollateral(legs: LegTemplate[]): number | null {
+  if (upperSlope(legs) < 0) {
+    return null;
+  }
+  const prices = [0, ...legs.map(l => l.strikePrice)];
+  const worst = Math.min(...prices.map(p => settlementValue(legs, p)));
+  return Math.max(0, -worst);
+}
+
+// P/L across underlying prices at the first expiration. Legs that expire
+// later are valued with Black-Scholes at the given volatility.
+export function strategyPayoff(legs: StrategyLeg[], underlyingPrice: number, volatility: number): PayoffPoint[] {
+  const expiresAt = expirationTime(firstExpiration(legs));
+  const strikes = legs.map(l => l.strikePrice);
+  const low = Math.min(underlyingPrice, ...strikes) * 0.7;
+  const high = Math.max(underlyingPrice, ...strikes) * 1.3;
+
+  const prices = new Set<number>(strikes);
+  for (let i = 0; i <= PAYOFF_POINTS; i++) {
+    prices.add(Math.round((low + ((high - low) * i) / PAYOFF_POINTS) * 100) / 100);
+  }
+
+  return Array.from(prices).sort((a, b) => a - b).map(price => {
+    const value = legs.reduce((sum, l) => {
+      const years = yearsToExpiry(l.expirationDate, expiresAt);
+      const worth = years > 0
+        ? priceOption({ optionType: l.optionType, spot: price, strike: l.strikePrice, years, volatility }).premium
+        : intrinsic(l.optionType, l.strikePrice, price);
+      return sum + l.contracts * 100 * (worth - l.premium);
+    }, 0);
+    return { price, value: Math.round(value * 100) / 100 };
+  });
+}
+
+// Prices every leg at the model premium and summarizes the position
+export function quoteStrategy(quote: StockQuote, order: StrategyOrder, now: number = Date.now()): StrategyQuote {
+  const legs = strategyLegs(order).map(l => {
+    const { premium, greeks } = quoteOption(quote, l, now);
+    return { ...l, premium, greeks };
+  });
+
+  const netPremium = legs.reduce((sum, l) => sum + (l.contracts / order.quantity) * l.premium, 0);
+  const payoff = strategyPayoff(legs, quote.currentPrice, estimateVolatility(quote));
+  const values = payoff.map(p => p.value);
+  const slope = upperSlope(legs);
+  const collateral = strategyCollateral(legs);
+
+  return {
+    symbol: quote.symbol,
+    strategyType: order.strategyType,
+    quantity: order.quantity,
+    underlyingPrice: quote.currentPrice,
+    legs,
+    netPremium,
+    maxProfit: slope > 0 ? null : Math.max(...values),
+    maxLoss: collateral === null ? null : Math.max(0, -Math.min(...values)),
+    collateral: collateral ?? 0,
+    payoff,
+  };
+}
+
+// Every leg must still be open for trading
+export function hasExpiredLeg(legs: LegTemplate[], now: number = Date.now()): boolean {
+  return legs.some(l => yearsToExpiry(l.expirationDate, now) <= 0);
+}
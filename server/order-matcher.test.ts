@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+import { evaluateOrder } from "./order-matcher";
+
+// evaluateOrder is pure; the matcher loop around it needs a database
+vi.mock("./storage", () => ({ storage: {}, TradeRejectedError: class extends Error {} }));
+vi.mock("./quote-cache", () => ({ getQuote: vi.fn() }));
+
+function order(side: "buy" | "sell", orderType: "limit" | "stop" | "stop_limit", prices: { limit?: number; stop?: number }, triggered = false) {
+  return { side, orderType, limitPrice: prices.limit ?? null, stopPrice: prices.stop ?? null, triggered };
+}
+
+describe("evaluateOrder", () => {
+  it("fills a buy limit at or below the limit", () => {
+    const buy = order("buy", "limit", { limit: 100 });
+    expect(evaluateOrder(buy, 100.01)).toBe("none");
+    expect(evaluateOrder(buy, 100)).toBe("fill");
+    expect(evaluateOrder(buy, 95)).toBe("fill");
+  });
+
+  it("fills a sell limit at or above the limit", () => {
+    const sell = order("sell", "limit", { limit: 100 });
+    expect(evaluateOrder(sell, 99.99)).toBe("none");
+    expect(evaluateOrder(sell, 100)).toBe("fill");
+    expect(evaluateOrder(sell, 105)).toBe("fill");
+  });
+
+  it("fills a buy stop once the price rises to the stop", () => {
+    const buy = order("buy", "stop", { stop: 100 });
+    expect(evaluateOrder(buy, 99.99)).toBe("none");
+    expect(evaluateOrder(buy, 100)).toBe("fill");
+    expect(evaluateOrder(buy, 110)).toBe("fill");
+  });
+
+  it("fills a sell stop once the price falls to the stop", () => {
+    const sell = order("sell", "stop", { stop: 100 });
+    expect(evaluateOrder(sell, 100.01)).toBe("none");
+    expect(evaluateOrder(sell, 100)).toBe("fill");
+    expect(evaluateOrder(sell, 90)).toBe("fill");
+  });
+
+  it("fills a buy stop-limit when the stop and the limit are both reached", () => {
+    const buy = order("buy", "stop_limit", { stop: 100, limit: 101 });
+    expect(evaluateOrder(buy, 99)).toBe("none");
+    expect(evaluateOrder(buy, 100.5)).toBe("fill");
+  });
+
+  it("triggers a buy stop-limit that gaps past its limit, then waits for the limit", () => {
+    const buy = order("buy", "stop_limit", { stop: 100, limit: 101 });
+    expect(evaluateOrder(buy, 102)).toBe("trigger");
+
+    const triggered = { ...buy, triggered: true };
+    expect(evaluateOrder(triggered, 102)).toBe("none");
+    // Back under the stop, but a triggered order only needs its limit
+    expect(evaluateOrder(triggered, 99)).toBe("fill");
+  });
+
+  it("triggers a sell stop-limit that gaps past its limit, then waits for the limit", () => {
+    const sell = order("sell", "stop_limit", { stop: 100, limit: 99 });
+    expect(evaluateOrder(sell, 101)).toBe("none");
+    expect(evaluateOrder(sell, 99.5)).toBe("fill");
+    expect(evaluateOrder(sell, 98)).toBe("trigger");
+
+    const triggered = { ...sell, triggered: true };
+    expect(evaluateOrder(triggered, 98.5)).toBe("none");
+    expect(evaluateOrder(triggered, 101)).toBe("fill");
+  });
+});
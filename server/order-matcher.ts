@@ -0,0 +1,120 @@
+import type { Order } from "@shared/schema";
+import { storage, TradeRejectedError } from "./storage";
+import { isQuoteStale } from "./market-data";
+import { getQuote } from "./quote-cache";
+
+const POLL_INTERVAL_MS = 15000;
+const MARKET_TIME_ZONE = "America/New_York";
+const MARKET_CLOSE_HOUR = 16;
+
+// Trading session a moment belongs to, as YYYY-MM-DD in exchange time.
+// After the close, or on a weekend, that is the next weekday's session.
+function sessionDate(time: number): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: MARKET_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(time));
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)!.value, 10);
+
+  const date = new Date(Date.UTC(get("year"), get("month") - 1, get("day")));
+  if (get("hour") >= MARKET_CLOSE_HOUR) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+
+  return date.toISOString().split("T")[0];
+}
+
+export function isDayOrderExpired(order: Order, now: number = Date.now()): boolean {
+  return order.timeInForce === "day" && sessionDate(order.createdAt) !== sessionDate(now);
+}
+
+// Decides what a resting order does at the given price: nothing, trigger its
+// stop (stop-limit only) or fill. Stop orders fill as market orders once hit.
+export function evaluateOrder(
+  order: Pick<Order, "side" | "orderType" | "limitPrice" | "stopPrice" | "triggered">,
+  price: number,
+): "none" | "trigger" | "fill" {
+  const isBuy = order.side === "buy";
+  const limitReached = (limit: number) => (isBuy ? price <= limit : price >= limit);
+  const stopReached = (stop: number) => (isBuy ? price >= stop : price <= stop);
+
+  switch (order.orderType) {
+    case "limit":
+      return limitReached(order.limitPrice!) ? "fill" : "none";
+    case "stop":
+      return stopReached(order.stopPrice!) ? "fill" : "none";
+    case "stop_limit":
+      if (!order.triggered && !stopReached(order.stopPrice!)) {
+        return "none";
+      }
+      if (limitReached(order.limitPrice!)) {
+        return "fill";
+      }
+      return order.triggered ? "none" : "trigger";
+  }
+}
+
+async function matchOrders(): Promise<void> {
+  const openOrders = await storage.getOpenOrders();
+  const now = Date.now();
+
+  const bySymbol = new Map<string, typeof openOrders>();
+  for (const order of openOrders) {
+    if (isDayOrderExpired(order, now)) {
+      await storage.closeOrder(order.id, "expired", "Day order expired at market close");
+      continue;
+    }
+    const list = bySymbol.get(order.symbol) ?? [];
+    list.push(order);
+    bySymbol.set(order.symbol, list);
+  }
+
+  for (const [symbol, symbolOrders] of Array.from(bySymbol.entries())) {
+    const quote = await getQuote(symbol);
+    if (!quote || isQuoteStale(quote)) {
+      continue;
+    }
+
+    for (const order of symbolOrders) {
+      const action = evaluateOrder(order, quote.currentPrice);
+
+      if (action === "trigger") {
+        await storage.markOrderTriggered(order.id);
+      } else if (action === "fill") {
+        try {
+          await storage.fillOrder(order.id, quote.currentPrice, quote.timestamp);
+        } catch (error) {
+          if (error instanceof TradeRejectedError) {
+            await storage.closeOrder(order.id, "rejected", error.message);
+          } else {
+            console.error(`Error filling order ${order.id}:`, error);
+          }
+        }
+      }
+    }
+  }
+}
+
+export function startOrderMatcher(): void {
+  let running = false;
+
+  setInterval(async () => {
+    // Skip a tick rather than overlap a slow one
+    if (running) return;
+    running = true;
+    try {
+      await matchOrders();
+    } catch (error) {
+      console.error("Error matching orders:", error);
+    } finally {
+      running = false;
+    }
+  }, POLL_INTERVAL_MS);
+}
@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { RequestHandler } from "express";
+import WebSocket from "ws";
+import { startPriceStream } from "./price-stream";
+
+vi.mock("./quote-cache", () => ({
+  getQuote: vi.fn(async (symbol: string) => ({ symbol, currentPrice: 100, timestamp: Date.now() })),
+}));
+
+// Stands in for express-session: the cookie names the logged-in user
+const sessionParser: RequestHandler = (req, _res, next) => {
+  const userId = Number(req.headers.cookie?.match(/user=(\d+)/)?.[1]);
+  (req as { session?: unknown }).session = userId ? { passport: { user: userId } } : {};
+  next();
+};
+
+let server: Server;
+let url: string;
+const open: WebSocket[] = [];
+
+beforeAll(async () => {
+  server = createServer();
+  startPriceStream(server, sessionParser);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  url = `ws://localhost:${(server.address() as AddressInfo).port}/ws/quotes`;
+});
+
+afterAll(async () => {
+  open.forEach(socket => socket.terminate());
+  await new Promise(resolve => server.close(resolve));
+});
+
+// Resolves with the socket once open, or with the HTTP status it was refused with
+function connect(userId?: number): Promise<WebSocket | number> {
+  const socket = new WebSocket(url, { headers: userId ? { cookie: `user=${userId}` } : {} });
+  return new Promise((resolve, reject) => {
+    socket.on("open", () => {
+      open.push(socket);
+      resolve(socket);
+    });
+    socket.on("unexpected-response", (_req, res) => resolve(res.statusCode ?? 0));
+    socket.on("error", reject);
+  });
+}
+
+function nextMessage(socket: WebSocket): Promise<any> {
+  return new Promise(resolve => socket.once("message", data => resolve(JSON.parse(data.toString()))));
+}
+
+describe("price stream", () => {
+  it("refuses connections without a session", async () => {
+    expect(await connect()).toBe(401);
+  });
+
+  it("streams quotes to a logged-in user", async () => {
+    const socket = await connect(1) as WebSocket;
+    const message = nextMessage(socket);
+    socket.send(JSON.stringify({ type: "subscribe", symbols: ["AAPL"] }));
+    expect(await message).toMatchObject({ type: "quote", quote: { symbol: "AAPL", currentPrice: 100 } });
+  });
+
+  it("limits the connections one user can hold open", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect(await connect(2)).toBeInstanceOf(WebSocket);
+    }
+    expect(await connect(2)).toBe(429);
+    expect(await connect(3)).toBeInstanceOf(WebSocket);
+  });
+
+  it("caps the number of symbols streaming across all users", async () => {
+    // AAPL is still streaming from above, so 199 more symbols reach the
+    // 200-feed cap; a connection takes at most 50
+    const sockets = await Promise.all([4, 5, 6, 7].map(userId => connect(userId) as Promise<WebSocket>));
+    await Promise.all(sockets.map(async (socket, i) => {
+      const symbols = Array.from({ length: i < 3 ? 50 : 49 }, (_, j) => `S${i * 50 + j}`);
+      const quotes = new Promise<void>(resolve => {
+        let received = 0;
+        socket.on("message", () => ++received === symbols.length && resolve());
+      });
+      socket.send(JSON.stringify({ type: "subscribe", symbols }));
+      await quotes;
+    }));
+
+    const extra = await connect(8) as WebSocket;
+    const message = nextMessage(extra);
+    extra.send(JSON.stringify({ type: "subscribe", symbols: ["MSFT"] }));
+    expect(await message).toMatchObject({ type: "error" });
+
+    // Symbols already streaming don't add a feed
+    const shared = nextMessage(extra);
+    extra.send(JSON.stringify({ type: "subscribe", symbols: ["S0"] }));
+    expect(await shared).toMatchObject({ type: "quote", quote: { symbol: "S0" } });
+  });
+});
@@ -0,0 +1,191 @@
+// Live quotes over WebSocket. Each symbol has one feed polling the quote cache
+// no matter how many clients watch it; ticks fan out to every subscriber.
+// Feeds draw on the same upstream quota that fills need, so only logged-in
+// users may connect and the number of feeds is capped.
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { priceStreamRequestSchema, type PriceStreamMessage, type StockQuote } from "@shared/schema";
+import { getQuote } from "./quote-cache";
+
+const STREAM_PATH = "/ws/quotes";
+const TICK_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_SYMBOLS_PER_CLIENT = 50;
+const MAX_CONNECTIONS_PER_USER = 5;
+const MAX_FEEDS = 200;
+
+interface SymbolFeed {
+  subscribers: Set<WebSocket>;
+  timer: NodeJS.Timeout;
+  last: StockQuote | null;
+}
+
+const feeds = new Map<string, SymbolFeed>();
+
+// Open sockets per user id
+const connections = new Map<number, number>();
+
+function send(socket: WebSocket, message: PriceStreamMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+// Pushes a quote only when it differs from the last one sent
+function publish(feed: SymbolFeed, quote: StockQuote | null): void {
+  if (!quote) return;
+  if (feed.last && feed.last.timestamp === quote.timestamp && feed.last.currentPrice === quote.currentPrice) {
+    return;
+  }
+  feed.last = quote;
+  feed.subscribers.forEach(socket => send(socket, { type: "quote", quote }));
+}
+
+function startFeed(symbol: string): SymbolFeed {
+  let running = false;
+
+  const feed: SymbolFeed = {
+    subscribers: new Set(),
+    last: null,
+    timer: setInterval(async () => {
+      // Skip a tick rather than queue behind a slow fetch
+      if (running) return;
+      running = true;
+      try {
+        publish(feed, await getQuote(symbol));
+      } catch (error) {
+        console.error(`Error streaming quote for ${symbol}:`, error);
+      } finally {
+        running = false;
+      }
+    }, TICK_INTERVAL_MS),
+  };
+
+  feeds.set(symbol, feed);
+  return feed;
+}
+
+async function subscribe(socket: WebSocket, symbol: string): Promise<void> {
+  const feed = feeds.get(symbol) ?? startFeed(symbol);
+  feed.subscribers.add(socket);
+
+  // New subscribers get the latest quote straight away
+  if (feed.last) {
+    send(socket, { type: "quote", quote: feed.last });
+  } else {
+    publish(feed, await getQuote(symbol));
+  }
+}
+
+function unsubscribe(socket: WebSocket, symbol: string): void {
+  const feed = feeds.get(symbol);
+  if (!feed) return;
+
+  feed.subscribers.delete(socket);
+  if (feed.subscribers.size === 0) {
+    clearInterval(feed.timer);
+    feeds.delete(symbol);
+  }
+}
+
+// The logged-in user behind an upgrade request, read from its session cookie
+function sessionUser(sessionParser: RequestHandler, req: IncomingMessage): Promise<number | null> {
+  return new Promise(resolve => {
+    const request = req as Request;
+    sessionParser(request, {} as Response, (error?: unknown) => {
+      resolve(error ? null : request.session?.passport?.user ?? null);
+    });
+  });
+}
+
+function refuse(socket: Duplex, status: string): void {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+export function startPriceStream(httpServer: Server, sessionParser: RequestHandler): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Vite's HMR socket shares this server, so only claim our own path
+  httpServer.on("upgrade", async (req, socket, head) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== STREAM_PATH) return;
+
+    const userId = await sessionUser(sessionParser, req);
+    if (userId === null) {
+      return refuse(socket, "401 Unauthorized");
+    }
+    if ((connections.get(userId) ?? 0) >= MAX_CONNECTIONS_PER_USER) {
+      return refuse(socket, "429 Too Many Requests");
+    }
+    wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws, userId));
+  });
+
+  wss.on("connection", (socket: WebSocket, userId: number) => {
+    connections.set(userId, (connections.get(userId) ?? 0) + 1);
+    const symbols = new Set<string>();
+    let alive = true;
+
+    socket.on("pong", () => {
+      alive = true;
+    });
+
+    const heartbeat = setInterval(() => {
+      // No pong since the last ping: the connection is gone
+      if (!alive) {
+        socket.terminate();
+        return;
+      }
+      alive = false;
+      socket.ping();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    socket.on("message", async (data) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(data.toString());
+      } catch {
+        return send(socket, { type: "error", error: "Messages must be JSON" });
+      }
+
+      const result = priceStreamRequestSchema.safeParse(parsed);
+      if (!result.success) {
+        return send(socket, { type: "error", error: "Invalid price stream request" });
+      }
+
+      const requested = result.data.symbols.map(s => s.toUpperCase());
+      try {
+        if (result.data.type === "unsubscribe") {
+          requested.forEach(symbol => {
+            symbols.delete(symbol);
+            unsubscribe(socket, symbol);
+          });
+          return;
+        }
+
+        const added = requested.filter(symbol => !symbols.has(symbol));
+        if (symbols.size + added.length > MAX_SYMBOLS_PER_CLIENT) {
+          return send(socket, { type: "error", error: `At most ${MAX_SYMBOLS_PER_CLIENT} symbols per connection` });
+        }
+        if (feeds.size + added.filter(symbol => !feeds.has(symbol)).length > MAX_FEEDS) {
+          return send(socket, { type: "error", error: "Too many symbols are streaming, try again later" });
+        }
+        added.forEach(symbol => symbols.add(symbol));
+        await Promise.all(added.map(symbol => subscribe(socket, symbol)));
+      } catch (error) {
+        console.error("Error handling price stream request:", error);
+        send(socket, { type: "error", error: "Failed to update subscriptions" });
+      }
+    });
+
+    socket.on("close", () => {
+      const open = (connections.get(userId) ?? 1) - 1;
+      if (open > 0) connections.set(userId, open);
+      else connections.delete(userId);
+      clearInterval(heartbeat);
+      symbols.forEach(symbol => unsubscribe(socket, symbol));
+      symbols.clear();
+    });
+  });
+}
@@ -0,0 +1,102 @@
+// Shared cache in front of the market data provider. Concurrent requests for the
+// same key share one upstream call, and results are kept for a short TTL so
+// page loads that fan out over many symbols don't exhaust the rate limit.
+import type { StockQuote, CompanyProfile } from "@shared/schema";
+import { marketData } from "./market-data";
+import { finnhubLimiter } from "./finnhub";
+import type { SymbolMatch } from "./symbol-catalog";
+
+const QUOTE_TTL_MS = parseInt(process.env.QUOTE_CACHE_TTL_MS || "15000", 10);
+const PROFILE_TTL_MS = 24 * 60 * 60 * 1000;
+const SEARCH_TTL_MS = 10 * 60 * 1000;
+const MAX_ENTRIES = 1000;
+
+class TtlCache<T> {
+  private entries = new Map<string, { value: T; expiresAt: number }>();
+  private inFlight = new Map<string, Promise<T>>();
+  private hits = 0;
+  private misses = 0;
+  private coalesced = 0;
+
+  constructor(private readonly ttlMs: number, private readonly shouldCache: (value: T) => boolean) {}
+
+  get(key: string, load: () => Promise<T>): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++;
+      return Promise.resolve(entry.value);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.coalesced++;
+      return pending;
+    }
+
+    this.misses++;
+    const request = load()
+      .then(value => {
+        if (this.shouldCache(value)) {
+          this.set(key, value);
+        }
+        return value;
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  stats() {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      coalesced: this.coalesced,
+      size: this.entries.size,
+      ttlMs: this.ttlMs,
+    };
+  }
+
+  private set(key: string, value: T): void {
+    // Re-inserting moves the key to the back, so the first key is the oldest
+    this.entries.delete(key);
+    if (this.entries.size >= MAX_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+}
+
+// Failed lookups come back as null or empty and are retried on the next call
+const quotes = new TtlCache<StockQuote | null>(QUOTE_TTL_MS, quote => quote !== null);
+const profiles = new TtlCache<CompanyProfile | null>(PROFILE_TTL_MS, profile => profile !== null);
+const searches = new TtlCache<SymbolMatch[]>(SEARCH_TTL_MS, results => results.length > 0);
+
+export function getQuote(symbol: string): Promise<StockQuote | null> {
+  return quotes.get(symbol.toUpperCase(), () => marketData.getQuote(symbol));
+}
+
+// Quotes for many symbols at once. The fetches run concurrently and the rate
+// limiter spaces out whichever ones miss the cache.
+export async function getQuotes(symbols: string[]): Promise<Map<string, StockQuote | null>> {
+  const unique = Array.from(new Set(symbols));
+  const results = await Promise.all(unique.map(symbol => getQuote(symbol)));
+  return new Map(unique.map((symbol, i) => [symbol, results[i]]));
+}
+
+export function getCompanyProfile(symbol: string): Promise<CompanyProfile | null> {
+  return profiles.get(symbol.toUpperCase(), () => marketData.getCompanyProfile(symbol));
+}
+
+export function searchSymbols(query: string): Promise<SymbolMatch[]> {
+  return searches.get(query.trim().toLowerCase(), () => marketData.searchSymbols(query));
+}
+
+export function getQuoteCacheMetrics() {
+  return {
+    quotes: quotes.stats(),
+    profiles: profiles.stats(),
+    searches: searches.stats(),
+    provider: marketData.name,
+    rateLimiter: finnhubLimiter.stats(),
+  };
+}
@@ -0,0 +1,64 @@
+// Token bucket: holds up to `capacity` tokens and refills at a steady rate.
+// Callers that find it empty wait in line instead of failing, so a burst of
+// requests is spread out to the provider's limit rather than rejected.
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+  private waiting: (() => void)[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private granted = 0;
+  private delayed = 0;
+
+  constructor(private readonly capacity: number, private readonly refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  take(): Promise<void> {
+    this.refill();
+    this.granted++;
+    if (this.waiting.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      return Promise.resolve();
+    }
+
+    this.delayed++;
+    return new Promise(resolve => {
+      this.waiting.push(resolve);
+      this.schedule();
+    });
+  }
+
+  stats() {
+    this.refill();
+    return {
+      granted: this.granted,
+      delayed: this.delayed,
+      waiting: this.waiting.length,
+      available: Math.floor(this.tokens),
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.refilledAt) / 1000) * this.refillPerSecond);
+    this.refilledAt = now;
+  }
+
+  // One timer at a time, set for when the next token is due
+  private schedule(): void {
+    if (this.timer) return;
+    const delayMs = Math.max(0, Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000));
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refill();
+      while (this.waiting.length > 0 && this.tokens >= 1) {
+        this.tokens -= 1;
+        this.waiting.shift()!();
+      }
+      if (this.waiting.length > 0) {
+        this.schedule();
+      }
+    }, delayMs);
+  }
+}
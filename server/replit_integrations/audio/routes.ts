@@ -1,14 +1,15 @@
 import type { Express, Request, Response } from "express";
 import { chatStorage } from "../chat/storage";
+import { requireAuth } from "../../auth";
 import { openai, speechToText, voiceChatWithTextModel, convertWebmToWav } from "./client";
 
 // Note: Set express.json({ limit: "50mb" }) for audio payloads.
 // Note: Use convertWebmToWav() to convert browser WebM to WAV before API calls.
 export function registerAudioRoutes(app: Express): void {
   // Get all conversations
-  app.get("/api/conversations", async (req: Request, res: Response) => {
+  app.get("/api/conversations", requireAuth, async (req: Request, res: Response) => {
     try {
-      const conversations = await chatStorage.getAllConversations();
+      const conversations = await chatStorage.getAllConversations(req.user!.id);
       res.json(conversations);
     } catch (error) {
       console.error("Error fetching conversations:", error);
@@ -17,14 +18,14 @@ export function registerAudioRoutes(app: Express): void {
   });
 
   // Get single conversation with messages
-  app.get("/api/conversations/:id", async (req: Request, res: Response) => {
+  app.get("/api/conversations/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const conversation = await chatStorage.getConversation(id);
+      const id = parseInt(req.params.id as string);
+      const conversation = await chatStorage.getConversation(req.user!.id, id);
       if (!conversation) {
         return res.status(404).json({ error: "Conversation not found" });
       }
-      const messages = await chatStorage.getMessagesByConversation(id);
+      const messages = await chatStorage.getMessagesByConversation(req.user!.id, id);
       res.json({ ...conversation, messages });
     } catch (error) {
       console.error("Error fetching conversation:", error);
@@ -33,10 +34,10 @@ export function registerAudioRoutes(app: Express): void {
   });
 
   // Create new conversation
-  app.post("/api/conversations", async (req: Request, res: Response) => {
+  app.post("/api/conversations", requireAuth, async (req: Request, res: Response) => {
     try {
       const { title } = req.body;
-      const conversation = await chatStorage.createConversation(title || "New Chat");
+      const conversation = await chatStorage.createConversation(req.user!.id, title || "New Chat");
       res.status(201).json(conversation);
     } catch (error) {
       console.error("Error creating conversation:", error);
@@ -45,10 +46,13 @@ export function registerAudioRoutes(app: Express): void {
   });
 
   // Delete conversation
-  app.delete("/api/conversations/:id", async (req: Request, res: Response) => {
+  app.delete("/api/conversations/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      await chatStorage.deleteConversation(id);
+      const id = parseInt(req.params.id as string);
+      const deleted = await chatStorage.deleteConversation(req.user!.id, id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting conversation:", error);
@@ -59,24 +63,27 @@ export function registerAudioRoutes(app: Express): void {
   // Send voice message and get streaming audio response
   // Uses gpt-4o-mini-transcribe for STT, gpt-audio-mini for voice response
   // For text model control, chain: speechToText() -> text model -> textToSpeech()
-  app.post("/api/conversations/:id/messages", async (req: Request, res: Response) => {
+  app.post("/api/conversations/:id/messages", requireAuth, async (req: Request, res: Response) => {
     try {
-      const conversationId = parseInt(req.params.id);
+      const conversationId = parseInt(req.params.id as string);
       const { audio, voice = "alloy", inputFormat = "wav" } = req.body;
 
       if (!audio) {
         return res.status(400).json({ error: "Audio data (base64) is required" });
       }
+      if (!(await chatStorage.getConversation(req.user!.id, conversationId))) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
 
       // 1. Transcribe user audio
       const audioBuffer = Buffer.from(audio, "base64");
       const userTranscript = await speechToText(audioBuffer, inputFormat);
 
       // 2. Save user message
-      await chatStorage.createMessage(conversationId, "user", userTranscript);
+      await chatStorage.createMessage(req.user!.id, conversationId, "user", userTranscript);
 
       // 3. Get conversation history
-      const existingMessages = await chatStorage.getMessagesByConversation(conversationId);
+      const existingMessages = await chatStorage.getMessagesByConversation(req.user!.id, conversationId);
       const chatHistory = existingMessages.map((m) => ({
         role: m.role as "user" | "assistant",
         content: m.content,
@@ -115,7 +122,7 @@ export function registerAudioRoutes(app: Express): void {
       }
 
       // 6. Save assistant message
-      await chatStorage.createMessage(conversationId, "assistant", assistantTranscript);
+      await chatStorage.createMessage(req.user!.id, conversationId, "assistant", assistantTranscript);
 
       res.write(`data: ${JSON.stringify({ type: "done", transcript: assistantTranscript })}\n\n`);
       res.end();
@@ -133,17 +140,20 @@ export function registerAudioRoutes(app: Express): void {
   // Voice chat using separate text model (GPT-5) + TTS pipeline
   // Streams sentences to TTS as they're generated for lower latency
   // Supports multilingual sentence detection via locale parameter
-  app.post("/api/conversations/:id/voice-stream", async (req: Request, res: Response) => {
+  app.post("/api/conversations/:id/voice-stream", requireAuth, async (req: Request, res: Response) => {
     try {
-      const conversationId = parseInt(req.params.id);
+      const conversationId = parseInt(req.params.id as string);
       const { audio, voice = "alloy", inputFormat = "wav", locale = "en" } = req.body;
 
       if (!audio) {
         return res.status(400).json({ error: "Audio data (base64) is required" });
       }
+      if (!(await chatStorage.getConversation(req.user!.id, conversationId))) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
 
       // Get conversation history
-      const existingMessages = await chatStorage.getMessagesByConversation(conversationId);
+      const existingMessages = await chatStorage.getMessagesByConversation(req.user!.id, conversationId);
       const chatHistory = existingMessages.map((m) => ({
         role: m.role as "user" | "assistant",
         content: m.content,
@@ -167,7 +177,7 @@ export function registerAudioRoutes(app: Express): void {
       })) {
         if (event.type === "user_transcript") {
           userTranscript = event.data || "";
-          await chatStorage.createMessage(conversationId, "user", userTranscript);
+          await chatStorage.createMessage(req.user!.id, conversationId, "user", userTranscript);
         }
         if (event.type === "transcript") {
           assistantTranscript = event.data || "";
@@ -177,7 +187,7 @@ export function registerAudioRoutes(app: Express): void {
       }
 
       // Save assistant message
-      await chatStorage.createMessage(conversationId, "assistant", assistantTranscript);
+      await chatStorage.createMessage(req.user!.id, conversationId, "assistant", assistantTranscript);
       res.end();
     } catch (error) {
       console.error("Error in voice stream:", error);
@@ -1,6 +1,11 @@
 import type { Express, Request, Response } from "express";
 import OpenAI from "openai";
+import { idParamsSchema, type TradeProposal } from "@shared/schema";
 import { chatStorage } from "./storage";
+import { requireAuth } from "../../auth";
+import { chatSystemPrompt, mentionedSymbols } from "../../agent-prompts";
+import { serveEventStream } from "../../agent-stream";
+import { PROPOSE_ORDER_TOOL, recordProposal } from "../../trade-proposals";
 
 const openai = new OpenAI({
   apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
@@ -8,10 +13,10 @@ const openai = new OpenAI({
 });
 
 export function registerChatRoutes(app: Express): void {
-  // Get all conversations
-  app.get("/api/conversations", async (req: Request, res: Response) => {
+  // Get the user's conversations
+  app.get("/api/conversations", requireAuth, async (req: Request, res: Response) => {
     try {
-      const conversations = await chatStorage.getAllConversations();
+      const conversations = await chatStorage.getAllConversations(req.user!.id);
       res.json(conversations);
     } catch (error) {
       console.error("Error fetching conversations:", error);
@@ -20,14 +25,18 @@ export function registerChatRoutes(app: Express): void {
   });
 
   // Get single conversation with messages
-  app.get("/api/conversations/:id", async (req: Request, res: Response) => {
+  app.get("/api/conversations/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const conversation = await chatStorage.getConversation(id);
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid conversation id", details: params.error.errors });
+      }
+      const id = params.data.id;
+      const conversation = await chatStorage.getConversation(req.user!.id, id);
       if (!conversation) {
         return res.status(404).json({ error: "Conversation not found" });
       }
-      const messages = await chatStorage.getMessagesByConversation(id);
+      const messages = await chatStorage.getMessagesByConversation(req.user!.id, id);
       res.json({ ...conversation, messages });
     } catch (error) {
       console.error("Error fetching conversation:", error);
@@ -36,10 +45,10 @@ export function registerChatRoutes(app: Express): void {
   });
 
   // Create new conversation
-  app.post("/api/conversations", async (req: Request, res: Response) => {
+  app.post("/api/conversations", requireAuth, async (req: Request, res: Response) => {
     try {
       const { title } = req.body;
-      const conversation = await chatStorage.createConversation(title || "New Chat");
+      const conversation = await chatStorage.createConversation(req.user!.id, title || "New Chat");
       res.status(201).json(conversation);
     } catch (error) {
       console.error("Error creating conversation:", error);
@@ -48,10 +57,17 @@ export function registerChatRoutes(app: Express): void {
   });
 
   // Delete conversation
-  app.delete("/api/conversations/:id", async (req: Request, res: Response) => {
+  app.delete("/api/conversations/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      await chatStorage.deleteConversation(id);
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid conversation id", details: params.error.errors });
+      }
+      const id = params.data.id;
+      const deleted = await chatStorage.deleteConversation(req.user!.id, id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting conversation:", error);
@@ -59,60 +75,89 @@ export function registerChatRoutes(app: Express): void {
     }
   });
 
-  // Send message and get AI response (streaming)
-  app.post("/api/conversations/:id/messages", async (req: Request, res: Response) => {
-    try {
-      const conversationId = parseInt(req.params.id);
-      const { content } = req.body;
+  // Send message and stream the AI response as server-sent events
+  app.post("/api/conversations/:id/messages", requireAuth, async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const params = idParamsSchema.safeParse(req.params);
+    if (!params.success) {
+      return res.status(400).json({ error: "Invalid conversation id", details: params.error.errors });
+    }
+    const conversationId = params.data.id;
+    const { content } = req.body;
 
-      // Save user message
-      await chatStorage.createMessage(conversationId, "user", content);
+    if (typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ error: "Message content is required" });
+    }
+
+    try {
+      // Save user message; undefined means the conversation isn't this user's
+      const saved = await chatStorage.createMessage(userId, conversationId, "user", content.trim());
+      if (!saved) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+    } catch (error) {
+      console.error("Error sending message:", error);
+      return res.status(500).json({ error: "Failed to send message" });
+    }
 
+    await serveEventStream(res, "chat", async (stream) => {
       // Get conversation history for context
-      const messages = await chatStorage.getMessagesByConversation(conversationId);
-      const chatMessages = messages.map((m) => ({
-        role: m.role as "user" | "assistant",
-        content: m.content,
-      }));
+      const messages = await chatStorage.getMessagesByConversation(userId, conversationId);
+      const symbols = mentionedSymbols(messages.filter(m => m.role === "user").map(m => m.content).join(" "));
 
-      // Set up SSE
-      res.setHeader("Content-Type", "text/event-stream");
-      res.setHeader("Cache-Control", "no-cache");
-      res.setHeader("Connection", "keep-alive");
+      // A fresh account snapshot goes in as the system prompt on every turn
+      const chatMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+        { role: "system", content: await chatSystemPrompt(userId, symbols) },
+        ...messages.map((m) => ({
+          role: m.role as "user" | "assistant",
+          content: m.content,
+        })),
+      ];
 
-      // Stream response from OpenAI
-      const stream = await openai.chat.completions.create({
+      const completion = await openai.chat.completions.create({
         model: "gpt-5.1",
         messages: chatMessages,
+        tools: [PROPOSE_ORDER_TOOL],
         stream: true,
         max_completion_tokens: 2048,
-      });
+      }, { signal: stream.signal });
 
       let fullResponse = "";
+      // Tool call arguments arrive in fragments, keyed by the call's index
+      const orderCalls = new Map<number, string>();
 
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || "";
-        if (content) {
-          fullResponse += content;
-          res.write(`data: ${JSON.stringify({ content })}\n\n`);
+      for await (const chunk of completion) {
+        const delta = chunk.choices[0]?.delta;
+        const text = delta?.content || "";
+        if (text) {
+          fullResponse += text;
+          stream.send({ type: "delta", text });
         }
+        // propose_order is the only tool on offer
+        delta?.tool_calls?.forEach((call) => {
+          orderCalls.set(call.index, (orderCalls.get(call.index) ?? "") + (call.function?.arguments ?? ""));
+        });
       }
 
-      // Save assistant message
-      await chatStorage.createMessage(conversationId, "assistant", fullResponse);
-
-      res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
-      res.end();
-    } catch (error) {
-      console.error("Error sending message:", error);
-      // Check if headers already sent (SSE streaming started)
-      if (res.headersSent) {
-        res.write(`data: ${JSON.stringify({ error: "Failed to send message" })}\n\n`);
-        res.end();
-      } else {
-        res.status(500).json({ error: "Failed to send message" });
+      // Proposed orders are logged against the message that asked for them and
+      // noted in the reply, so later turns know what was proposed
+      const utterance = messages[messages.length - 1].content;
+      const proposals: TradeProposal[] = [];
+      for (const rawArguments of Array.from(orderCalls.values())) {
+        const proposal = await recordProposal(userId, conversationId, utterance, rawArguments);
+        proposals.push(proposal);
+        const note = proposal.status === "pending"
+          ? `Proposed order: ${proposal.summary}. Confirm or reject it below.`
+          : `I couldn't draft a valid order (${proposal.result}).`;
+        const text = `${fullResponse ? "\n\n" : ""}${note}`;
+        fullResponse += text;
+        stream.send({ type: "delta", text });
       }
-    }
+
+      // Save assistant message
+      const saved = await chatStorage.createMessage(userId, conversationId, "assistant", fullResponse);
+      proposals.forEach(proposal => stream.send({ type: "proposal", proposal }));
+      return saved;
+    });
   });
 }
-
@@ -1,43 +1,56 @@
 import { db } from "../../db";
 import { conversations, messages } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, and } from "drizzle-orm";
 
+// Conversations belong to one user. Lookups take the user's id and treat
+// someone else's conversation as missing.
 export interface IChatStorage {
-  getConversation(id: number): Promise<typeof conversations.$inferSelect | undefined>;
-  getAllConversations(): Promise<(typeof conversations.$inferSelect)[]>;
-  createConversation(title: string): Promise<typeof conversations.$inferSelect>;
-  deleteConversation(id: number): Promise<void>;
-  getMessagesByConversation(conversationId: number): Promise<(typeof messages.$inferSelect)[]>;
-  createMessage(conversationId: number, role: string, content: string): Promise<typeof messages.$inferSelect>;
+  getConversation(userId: number, id: number): Promise<typeof conversations.$inferSelect | undefined>;
+  getAllConversations(userId: number): Promise<(typeof conversations.$inferSelect)[]>;
+  createConversation(userId: number, title: string): Promise<typeof conversations.$inferSelect>;
+  deleteConversation(userId: number, id: number): Promise<boolean>;
+  getMessagesByConversation(userId: number, conversationId: number): Promise<(typeof messages.$inferSelect)[]>;
+  createMessage(userId: number, conversationId: number, role: string, content: string): Promise<typeof messages.$inferSelect | undefined>;
 }
 
 export const chatStorage: IChatStorage = {
-  async getConversation(id: number) {
-    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
+  async getConversation(userId: number, id: number) {
+    const [conversation] = await db.select().from(conversations)
+      .where(and(eq(conversations.id, id), eq(conversations.userId, userId)));
     return conversation;
   },
 
-  async getAllConversations() {
-    return db.select().from(conversations).orderBy(desc(conversations.createdAt));
+  async getAllConversations(userId: number) {
+    return db.select().from(conversations)
+      .where(eq(conversations.userId, userId))
+      .orderBy(desc(conversations.createdAt));
   },
 
-  async createConversation(title: string) {
-    const [conversation] = await db.insert(conversations).values({ title }).returning();
+  async createConversation(userId: number, title: string) {
+    const [conversation] = await db.insert(conversations).values({ userId, title }).returning();
     return conversation;
   },
 
-  async deleteConversation(id: number) {
+  async deleteConversation(userId: number, id: number) {
+    const conversation = await this.getConversation(userId, id);
+    if (!conversation) return false;
     await db.delete(messages).where(eq(messages.conversationId, id));
     await db.delete(conversations).where(eq(conversations.id, id));
+    return true;
   },
 
-  async getMessagesByConversation(conversationId: number) {
-    return db.select().from(messages).where(eq(messages.conversationId, conversationId)).orderBy(messages.createdAt);
+  async getMessagesByConversation(userId: number, conversationId: number) {
+    const rows = await db.select({ message: messages }).from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(eq(messages.conversationId, conversationId), eq(conversations.userId, userId)))
+      .orderBy(messages.createdAt, messages.id);
+    return rows.map(row => row.message);
   },
 
-  async createMessage(conversationId: number, role: string, content: string) {
+  async createMessage(userId: number, conversationId: number, role: string, content: string) {
+    const conversation = await this.getConversation(userId, conversationId);
+    if (!conversation) return undefined;
     const [message] = await db.insert(messages).values({ conversationId, role, content }).returning();
     return message;
   },
 };
-
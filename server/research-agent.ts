@@ -0,0 +1,293 @@
+// The research agent answers from live data rather than from memory. Claude is
+// given tools over quotes, profiles, news, candles and the user's portfolio,
+// calls them as it sees fit, and files its findings through submit_report.
+// Given an event stream, it forwards its text and tool calls as they happen.
+import type Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import type {
+  AgentPortfolioSnapshot,
+  AgentUsage,
+  CandleResolution,
+  NewsArticle,
+  ResearchReport,
+  ResearchRequest,
+  ResearchSection,
+  ResearchToolCall,
+} from "@shared/schema";
+import { marketData } from "./market-data";
+import { getQuote, getCompanyProfile } from "./quote-cache";
+import { getCandles, BAR_MS } from "./candles";
+import { MODEL, type EventStream } from "./agent-stream";
+import { portfolioSnapshot } from "./agent-prompts";
+import type { AgentResult } from "./agent-output";
+
+const MAX_TURNS = 8;
+const MAX_ARTICLES = 10;
+const MAX_BARS = 120;
+
+type ToolInput = Record<string, unknown>;
+
+// What submit_report has to contain; sources are filled in from the citations
+const submissionSchema = z.object({
+  summary: z.string(),
+  sections: z.array(z.object({
+    title: z.string().min(1),
+    content: z.string().min(1),
+    citations: z.array(z.number().int()).default([]),
+  })).min(1),
+});
+
+type Submission = z.infer<typeof submissionSchema>;
+
+// Data the tools returned that the finished run needs: articles to cite, and
+// the portfolio if the agent looked at it
+interface Findings {
+  articles: Map<number, NewsArticle>;
+  portfolio: AgentPortfolioSnapshot | null;
+}
+
+const TOOLS: Anthropic.Tool[] = [
+  {
+    name: "get_quote",
+    description: "Latest quote for a stock: price, day change, open, high, low and previous close.",
+    input_schema: {
+      type: "object",
+      properties: { symbol: { type: "string", description: "Ticker, e.g. AAPL" } },
+      required: ["symbol"],
+    },
+  },
+  {
+    name: "get_company_profile",
+    description: "Company name, exchange, industry and website for a ticker.",
+    input_schema: {
+      type: "object",
+      properties: { symbol: { type: "string" } },
+      required: ["symbol"],
+    },
+  },
+  {
+    name: "get_company_news",
+    description: "Recent news articles about a company, newest first. Each article has an id to cite it by.",
+    input_schema: {
+      type: "object",
+      properties: { symbol: { type: "string" } },
+      required: ["symbol"],
+    },
+  },
+  {
+    name: "get_candles",
+    description: `Historical OHLCV bars, oldest first, at most ${MAX_BARS}. Resolution is minutes ("1", "5", "15", "30", "60") or "D", "W", "M".`,
+    input_schema: {
+      type: "object",
+      properties: {
+        symbol: { type: "string" },
+        resolution: { type: "string", enum: ["1", "5", "15", "30", "60", "D", "W", "M"] },
+        bars: { type: "integer", description: `How many of the latest bars to return, up to ${MAX_BARS}` },
+      },
+      required: ["symbol"],
+    },
+  },
+  {
+    name: "get_portfolio",
+    description: "The user's cash, total value, profit and loss, and open stock positions.",
+    input_schema: { type: "object", properties: {} },
+  },
+  {
+    name: "submit_report",
+    description: "File the finished research report. Call this exactly once, when you are done.",
+    input_schema: {
+      type: "object",
+      properties: {
+        summary: { type: "string", description: "Two or three sentence bottom line" },
+        sections: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              content: { type: "string", description: "Markdown body of the section" },
+              citations: {
+                type: "array",
+                items: { type: "integer" },
+                description: "Ids of the news articles this section relies on",
+              },
+            },
+            required: ["title", "content"],
+          },
+        },
+      },
+      required: ["summary", "sections"],
+    },
+  },
+];
+
+const SYSTEM_PROMPT = `You are a stock research analyst inside "Nomad Tradings", a paper trading simulator.
+
+Use the tools to look up what you need before writing. Only state prices, metrics and news that came back from a tool; if something is unavailable, say so instead of estimating it. When a point rests on a news article, cite the article's id in that section's citations.
+
+Finish by calling submit_report with sections such as Overview, Price Action, Recent News, Bull Case, Bear Case, Risks, and Fit With Your Portfolio when the user holds positions. Leave out sections you have no data for.`;
+
+function symbolOf(input: ToolInput): string {
+  const symbol = typeof input.symbol === "string" ? input.symbol.trim().toUpperCase() : "";
+  if (!symbol) throw new Error("symbol is required");
+  return symbol;
+}
+
+// Runs one tool call, noting what it found
+async function runTool(name: string, input: ToolInput, userId: number, findings: Findings): Promise<unknown> {
+  switch (name) {
+    case "get_quote":
+      return (await getQuote(symbolOf(input))) ?? { error: "No quote available" };
+
+    case "get_company_profile":
+      return (await getCompanyProfile(symbolOf(input))) ?? { error: "No profile available" };
+
+    case "get_company_news": {
+      const news = (await marketData.getCompanyNews(symbolOf(input))).slice(0, MAX_ARTICLES);
+      news.forEach(article => findings.articles.set(article.id, article));
+      return news.map(({ id, headline, source, summary, datetime }) => ({
+        id,
+        headline,
+        source,
+        summary: summary.slice(0, 400),
+        published: new Date(datetime * 1000).toISOString(),
+      }));
+    }
+
+    case "get_candles": {
+      const resolution = (typeof input.resolution === "string" && input.resolution in BAR_MS ? input.resolution : "D") as CandleResolution;
+      const count = Math.min(MAX_BARS, Math.max(1, Number(input.bars) || 60));
+      const to = Date.now();
+      // Ask for extra history so weekends and holidays still leave enough bars
+      const candles = await getCandles(symbolOf(input), resolution, to - count * 2 * BAR_MS[resolution], to);
+      return candles.slice(-count).map(bar => ({ ...bar, time: new Date(bar.time).toISOString() }));
+    }
+
+    case "get_portfolio":
+      findings.portfolio = await portfolioSnapshot(userId);
+      return findings.portfolio;
+
+    default:
+      return { error: `Unknown tool ${name}` };
+  }
+}
+
+// Turns a submitted report into the final one. Citations are renumbered 1..n in
+// order of first use; ids that never came back from get_company_news are dropped.
+function buildReport(
+  request: ResearchRequest,
+  submission: Submission,
+  articles: Map<number, NewsArticle>,
+  toolCalls: ResearchToolCall[],
+): ResearchReport {
+  const numbers = new Map<number, number>();
+
+  const sections: ResearchSection[] = submission.sections.map(section => {
+    const citations: number[] = [];
+    section.citations.forEach(id => {
+      if (!articles.has(id)) return;
+      if (!numbers.has(id)) numbers.set(id, numbers.size + 1);
+      const number = numbers.get(id)!;
+      if (!citations.includes(number)) citations.push(number);
+    });
+    return { title: section.title, content: section.content, citations };
+  });
+
+  const sources = Array.from(numbers.entries()).map(([id, number]) => {
+    const { headline, source, url, datetime } = articles.get(id)!;
+    return { number, headline, source, url, datetime: datetime * 1000 };
+  });
+
+  return {
+    symbol: request.symbol ?? null,
+    summary: submission.summary,
+    sections,
+    sources,
+    toolCalls,
+  };
+}
+
+export async function runResearchAgent(
+  anthropic: Anthropic,
+  userId: number,
+  request: ResearchRequest,
+  stream?: EventStream,
+): Promise<AgentResult<ResearchReport>> {
+  const ask = [
+    request.symbol ? `Research ${request.symbol}.` : "Research the market.",
+    request.query ? `Question: ${request.query}` : "Cover current price action, recent news, the bull and bear cases, and risks.",
+  ].join("\n");
+
+  const messages: Anthropic.MessageParam[] = [{ role: "user", content: ask }];
+  const findings: Findings = { articles: new Map(), portfolio: null };
+  const toolCalls: ResearchToolCall[] = [];
+  const usage: AgentUsage = { inputTokens: 0, outputTokens: 0 };
+  const finish = (submission: Submission, model: string): AgentResult<ResearchReport> => ({
+    output: buildReport(request, submission, findings.articles, toolCalls),
+    model,
+    usage,
+    portfolio: findings.portfolio,
+  });
+
+  for (let turn = 0; turn < MAX_TURNS; turn++) {
+    // On the last turn the only way out is to file the report
+    const lastTurn = turn === MAX_TURNS - 1;
+    const turnStream = anthropic.messages.stream({
+      model: MODEL,
+      max_tokens: 2000,
+      system: SYSTEM_PROMPT,
+      tools: TOOLS,
+      tool_choice: lastTurn ? { type: "tool", name: "submit_report" } : { type: "auto" },
+      messages,
+    }, { signal: stream?.signal });
+    if (stream) turnStream.on("text", text => stream.send({ type: "delta", text }));
+    const response = await turnStream.finalMessage();
+    usage.inputTokens += response.usage.input_tokens;
+    usage.outputTokens += response.usage.output_tokens;
+
+    const uses = response.content.filter((block): block is Anthropic.ToolUseBlock => block.type === "tool_use");
+    const submit = uses.find(use => use.name === "submit_report");
+    const submission = submit && submissionSchema.safeParse(submit.input);
+    if (submission?.success) {
+      return finish(submission.data, response.model);
+    }
+
+    if (uses.length === 0) {
+      // Answered in prose instead of filing a report; keep the answer as one section
+      const text = response.content.filter((b): b is Anthropic.TextBlock => b.type === "text").map(b => b.text).join("\n");
+      return finish({ summary: "", sections: [{ title: "Analysis", content: text, citations: [] }] }, response.model);
+    }
+
+    const results: Anthropic.ToolResultBlockParam[] = await Promise.all(uses.map(async use => {
+      // A report that doesn't parse goes back as an error for the next turn to fix
+      if (use === submit && submission && !submission.success) {
+        const problems = submission.error.errors.map(e => `${e.path.join(".") || "report"}: ${e.message}`).join("; ");
+        return {
+          type: "tool_result" as const,
+          tool_use_id: use.id,
+          content: `The report was rejected: ${problems}. Call submit_report again with a corrected report.`,
+          is_error: true,
+        };
+      }
+      const input = use.input as ToolInput;
+      toolCalls.push({ tool: use.name, input });
+      stream?.send({ type: "tool", tool: use.name, input });
+      try {
+        const result = await runTool(use.name, input, userId, findings);
+        return { type: "tool_result" as const, tool_use_id: use.id, content: JSON.stringify(result) };
+      } catch (error) {
+        return {
+          type: "tool_result" as const,
+          tool_use_id: use.id,
+          content: error instanceof Error ? error.message : "Tool failed",
+          is_error: true,
+        };
+      }
+    }));
+
+    messages.push({ role: "assistant", content: response.content });
+    messages.push({ role: "user", content: results });
+  }
+
+  throw new Error("Research agent did not file a report");
+}
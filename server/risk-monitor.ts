@@ -0,0 +1,116 @@
+import type { Position } from "@shared/schema";
+import { storage } from "./storage";
+import { isQuoteStale } from "./market-data";
+import { getQuotes } from "./quote-cache";
+import { borrowFeeDue, DAY_MS, MARGIN_MAINTENANCE, SHORT_MAINTENANCE_MARGIN } from "./margin";
+import { log } from "./log";
+
+const CHECK_INTERVAL_MS = 60000;
+
+type ShortPosition = Position & { userId: number; borrowAccruedAt: number };
+
+async function accrueBorrowFees(shorts: ShortPosition[]): Promise<void> {
+  const now = Date.now();
+
+  for (const short of shorts) {
+    const { days, fee } = borrowFeeDue(short.quantity, short.currentPrice, short.borrowAccruedAt, now);
+    if (days > 0) {
+      await storage.chargeBorrowFee(short.id, fee, short.borrowAccruedAt + days * DAY_MS);
+    }
+  }
+}
+
+// Liquidates positions, biggest losers first, until equity is back above the
+// maintenance requirement. Cash accounts only have shorts to cover; margin
+// accounts also sell longs. Positions without a fresh quote are skipped.
+async function enforceMaintenance(userId: number): Promise<void> {
+  const { accountType } = await storage.getAccount(userId);
+  const positions = await storage.getPositions(userId);
+  const quotes = await getQuotes(positions.map(p => p.symbol));
+
+  for (const position of positions) {
+    const quote = quotes.get(position.symbol);
+    if (quote) {
+      await storage.updatePositionPrice(userId, position.symbol, quote.currentPrice);
+    }
+  }
+
+  const status = await storage.getMarginStatus(userId);
+  if (!status.marginCall) return;
+
+  const isMargin = accountType === "margin";
+  const candidates = (await storage.getPositions(userId))
+    .filter(p => isMargin || p.quantity < 0)
+    .sort((a, b) => a.profitLoss - b.profitLoss);
+
+  // Closing at market leaves equity unchanged, so each share sold or covered
+  // shrinks the deficit by its price times that side's maintenance rate
+  let deficit = status.maintenanceRequirement - status.equity;
+
+  for (const position of candidates) {
+    if (deficit <= 0) return;
+
+    const quote = quotes.get(position.symbol);
+    if (!quote || isQuoteStale(quote)) {
+      continue;
+    }
+
+    const isShort = position.quantity < 0;
+    const rate = isShort ? SHORT_MAINTENANCE_MARGIN : MARGIN_MAINTENANCE;
+    const held = Math.abs(position.quantity);
+    const quantity = isMargin
+      ? Math.min(held, Math.ceil(deficit / (rate * quote.currentPrice)))
+      : held;
+
+    log(`Maintenance call: ${isShort ? "covering" : "selling"} ${quantity} ${position.symbol} for user ${userId}`, "risk-monitor");
+    await storage.executeTrade(userId, {
+      symbol: position.symbol,
+      type: isShort ? "buy" : "sell",
+      quantity,
+      price: quote.currentPrice,
+      quoteTimestamp: quote.timestamp,
+    }, { reason: isMargin ? "margin_call" : "short_maintenance" });
+
+    deficit -= quantity * quote.currentPrice * rate;
+  }
+}
+
+async function runRiskChecks(): Promise<void> {
+  const shorts = await storage.getShortPositions();
+  await accrueBorrowFees(shorts);
+
+  const marginAccountIds = await storage.getMarginAccountIds();
+  for (const userId of marginAccountIds) {
+    try {
+      await storage.chargeMarginInterest(userId);
+    } catch (error) {
+      console.error(`Error charging margin interest for user ${userId}:`, error);
+    }
+  }
+
+  const userIds = Array.from(new Set([...shorts.map(s => s.userId), ...marginAccountIds]));
+  for (const userId of userIds) {
+    try {
+      await enforceMaintenance(userId);
+    } catch (error) {
+      console.error(`Error enforcing maintenance for user ${userId}:`, error);
+    }
+  }
+}
+
+export function startRiskMonitor(): void {
+  let running = false;
+
+  setInterval(async () => {
+    // Skip a tick rather than overlap a slow one
+    if (running) return;
+    running = true;
+    try {
+      await runRiskChecks();
+    } catch (error) {
+      console.error("Error running risk checks:", error);
+    } finally {
+      running = false;
+    }
+  }, CHECK_INTERVAL_MS);
+}
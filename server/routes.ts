@@ -1,9 +1,30 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth } from "./auth";
-import { getQuote, getCompanyProfile, searchSymbols } from "./finnhub";
-import { insertBuySellSchema, insertOptionTradeSchema, insertWatchlistSchema } from "@shared/schema";
+import { storage, TradeRejectedError } from "./storage";
+import { setupAuth, requireAuth } from "./auth";
+import { isQuoteStale } from "./market-data";
+import { getQuote, getQuotes, getCompanyProfile, searchSymbols, getQuoteCacheMetrics } from "./quote-cache";
+import { insertBuySellSchema, insertOptionTradeSchema, optionQuoteSchema, optionChainQuerySchema, exerciseOptionSchema, updateOptionPositionSchema, strategyOrderSchema, candleQuerySchema, indicatorQuerySchema, insertBacktestSchema, insertBotSchema, updateBotSchema, researchRequestSchema, sentimentRequestSchema, gameTheoryRequestSchema, agentRunQuerySchema, voiceTurnSchema, insertWatchlistSchema, insertOrderSchema, replaceOrderSchema, updateAccountSchema, idParamsSchema, tradeProposalQuerySchema, type Candle } from "@shared/schema";
+import { startOrderMatcher } from "./order-matcher";
+import { startRiskMonitor } from "./risk-monitor";
+import { startOptionExpiry } from "./option-expiry";
+import { startPriceStream } from "./price-stream";
+import { startBotRunner, killBot } from "./bot-runner";
+import { getCandles, BAR_MS, MAX_CANDLES } from "./candles";
+import { parseIndicatorSpec, warmupBars, computeIndicator, IndicatorSpecError } from "./indicators";
+import { runBacktest, rulesWarmupBars, validateRules } from "./backtest";
+import { DAY_MS } from "./margin";
+import { executeMarketTrade, placeOrder, executeOptionOrder, QuoteUnavailableError } from "./trading";
+import { confirmProposal, rejectProposal, startProposalSweep } from "./trade-proposals";
+import { runVoiceTurn } from "./voice-assistant";
+import { runResearchAgent } from "./research-agent";
+import { tipsPrompt, sentimentPrompt, gameTheoryPrompt, riskPrompt } from "./agent-prompts";
+import { serveEventStream, streamPrompt } from "./agent-stream";
+import { runStructuredAgent, SENTIMENT_OUTPUT, GAME_THEORY_OUTPUT, RISK_OUTPUT } from "./agent-output";
+import { recordAgentRun } from "./agent-runs";
+import { registerChatRoutes } from "./replit_integrations/chat";
+import { quoteStrategy, strategyLegs, hasExpiredLeg } from "./option-strategies";
+import { quoteOption, buildOptionChain, estimateVolatility } from "./option-pricing";
 import Anthropic from "@anthropic-ai/sdk";
 
 // Claude API - uses claude-sonnet-4-20250514 model
@@ -11,11 +32,16 @@ const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
 });
 
-function requireAuth(req: Request, res: Response, next: NextFunction) {
-  if (!req.isAuthenticated() || !req.user) {
-    return res.status(401).json({ error: "Authentication required" });
+// Refreshes the underlying price and volatility that option marks are computed from
+async function refreshOptionMarks(userId: number): Promise<void> {
+  const options = await storage.getOptionPositions(userId);
+  const quotes = await getQuotes(options.map(o => o.symbol));
+  
+  for (const [symbol, quote] of Array.from(quotes.entries())) {
+    if (quote) {
+      await storage.updateOptionUnderlying(userId, symbol, quote.currentPrice, estimateVolatility(quote));
+    }
   }
-  next();
 }
 
 export async function registerRoutes(
@@ -24,7 +50,10 @@ export async function registerRoutes(
 ): Promise<Server> {
   
   // Setup authentication first
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
+  
+  // AI chat conversations, scoped to the logged-in user
+  registerChatRoutes(app);
   
   // Get stock quote (public)
   app.get("/api/quote/:symbol", async (req, res) => {
@@ -60,6 +89,80 @@ export async function registerRoutes(
     }
   });
 
+  // Get historical OHLCV candles (public). from/to are in milliseconds
+  app.get("/api/candles/:symbol", async (req, res) => {
+    try {
+      const result = candleQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid candle query", details: result.error.errors });
+      }
+      
+      const { resolution } = result.data;
+      const to = Math.min(result.data.to ?? Date.now(), Date.now());
+      // Default to the last 300 bars
+      const from = result.data.from ?? to - 300 * BAR_MS[resolution];
+      if (from >= to) {
+        return res.status(400).json({ error: "from must be before to" });
+      }
+      if ((to - from) / BAR_MS[resolution] > MAX_CANDLES) {
+        return res.status(400).json({ error: `At most ${MAX_CANDLES} candles per request; narrow the range or use a longer resolution` });
+      }
+      
+      const bars = await getCandles(req.params.symbol, resolution, from, to);
+      res.json(bars);
+    } catch (error) {
+      console.error("Error fetching candles:", error);
+      res.status(500).json({ error: "Failed to fetch candles" });
+    }
+  });
+
+  // Get technical indicators with the candles they were computed from (public)
+  app.get("/api/indicators/:symbol", async (req, res) => {
+    try {
+      const result = indicatorQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid indicator query", details: result.error.errors });
+      }
+      
+      const { resolution } = result.data;
+      const to = Math.min(result.data.to ?? Date.now(), Date.now());
+      const from = result.data.from ?? to - 300 * BAR_MS[resolution];
+      if (from >= to) {
+        return res.status(400).json({ error: "from must be before to" });
+      }
+      const requestedBars = (to - from) / BAR_MS[resolution];
+      if (requestedBars > MAX_CANDLES) {
+        return res.status(400).json({ error: `At most ${MAX_CANDLES} candles per request; narrow the range or use a longer resolution` });
+      }
+      
+      const specs = result.data.indicators.map(parseIndicatorSpec);
+      // Load extra history first so the indicators are warmed up at `from`
+      const warmup = Math.floor(Math.min(Math.max(...specs.map(warmupBars)), MAX_CANDLES - requestedBars));
+      const bars = await getCandles(req.params.symbol, resolution, from - warmup * BAR_MS[resolution], to);
+      const start = bars.findIndex(bar => bar.time >= from);
+      const shown = start < 0 ? bars.length : start;
+      
+      // Intraday VWAP starts over each day
+      const sessionMs = BAR_MS[resolution] < DAY_MS ? DAY_MS : undefined;
+      res.json({
+        candles: bars.slice(shown),
+        indicators: specs.map(spec => {
+          const series = computeIndicator(spec, bars, sessionMs);
+          const lines = Object.fromEntries(
+            Object.entries(series.lines).map(([key, values]) => [key, values.slice(shown)])
+          );
+          return { ...series, lines };
+        }),
+      });
+    } catch (error) {
+      if (error instanceof IndicatorSpecError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error computing indicators:", error);
+      res.status(500).json({ error: "Failed to compute indicators" });
+    }
+  });
+
   // Search symbols (public)
   app.get("/api/search", async (req, res) => {
     try {
@@ -76,6 +179,48 @@ export async function registerRoutes(
     }
   });
 
+  // Quote cache hit rates and rate limiter state (public)
+  app.get("/api/market-data/metrics", async (req, res) => {
+    res.json(getQuoteCacheMetrics());
+  });
+
+  // Get account settings (authenticated)
+  app.get("/api/account", requireAuth, async (req, res) => {
+    try {
+      const account = await storage.getAccount(req.user!.id);
+      res.json(account);
+    } catch (error) {
+      console.error("Error fetching account:", error);
+      res.status(500).json({ error: "Failed to fetch account" });
+    }
+  });
+
+  // Update account settings, e.g. opting in to short selling (authenticated)
+  app.patch("/api/account", requireAuth, async (req, res) => {
+    try {
+      const result = updateAccountSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid account data", details: result.error.errors });
+      }
+      
+      if (result.data.accountType === "cash") {
+        const cash = await storage.getCash(req.user!.id);
+        if (cash < 0) {
+          return res.status(400).json({ error: "Repay the margin debit before switching to a cash account" });
+        }
+      }
+      
+      const account = await storage.updateAccount(req.user!.id, result.data);
+      res.json(account);
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error updating account:", error);
+      res.status(500).json({ error: "Failed to update account" });
+    }
+  });
+
   // Get portfolio (authenticated)
   app.get("/api/portfolio", requireAuth, async (req, res) => {
     try {
@@ -83,18 +228,14 @@ export async function registerRoutes(
       
       // Update position prices before returning portfolio
       const positions = await storage.getPositions(userId);
+      const quotes = await getQuotes(positions.map(p => p.symbol));
       for (const position of positions) {
-        const quote = await getQuote(position.symbol);
+        const quote = quotes.get(position.symbol);
         if (quote) {
-          await storage.updatePosition(
-            userId,
-            position.symbol,
-            position.quantity,
-            position.averagePrice,
-            quote.currentPrice
-          );
+          await storage.updatePositionPrice(userId, position.symbol, quote.currentPrice);
         }
       }
+      await refreshOptionMarks(userId);
       
       const portfolio = await storage.getPortfolio(userId);
       
@@ -125,21 +266,20 @@ export async function registerRoutes(
     try {
       const userId = req.user!.id;
       const positions = await storage.getPositions(userId);
+      const quotes = await getQuotes(positions.map(p => p.symbol));
       const updatedPositions = [];
       
       for (const position of positions) {
-        const quote = await getQuote(position.symbol);
-        if (quote) {
-          const updated = await storage.updatePosition(
-            userId,
-            position.symbol,
-            position.quantity,
-            position.averagePrice,
-            quote.currentPrice
-          );
-          updatedPositions.push(updated);
-        } else {
+        const quote = quotes.get(position.symbol);
+        if (!quote) {
           updatedPositions.push(position);
+          continue;
+        }
+        
+        // Undefined when a concurrent trade closed the position
+        const updated = await storage.updatePositionPrice(userId, position.symbol, quote.currentPrice);
+        if (updated) {
+          updatedPositions.push(updated);
         }
       }
       
@@ -159,43 +299,15 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Invalid trade data", details: result.error.errors });
       }
       
-      const { symbol, quantity, price } = result.data;
-      const total = quantity * price;
-      const cash = await storage.getCash(userId);
-      
-      if (total > cash) {
-        return res.status(400).json({ error: "Insufficient funds" });
-      }
-      
-      // Update cash
-      await storage.updateCash(userId, -total);
-      
-      // Update or create position
-      const existingPosition = await storage.getPosition(userId, symbol);
-      let newQuantity = quantity;
-      let avgPrice = price;
-      
-      if (existingPosition) {
-        const totalShares = existingPosition.quantity + quantity;
-        const totalCost = existingPosition.quantity * existingPosition.averagePrice + quantity * price;
-        avgPrice = totalCost / totalShares;
-        newQuantity = totalShares;
-      }
-      
-      await storage.updatePosition(userId, symbol, newQuantity, avgPrice, price);
-      
-      // Record trade
-      const trade = await storage.addTrade(userId, {
-        symbol,
-        type: "buy",
-        quantity,
-        price,
-        total,
-        timestamp: Date.now(),
-      });
-      
+      const trade = await executeMarketTrade(userId, "buy", result.data);
       res.json(trade);
     } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof QuoteUnavailableError) {
+        return res.status(503).json({ error: error.message });
+      }
       console.error("Error executing buy:", error);
       res.status(500).json({ error: "Failed to execute trade" });
     }
@@ -210,39 +322,15 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Invalid trade data", details: result.error.errors });
       }
       
-      const { symbol, quantity, price } = result.data;
-      const existingPosition = await storage.getPosition(userId, symbol);
-      
-      if (!existingPosition || existingPosition.quantity < quantity) {
-        return res.status(400).json({ error: "Insufficient shares to sell" });
-      }
-      
-      const total = quantity * price;
-      
-      // Update cash
-      await storage.updateCash(userId, total);
-      
-      // Update position
-      const newQuantity = existingPosition.quantity - quantity;
-      
-      if (newQuantity === 0) {
-        await storage.deletePosition(userId, symbol);
-      } else {
-        await storage.updatePosition(userId, symbol, newQuantity, existingPosition.averagePrice, price);
-      }
-      
-      // Record trade
-      const trade = await storage.addTrade(userId, {
-        symbol,
-        type: "sell",
-        quantity,
-        price,
-        total,
-        timestamp: Date.now(),
-      });
-      
+      const trade = await executeMarketTrade(userId, "sell", result.data);
       res.json(trade);
     } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof QuoteUnavailableError) {
+        return res.status(503).json({ error: error.message });
+      }
       console.error("Error executing sell:", error);
       res.status(500).json({ error: "Failed to execute trade" });
     }
@@ -260,6 +348,108 @@ export async function registerRoutes(
     }
   });
 
+  // Get orders, optionally filtered by status (authenticated)
+  app.get("/api/orders", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const status = req.query.status as string | undefined;
+      const validStatuses = ["open", "filled", "cancelled", "expired", "rejected"] as const;
+      const statusFilter = validStatuses.find(s => s === status);
+      
+      if (status && !statusFilter) {
+        return res.status(400).json({ error: "Invalid order status" });
+      }
+      
+      const ordersList = await storage.getOrders(userId, statusFilter);
+      res.json(ordersList);
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
+  // Place a resting limit/stop order (authenticated)
+  app.post("/api/orders", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const result = insertOrderSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid order data", details: result.error.errors });
+      }
+      
+      const order = await placeOrder(userId, result.data);
+      res.json(order);
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error placing order:", error);
+      res.status(500).json({ error: "Failed to place order" });
+    }
+  });
+
+  // Replace an open order's quantity, prices or time in force (authenticated)
+  app.patch("/api/orders/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid order id", details: params.error.errors });
+      }
+      
+      const id = String(params.data.id);
+      const result = replaceOrderSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid order data", details: result.error.errors });
+      }
+      
+      const existing = await storage.getOrder(userId, id);
+      if (!existing || existing.status !== "open") {
+        return res.status(404).json({ error: "Open order not found" });
+      }
+      
+      const usesLimit = existing.orderType !== "stop";
+      const usesStop = existing.orderType !== "limit";
+      if ((result.data.limitPrice !== undefined && !usesLimit) || (result.data.stopPrice !== undefined && !usesStop)) {
+        return res.status(400).json({ error: `A ${existing.orderType} order does not take that price` });
+      }
+      
+      const order = await storage.replaceOrder(userId, id, result.data);
+      if (!order) {
+        return res.status(404).json({ error: "Open order not found" });
+      }
+      
+      res.json(order);
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error replacing order:", error);
+      res.status(500).json({ error: "Failed to replace order" });
+    }
+  });
+
+  // Cancel an open order (authenticated)
+  app.delete("/api/orders/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid order id", details: params.error.errors });
+      }
+      
+      const order = await storage.cancelOrder(userId, String(params.data.id));
+      if (!order) {
+        return res.status(404).json({ error: "Open order not found" });
+      }
+      
+      res.json(order);
+    } catch (error) {
+      console.error("Error cancelling order:", error);
+      res.status(500).json({ error: "Failed to cancel order" });
+    }
+  });
+
   // Trade options (authenticated)
   app.post("/api/options/trade", requireAuth, async (req, res) => {
     try {
@@ -269,53 +459,65 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Invalid option trade data" });
       }
       
-      const { symbol, optionType, strikePrice, expirationDate, contracts, premium, action } = result.data;
-      const total = contracts * premium * 100;
-      
-      if (action === "buy") {
-        const cash = await storage.getCash(userId);
-        if (total > cash) {
-          return res.status(400).json({ error: "Insufficient funds" });
-        }
-        
-        await storage.updateCash(userId, -total);
-        
-        await storage.addOptionPosition(userId, {
-          symbol,
-          optionType,
-          strikePrice,
-          expirationDate,
-          contracts,
-          premium,
-          currentPremium: premium,
-        });
-      } else {
-        await storage.updateCash(userId, total);
-      }
-      
-      const trade = await storage.addOptionTrade(userId, {
-        symbol,
-        optionType,
-        strikePrice,
-        expirationDate,
-        contracts,
-        premium,
-        total,
-        action,
-        timestamp: Date.now(),
-      });
-      
+      const trade = await executeOptionOrder(userId, result.data);
       res.json(trade);
     } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof QuoteUnavailableError) {
+        return res.status(503).json({ error: error.message });
+      }
       console.error("Error executing option trade:", error);
       res.status(500).json({ error: "Failed to execute option trade" });
     }
   });
 
+  // Get option chain for a symbol (public)
+  app.get("/api/options/chain/:symbol", async (req, res) => {
+    try {
+      const result = optionChainQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid option chain request", details: result.error.errors });
+      }
+      
+      const quote = await getQuote(req.params.symbol);
+      if (!quote) {
+        return res.status(404).json({ error: "Stock not found" });
+      }
+      
+      res.json(buildOptionChain(quote, result.data.expiration));
+    } catch (error) {
+      console.error("Error fetching option chain:", error);
+      res.status(500).json({ error: "Failed to fetch option chain" });
+    }
+  });
+
+  // Price an option contract (public)
+  app.get("/api/options/quote", async (req, res) => {
+    try {
+      const result = optionQuoteSchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid option quote request", details: result.error.errors });
+      }
+      
+      const quote = await getQuote(result.data.symbol);
+      if (!quote) {
+        return res.status(404).json({ error: "Stock not found" });
+      }
+      
+      res.json(quoteOption(quote, result.data));
+    } catch (error) {
+      console.error("Error pricing option:", error);
+      res.status(500).json({ error: "Failed to price option" });
+    }
+  });
+
   // Get option positions (authenticated)
   app.get("/api/options", requireAuth, async (req, res) => {
     try {
       const userId = req.user!.id;
+      await refreshOptionMarks(userId);
       const options = await storage.getOptionPositions(userId);
       res.json(options);
     } catch (error) {
@@ -336,18 +538,185 @@ export async function registerRoutes(
     }
   });
 
+  // Price a multi-leg strategy without trading it (public)
+  app.post("/api/options/strategies/quote", async (req, res) => {
+    try {
+      const result = strategyOrderSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid strategy data", details: result.error.errors });
+      }
+      
+      if (hasExpiredLeg(strategyLegs(result.data))) {
+        return res.status(400).json({ error: "Option has expired" });
+      }
+      
+      const quote = await getQuote(result.data.symbol);
+      if (!quote) {
+        return res.status(404).json({ error: "Stock not found" });
+      }
+      
+      res.json(quoteStrategy(quote, result.data));
+    } catch (error) {
+      console.error("Error pricing strategy:", error);
+      res.status(500).json({ error: "Failed to price strategy" });
+    }
+  });
+
+  // Open a multi-leg strategy; every leg fills or none do (authenticated)
+  app.post("/api/options/strategies", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const result = strategyOrderSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid strategy data", details: result.error.errors });
+      }
+      
+      if (hasExpiredLeg(strategyLegs(result.data))) {
+        return res.status(400).json({ error: "Option has expired" });
+      }
+      
+      const quote = await getQuote(result.data.symbol);
+      if (!quote) {
+        return res.status(503).json({ error: "No quote available for this symbol" });
+      }
+      if (isQuoteStale(quote)) {
+        return res.status(503).json({ error: "Quote is stale, try again when the market is open" });
+      }
+      
+      const priced = quoteStrategy(quote, { ...result.data, symbol: quote.symbol });
+      if (priced.maxLoss === null) {
+        return res.status(400).json({ error: "Strategies with unlimited risk are not supported; write covered calls leg by leg instead" });
+      }
+      
+      const strategy = await storage.executeOptionStrategy(userId, priced);
+      res.json(strategy);
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error executing strategy:", error);
+      res.status(500).json({ error: "Failed to execute strategy" });
+    }
+  });
+
+  // Get open strategies (authenticated)
+  app.get("/api/options/strategies", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      await refreshOptionMarks(userId);
+      const strategies = await storage.getOptionStrategies(userId);
+      res.json(strategies);
+    } catch (error) {
+      console.error("Error fetching strategies:", error);
+      res.status(500).json({ error: "Failed to fetch strategies" });
+    }
+  });
+
+  // Close every leg of a strategy at model prices (authenticated)
+  app.post("/api/options/strategies/:id/close", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const strategies = await storage.getOptionStrategies(userId);
+      const strategy = strategies.find(st => st.id === req.params.id);
+      if (!strategy) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+      
+      const quote = await getQuote(strategy.symbol);
+      if (!quote) {
+        return res.status(503).json({ error: "No quote available for this symbol" });
+      }
+      if (isQuoteStale(quote)) {
+        return res.status(503).json({ error: "Quote is stale, try again when the market is open" });
+      }
+      
+      const marks = new Map(strategy.legs.map(leg => [leg.id, quoteOption(quote, leg).premium]));
+      const trades = await storage.closeOptionStrategy(userId, strategy.id, marks);
+      if (!trades) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+      
+      res.json(trades);
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error closing strategy:", error);
+      res.status(500).json({ error: "Failed to close strategy" });
+    }
+  });
+
+  // Exercise a long option early (authenticated)
+  app.post("/api/options/:id/exercise", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const result = exerciseOptionSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid exercise data", details: result.error.errors });
+      }
+      
+      const options = await storage.getOptionPositions(userId);
+      const option = options.find(o => o.id === req.params.id);
+      if (!option) {
+        return res.status(404).json({ error: "Option position not found" });
+      }
+      
+      const quote = await getQuote(option.symbol);
+      if (!quote) {
+        return res.status(503).json({ error: "No quote available for this symbol" });
+      }
+      if (isQuoteStale(quote)) {
+        return res.status(503).json({ error: "Quote is stale, try again when the market is open" });
+      }
+      
+      const trade = await storage.exerciseOption(userId, option.id, quote.currentPrice, result.data);
+      if (!trade) {
+        return res.status(404).json({ error: "Option position not found" });
+      }
+      
+      res.json(trade);
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error exercising option:", error);
+      res.status(500).json({ error: "Failed to exercise option" });
+    }
+  });
+
+  // Choose how an option settles at expiry (authenticated)
+  app.patch("/api/options/:id", requireAuth, async (req, res) => {
+    try {
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid option id", details: params.error.errors });
+      }
+      
+      const result = updateOptionPositionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid option data", details: result.error.errors });
+      }
+      
+      const option = await storage.updateOptionSettlement(req.user!.id, String(params.data.id), result.data.settlement);
+      if (!option) {
+        return res.status(404).json({ error: "Option position not found" });
+      }
+      
+      res.json(option);
+    } catch (error) {
+      console.error("Error updating option:", error);
+      res.status(500).json({ error: "Failed to update option" });
+    }
+  });
+
   // Get watchlist with quotes (authenticated)
   app.get("/api/watchlist", requireAuth, async (req, res) => {
     try {
       const userId = req.user!.id;
       const watchlist = await storage.getWatchlist(userId);
       
-      const watchlistWithQuotes = await Promise.all(
-        watchlist.map(async (item) => {
-          const quote = await getQuote(item.symbol);
-          return { ...item, quote };
-        })
-      );
+      const quotes = await getQuotes(watchlist.map(item => item.symbol));
+      const watchlistWithQuotes = watchlist.map(item => ({ ...item, quote: quotes.get(item.symbol) ?? null }));
       
       res.json(watchlistWithQuotes);
     } catch (error) {
@@ -374,12 +743,8 @@ export async function registerRoutes(
         symbols = defaultSymbols;
       }
       
-      const tickerData = await Promise.all(
-        symbols.map(async (symbol) => {
-          const quote = await getQuote(symbol);
-          return { symbol, quote };
-        })
-      );
+      const quotes = await getQuotes(symbols);
+      const tickerData = symbols.map(symbol => ({ symbol, quote: quotes.get(symbol) ?? null }));
       
       res.json(tickerData.filter(item => item.quote !== null));
     } catch (error) {
@@ -422,6 +787,301 @@ export async function registerRoutes(
     }
   });
 
+  // Run a backtest over historical candles and save it (authenticated)
+  app.post("/api/backtests", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const result = insertBacktestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid backtest", details: result.error.errors });
+      }
+      
+      const { resolution, from } = result.data;
+      const to = Math.min(result.data.to ?? Date.now(), Date.now());
+      if (from >= to) {
+        return res.status(400).json({ error: "from must be before to" });
+      }
+      const requestedBars = (to - from) / BAR_MS[resolution];
+      if (requestedBars > MAX_CANDLES) {
+        return res.status(400).json({ error: `At most ${MAX_CANDLES} bars per symbol; narrow the range or use a longer resolution` });
+      }
+      
+      validateRules(result.data.rules);
+      const warmup = Math.floor(Math.min(rulesWarmupBars(result.data.rules), MAX_CANDLES - requestedBars));
+      const symbols = Array.from(new Set(result.data.symbols.map(s => s.toUpperCase())));
+      const barsBySymbol = new Map<string, Candle[]>();
+      for (const symbol of symbols) {
+        const bars = await getCandles(symbol, resolution, from - warmup * BAR_MS[resolution], to);
+        if (!bars.some(bar => bar.time >= from)) {
+          return res.status(400).json({ error: `No price history for ${symbol} in this range` });
+        }
+        barsBySymbol.set(symbol, bars);
+      }
+      
+      const config = { ...result.data, symbols, to };
+      const sessionMs = BAR_MS[resolution] < DAY_MS ? DAY_MS : undefined;
+      const backtest = await storage.createBacktest(userId, config.name, config, runBacktest(config, barsBySymbol, sessionMs));
+      res.status(201).json(backtest);
+    } catch (error) {
+      if (error instanceof IndicatorSpecError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error running backtest:", error);
+      res.status(500).json({ error: "Failed to run backtest" });
+    }
+  });
+
+  // Get saved backtests, without curves or trades (authenticated)
+  app.get("/api/backtests", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const list = await storage.getBacktests(userId);
+      res.json(list);
+    } catch (error) {
+      console.error("Error fetching backtests:", error);
+      res.status(500).json({ error: "Failed to fetch backtests" });
+    }
+  });
+
+  // Get one backtest with its equity curve and trades (authenticated)
+  app.get("/api/backtests/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid backtest id", details: params.error.errors });
+      }
+      
+      const backtest = await storage.getBacktest(userId, String(params.data.id));
+      if (!backtest) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      
+      res.json(backtest);
+    } catch (error) {
+      console.error("Error fetching backtest:", error);
+      res.status(500).json({ error: "Failed to fetch backtest" });
+    }
+  });
+
+  // Delete a backtest (authenticated)
+  app.delete("/api/backtests/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid backtest id", details: params.error.errors });
+      }
+      
+      const deleted = await storage.deleteBacktest(userId, String(params.data.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting backtest:", error);
+      res.status(500).json({ error: "Failed to delete backtest" });
+    }
+  });
+
+  // Get trading bots (authenticated)
+  app.get("/api/bots", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const list = await storage.getBots(userId);
+      res.json(list);
+    } catch (error) {
+      console.error("Error fetching bots:", error);
+      res.status(500).json({ error: "Failed to fetch bots" });
+    }
+  });
+
+  // Create a trading bot; it starts paused (authenticated)
+  app.post("/api/bots", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const result = insertBotSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid bot", details: result.error.errors });
+      }
+      
+      validateRules(result.data.rules);
+      const bot = await storage.createBot(userId, result.data);
+      res.status(201).json(bot);
+    } catch (error) {
+      if (error instanceof IndicatorSpecError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error creating bot:", error);
+      res.status(500).json({ error: "Failed to create bot" });
+    }
+  });
+
+  // Rename, change rules or budget, or enable/pause a bot (authenticated)
+  app.patch("/api/bots/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid bot id", details: params.error.errors });
+      }
+      
+      const result = updateBotSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid bot", details: result.error.errors });
+      }
+      
+      if (result.data.rules) {
+        validateRules(result.data.rules);
+      }
+      const bot = await storage.updateBot(userId, String(params.data.id), result.data);
+      if (!bot) {
+        return res.status(404).json({ error: "Bot not found" });
+      }
+      
+      res.json(bot);
+    } catch (error) {
+      if (error instanceof IndicatorSpecError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error updating bot:", error);
+      res.status(500).json({ error: "Failed to update bot" });
+    }
+  });
+
+  // Get a bot's run log, newest first (authenticated)
+  app.get("/api/bots/:id/runs", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid bot id", details: params.error.errors });
+      }
+      
+      const runs = await storage.getBotRuns(userId, String(params.data.id));
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching bot runs:", error);
+      res.status(500).json({ error: "Failed to fetch bot runs" });
+    }
+  });
+
+  // Kill switch: pause every bot and sell what they hold (authenticated)
+  app.post("/api/bots/kill", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const failed: string[] = [];
+      const active = (await storage.getBots(userId)).filter(b => b.enabled || b.quantity > 0);
+      for (const bot of active) {
+        try {
+          await killBot(userId, bot);
+        } catch (error) {
+          if (!(error instanceof TradeRejectedError)) throw error;
+          failed.push(bot.name);
+        }
+      }
+      
+      if (failed.length > 0) {
+        return res.status(503).json({ error: `All bots paused, but no fresh quote to sell for: ${failed.join(", ")}` });
+      }
+      res.json(await storage.getBots(userId));
+    } catch (error) {
+      console.error("Error killing bots:", error);
+      res.status(500).json({ error: "Failed to kill bots" });
+    }
+  });
+
+  // Kill switch for one bot (authenticated)
+  app.post("/api/bots/:id/kill", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid bot id", details: params.error.errors });
+      }
+      
+      const bot = await storage.getBot(userId, String(params.data.id));
+      if (!bot) {
+        return res.status(404).json({ error: "Bot not found" });
+      }
+      
+      await killBot(userId, bot);
+      res.json(await storage.getBot(userId, bot.id));
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return res.status(503).json({ error: error.message });
+      }
+      console.error("Error killing bot:", error);
+      res.status(500).json({ error: "Failed to kill bot" });
+    }
+  });
+
+  // Orders drafted by the AI chat; nothing executes until the user confirms
+  app.get("/api/trade-proposals", requireAuth, async (req, res) => {
+    try {
+      const query = tradeProposalQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid trade proposal query", details: query.error.errors });
+      }
+      
+      const proposals = await storage.getTradeProposals(req.user!.id, query.data.conversationId);
+      res.json(proposals);
+    } catch (error) {
+      console.error("Error fetching trade proposals:", error);
+      res.status(500).json({ error: "Failed to fetch trade proposals" });
+    }
+  });
+
+  app.post("/api/trade-proposals/:id/confirm", requireAuth, async (req, res) => {
+    try {
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid proposal id", details: params.error.errors });
+      }
+      
+      const proposal = await confirmProposal(req.user!.id, String(params.data.id));
+      if (!proposal) {
+        return res.status(404).json({ error: "Pending proposal not found" });
+      }
+      res.json(proposal);
+    } catch (error) {
+      console.error("Error confirming trade proposal:", error);
+      res.status(500).json({ error: "Failed to confirm proposal" });
+    }
+  });
+
+  app.post("/api/trade-proposals/:id/reject", requireAuth, async (req, res) => {
+    try {
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid proposal id", details: params.error.errors });
+      }
+      
+      const proposal = await rejectProposal(req.user!.id, String(params.data.id));
+      if (!proposal) {
+        return res.status(404).json({ error: "Pending proposal not found" });
+      }
+      res.json(proposal);
+    } catch (error) {
+      console.error("Error rejecting trade proposal:", error);
+      res.status(500).json({ error: "Failed to reject proposal" });
+    }
+  });
+
+  // Push-to-talk voice assistant. Streams the transcript, the reply sentence by
+  // sentence with its audio, and any order it drafts for a spoken confirmation.
+  app.post("/api/voice/turn", requireAuth, async (req, res) => {
+    const result = voiceTurnSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid voice request", details: result.error.errors });
+    }
+    
+    await serveEventStream(res, "voice assistant", (stream) =>
+      runVoiceTurn(req.user!.id, result.data, stream)
+    );
+  });
+
   // Get leaderboard (public)
   app.get("/api/leaderboard", async (req, res) => {
     try {
@@ -520,39 +1180,10 @@ export async function registerRoutes(
   // AI Trading Tips endpoint (authenticated) - Uses Claude API
   app.post("/api/ai/tips", requireAuth, async (req, res) => {
     try {
-      const userId = req.user!.id;
-      const portfolio = await storage.getPortfolio(userId);
-      const positions = await storage.getPositions(userId);
-      const watchlist = await storage.getWatchlist(userId);
-      
-      const positionSummary = positions.map(p => 
-        `${p.symbol}: ${p.quantity} shares @ $${p.averagePrice.toFixed(2)} (current: $${p.currentPrice.toFixed(2)}, P/L: ${p.profitLossPercent.toFixed(2)}%)`
-      ).join("\n");
-      
-      const watchlistSymbols = watchlist.map(w => w.symbol).join(", ");
-      
-      const prompt = `You are a helpful AI trading assistant for a paper trading simulator called "Nomad Tradings". 
-      
-Current portfolio status:
-- Cash: $${portfolio.cash.toFixed(2)}
-- Total Value: $${portfolio.totalValue.toFixed(2)}
-- Total P/L: ${portfolio.totalProfitLossPercent.toFixed(2)}%
-
-Current positions:
-${positionSummary || "No positions yet"}
-
-Watchlist: ${watchlistSymbols || "Empty"}
-
-Provide 3 actionable trading tips based on this portfolio. Be specific and educational. Consider:
-1. Portfolio diversification
-2. Risk management
-3. Potential opportunities
-
-Keep each tip concise (2-3 sentences). Format as a numbered list.`;
-
+      const { prompt, maxTokens } = await tipsPrompt(req.user!.id);
       const response = await anthropic.messages.create({
         model: "claude-sonnet-4-20250514",
-        max_tokens: 500,
+        max_tokens: maxTokens,
         messages: [{ role: "user", content: prompt }],
       });
       
@@ -565,143 +1196,205 @@ Keep each tip concise (2-3 sentences). Format as a numbered list.`;
     }
   });
 
-  // AI Agent endpoints for the Agents tab
+  // Streaming variants of the AI endpoints send server-sent events; see agent-stream.ts
+  app.post("/api/ai/tips/stream", requireAuth, async (req, res) => {
+    await serveEventStream(res, "AI tips", async (stream) => {
+      await streamPrompt(anthropic, await tipsPrompt(req.user!.id), stream);
+    });
+  });
+
+  // AI Agent endpoints for the Agents tab. Every run is saved to the run history.
   app.post("/api/agents/research", requireAuth, async (req, res) => {
     try {
-      const { symbol, query } = req.body;
-      
-      const prompt = `You are an expert stock research analyst. Analyze ${symbol || "the market"} and provide insights on: ${query || "current market conditions, key metrics, and investment thesis"}.
-
-Be thorough but concise. Include:
-- Key financial metrics and valuation
-- Recent news or developments
-- Bull and bear cases
-- Risk factors
-
-Format your response with clear sections.`;
-
-      const response = await anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 1000,
-        messages: [{ role: "user", content: prompt }],
-      });
+      const result = researchRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid research request", details: result.error.errors });
+      }
       
-      const textContent = response.content.find(c => c.type === "text");
-      res.json({ analysis: textContent?.text || "Unable to generate analysis." });
+      const userId = req.user!.id;
+      const report = await recordAgentRun(userId, "research", result.data, () =>
+        runResearchAgent(anthropic, userId, result.data)
+      );
+      res.json(report);
     } catch (error) {
       console.error("Error in research agent:", error);
       res.status(500).json({ error: "Research agent failed" });
     }
   });
 
+  app.post("/api/agents/research/stream", requireAuth, async (req, res) => {
+    const result = researchRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid research request", details: result.error.errors });
+    }
+    
+    const userId = req.user!.id;
+    await serveEventStream(res, "research agent", (stream) =>
+      recordAgentRun(userId, "research", result.data, () =>
+        runResearchAgent(anthropic, userId, result.data, stream)
+      )
+    );
+  });
+
   app.post("/api/agents/sentiment", requireAuth, async (req, res) => {
     try {
-      const { symbol } = req.body;
-      
-      const prompt = `You are a social media sentiment analyst specializing in stock market analysis. Analyze the general market sentiment for ${symbol || "the overall market"}.
-
-Consider:
-- Typical retail investor sentiment patterns
-- Common bullish and bearish narratives
-- Social media trends and discussions
-- News sentiment impact
-
-Provide a sentiment score (1-10, where 10 is extremely bullish) and explain your reasoning. Format as JSON with keys: score, sentiment (bullish/bearish/neutral), summary, key_narratives (array).`;
-
-      const response = await anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 800,
-        messages: [{ role: "user", content: prompt }],
-      });
-      
-      const textContent = response.content.find(c => c.type === "text");
-      try {
-        const parsed = JSON.parse(textContent?.text || "{}");
-        res.json(parsed);
-      } catch {
-        res.json({ analysis: textContent?.text || "Unable to analyze sentiment." });
+      const result = sentimentRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid sentiment request", details: result.error.errors });
       }
+      
+      const report = await recordAgentRun(req.user!.id, "sentiment", result.data, () =>
+        runStructuredAgent(anthropic, sentimentPrompt(result.data.symbol), SENTIMENT_OUTPUT)
+      );
+      res.json(report);
     } catch (error) {
       console.error("Error in sentiment agent:", error);
       res.status(500).json({ error: "Sentiment agent failed" });
     }
   });
 
+  app.post("/api/agents/sentiment/stream", requireAuth, async (req, res) => {
+    const result = sentimentRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid sentiment request", details: result.error.errors });
+    }
+    
+    await serveEventStream(res, "sentiment agent", (stream) =>
+      recordAgentRun(req.user!.id, "sentiment", result.data, () =>
+        runStructuredAgent(anthropic, sentimentPrompt(result.data.symbol), SENTIMENT_OUTPUT, stream)
+      )
+    );
+  });
+
   app.post("/api/agents/game-theory", requireAuth, async (req, res) => {
     try {
-      const { scenario, options } = req.body;
-      const userId = req.user!.id;
-      const portfolio = await storage.getPortfolio(userId);
-      
-      const prompt = `You are a game theory strategist specializing in market dynamics and trading decisions.
-
-Current portfolio: $${portfolio.totalValue.toFixed(2)} (Cash: $${portfolio.cash.toFixed(2)})
-
-Scenario: ${scenario || "Standard market conditions - help optimize trading strategy"}
-Options being considered: ${options || "Buy, hold, or sell positions"}
-
-Apply game theory principles to analyze:
-1. Nash equilibrium considerations
-2. Risk/reward asymmetries
-3. Market participant behavior patterns
-4. Optimal strategy given current conditions
-
-Provide actionable recommendations with probability-weighted outcomes.`;
-
-      const response = await anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 1000,
-        messages: [{ role: "user", content: prompt }],
-      });
+      const result = gameTheoryRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid game theory request", details: result.error.errors });
+      }
       
-      const textContent = response.content.find(c => c.type === "text");
-      res.json({ strategy: textContent?.text || "Unable to generate strategy." });
+      const userId = req.user!.id;
+      const { scenario, options } = result.data;
+      const report = await recordAgentRun(userId, "game_theory", result.data, async () =>
+        runStructuredAgent(anthropic, await gameTheoryPrompt(userId, scenario, options), GAME_THEORY_OUTPUT)
+      );
+      res.json(report);
     } catch (error) {
       console.error("Error in game theory agent:", error);
       res.status(500).json({ error: "Game theory agent failed" });
     }
   });
 
+  app.post("/api/agents/game-theory/stream", requireAuth, async (req, res) => {
+    const result = gameTheoryRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid game theory request", details: result.error.errors });
+    }
+    
+    const userId = req.user!.id;
+    const { scenario, options } = result.data;
+    await serveEventStream(res, "game theory agent", (stream) =>
+      recordAgentRun(userId, "game_theory", result.data, async () =>
+        runStructuredAgent(anthropic, await gameTheoryPrompt(userId, scenario, options), GAME_THEORY_OUTPUT, stream)
+      )
+    );
+  });
+
   app.post("/api/agents/risk", requireAuth, async (req, res) => {
     try {
       const userId = req.user!.id;
-      const portfolio = await storage.getPortfolio(userId);
-      const positions = await storage.getPositions(userId);
-      
-      const positionSummary = positions.map(p => 
-        `${p.symbol}: ${p.quantity} shares @ $${p.averagePrice.toFixed(2)} (${((p.quantity * p.currentPrice / portfolio.totalValue) * 100).toFixed(1)}% of portfolio)`
-      ).join("\n");
-      
-      const prompt = `You are a risk management expert. Analyze this portfolio for potential risks:
-
-Portfolio Value: $${portfolio.totalValue.toFixed(2)}
-Cash: $${portfolio.cash.toFixed(2)} (${((portfolio.cash / portfolio.totalValue) * 100).toFixed(1)}%)
+      const report = await recordAgentRun(userId, "risk", {}, async () =>
+        runStructuredAgent(anthropic, await riskPrompt(userId), RISK_OUTPUT)
+      );
+      res.json(report);
+    } catch (error) {
+      console.error("Error in risk agent:", error);
+      res.status(500).json({ error: "Risk agent failed" });
+    }
+  });
 
-Positions:
-${positionSummary || "No positions"}
+  app.post("/api/agents/risk/stream", requireAuth, async (req, res) => {
+    const userId = req.user!.id;
+    await serveEventStream(res, "risk agent", (stream) =>
+      recordAgentRun(userId, "risk", {}, async () =>
+        runStructuredAgent(anthropic, await riskPrompt(userId), RISK_OUTPUT, stream)
+      )
+    );
+  });
 
-Analyze:
-1. Concentration risk
-2. Sector exposure
-3. Volatility considerations
-4. Downside scenarios
-5. Hedging recommendations
+  // Get saved agent runs, newest first, without their reports (authenticated)
+  app.get("/api/agent-runs", requireAuth, async (req, res) => {
+    try {
+      const query = agentRunQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid agent run query", details: query.error.errors });
+      }
+      
+      const runs = await storage.getAgentRuns(req.user!.id, query.data);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching agent runs:", error);
+      res.status(500).json({ error: "Failed to fetch agent runs" });
+    }
+  });
 
-Provide a risk score (1-10) and specific recommendations.`;
+  // Get one agent run with its report and portfolio snapshot (authenticated)
+  app.get("/api/agent-runs/:id", requireAuth, async (req, res) => {
+    try {
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid agent run id", details: params.error.errors });
+      }
+      
+      const run = await storage.getAgentRun(req.user!.id, String(params.data.id));
+      if (!run) {
+        return res.status(404).json({ error: "Agent run not found" });
+      }
+      
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching agent run:", error);
+      res.status(500).json({ error: "Failed to fetch agent run" });
+    }
+  });
 
-      const response = await anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 800,
-        messages: [{ role: "user", content: prompt }],
-      });
+  // Delete an agent run (authenticated)
+  app.delete("/api/agent-runs/:id", requireAuth, async (req, res) => {
+    try {
+      const params = idParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid agent run id", details: params.error.errors });
+      }
       
-      const textContent = response.content.find(c => c.type === "text");
-      res.json({ riskAnalysis: textContent?.text || "Unable to analyze risk." });
+      const deleted = await storage.deleteAgentRun(req.user!.id, String(params.data.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Agent run not found" });
+      }
+      
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error in risk agent:", error);
-      res.status(500).json({ error: "Risk agent failed" });
+      console.error("Error deleting agent run:", error);
+      res.status(500).json({ error: "Failed to delete agent run" });
     }
   });
 
+  // Fill resting orders as quotes cross their prices
+  startOrderMatcher();
+  
+  // Accrue borrow fees and cover shorts that breach maintenance margin
+  startRiskMonitor();
+  
+  // Exercise, assign or expire options once their expiration passes
+  startOptionExpiry();
+  
+  // Push live quotes to subscribed clients over WebSocket
+  startPriceStream(httpServer, sessionParser);
+  
+  // Evaluate enabled trading bots and place their trades
+  startBotRunner();
+  
+  // Fail chat trade proposals a restart left half-executed
+  startProposalSweep();
+
   return httpServer;
 }
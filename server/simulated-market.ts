@@ -0,0 +1,365 @@
+// Offline market data. Every symbol follows a seeded geometric Brownian motion,
+// so the same seed always produces the same prices for the same moments and
+// quotes, candles and news agree with each other.
+import type { StockQuote, CompanyProfile, NewsArticle, Candle, CandleResolution } from "@shared/schema";
+import type { MarketDataProvider } from "./market-data";
+import { DAY_MS } from "./margin";
+import {
+  CRYPTO_PROFILES,
+  CRYPTO_REFERENCE_PRICES,
+  POPULAR_STOCKS,
+  isCryptoSymbol,
+  searchCatalog,
+  type SymbolMatch,
+} from "./symbol-catalog";
+
+const MINUTE_MS = 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+const DAYS_PER_YEAR = 365;
+
+// Prices equal their reference level at the close of this day
+const ANCHOR_DAY = Date.UTC(2025, 0, 1) / DAY_MS;
+const ANNUAL_DRIFT = 0.05;
+const CRYPTO_VOLATILITY = 0.6;
+
+// Intraday candles only reach this far back; each day costs a full minute path
+const MAX_INTRADAY_DAYS = 90;
+const MINUTE_PATH_CACHE_SIZE = 64;
+
+const TICKER_PATTERN = /^[A-Z][A-Z.]{0,5}$/;
+
+interface SymbolModel {
+  referencePrice: number;
+  volatility: number;
+  baseVolume: number;
+  // Log closes after and before the anchor day, nearest first
+  forward: number[];
+  backward: number[];
+  // Finished days never change, so their bars are kept
+  dailyBars: Map<number, Candle>;
+}
+
+// FNV-1a over the parts, for seeding per symbol and day
+function hash(...parts: (string | number)[]): number {
+  let h = 0x811c9dc5;
+  for (const ch of parts.join("|")) {
+    h ^= ch.charCodeAt(0);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// mulberry32: small, fast and good enough for price noise
+function random(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw (Box-Muller)
+function gaussian(rand: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - rand())) * Math.cos(2 * Math.PI * rand());
+}
+
+function roundPrice(price: number): number {
+  const scale = price >= 1 ? 100 : 10000;
+  return Math.round(price * scale) / scale;
+}
+
+function startOfDay(time: number): number {
+  return Math.floor(time / DAY_MS);
+}
+
+function resolutionMinutes(resolution: CandleResolution): number | null {
+  return /^\d+$/.test(resolution) ? parseInt(resolution, 10) : null;
+}
+
+// Start of the week (Monday) or month a day falls in, as a day number
+function periodStart(day: number, resolution: "W" | "M"): number {
+  const date = new Date(day * DAY_MS);
+  if (resolution === "M") {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / DAY_MS;
+  }
+  return day - ((date.getUTCDay() + 6) % 7);
+}
+
+export class SimulatedMarket implements MarketDataProvider {
+  readonly name = "simulated";
+  private models = new Map<string, SymbolModel>();
+  private minutePaths = new Map<string, number[]>();
+
+  constructor(private readonly seed: number) {}
+
+  async getQuote(symbol: string): Promise<StockQuote | null> {
+    const upperSymbol = symbol.toUpperCase();
+    const model = this.model(upperSymbol);
+    if (!model) return null;
+
+    const now = Date.now();
+    const day = startOfDay(now);
+    const minute = Math.floor((now - day * DAY_MS) / MINUTE_MS);
+    const path = this.minutePath(upperSymbol, model, day).slice(0, minute + 1);
+
+    const currentPrice = roundPrice(Math.exp(path[path.length - 1]));
+    const previousClose = roundPrice(Math.exp(this.logClose(upperSymbol, model, day - 1)));
+    const change = currentPrice - previousClose;
+
+    return {
+      symbol: upperSymbol,
+      currentPrice,
+      change: roundPrice(change),
+      changePercent: Math.round((change / previousClose) * 10000) / 100,
+      high: roundPrice(Math.exp(Math.max(...path))),
+      low: roundPrice(Math.exp(Math.min(...path))),
+      open: roundPrice(Math.exp(path[0])),
+      previousClose,
+      timestamp: day * DAY_MS + minute * MINUTE_MS,
+    };
+  }
+
+  async getCompanyProfile(symbol: string): Promise<CompanyProfile | null> {
+    const upperSymbol = symbol.toUpperCase();
+    if (CRYPTO_PROFILES[upperSymbol]) {
+      return CRYPTO_PROFILES[upperSymbol];
+    }
+    if (!this.model(upperSymbol)) return null;
+
+    const stock = POPULAR_STOCKS.find(s => s.symbol === upperSymbol);
+    return {
+      symbol: upperSymbol,
+      name: stock?.description ?? upperSymbol,
+      exchange: "Simulated",
+      industry: "",
+      logo: "",
+      weburl: "",
+    };
+  }
+
+  // Headlines about the biggest moves among popular stocks on the last close
+  async getMarketNews(category: string = "general"): Promise<NewsArticle[]> {
+    const day = startOfDay(Date.now()) - 1;
+    const moves = POPULAR_STOCKS
+      .flatMap(s => {
+        const move = this.dailyMove(s.symbol, day);
+        return move ? [{ symbol: s.symbol, move }] : [];
+      })
+      .sort((a, b) => Math.abs(b.move.percent) - Math.abs(a.move.percent))
+      .slice(0, 10);
+
+    return moves.map(({ symbol, move }) => this.moveArticle(symbol, day, move, category));
+  }
+
+  // One headline per day for the last week
+  async getCompanyNews(symbol: string): Promise<NewsArticle[]> {
+    const upperSymbol = symbol.toUpperCase();
+    const today = startOfDay(Date.now());
+    const articles: NewsArticle[] = [];
+
+    for (let day = today - 1; day >= today - 7; day--) {
+      const move = this.dailyMove(upperSymbol, day);
+      if (!move) return [];
+      articles.push(this.moveArticle(upperSymbol, day, move, "company"));
+    }
+    return articles;
+  }
+
+  async searchSymbols(query: string): Promise<SymbolMatch[]> {
+    return searchCatalog(query).slice(0, 10);
+  }
+
+  async getCandles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<Candle[]> {
+    const upperSymbol = symbol.toUpperCase();
+    const model = this.model(upperSymbol);
+    if (!model) return [];
+
+    const end = Math.min(to, Date.now());
+    const minutes = resolutionMinutes(resolution);
+    if (minutes !== null) {
+      const start = Math.max(from, end - MAX_INTRADAY_DAYS * DAY_MS);
+      return this.intradayBars(upperSymbol, model, minutes, start, end);
+    }
+
+    const days: Candle[] = [];
+    for (let day = startOfDay(from); day <= startOfDay(end); day++) {
+      days.push(this.dailyBar(upperSymbol, model, day));
+    }
+    if (resolution === "D") {
+      return days.filter(bar => bar.time >= from);
+    }
+
+    // Weeks and months roll up the daily bars
+    const length = resolution === "W" ? "W" : "M";
+    const periods = new Map<number, Candle>();
+    for (const bar of days) {
+      const key = periodStart(startOfDay(bar.time), length);
+      const period = periods.get(key);
+      if (!period) {
+        periods.set(key, { ...bar, time: key * DAY_MS });
+      } else {
+        period.high = Math.max(period.high, bar.high);
+        period.low = Math.min(period.low, bar.low);
+        period.close = bar.close;
+        period.volume += bar.volume;
+      }
+    }
+    return Array.from(periods.values()).filter(bar => bar.time >= from);
+  }
+
+  // Stocks look like tickers; crypto pairs must be in the catalog
+  private model(symbol: string): SymbolModel | null {
+    const existing = this.models.get(symbol);
+    if (existing) return existing;
+
+    const isCrypto = isCryptoSymbol(symbol);
+    if (isCrypto ? !CRYPTO_REFERENCE_PRICES[symbol] : !TICKER_PATTERN.test(symbol)) {
+      return null;
+    }
+
+    const h = hash(this.seed, symbol);
+    const model: SymbolModel = {
+      referencePrice: isCrypto ? CRYPTO_REFERENCE_PRICES[symbol] : 20 + (h % 48000) / 100,
+      volatility: isCrypto ? CRYPTO_VOLATILITY : 0.15 + ((h >>> 8) % 35) / 100,
+      baseVolume: isCrypto ? 50000 : 1_000_000 + ((h >>> 4) % 40) * 1_000_000,
+      forward: [],
+      backward: [],
+      dailyBars: new Map(),
+    };
+    this.models.set(symbol, model);
+    return model;
+  }
+
+  // Log-return from the previous close to this day's close
+  private dailyIncrement(symbol: string, model: SymbolModel, day: number): number {
+    const sigma = model.volatility / Math.sqrt(DAYS_PER_YEAR);
+    const mu = (ANNUAL_DRIFT - (model.volatility * model.volatility) / 2) / DAYS_PER_YEAR;
+    return mu + sigma * gaussian(random(hash(this.seed, symbol, day)));
+  }
+
+  // Closes are walked out from the anchor in both directions and memoized
+  private logClose(symbol: string, model: SymbolModel, day: number): number {
+    const offset = day - ANCHOR_DAY;
+    const anchor = Math.log(model.referencePrice);
+    if (offset === 0) return anchor;
+
+    if (offset > 0) {
+      while (model.forward.length < offset) {
+        const previous = model.forward.length > 0 ? model.forward[model.forward.length - 1] : anchor;
+        model.forward.push(previous + this.dailyIncrement(symbol, model, ANCHOR_DAY + model.forward.length + 1));
+      }
+      return model.forward[offset - 1];
+    }
+
+    while (model.backward.length < -offset) {
+      const next = model.backward.length > 0 ? model.backward[model.backward.length - 1] : anchor;
+      model.backward.push(next - this.dailyIncrement(symbol, model, ANCHOR_DAY - model.backward.length));
+    }
+    return model.backward[-offset - 1];
+  }
+
+  // Log prices at each minute boundary of a day: a Brownian bridge from the
+  // previous close (index 0) to this day's close (the last index)
+  private minutePath(symbol: string, model: SymbolModel, day: number): number[] {
+    const key = `${symbol}:${day}`;
+    const cached = this.minutePaths.get(key);
+    if (cached) return cached;
+
+    const open = this.logClose(symbol, model, day - 1);
+    const close = this.logClose(symbol, model, day);
+    const sigma = model.volatility / Math.sqrt(DAYS_PER_YEAR);
+    const rand = random(hash(this.seed, symbol, day, "intraday"));
+    const step = Math.sqrt(1 / MINUTES_PER_DAY);
+
+    const walk = [0];
+    for (let i = 1; i <= MINUTES_PER_DAY; i++) {
+      walk.push(walk[i - 1] + gaussian(rand) * step);
+    }
+    const last = walk[MINUTES_PER_DAY];
+    const path = walk.map((w, i) => {
+      const t = i / MINUTES_PER_DAY;
+      return open + t * (close - open) + sigma * (w - t * last);
+    });
+
+    if (this.minutePaths.size >= MINUTE_PATH_CACHE_SIZE) {
+      this.minutePaths.delete(this.minutePaths.keys().next().value!);
+    }
+    this.minutePaths.set(key, path);
+    return path;
+  }
+
+  private barVolume(symbol: string, model: SymbolModel, day: number, index: number, minutes: number): number {
+    const noise = gaussian(random(hash(this.seed, symbol, day, "volume", index)));
+    return Math.round(model.baseVolume * (minutes / MINUTES_PER_DAY) * Math.exp(0.3 * noise));
+  }
+
+  // Bars over part of a minute path; today's path stops at the current minute
+  private pathBar(symbol: string, model: SymbolModel, day: number, first: number, last: number, minutes: number): Candle {
+    const slice = this.minutePath(symbol, model, day).slice(first, last + 1);
+    return {
+      time: day * DAY_MS + first * MINUTE_MS,
+      open: roundPrice(Math.exp(slice[0])),
+      high: roundPrice(Math.exp(Math.max(...slice))),
+      low: roundPrice(Math.exp(Math.min(...slice))),
+      close: roundPrice(Math.exp(slice[slice.length - 1])),
+      volume: this.barVolume(symbol, model, day, first, minutes),
+    };
+  }
+
+  private intradayBars(symbol: string, model: SymbolModel, minutes: number, from: number, to: number): Candle[] {
+    const bars: Candle[] = [];
+    for (let day = startOfDay(from); day <= startOfDay(to); day++) {
+      for (let first = 0; first < MINUTES_PER_DAY; first += minutes) {
+        const time = day * DAY_MS + first * MINUTE_MS;
+        if (time < from) continue;
+        if (time > to) return bars;
+        const lastMinute = Math.min(first + minutes, Math.floor((to - day * DAY_MS) / MINUTE_MS), MINUTES_PER_DAY);
+        bars.push(this.pathBar(symbol, model, day, first, Math.max(first, lastMinute), minutes));
+      }
+    }
+    return bars;
+  }
+
+  private dailyBar(symbol: string, model: SymbolModel, day: number): Candle {
+    const cached = model.dailyBars.get(day);
+    if (cached) return cached;
+
+    const today = startOfDay(Date.now());
+    if (day === today) {
+      const minute = Math.floor((Date.now() - day * DAY_MS) / MINUTE_MS);
+      return this.pathBar(symbol, model, day, 0, minute, MINUTES_PER_DAY);
+    }
+
+    const bar = this.pathBar(symbol, model, day, 0, MINUTES_PER_DAY, MINUTES_PER_DAY);
+    model.dailyBars.set(day, bar);
+    return bar;
+  }
+
+  private dailyMove(symbol: string, day: number): { close: number; percent: number } | null {
+    const model = this.model(symbol);
+    if (!model) return null;
+    const previous = Math.exp(this.logClose(symbol, model, day - 1));
+    const close = Math.exp(this.logClose(symbol, model, day));
+    return { close: roundPrice(close), percent: Math.round(((close - previous) / previous) * 10000) / 100 };
+  }
+
+  private moveArticle(symbol: string, day: number, move: { close: number; percent: number }, category: string): NewsArticle {
+    const direction = move.percent >= 0 ? "rises" : "falls";
+    return {
+      id: hash(this.seed, symbol, day, "news"),
+      category,
+      headline: `${symbol} ${direction} ${Math.abs(move.percent).toFixed(2)}% to close at $${move.close}`,
+      image: "",
+      related: symbol,
+      source: "Market Simulator",
+      summary: `${symbol} ended the session at $${move.close}, ${move.percent >= 0 ? "up" : "down"} ${Math.abs(move.percent).toFixed(2)}% on the day.`,
+      url: "",
+      datetime: (day + 1) * DAY_MS - MINUTE_MS,
+    };
+  }
+}
+
+// Seeded from MARKET_SIM_SEED so runs can be reproduced or varied
+export const simulatedMarket = new SimulatedMarket(parseInt(process.env.MARKET_SIM_SEED || "1", 10));
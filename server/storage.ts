@@ -1,26 +1,101 @@
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, or, desc, gt, gte, lt, lte, ne, inArray, isNull, sql } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { db, pool } from "./db";
+import {
+  shortInitialRequirement,
+  accountEquity,
+  marginBuyingPower,
+  marginMaintenanceRequirement,
+  shortMaintenanceRequirement,
+  marginInterestDue,
+  MARGIN_MAX_LEVERAGE,
+  DAY_MS,
+  type Exposure,
+} from "./margin";
+import { priceOption, yearsToExpiry, normalizeExpirationDate, DEFAULT_VOLATILITY } from "./option-pricing";
+import { strategyPayoff } from "./option-strategies";
 import {
   users,
   positions,
   trades,
   optionPositions,
   optionTrades,
+  optionStrategies,
+  orders,
   watchlist,
   portfolioHistory,
+  candles,
+  candleCoverage,
+  backtests,
+  bots,
+  botRuns,
+  tradeProposals,
+  agentRuns,
   posts,
   postLikes,
+  researchReportSchema,
+  sentimentReportSchema,
+  gameTheoryReportSchema,
+  riskReportSchema,
   type User,
   type InsertUser,
   type Position,
   type OptionPosition,
   type Trade,
   type OptionTrade,
+  type OptionType,
+  type OptionGreeks,
+  type OptionSettlement,
+  type OptionTradeAction,
+  type DbOptionPosition,
+  type DbOptionTrade,
+  type OptionStrategy,
+  type StrategyQuote,
+  type StrategyType,
+  type Order,
+  type OrderStatus,
+  type OrderType,
+  type TradeType,
+  type TimeInForce,
+  type DbOrder,
+  type DbPosition,
+  type DbTrade,
+  type InsertOrder,
+  type ReplaceOrder,
   type WatchlistItem,
   type Portfolio,
+  type BuyingPower,
+  type Account,
+  type AccountType,
+  type MarginStatus,
+  type TradeReason,
+  type UpdateAccount,
   type PortfolioHistoryPoint,
+  type Candle,
+  type CandleResolution,
+  type Backtest,
+  type BacktestConfig,
+  type BacktestResult,
+  type BacktestStats,
+  type BacktestSummary,
+  type DbBacktest,
+  type Bot,
+  type BotRun,
+  type BotRunAction,
+  type DbBot,
+  type DbBotRun,
+  type InsertBot,
+  type UpdateBot,
+  type TradeProposal,
+  type TradeProposalStatus,
+  type DbTradeProposal,
+  type AgentType,
+  type AgentRun,
+  type AgentReport,
+  type AgentRunSummary,
+  type AgentRunQuery,
+  type DbAgentRun,
   type UserProfile,
   type Post,
   type InsertPost,
@@ -29,6 +104,289 @@ import {
 const STARTING_CASH = 100000;
 const PostgresSessionStore = connectPg(session);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A stock fill as requested by a caller; totals, timestamps and reasons are filled in here
+export type TradeOrder = Omit<Trade, "id" | "total" | "timestamp" | "reason" | "botId">;
+
+// Identifies one listed option
+type OptionContract = Pick<OptionPosition, "symbol" | "optionType" | "strikePrice" | "expirationDate">;
+
+// A priced strategy ready to fill
+export type StrategyExecution = Pick<StrategyQuote, "symbol" | "strategyType" | "quantity" | "legs" | "netPremium" | "collateral">;
+
+// An option buy or sell at a server-computed premium
+export type OptionTradeOrder = Omit<OptionTrade, "id" | "total" | "timestamp" | "action" | "strategyId"> & {
+  action: TradeType;
+  settlement?: OptionSettlement;
+};
+
+// Trades the account holder cannot refuse, so buying power is not checked
+const FORCED_TRADE_REASONS: TradeReason[] = ["margin_call", "short_maintenance", "option_assignment"];
+
+// Option expirations are stored as YYYY-MM-DD (Postgres regex)
+const ISO_DATE_PATTERN = "^\\d{4}-\\d{2}-\\d{2}$";
+
+// A proposal as first recorded, before the user has decided on it
+export type NewTradeProposal = Pick<DbTradeProposal, "conversationId" | "utterance" | "rawArguments" | "proposal" | "summary" | "result"> & {
+  status: "invalid" | "pending";
+};
+
+// What executing a confirmed proposal produced
+export type TradeProposalOutcome = {
+  status: "executed" | "failed";
+  result: string;
+  tradeId?: string;
+  orderId?: string;
+  optionTradeId?: string;
+};
+
+// A finished agent run as recorded
+export type NewAgentRun = Omit<DbAgentRun, "id" | "userId" | "createdAt">;
+
+// Thrown from inside a trade transaction when the order cannot be filled
+export class TradeRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TradeRejectedError";
+  }
+}
+
+// Cash an open order earmarks. Buy stops fill at market once triggered, so the
+// stop price is the best estimate of their cost.
+function orderReservation(o: Pick<DbOrder, "side" | "quantity" | "limitPrice" | "stopPrice">): number {
+  if (o.side !== "buy") return 0;
+  return o.quantity * (o.limitPrice ?? o.stopPrice ?? 0);
+}
+
+function toOptionTrade(t: DbOptionTrade): OptionTrade {
+  return {
+    id: String(t.id),
+    symbol: t.symbol,
+    optionType: t.optionType as OptionType,
+    strikePrice: t.strikePrice,
+    expirationDate: t.expirationDate,
+    contracts: t.contracts,
+    premium: t.premium,
+    total: t.total,
+    action: t.action as OptionTradeAction,
+    strategyId: t.strategyId !== null ? String(t.strategyId) : null,
+    timestamp: t.timestamp.getTime(),
+  };
+}
+
+// Value per share an option would realize if exercised now
+function intrinsicValue(optionType: OptionType, strikePrice: number, underlyingPrice: number): number {
+  return Math.max(0, optionType === "call" ? underlyingPrice - strikePrice : strikePrice - underlyingPrice);
+}
+
+function toTrade(t: DbTrade): Trade {
+  return {
+    id: String(t.id),
+    symbol: t.symbol,
+    type: t.type as "buy" | "sell",
+    quantity: t.quantity,
+    price: t.price,
+    total: t.total,
+    quoteTimestamp: t.quoteTimestamp ? t.quoteTimestamp.getTime() : null,
+    reason: t.reason as TradeReason | null,
+    botId: t.botId !== null ? String(t.botId) : null,
+    timestamp: t.timestamp.getTime(),
+  };
+}
+
+// Long and short market value of position rows at their last seen prices
+function positionsExposure(cash: number, rows: Pick<DbPosition, "quantity" | "averagePrice" | "lastPrice">[]): Exposure {
+  let longMarketValue = 0;
+  let shortMarketValue = 0;
+  for (const p of rows) {
+    const value = Math.abs(p.quantity) * (p.lastPrice ?? p.averagePrice);
+    if (p.quantity > 0) {
+      longMarketValue += value;
+    } else {
+      shortMarketValue += value;
+    }
+  }
+  return { cash, longMarketValue, shortMarketValue };
+}
+
+// Marks an option with Black-Scholes at its underlying's last seen price.
+// Until the underlying has been quoted it is carried at its entry premium.
+function toOptionPosition(o: DbOptionPosition, now: number = Date.now()): OptionPosition {
+  const optionType = o.optionType as OptionType;
+  let currentPremium = o.premium;
+  let greeks: OptionGreeks | null = null;
+  
+  if (o.underlyingPrice !== null && o.impliedVolatility !== null) {
+    const price = priceOption({
+      optionType,
+      spot: o.underlyingPrice,
+      strike: o.strikePrice,
+      years: yearsToExpiry(o.expirationDate, now),
+      volatility: o.impliedVolatility,
+    });
+    currentPremium = price.premium;
+    greeks = price.greeks;
+  }
+  
+  return {
+    id: String(o.id),
+    symbol: o.symbol,
+    optionType,
+    strikePrice: o.strikePrice,
+    expirationDate: o.expirationDate,
+    contracts: o.contracts,
+    premium: o.premium,
+    currentPremium,
+    profitLoss: (currentPremium - o.premium) * o.contracts * 100,
+    underlyingPrice: o.underlyingPrice,
+    impliedVolatility: o.impliedVolatility,
+    greeks,
+    settlement: o.settlement as OptionSettlement,
+    strategyId: o.strategyId !== null ? String(o.strategyId) : null,
+  };
+}
+
+// Values a position at its last seen price; shorts have negative quantity,
+// so their value is negative and they gain as the price falls
+function toPosition(p: DbPosition): Position {
+  const currentPrice = p.lastPrice ?? p.averagePrice;
+  const totalValue = p.quantity * currentPrice;
+  const costBasis = p.quantity * p.averagePrice;
+  const profitLoss = totalValue - costBasis;
+  const profitLossPercent = costBasis !== 0 ? (profitLoss / Math.abs(costBasis)) * 100 : 0;
+  
+  return {
+    id: String(p.id),
+    symbol: p.symbol,
+    quantity: p.quantity,
+    averagePrice: p.averagePrice,
+    currentPrice,
+    totalValue,
+    profitLoss,
+    profitLossPercent,
+    borrowFees: p.borrowFees,
+  };
+}
+
+function toOrder(o: DbOrder): Order {
+  return {
+    id: String(o.id),
+    symbol: o.symbol,
+    side: o.side as TradeType,
+    orderType: o.orderType as OrderType,
+    quantity: o.quantity,
+    limitPrice: o.limitPrice,
+    stopPrice: o.stopPrice,
+    timeInForce: o.timeInForce as TimeInForce,
+    status: o.status as OrderStatus,
+    statusReason: o.statusReason,
+    triggered: o.triggeredAt !== null,
+    filledPrice: o.filledPrice,
+    filledAt: o.filledAt ? o.filledAt.getTime() : null,
+    createdAt: o.createdAt.getTime(),
+  };
+}
+
+function toBacktest(b: DbBacktest): Backtest {
+  return {
+    id: String(b.id),
+    name: b.name,
+    config: b.config,
+    stats: b.result.stats,
+    equityCurve: b.result.equityCurve,
+    trades: b.result.trades,
+    createdAt: b.createdAt.getTime(),
+  };
+}
+
+function toBot(b: DbBot): Bot {
+  return {
+    id: String(b.id),
+    name: b.name,
+    symbol: b.symbol,
+    resolution: b.resolution as CandleResolution,
+    rules: b.rules,
+    budget: b.budget,
+    enabled: b.enabled,
+    quantity: b.quantity,
+    entryPrice: b.entryPrice,
+    invested: b.quantity * (b.entryPrice ?? 0),
+    lastBarTime: b.lastBarTime ? b.lastBarTime.getTime() : null,
+    lastRunAt: b.lastRunAt ? b.lastRunAt.getTime() : null,
+    createdAt: b.createdAt.getTime(),
+  };
+}
+
+function toBotRun(r: DbBotRun): BotRun {
+  return {
+    id: String(r.id),
+    action: r.action as BotRunAction,
+    message: r.message,
+    tradeId: r.tradeId !== null ? String(r.tradeId) : null,
+    createdAt: r.createdAt.getTime(),
+  };
+}
+
+function toTradeProposal(p: DbTradeProposal): TradeProposal {
+  return {
+    id: String(p.id),
+    conversationId: p.conversationId,
+    utterance: p.utterance,
+    proposal: p.proposal,
+    summary: p.summary,
+    status: p.status as TradeProposalStatus,
+    result: p.result,
+    tradeId: p.tradeId !== null ? String(p.tradeId) : null,
+    orderId: p.orderId !== null ? String(p.orderId) : null,
+    optionTradeId: p.optionTradeId !== null ? String(p.optionTradeId) : null,
+    createdAt: p.createdAt.getTime(),
+    decidedAt: p.decidedAt?.getTime() ?? null,
+  };
+}
+
+// Reports are stored as JSON, so each is checked against its agent's schema on
+// the way out rather than trusted to match the agent column. Null when it
+// doesn't, for example a report saved before its schema changed.
+function toAgentReport(agent: string, output: unknown): AgentReport | null {
+  switch (agent) {
+    case "research": {
+      const result = researchReportSchema.safeParse(output);
+      return result.success ? { agent, output: result.data } : null;
+    }
+    case "sentiment": {
+      const result = sentimentReportSchema.safeParse(output);
+      return result.success ? { agent, output: result.data } : null;
+    }
+    case "game_theory": {
+      const result = gameTheoryReportSchema.safeParse(output);
+      return result.success ? { agent, output: result.data } : null;
+    }
+    case "risk": {
+      const result = riskReportSchema.safeParse(output);
+      return result.success ? { agent, output: result.data } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function toAgentRun(r: DbAgentRun): AgentRun | null {
+  const report = toAgentReport(r.agent, r.output);
+  if (!report) return null;
+  return {
+    id: String(r.id),
+    symbol: r.symbol,
+    input: r.input,
+    headline: r.headline,
+    model: r.model,
+    usage: { inputTokens: r.inputTokens, outputTokens: r.outputTokens },
+    portfolio: r.portfolio,
+    createdAt: r.createdAt.getTime(),
+    ...report,
+  };
+}
+
 export interface IStorage {
   sessionStore: session.Store;
   
@@ -37,21 +395,35 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(data: InsertUser): Promise<User>;
   
+  // Account settings (user-specific)
+  getAccount(userId: number): Promise<Account>;
+  updateAccount(userId: number, changes: UpdateAccount): Promise<Account>;
+  
   // Portfolio (user-specific)
   getPortfolio(userId: number): Promise<Portfolio>;
   getPortfolioHistory(userId: number): Promise<PortfolioHistoryPoint[]>;
+  getBuyingPower(userId: number): Promise<BuyingPower>;
+  getMarginStatus(userId: number): Promise<MarginStatus>;
   
   // Positions (user-specific)
   getPositions(userId: number): Promise<Position[]>;
   getPosition(userId: number, symbol: string): Promise<Position | undefined>;
   updatePosition(userId: number, symbol: string, quantity: number, avgPrice: number, currentPrice: number): Promise<Position>;
+  updatePositionPrice(userId: number, symbol: string, currentPrice: number): Promise<Position | undefined>;
   deletePosition(userId: number, symbol: string): Promise<void>;
   
+  // Shorts (all users, for the risk monitor)
+  getShortPositions(): Promise<(Position & { userId: number; borrowAccruedAt: number })[]>;
+  chargeBorrowFee(positionId: string, fee: number, accruedThrough: number): Promise<void>;
+  getMarginAccountIds(): Promise<number[]>;
+  chargeMarginInterest(userId: number, now?: number): Promise<number>;
+  
   // Options (user-specific)
   getOptionPositions(userId: number): Promise<OptionPosition[]>;
-  addOptionPosition(userId: number, option: Omit<OptionPosition, "id" | "profitLoss">): Promise<OptionPosition>;
+  updateOptionUnderlying(userId: number, symbol: string, underlyingPrice: number, impliedVolatility: number): Promise<void>;
+  addOptionPosition(userId: number, option: Omit<OptionPosition, "id" | "profitLoss" | "strategyId">): Promise<OptionPosition | undefined>;
   updateOptionPosition(userId: number, id: string, currentPremium: number): Promise<OptionPosition | undefined>;
-  deleteOptionPosition(userId: number, id: string): Promise<void>;
+  deleteOptionPosition(userId: number, id: string, contracts?: number): Promise<void>;
   
   // Trades (user-specific)
   getTrades(userId: number): Promise<Trade[]>;
@@ -61,6 +433,33 @@ export interface IStorage {
   getOptionTrades(userId: number): Promise<OptionTrade[]>;
   addOptionTrade(userId: number, trade: Omit<OptionTrade, "id">): Promise<OptionTrade>;
   
+  // Trade execution - cash, position and trade row are committed together
+  executeTrade(userId: number, order: TradeOrder, options?: { reason?: TradeReason }): Promise<Trade>;
+  executeOptionTrade(userId: number, order: OptionTradeOrder): Promise<OptionTrade>;
+  
+  // Option settlement - longs are exercised, shorts assigned, worthless contracts expire
+  getExpiringOptionPositions(throughDate: string): Promise<(OptionPosition & { userId: number })[]>;
+  normalizeOptionExpirations(): Promise<number>;
+  settleExpiredOption(positionId: string, underlyingPrice: number, settlement?: OptionSettlement): Promise<OptionTrade | undefined>;
+  exerciseOption(userId: number, positionId: string, underlyingPrice: number, request: { contracts?: number; settlement: OptionSettlement }): Promise<OptionTrade | undefined>;
+  updateOptionSettlement(userId: number, positionId: string, settlement: OptionSettlement): Promise<OptionPosition | undefined>;
+  
+  // Multi-leg strategies - all legs fill or none do
+  executeOptionStrategy(userId: number, strategy: StrategyExecution): Promise<OptionStrategy>;
+  getOptionStrategies(userId: number): Promise<OptionStrategy[]>;
+  closeOptionStrategy(userId: number, id: string, marks: Map<string, number>): Promise<OptionTrade[] | undefined>;
+  
+  // Orders (resting limit/stop orders)
+  getOrders(userId: number, status?: OrderStatus): Promise<Order[]>;
+  getOrder(userId: number, id: string): Promise<Order | undefined>;
+  getOpenOrders(): Promise<(Order & { userId: number })[]>;
+  createOrder(userId: number, order: InsertOrder): Promise<Order>;
+  replaceOrder(userId: number, id: string, changes: ReplaceOrder): Promise<Order | undefined>;
+  cancelOrder(userId: number, id: string): Promise<Order | undefined>;
+  markOrderTriggered(id: string): Promise<void>;
+  fillOrder(id: string, price: number, quoteTimestamp: number): Promise<Trade | undefined>;
+  closeOrder(id: string, status: "expired" | "rejected", reason: string): Promise<void>;
+  
   // Watchlist (user-specific)
   getWatchlist(userId: number): Promise<WatchlistItem[]>;
   addToWatchlist(userId: number, symbol: string, name: string): Promise<WatchlistItem>;
@@ -73,6 +472,44 @@ export interface IStorage {
   // History
   recordPortfolioValue(userId: number, value: number): Promise<void>;
   
+  // Candle cache
+  getCandles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<Candle[]>;
+  saveCandles(symbol: string, resolution: CandleResolution, bars: Candle[]): Promise<void>;
+  getCandleCoverage(symbol: string, resolution: CandleResolution): Promise<{ from: number; to: number } | undefined>;
+  setCandleCoverage(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<void>;
+  
+  // Backtests (user-specific)
+  createBacktest(userId: number, name: string, config: BacktestConfig, result: BacktestResult): Promise<Backtest>;
+  getBacktests(userId: number): Promise<BacktestSummary[]>;
+  getBacktest(userId: number, id: string): Promise<Backtest | undefined>;
+  deleteBacktest(userId: number, id: string): Promise<boolean>;
+  
+  // Trading bots - bot fills go through the same trade path as user orders
+  createBot(userId: number, bot: InsertBot): Promise<Bot>;
+  getBots(userId: number): Promise<Bot[]>;
+  getBot(userId: number, id: string): Promise<Bot | undefined>;
+  updateBot(userId: number, id: string, changes: UpdateBot): Promise<Bot | undefined>;
+  getBotRuns(userId: number, id: string): Promise<BotRun[]>;
+  getEnabledBots(): Promise<(Bot & { userId: number })[]>;
+  markBotRun(botId: string, lastBarTime?: number): Promise<void>;
+  logBotRun(botId: string, action: BotRunAction, message: string): Promise<void>;
+  executeBotTrade(botId: string, order: TradeOrder, message: string): Promise<Trade | undefined>;
+  
+  // AI trade proposals - an audit log; a pending proposal is claimed once before it executes
+  createTradeProposal(userId: number, proposal: NewTradeProposal): Promise<TradeProposal>;
+  getTradeProposals(userId: number, conversationId?: number): Promise<TradeProposal[]>;
+  getTradeProposal(userId: number, id: string): Promise<TradeProposal | undefined>;
+  claimTradeProposal(userId: number, id: string, maxAgeMs: number): Promise<TradeProposal | undefined>;
+  settleTradeProposal(id: string, outcome: TradeProposalOutcome): Promise<TradeProposal>;
+  closeTradeProposal(userId: number, id: string, status: "rejected" | "expired", result: string): Promise<TradeProposal | undefined>;
+  failStuckTradeProposals(maxAgeMs: number): Promise<number>;
+  
+  // Agent run history (user-specific)
+  createAgentRun(userId: number, run: NewAgentRun): Promise<AgentRun>;
+  getAgentRuns(userId: number, query: AgentRunQuery): Promise<AgentRunSummary[]>;
+  getAgentRun(userId: number, id: string): Promise<AgentRun | undefined>;
+  deleteAgentRun(userId: number, id: string): Promise<boolean>;
+  
   // Leaderboard
   getLeaderboard(): Promise<UserProfile[]>;
   getAllTrades(): Promise<(Trade & { username: string })[]>;
@@ -117,8 +554,51 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
   
+  async getAccount(userId: number): Promise<Account> {
+    const user = await this.getUser(userId);
+    return {
+      accountType: (user?.accountType ?? "cash") as AccountType,
+      shortingEnabled: user?.shortingEnabled ?? false,
+    };
+  }
+  
+  async updateAccount(userId: number, changes: UpdateAccount): Promise<Account> {
+    const user = await db.transaction(async (tx) => {
+      // Locked so a short cannot open between the check and the update
+      const current = await this.lockAccount(tx, userId);
+      const switchingToMargin = changes.accountType === "margin" && current.accountType !== "margin";
+      
+      if (changes.shortingEnabled === false && current.shortingEnabled) {
+        const [short] = await tx.select({ id: positions.id })
+          .from(positions)
+          .where(and(eq(positions.userId, userId), lt(positions.quantity, 0)))
+          .limit(1);
+        if (short) {
+          throw new TradeRejectedError("Cover your short positions before turning off shorting");
+        }
+      }
+      
+      const [row] = await tx.update(users)
+        .set({
+          ...changes,
+          // Debit interest starts accruing from the switch, not from signup
+          ...(switchingToMargin ? { marginInterestAccruedAt: new Date() } : {}),
+        })
+        .where(eq(users.id, userId))
+        .returning();
+      
+      return row;
+    });
+    
+    return {
+      accountType: user.accountType as AccountType,
+      shortingEnabled: user.shortingEnabled,
+    };
+  }
+  
   async getPortfolio(userId: number): Promise<Portfolio> {
-    const cash = await this.getCash(userId);
+    const buyingPower = await this.getBuyingPower(userId);
+    const cash = buyingPower.cash;
     const positionsList = await this.getPositions(userId);
     const optionsList = await this.getOptionPositions(userId);
     
@@ -132,8 +612,12 @@ export class DatabaseStorage implements IStorage {
     const dayChange = positionsList.reduce((sum, p) => sum + p.profitLoss, 0);
     const dayChangePercent = stocksValue > 0 ? (dayChange / stocksValue) * 100 : 0;
     
+    const margin = await this.getMarginStatus(userId);
+    
     return {
       cash,
+      buyingPower,
+      margin,
       totalValue,
       stocksValue,
       optionsValue,
@@ -144,6 +628,87 @@ export class DatabaseStorage implements IStorage {
     };
   }
   
+  async getBuyingPower(userId: number): Promise<BuyingPower> {
+    const user = await this.getUser(userId);
+    const cash = user?.cash ?? STARTING_CASH;
+    const reserved = await this.getReservedCash(db, userId);
+    
+    if (user?.accountType === "margin") {
+      const exposure = await this.getExposure(userId, cash);
+      return {
+        cash,
+        reserved,
+        available: marginBuyingPower(exposure) - reserved,
+      };
+    }
+    
+    return {
+      cash,
+      reserved,
+      available: cash - reserved,
+    };
+  }
+  
+  async getMarginStatus(userId: number): Promise<MarginStatus> {
+    const user = await this.getUser(userId);
+    const exposure = await this.getExposure(userId, user?.cash ?? STARTING_CASH);
+    const equity = accountEquity(exposure);
+    const gross = exposure.longMarketValue + exposure.shortMarketValue;
+    
+    // Cash accounts hold longs fully paid, so only shorts carry a requirement
+    const maintenanceRequirement = user?.accountType === "margin"
+      ? marginMaintenanceRequirement(exposure)
+      : shortMaintenanceRequirement(exposure.shortMarketValue);
+    
+    return {
+      equity,
+      longMarketValue: exposure.longMarketValue,
+      shortMarketValue: exposure.shortMarketValue,
+      debitBalance: Math.max(0, -exposure.cash),
+      maintenanceRequirement,
+      maintenanceRatio: gross > 0 ? equity / gross : null,
+      marginCall: equity < maintenanceRequirement,
+    };
+  }
+  
+  private async getExposure(userId: number, cash: number): Promise<Exposure> {
+    const rows = await db.select()
+      .from(positions)
+      .where(eq(positions.userId, userId));
+    
+    return positionsExposure(cash, rows);
+  }
+  
+  // Cash earmarked by open buy orders, by the strikes of written puts and
+  // by the worst-case settlement of strategies that still have legs
+  private async getReservedCash(conn: typeof db | Transaction, userId: number, excludeOrderId?: number): Promise<number> {
+    const openBuys = await conn.select()
+      .from(orders)
+      .where(and(eq(orders.userId, userId), eq(orders.status, "open"), eq(orders.side, "buy")));
+    
+    const optionRows = await conn.select()
+      .from(optionPositions)
+      .where(eq(optionPositions.userId, userId));
+    
+    const orderCash = openBuys
+      .filter(o => o.id !== excludeOrderId)
+      .reduce((sum, o) => sum + orderReservation(o), 0);
+    const putCollateral = optionRows
+      .filter(o => o.strategyId === null && o.optionType === "put" && o.contracts < 0)
+      .reduce((sum, o) => sum - o.contracts * o.strikePrice * 100, 0);
+    
+    const strategyIds = Array.from(new Set(optionRows.flatMap(o => (o.strategyId !== null ? [o.strategyId] : []))));
+    let strategyCollateral = 0;
+    if (strategyIds.length > 0) {
+      const strategies = await conn.select()
+        .from(optionStrategies)
+        .where(and(inArray(optionStrategies.id, strategyIds), isNull(optionStrategies.closedAt)));
+      strategyCollateral = strategies.reduce((sum, st) => sum + st.collateral, 0);
+    }
+    
+    return orderCash + putCollateral + strategyCollateral;
+  }
+  
   async getPortfolioHistory(userId: number): Promise<PortfolioHistoryPoint[]> {
     const history = await db.select()
       .from(portfolioHistory)
@@ -161,24 +726,7 @@ export class DatabaseStorage implements IStorage {
       .from(positions)
       .where(eq(positions.userId, userId));
     
-    return dbPositions.map(p => {
-      const currentPrice = p.averagePrice; // Will be updated with real-time price
-      const totalValue = p.quantity * currentPrice;
-      const costBasis = p.quantity * p.averagePrice;
-      const profitLoss = totalValue - costBasis;
-      const profitLossPercent = costBasis > 0 ? (profitLoss / costBasis) * 100 : 0;
-      
-      return {
-        id: String(p.id),
-        symbol: p.symbol,
-        quantity: p.quantity,
-        averagePrice: p.averagePrice,
-        currentPrice,
-        totalValue,
-        profitLoss,
-        profitLossPercent,
-      };
-    });
+    return dbPositions.map(p => toPosition(p));
   }
   
   async getPosition(userId: number, symbol: string): Promise<Position | undefined> {
@@ -186,24 +734,7 @@ export class DatabaseStorage implements IStorage {
       .from(positions)
       .where(and(eq(positions.userId, userId), eq(positions.symbol, symbol)));
     
-    if (!p) return undefined;
-    
-    const currentPrice = p.averagePrice;
-    const totalValue = p.quantity * currentPrice;
-    const costBasis = p.quantity * p.averagePrice;
-    const profitLoss = totalValue - costBasis;
-    const profitLossPercent = costBasis > 0 ? (profitLoss / costBasis) * 100 : 0;
-    
-    return {
-      id: String(p.id),
-      symbol: p.symbol,
-      quantity: p.quantity,
-      averagePrice: p.averagePrice,
-      currentPrice,
-      totalValue,
-      profitLoss,
-      profitLossPercent,
-    };
+    return p ? toPosition(p) : undefined;
   }
   
   async updatePosition(userId: number, symbol: string, quantity: number, avgPrice: number, currentPrice: number): Promise<Position> {
@@ -211,35 +742,29 @@ export class DatabaseStorage implements IStorage {
       .from(positions)
       .where(and(eq(positions.userId, userId), eq(positions.symbol, symbol)));
     
-    let id: number;
+    let row: DbPosition;
     
     if (existing.length > 0) {
-      await db.update(positions)
-        .set({ quantity, averagePrice: avgPrice })
-        .where(and(eq(positions.userId, userId), eq(positions.symbol, symbol)));
-      id = existing[0].id;
+      [row] = await db.update(positions)
+        .set({ quantity, averagePrice: avgPrice, lastPrice: currentPrice })
+        .where(and(eq(positions.userId, userId), eq(positions.symbol, symbol)))
+        .returning();
     } else {
-      const [inserted] = await db.insert(positions)
-        .values({ userId, symbol, quantity, averagePrice: avgPrice })
+      [row] = await db.insert(positions)
+        .values({ userId, symbol, quantity, averagePrice: avgPrice, lastPrice: currentPrice })
         .returning();
-      id = inserted.id;
     }
     
-    const totalValue = quantity * currentPrice;
-    const costBasis = quantity * avgPrice;
-    const profitLoss = totalValue - costBasis;
-    const profitLossPercent = costBasis > 0 ? (profitLoss / costBasis) * 100 : 0;
+    return toPosition(row);
+  }
+  
+  async updatePositionPrice(userId: number, symbol: string, currentPrice: number): Promise<Position | undefined> {
+    const [row] = await db.update(positions)
+      .set({ lastPrice: currentPrice })
+      .where(and(eq(positions.userId, userId), eq(positions.symbol, symbol)))
+      .returning();
     
-    return {
-      id: String(id),
-      symbol,
-      quantity,
-      averagePrice: avgPrice,
-      currentPrice,
-      totalValue,
-      profitLoss,
-      profitLossPercent,
-    };
+    return row ? toPosition(row) : undefined;
   }
   
   async deletePosition(userId: number, symbol: string): Promise<void> {
@@ -247,44 +772,107 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(positions.userId, userId), eq(positions.symbol, symbol)));
   }
   
+  async getShortPositions(): Promise<(Position & { userId: number; borrowAccruedAt: number })[]> {
+    const shorts = await db.select()
+      .from(positions)
+      .where(lt(positions.quantity, 0));
+    
+    return shorts.map(p => ({
+      ...toPosition(p),
+      userId: p.userId,
+      borrowAccruedAt: (p.borrowAccruedAt ?? new Date()).getTime(),
+    }));
+  }
+  
+  async chargeBorrowFee(positionId: string, fee: number, accruedThrough: number): Promise<void> {
+    const [owner] = await db.select({ userId: positions.userId })
+      .from(positions)
+      .where(eq(positions.id, parseInt(positionId)));
+    
+    if (!owner) return;
+    
+    await db.transaction(async (tx) => {
+      // Account first, then position - the same lock order trades use
+      const account = await this.lockAccount(tx, owner.userId);
+      
+      const [position] = await tx.select()
+        .from(positions)
+        .where(eq(positions.id, parseInt(positionId)))
+        .for("update");
+      
+      // Covered since the monitor read it
+      if (!position || position.quantity >= 0) return;
+      
+      await tx.update(users)
+        .set({ cash: account.cash - fee })
+        .where(eq(users.id, account.id));
+      
+      await tx.update(positions)
+        .set({
+          borrowFees: position.borrowFees + fee,
+          borrowAccruedAt: new Date(accruedThrough),
+        })
+        .where(eq(positions.id, position.id));
+    });
+  }
+  
+  async getMarginAccountIds(): Promise<number[]> {
+    const rows = await db.select({ id: users.id })
+      .from(users)
+      .where(eq(users.accountType, "margin"));
+    
+    return rows.map(r => r.id);
+  }
+  
+  async chargeMarginInterest(userId: number, now: number = Date.now()): Promise<number> {
+    return db.transaction(async (tx) => {
+      const account = await this.lockAccount(tx, userId);
+      
+      if (!account.marginInterestAccruedAt) {
+        await tx.update(users)
+          .set({ marginInterestAccruedAt: new Date(now) })
+          .where(eq(users.id, userId));
+        return 0;
+      }
+      
+      const accruedAt = account.marginInterestAccruedAt.getTime();
+      const { days, interest } = marginInterestDue(Math.max(0, -account.cash), accruedAt, now);
+      if (days === 0) return 0;
+      
+      // Advance by whole days so partial days carry over to the next run
+      await tx.update(users)
+        .set({
+          cash: account.cash - interest,
+          marginInterestAccruedAt: new Date(accruedAt + days * DAY_MS),
+        })
+        .where(eq(users.id, userId));
+      
+      return interest;
+    });
+  }
+  
   async getOptionPositions(userId: number): Promise<OptionPosition[]> {
     const dbOptions = await db.select()
       .from(optionPositions)
       .where(eq(optionPositions.userId, userId));
     
-    return dbOptions.map(o => ({
-      id: String(o.id),
-      symbol: o.symbol,
-      optionType: o.optionType as "call" | "put",
-      strikePrice: o.strikePrice,
-      expirationDate: o.expirationDate,
-      contracts: o.contracts,
-      premium: o.premium,
-      currentPremium: o.premium, // Will be updated with real-time
-      profitLoss: 0,
-    }));
+    return dbOptions.map(o => toOptionPosition(o));
   }
   
-  async addOptionPosition(userId: number, option: Omit<OptionPosition, "id" | "profitLoss">): Promise<OptionPosition> {
-    const [inserted] = await db.insert(optionPositions)
-      .values({
-        userId,
-        symbol: option.symbol,
-        optionType: option.optionType,
-        strikePrice: option.strikePrice,
-        expirationDate: option.expirationDate,
-        contracts: option.contracts,
-        premium: option.premium,
-      })
-      .returning();
-    
-    const profitLoss = (option.currentPremium - option.premium) * option.contracts * 100;
-    
-    return {
-      ...option,
-      id: String(inserted.id),
-      profitLoss,
-    };
+  async updateOptionUnderlying(userId: number, symbol: string, underlyingPrice: number, impliedVolatility: number): Promise<void> {
+    await db.update(optionPositions)
+      .set({ underlyingPrice, impliedVolatility })
+      .where(and(eq(optionPositions.userId, userId), eq(optionPositions.symbol, symbol)));
+  }
+  
+  // Merges into the contract's existing position, so negative contracts
+  // reduce a long (or add to a short) and may close it entirely
+  async addOptionPosition(userId: number, option: Omit<OptionPosition, "id" | "profitLoss" | "strategyId">): Promise<OptionPosition | undefined> {
+    return db.transaction(async (tx) => {
+      const existing = await this.findOptionPosition(tx, userId, option);
+      const row = await this.applyOptionPosition(tx, userId, option, existing, option.contracts, option.premium);
+      return row ? toOptionPosition(row) : undefined;
+    });
   }
   
   async updateOptionPosition(userId: number, id: string, currentPremium: number): Promise<OptionPosition | undefined> {
@@ -297,21 +885,32 @@ export class DatabaseStorage implements IStorage {
     const profitLoss = (currentPremium - option.premium) * option.contracts * 100;
     
     return {
-      id,
-      symbol: option.symbol,
-      optionType: option.optionType as "call" | "put",
-      strikePrice: option.strikePrice,
-      expirationDate: option.expirationDate,
-      contracts: option.contracts,
-      premium: option.premium,
+      ...toOptionPosition(option),
       currentPremium,
       profitLoss,
+      greeks: null, // An externally supplied mark has no model behind it
     };
   }
   
-  async deleteOptionPosition(userId: number, id: string): Promise<void> {
-    await db.delete(optionPositions)
-      .where(and(eq(optionPositions.id, parseInt(id)), eq(optionPositions.userId, userId)));
+  // Removes some contracts from a position, or all of it when none are given
+  async deleteOptionPosition(userId: number, id: string, contracts?: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [position] = await tx.select()
+        .from(optionPositions)
+        .where(and(eq(optionPositions.id, parseInt(id)), eq(optionPositions.userId, userId)))
+        .for("update");
+      
+      if (!position) return;
+      
+      const remaining = Math.abs(position.contracts) - (contracts ?? Math.abs(position.contracts));
+      if (remaining <= 0) {
+        await tx.delete(optionPositions).where(eq(optionPositions.id, position.id));
+      } else {
+        await tx.update(optionPositions)
+          .set({ contracts: Math.sign(position.contracts) * remaining })
+          .where(eq(optionPositions.id, position.id));
+      }
+    });
   }
   
   async getTrades(userId: number): Promise<Trade[]> {
@@ -320,15 +919,7 @@ export class DatabaseStorage implements IStorage {
       .where(eq(trades.userId, userId))
       .orderBy(desc(trades.timestamp));
     
-    return dbTrades.map(t => ({
-      id: String(t.id),
-      symbol: t.symbol,
-      type: t.type as "buy" | "sell",
-      quantity: t.quantity,
-      price: t.price,
-      total: t.total,
-      timestamp: t.timestamp.getTime(),
-    }));
+    return dbTrades.map(toTrade);
   }
   
   async addTrade(userId: number, trade: Omit<Trade, "id">): Promise<Trade> {
@@ -340,18 +931,13 @@ export class DatabaseStorage implements IStorage {
         quantity: trade.quantity,
         price: trade.price,
         total: trade.total,
+        quoteTimestamp: trade.quoteTimestamp ? new Date(trade.quoteTimestamp) : null,
+        reason: trade.reason,
+        botId: trade.botId !== null ? parseInt(trade.botId) : null,
       })
       .returning();
     
-    return {
-      id: String(inserted.id),
-      symbol: inserted.symbol,
-      type: inserted.type as "buy" | "sell",
-      quantity: inserted.quantity,
-      price: inserted.price,
-      total: inserted.total,
-      timestamp: inserted.timestamp.getTime(),
-    };
+    return toTrade(inserted);
   }
   
   async getOptionTrades(userId: number): Promise<OptionTrade[]> {
@@ -360,18 +946,7 @@ export class DatabaseStorage implements IStorage {
       .where(eq(optionTrades.userId, userId))
       .orderBy(desc(optionTrades.timestamp));
     
-    return dbTrades.map(t => ({
-      id: String(t.id),
-      symbol: t.symbol,
-      optionType: t.optionType as "call" | "put",
-      strikePrice: t.strikePrice,
-      expirationDate: t.expirationDate,
-      contracts: t.contracts,
-      premium: t.premium,
-      total: t.total,
-      action: t.action as "buy" | "sell",
-      timestamp: t.timestamp.getTime(),
-    }));
+    return dbTrades.map(toOptionTrade);
   }
   
   async addOptionTrade(userId: number, trade: Omit<OptionTrade, "id">): Promise<OptionTrade> {
@@ -386,66 +961,893 @@ export class DatabaseStorage implements IStorage {
         premium: trade.premium,
         total: trade.total,
         action: trade.action,
+        strategyId: trade.strategyId !== null ? parseInt(trade.strategyId) : null,
       })
       .returning();
     
-    return {
-      id: String(inserted.id),
-      symbol: inserted.symbol,
-      optionType: inserted.optionType as "call" | "put",
-      strikePrice: inserted.strikePrice,
-      expirationDate: inserted.expirationDate,
-      contracts: inserted.contracts,
-      premium: inserted.premium,
-      total: inserted.total,
-      action: inserted.action as "buy" | "sell",
-      timestamp: inserted.timestamp.getTime(),
-    };
+    return toOptionTrade(inserted);
   }
   
-  async getWatchlist(userId: number): Promise<WatchlistItem[]> {
-    const items = await db.select()
-      .from(watchlist)
-      .where(eq(watchlist.userId, userId))
-      .orderBy(desc(watchlist.addedAt));
+  // Locks the user row for the rest of the transaction and returns its cash.
+  // Every trade takes this lock first, so trades for one user are serialized.
+  private async lockAccount(tx: Transaction, userId: number): Promise<User> {
+    const [user] = await tx.select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
     
-    return items.map(w => ({
-      symbol: w.symbol,
-      name: w.name,
-      addedAt: w.addedAt.getTime(),
-    }));
+    if (!user) {
+      throw new TradeRejectedError("User not found");
+    }
+    
+    return user;
   }
   
-  async addToWatchlist(userId: number, symbol: string, name: string): Promise<WatchlistItem> {
-    const existing = await db.select()
-      .from(watchlist)
-      .where(and(eq(watchlist.userId, userId), eq(watchlist.symbol, symbol)));
+  // Applies a stock fill to cash and position rows and records the trade.
+  // Must run inside a transaction that already holds the account lock;
+  // buys may only spend cash not reserved by other open orders. Selling past
+  // zero opens a short when the account has opted in. Margin accounts are
+  // instead limited by leverage. Forced trades (liquidations, assignments) skip checks.
+  private async applyTrade(
+    tx: Transaction,
+    account: User,
+    reserved: number,
+    order: TradeOrder,
+    reason: TradeReason | null = null,
+    botId: number | null = null,
+  ): Promise<DbTrade> {
+    const userId = account.id;
+    const { symbol, type, quantity, price } = order;
+    const total = quantity * price;
     
-    if (existing.length > 0) {
-      return {
-        symbol: existing[0].symbol,
-        name: existing[0].name,
-        addedAt: existing[0].addedAt.getTime(),
-      };
+    const [existing] = await tx.select()
+      .from(positions)
+      .where(and(eq(positions.userId, userId), eq(positions.symbol, symbol)))
+      .for("update");
+    
+    const held = existing?.quantity ?? 0;
+    const signedQuantity = type === "buy" ? quantity : -quantity;
+    const newQuantity = held + signedQuantity;
+    
+    if (type === "sell" && newQuantity < 0 && !account.shortingEnabled) {
+      throw new TradeRejectedError("Insufficient shares to sell");
     }
     
-    const [inserted] = await db.insert(watchlist)
-      .values({ userId, symbol, name })
+    const forced = reason !== null && FORCED_TRADE_REASONS.includes(reason);
+    
+    // Shares covering written calls cannot be sold out from under them
+    if (type === "sell" && !forced) {
+      const shortCalls = await this.getShortCallContracts(tx, userId, symbol);
+      if (shortCalls > 0 && newQuantity < shortCalls * 100) {
+        throw new TradeRejectedError("Shares are covering written calls");
+      }
+    }
+    
+    if (forced) {
+      // Forced trade: always goes through
+    } else if (account.accountType === "margin") {
+      // Only trades that grow gross exposure need margin behind them
+      if (Math.abs(newQuantity) > Math.abs(held)) {
+        const others = await tx.select()
+          .from(positions)
+          .where(and(eq(positions.userId, userId), ne(positions.symbol, symbol)));
+        const after = positionsExposure(account.cash + (type === "buy" ? -total : total), [
+          ...others,
+          { quantity: newQuantity, averagePrice: price, lastPrice: price },
+        ]);
+        const gross = after.longMarketValue + after.shortMarketValue;
+        
+        if (gross + reserved > MARGIN_MAX_LEVERAGE * accountEquity(after)) {
+          throw new TradeRejectedError("Insufficient buying power");
+        }
+      }
+    } else if (type === "buy") {
+      if (total > account.cash - reserved) {
+        throw new TradeRejectedError(reserved > 0 ? "Insufficient buying power" : "Insufficient funds");
+      }
+    } else if (newQuantity < 0) {
+      const otherShorts = await tx.select()
+        .from(positions)
+        .where(and(eq(positions.userId, userId), lt(positions.quantity, 0)));
+      const shortMarketValue = otherShorts
+        .filter(p => p.symbol !== symbol)
+        .reduce((sum, p) => sum + Math.abs(p.quantity) * (p.lastPrice ?? p.averagePrice), 0)
+        + Math.abs(newQuantity) * price;
+      
+      if (account.cash + total - reserved < shortInitialRequirement(shortMarketValue)) {
+        throw new TradeRejectedError("Insufficient margin to open short");
+      }
+    }
+    
+    if (newQuantity === 0) {
+      await tx.delete(positions).where(eq(positions.id, existing!.id));
+    } else {
+      // Adding in the same direction averages the basis, reducing keeps it,
+      // and crossing through zero starts a new basis at the fill price
+      let averagePrice = price;
+      if (held !== 0 && Math.sign(held) === Math.sign(signedQuantity)) {
+        averagePrice = (Math.abs(held) * existing!.averagePrice + quantity * price) / Math.abs(newQuantity);
+      } else if (held !== 0 && Math.sign(held) === Math.sign(newQuantity)) {
+        averagePrice = existing!.averagePrice;
+      }
+      
+      // Borrow accrues from when a short opens and stops when it is covered
+      let borrowAccruedAt: Date | null = null;
+      if (newQuantity < 0) {
+        borrowAccruedAt = held < 0 && existing?.borrowAccruedAt ? existing.borrowAccruedAt : new Date();
+      }
+      
+      if (existing) {
+        await tx.update(positions)
+          .set({ quantity: newQuantity, averagePrice, lastPrice: price, borrowAccruedAt })
+          .where(eq(positions.id, existing.id));
+      } else {
+        await tx.insert(positions)
+          .values({ userId, symbol, quantity: newQuantity, averagePrice, lastPrice: price, borrowAccruedAt });
+      }
+    }
+    
+    await tx.update(users)
+      .set({ cash: account.cash + (type === "buy" ? -total : total) })
+      .where(eq(users.id, userId));
+    
+    const [row] = await tx.insert(trades)
+      .values({
+        userId,
+        symbol,
+        type,
+        quantity,
+        price,
+        total,
+        quoteTimestamp: order.quoteTimestamp ? new Date(order.quoteTimestamp) : null,
+        reason,
+        botId,
+      })
       .returning();
     
-    return {
-      symbol: inserted.symbol,
-      name: inserted.name,
-      addedAt: inserted.addedAt.getTime(),
-    };
+    return row;
   }
   
-  async removeFromWatchlist(userId: number, symbol: string): Promise<void> {
-    await db.delete(watchlist)
-      .where(and(eq(watchlist.userId, userId), eq(watchlist.symbol, symbol)));
+  async executeTrade(userId: number, order: TradeOrder, options: { reason?: TradeReason } = {}): Promise<Trade> {
+    const inserted = await db.transaction(async (tx) => {
+      const account = await this.lockAccount(tx, userId);
+      const reserved = await this.getReservedCash(tx, userId);
+      return this.applyTrade(tx, account, reserved, order, options.reason ?? null);
+    });
+    
+    return toTrade(inserted);
   }
   
-  async getCash(userId: number): Promise<number> {
+  // Buys close shorts before opening longs, and sells close longs before
+  // writing new shorts. Written calls must be covered by shares and written
+  // puts secured by cash, which stays reserved until the put is closed.
+  async executeOptionTrade(userId: number, order: OptionTradeOrder): Promise<OptionTrade> {
+    const total = order.contracts * order.premium * 100;
+    
+    const inserted = await db.transaction(async (tx) => {
+      const account = await this.lockAccount(tx, userId);
+      const existing = await this.findOptionPosition(tx, userId, order);
+      const reserved = await this.getReservedCash(tx, userId);
+      
+      const held = existing?.contracts ?? 0;
+      const signedContracts = order.action === "buy" ? order.contracts : -order.contracts;
+      const newContracts = held + signedContracts;
+      
+      if (order.action === "buy") {
+        // Closing a written put frees the cash securing it
+        const closed = held < 0 ? Math.min(order.contracts, -held) : 0;
+        const released = order.optionType === "put" ? closed * order.strikePrice * 100 : 0;
+        if (total > account.cash - (reserved - released)) {
+          throw new TradeRejectedError(reserved > 0 ? "Insufficient buying power" : "Insufficient funds");
+        }
+      } else if (newContracts < 0) {
+        const opened = -newContracts - Math.max(0, -held);
+        
+        if (order.optionType === "call") {
+          const shortCalls = await this.getShortCallContracts(tx, userId, order.symbol);
+          const [stock] = await tx.select()
+            .from(positions)
+            .where(and(eq(positions.userId, userId), eq(positions.symbol, order.symbol)));
+          
+          if ((stock?.quantity ?? 0) < (shortCalls + opened) * 100) {
+            throw new TradeRejectedError("Writing calls requires 100 shares per contract");
+          }
+        } else if (account.cash + total - reserved < opened * order.strikePrice * 100) {
+          throw new TradeRejectedError("Writing puts requires cash to secure the strike");
+        }
+      }
+      
+      await this.applyOptionPosition(tx, userId, order, existing, signedContracts, order.premium);
+      
+      await tx.update(users)
+        .set({ cash: account.cash + (order.action === "buy" ? -total : total) })
+        .where(eq(users.id, userId));
+      
+      const [row] = await tx.insert(optionTrades)
+        .values({
+          userId,
+          symbol: order.symbol,
+          optionType: order.optionType,
+          strikePrice: order.strikePrice,
+          expirationDate: order.expirationDate,
+          contracts: order.contracts,
+          premium: order.premium,
+          total,
+          action: order.action,
+        })
+        .returning();
+      
+      return row;
+    });
+    
+    return toOptionTrade(inserted);
+  }
+  
+  // The one position row for a contract (symbol, type, strike, expiration),
+  // standalone or within a strategy
+  private async findOptionPosition(
+    conn: typeof db | Transaction,
+    userId: number,
+    contract: OptionContract,
+    strategyId: number | null = null,
+  ): Promise<DbOptionPosition | undefined> {
+    const [position] = await conn.select()
+      .from(optionPositions)
+      .where(and(
+        eq(optionPositions.userId, userId),
+        eq(optionPositions.symbol, contract.symbol),
+        eq(optionPositions.optionType, contract.optionType),
+        eq(optionPositions.strikePrice, contract.strikePrice),
+        eq(optionPositions.expirationDate, contract.expirationDate),
+        strategyId === null ? isNull(optionPositions.strategyId) : eq(optionPositions.strategyId, strategyId),
+      ))
+      .for("update");
+    
+    return position;
+  }
+  
+  // Adds signed contracts to a contract's position the way stock trades do:
+  // same direction averages the premium, reducing keeps it, crossing zero
+  // starts over at the new premium, and reaching zero removes the row.
+  private async applyOptionPosition(
+    conn: typeof db | Transaction,
+    userId: number,
+    contract: OptionContract & { settlement?: OptionSettlement; strategyId?: number },
+    existing: DbOptionPosition | undefined,
+    signedContracts: number,
+    premium: number,
+  ): Promise<DbOptionPosition | undefined> {
+    const held = existing?.contracts ?? 0;
+    const newContracts = held + signedContracts;
+    
+    if (newContracts === 0) {
+      await conn.delete(optionPositions).where(eq(optionPositions.id, existing!.id));
+      return undefined;
+    }
+    
+    let averagePremium = premium;
+    if (held !== 0 && Math.sign(held) === Math.sign(signedContracts)) {
+      averagePremium = (Math.abs(held) * existing!.premium + Math.abs(signedContracts) * premium) / Math.abs(newContracts);
+    } else if (held !== 0 && Math.sign(held) === Math.sign(newContracts)) {
+      averagePremium = existing!.premium;
+    }
+    
+    if (existing) {
+      const [updated] = await conn.update(optionPositions)
+        .set({ contracts: newContracts, premium: averagePremium })
+        .where(eq(optionPositions.id, existing.id))
+        .returning();
+      return updated;
+    }
+    
+    const [inserted] = await conn.insert(optionPositions)
+      .values({
+        userId,
+        symbol: contract.symbol,
+        optionType: contract.optionType,
+        strikePrice: contract.strikePrice,
+        expirationDate: contract.expirationDate,
+        contracts: newContracts,
+        premium: averagePremium,
+        settlement: contract.settlement ?? "cash",
+        strategyId: contract.strategyId ?? null,
+      })
+      .returning();
+    return inserted;
+  }
+  
+  private async getShortCallContracts(conn: typeof db | Transaction, userId: number, symbol: string): Promise<number> {
+    const shortCalls = await conn.select()
+      .from(optionPositions)
+      .where(and(
+        eq(optionPositions.userId, userId),
+        eq(optionPositions.symbol, symbol),
+        eq(optionPositions.optionType, "call"),
+        lt(optionPositions.contracts, 0),
+        isNull(optionPositions.strategyId), // Strategy legs carry their own collateral
+      ));
+    
+    return shortCalls.reduce((sum, o) => sum - o.contracts, 0);
+  }
+  
+  async executeOptionStrategy(userId: number, strategy: StrategyExecution): Promise<OptionStrategy> {
+    const cost = strategy.netPremium * strategy.quantity * 100;
+    
+    const strategyId = await db.transaction(async (tx) => {
+      const account = await this.lockAccount(tx, userId);
+      const reserved = await this.getReservedCash(tx, userId);
+      
+      // Debits are paid now; credits arrive now but the collateral stays reserved
+      if (account.cash - cost - reserved < strategy.collateral) {
+        throw new TradeRejectedError(reserved > 0 || strategy.collateral > 0 ? "Insufficient buying power" : "Insufficient funds");
+      }
+      
+      const [row] = await tx.insert(optionStrategies)
+        .values({
+          userId,
+          symbol: strategy.symbol,
+          strategyType: strategy.strategyType,
+          quantity: strategy.quantity,
+          netPremium: strategy.netPremium,
+          collateral: strategy.collateral,
+        })
+        .returning();
+      
+      for (const leg of strategy.legs) {
+        const contract = { ...leg, symbol: strategy.symbol, strategyId: row.id };
+        const existing = await this.findOptionPosition(tx, userId, contract, row.id);
+        await this.applyOptionPosition(tx, userId, contract, existing, leg.contracts, leg.premium);
+        
+        await tx.insert(optionTrades)
+          .values({
+            userId,
+            symbol: strategy.symbol,
+            optionType: leg.optionType,
+            strikePrice: leg.strikePrice,
+            expirationDate: leg.expirationDate,
+            contracts: Math.abs(leg.contracts),
+            premium: leg.premium,
+            total: Math.abs(leg.contracts) * leg.premium * 100,
+            action: leg.contracts > 0 ? "buy" : "sell",
+            strategyId: row.id,
+          });
+      }
+      
+      await tx.update(users)
+        .set({ cash: account.cash - cost })
+        .where(eq(users.id, userId));
+      
+      return row.id;
+    });
+    
+    const strategies = await this.getOptionStrategies(userId);
+    return strategies.find(st => st.id === String(strategyId))!;
+  }
+  
+  // Open strategies that still have legs, each with its payoff at expiry
+  async getOptionStrategies(userId: number): Promise<OptionStrategy[]> {
+    const rows = await db.select()
+      .from(optionStrategies)
+      .where(and(eq(optionStrategies.userId, userId), isNull(optionStrategies.closedAt)))
+      .orderBy(desc(optionStrategies.createdAt));
+    
+    const legRows = await db.select()
+      .from(optionPositions)
+      .where(eq(optionPositions.userId, userId));
+    
+    return rows.flatMap(st => {
+      const legs = legRows.filter(o => o.strategyId === st.id);
+      if (legs.length === 0) return [];
+      
+      const underlyingPrice = legs[0].underlyingPrice ?? legs[0].strikePrice;
+      const volatility = legs[0].impliedVolatility ?? DEFAULT_VOLATILITY;
+      
+      return [{
+        id: String(st.id),
+        symbol: st.symbol,
+        strategyType: st.strategyType as StrategyType,
+        quantity: st.quantity,
+        netPremium: st.netPremium,
+        collateral: st.collateral,
+        legs: legs.map(o => toOptionPosition(o)),
+        payoff: strategyPayoff(legs.map(o => ({
+          optionType: o.optionType as OptionType,
+          strikePrice: o.strikePrice,
+          expirationDate: o.expirationDate,
+          contracts: o.contracts,
+          premium: o.premium,
+        })), underlyingPrice, volatility),
+        createdAt: st.createdAt.getTime(),
+      }];
+    });
+  }
+  
+  // Reverses every remaining leg at the given per-share marks in one transaction
+  async closeOptionStrategy(userId: number, id: string, marks: Map<string, number>): Promise<OptionTrade[] | undefined> {
+    const inserted = await db.transaction(async (tx) => {
+      const account = await this.lockAccount(tx, userId);
+      
+      const [strategy] = await tx.select()
+        .from(optionStrategies)
+        .where(and(eq(optionStrategies.id, parseInt(id)), eq(optionStrategies.userId, userId)))
+        .for("update");
+      
+      if (!strategy || strategy.closedAt) return undefined;
+      
+      const legs = await tx.select()
+        .from(optionPositions)
+        .where(eq(optionPositions.strategyId, strategy.id))
+        .for("update");
+      
+      let cash = account.cash;
+      const rows: DbOptionTrade[] = [];
+      for (const leg of legs) {
+        const premium = marks.get(String(leg.id));
+        if (premium === undefined) {
+          throw new TradeRejectedError("No price available for every leg");
+        }
+        
+        const contracts = Math.abs(leg.contracts);
+        const total = contracts * premium * 100;
+        cash += leg.contracts > 0 ? total : -total;
+        
+        await tx.delete(optionPositions).where(eq(optionPositions.id, leg.id));
+        
+        const [row] = await tx.insert(optionTrades)
+          .values({
+            userId,
+            symbol: leg.symbol,
+            optionType: leg.optionType,
+            strikePrice: leg.strikePrice,
+            expirationDate: leg.expirationDate,
+            contracts,
+            premium,
+            total,
+            action: leg.contracts > 0 ? "sell" : "buy",
+            strategyId: strategy.id,
+          })
+          .returning();
+        rows.push(row);
+      }
+      
+      await tx.update(users)
+        .set({ cash })
+        .where(eq(users.id, userId));
+      
+      await tx.update(optionStrategies)
+        .set({ closedAt: new Date() })
+        .where(eq(optionStrategies.id, strategy.id));
+      
+      return rows;
+    });
+    
+    return inserted?.map(toOptionTrade);
+  }
+  
+  async getExpiringOptionPositions(throughDate: string): Promise<(OptionPosition & { userId: number })[]> {
+    // Expiration dates are YYYY-MM-DD, so they compare correctly as strings.
+    // Any that are not could never match, so they are returned to be settled.
+    const rows = await db.select()
+      .from(optionPositions)
+      .where(or(
+        lte(optionPositions.expirationDate, throughDate),
+        sql`${optionPositions.expirationDate} !~ ${ISO_DATE_PATTERN}`,
+      ));
+    
+    return rows.map(o => ({ ...toOptionPosition(o), userId: o.userId }));
+  }
+  
+  // Rewrites free-form expirations from before dates were validated as
+  // YYYY-MM-DD where they parse, and returns how many were rewritten
+  async normalizeOptionExpirations(): Promise<number> {
+    const rows = await db.select({ id: optionPositions.id, expirationDate: optionPositions.expirationDate })
+      .from(optionPositions)
+      .where(sql`${optionPositions.expirationDate} !~ ${ISO_DATE_PATTERN}`);
+    
+    let normalized = 0;
+    for (const row of rows) {
+      const expirationDate = normalizeExpirationDate(row.expirationDate);
+      if (!expirationDate) continue;
+      
+      await db.update(optionPositions)
+        .set({ expirationDate })
+        .where(eq(optionPositions.id, row.id));
+      normalized++;
+    }
+    
+    return normalized;
+  }
+  
+  async settleExpiredOption(positionId: string, underlyingPrice: number, settlement?: OptionSettlement): Promise<OptionTrade | undefined> {
+    const [owner] = await db.select({ userId: optionPositions.userId })
+      .from(optionPositions)
+      .where(eq(optionPositions.id, parseInt(positionId)));
+    
+    if (!owner) return undefined;
+    
+    const inserted = await db.transaction(async (tx) => {
+      // Account first, then position - the same lock order trades use
+      const account = await this.lockAccount(tx, owner.userId);
+      const position = await this.lockOptionPosition(tx, positionId);
+      if (!position) return undefined;
+      
+      return this.applySettlement(tx, account, position, Math.abs(position.contracts), underlyingPrice, settlement ?? position.settlement as OptionSettlement);
+    });
+    
+    return inserted ? toOptionTrade(inserted) : undefined;
+  }
+  
+  async exerciseOption(
+    userId: number,
+    positionId: string,
+    underlyingPrice: number,
+    request: { contracts?: number; settlement: OptionSettlement },
+  ): Promise<OptionTrade | undefined> {
+    const inserted = await db.transaction(async (tx) => {
+      const account = await this.lockAccount(tx, userId);
+      const position = await this.lockOptionPosition(tx, positionId);
+      if (!position || position.userId !== userId) return undefined;
+      
+      if (position.contracts < 0) {
+        throw new TradeRejectedError("Only long options can be exercised");
+      }
+      if (position.strategyId !== null) {
+        throw new TradeRejectedError("Close the strategy instead of exercising one of its legs");
+      }
+      if (intrinsicValue(position.optionType as OptionType, position.strikePrice, underlyingPrice) === 0) {
+        throw new TradeRejectedError("Option is out of the money");
+      }
+      
+      const contracts = request.contracts ?? position.contracts;
+      if (contracts > position.contracts) {
+        throw new TradeRejectedError("Cannot exercise more contracts than held");
+      }
+      
+      return this.applySettlement(tx, account, position, contracts, underlyingPrice, request.settlement);
+    });
+    
+    return inserted ? toOptionTrade(inserted) : undefined;
+  }
+  
+  async updateOptionSettlement(userId: number, positionId: string, settlement: OptionSettlement): Promise<OptionPosition | undefined> {
+    const [updated] = await db.update(optionPositions)
+      .set({ settlement })
+      .where(and(eq(optionPositions.id, parseInt(positionId)), eq(optionPositions.userId, userId)))
+      .returning();
+    
+    return updated ? toOptionPosition(updated) : undefined;
+  }
+  
+  private async lockOptionPosition(tx: Transaction, positionId: string): Promise<DbOptionPosition | undefined> {
+    const [position] = await tx.select()
+      .from(optionPositions)
+      .where(eq(optionPositions.id, parseInt(positionId)))
+      .for("update");
+    
+    return position;
+  }
+  
+  // Settles contracts of a locked option position at the underlying price.
+  // In-the-money longs are exercised and shorts assigned, either for cash at
+  // intrinsic value or by trading shares at the strike; the rest expire.
+  private async applySettlement(
+    tx: Transaction,
+    account: User,
+    position: DbOptionPosition,
+    contracts: number,
+    underlyingPrice: number,
+    settlement: OptionSettlement,
+  ): Promise<DbOptionTrade> {
+    const isLong = position.contracts > 0;
+    const optionType = position.optionType as OptionType;
+    const intrinsic = intrinsicValue(optionType, position.strikePrice, underlyingPrice);
+    const value = intrinsic * contracts * 100;
+    
+    let action: OptionTradeAction = "expire";
+    if (intrinsic > 0) {
+      action = isLong ? "exercise" : "assign";
+      
+      if (settlement === "deliver") {
+        // Long calls and short puts end up buying the shares, the others selling
+        const buysShares = (optionType === "call") === isLong;
+        const reserved = await this.getReservedCash(tx, account.id);
+        await this.applyTrade(tx, account, reserved, {
+          symbol: position.symbol,
+          type: buysShares ? "buy" : "sell",
+          quantity: contracts * 100,
+          price: position.strikePrice,
+          quoteTimestamp: null,
+        }, isLong ? "option_exercise" : "option_assignment");
+      } else {
+        await tx.update(users)
+          .set({ cash: account.cash + (isLong ? value : -value) })
+          .where(eq(users.id, account.id));
+      }
+    }
+    
+    const remaining = Math.abs(position.contracts) - contracts;
+    if (remaining === 0) {
+      await tx.delete(optionPositions).where(eq(optionPositions.id, position.id));
+    } else {
+      await tx.update(optionPositions)
+        .set({ contracts: isLong ? remaining : -remaining })
+        .where(eq(optionPositions.id, position.id));
+    }
+    
+    const [row] = await tx.insert(optionTrades)
+      .values({
+        userId: account.id,
+        symbol: position.symbol,
+        optionType,
+        strikePrice: position.strikePrice,
+        expirationDate: position.expirationDate,
+        contracts,
+        premium: intrinsic,
+        total: value,
+        action,
+      })
+      .returning();
+    
+    return row;
+  }
+  
+  async getOrders(userId: number, status?: OrderStatus): Promise<Order[]> {
+    const conditions = [eq(orders.userId, userId)];
+    if (status) {
+      conditions.push(eq(orders.status, status));
+    }
+    
+    const dbOrders = await db.select()
+      .from(orders)
+      .where(and(...conditions))
+      .orderBy(desc(orders.createdAt));
+    
+    return dbOrders.map(toOrder);
+  }
+  
+  async getOrder(userId: number, id: string): Promise<Order | undefined> {
+    const [order] = await db.select()
+      .from(orders)
+      .where(and(eq(orders.id, parseInt(id)), eq(orders.userId, userId)));
+    
+    return order ? toOrder(order) : undefined;
+  }
+  
+  async getOpenOrders(): Promise<(Order & { userId: number })[]> {
+    const dbOrders = await db.select()
+      .from(orders)
+      .where(eq(orders.status, "open"))
+      .orderBy(orders.createdAt);
+    
+    return dbOrders.map(o => ({ ...toOrder(o), userId: o.userId }));
+  }
+  
+  // What a new resting buy may still reserve: cash for cash accounts,
+  // leveraged buying power for margin accounts, less what is already reserved
+  private async availableForOrders(tx: Transaction, account: User, reserved: number): Promise<number> {
+    if (account.accountType !== "margin") {
+      return account.cash - reserved;
+    }
+    
+    const rows = await tx.select()
+      .from(positions)
+      .where(eq(positions.userId, account.id));
+    return marginBuyingPower(positionsExposure(account.cash, rows)) - reserved;
+  }
+  
+  async createOrder(userId: number, order: InsertOrder): Promise<Order> {
+    const inserted = await db.transaction(async (tx) => {
+      const account = await this.lockAccount(tx, userId);
+      
+      const cost = orderReservation({
+        side: order.side,
+        quantity: order.quantity,
+        limitPrice: order.limitPrice ?? null,
+        stopPrice: order.stopPrice ?? null,
+      });
+      if (cost > 0) {
+        const reserved = await this.getReservedCash(tx, userId);
+        if (cost > await this.availableForOrders(tx, account, reserved)) {
+          throw new TradeRejectedError("Insufficient buying power");
+        }
+      }
+      
+      const [row] = await tx.insert(orders)
+        .values({
+          userId,
+          symbol: order.symbol,
+          side: order.side,
+          orderType: order.orderType,
+          quantity: order.quantity,
+          limitPrice: order.limitPrice ?? null,
+          stopPrice: order.stopPrice ?? null,
+          timeInForce: order.timeInForce,
+        })
+        .returning();
+      
+      return row;
+    });
+    
+    return toOrder(inserted);
+  }
+  
+  async replaceOrder(userId: number, id: string, changes: ReplaceOrder): Promise<Order | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const account = await this.lockAccount(tx, userId);
+      
+      const [existing] = await tx.select()
+        .from(orders)
+        .where(and(
+          eq(orders.id, parseInt(id)),
+          eq(orders.userId, userId),
+          eq(orders.status, "open"),
+        ))
+        .for("update");
+      
+      if (!existing) return undefined;
+      
+      const cost = orderReservation({
+        side: existing.side,
+        quantity: changes.quantity ?? existing.quantity,
+        limitPrice: changes.limitPrice ?? existing.limitPrice,
+        stopPrice: changes.stopPrice ?? existing.stopPrice,
+      });
+      if (cost > 0) {
+        const reserved = await this.getReservedCash(tx, userId, existing.id);
+        if (cost > await this.availableForOrders(tx, account, reserved)) {
+          throw new TradeRejectedError("Insufficient buying power");
+        }
+      }
+      
+      const [row] = await tx.update(orders)
+        .set({
+          ...changes,
+          triggeredAt: null, // a replaced stop-limit must trigger again
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, existing.id))
+        .returning();
+      
+      return row;
+    });
+    
+    return updated ? toOrder(updated) : undefined;
+  }
+  
+  async cancelOrder(userId: number, id: string): Promise<Order | undefined> {
+    const cancelled = await db.transaction(async (tx) => {
+      // Account first, then order, so releasing the reservation waits out a fill
+      await this.lockAccount(tx, userId);
+      
+      const [row] = await tx.update(orders)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(and(
+          eq(orders.id, parseInt(id)),
+          eq(orders.userId, userId),
+          eq(orders.status, "open"),
+        ))
+        .returning();
+      
+      return row;
+    });
+    
+    return cancelled ? toOrder(cancelled) : undefined;
+  }
+  
+  async markOrderTriggered(id: string): Promise<void> {
+    await db.update(orders)
+      .set({ triggeredAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(orders.id, parseInt(id)), eq(orders.status, "open")));
+  }
+  
+  async fillOrder(id: string, price: number, quoteTimestamp: number): Promise<Trade | undefined> {
+    const [owner] = await db.select({ userId: orders.userId })
+      .from(orders)
+      .where(eq(orders.id, parseInt(id)));
+    
+    if (!owner) return undefined;
+    
+    const inserted = await db.transaction(async (tx) => {
+      // Account first, then order - the same lock order replaceOrder and cancelOrder use
+      const account = await this.lockAccount(tx, owner.userId);
+      
+      const [order] = await tx.select()
+        .from(orders)
+        .where(eq(orders.id, parseInt(id)))
+        .for("update");
+      
+      // Cancelled or replaced while the matcher was evaluating it
+      if (!order || order.status !== "open") {
+        return undefined;
+      }
+      
+      const reserved = await this.getReservedCash(tx, order.userId, order.id);
+      const trade = await this.applyTrade(tx, account, reserved, {
+        symbol: order.symbol,
+        type: order.side as TradeType,
+        quantity: order.quantity,
+        price,
+        quoteTimestamp,
+      });
+      
+      await tx.update(orders)
+        .set({
+          status: "filled",
+          tradeId: trade.id,
+          filledPrice: price,
+          filledAt: trade.timestamp,
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, order.id));
+      
+      return trade;
+    });
+    
+    if (!inserted) return undefined;
+    
+    return toTrade(inserted);
+  }
+  
+  async closeOrder(id: string, status: "expired" | "rejected", reason: string): Promise<void> {
+    const [owner] = await db.select({ userId: orders.userId })
+      .from(orders)
+      .where(eq(orders.id, parseInt(id)));
+    
+    if (!owner) return;
+    
+    await db.transaction(async (tx) => {
+      // Same lock order as cancelOrder and fillOrder
+      await this.lockAccount(tx, owner.userId);
+      
+      await tx.update(orders)
+        .set({ status, statusReason: reason, updatedAt: new Date() })
+        .where(and(eq(orders.id, parseInt(id)), eq(orders.status, "open")));
+    });
+  }
+  
+  async getWatchlist(userId: number): Promise<WatchlistItem[]> {
+    const items = await db.select()
+      .from(watchlist)
+      .where(eq(watchlist.userId, userId))
+      .orderBy(desc(watchlist.addedAt));
+    
+    return items.map(w => ({
+      symbol: w.symbol,
+      name: w.name,
+      addedAt: w.addedAt.getTime(),
+    }));
+  }
+  
+  async addToWatchlist(userId: number, symbol: string, name: string): Promise<WatchlistItem> {
+    const existing = await db.select()
+      .from(watchlist)
+      .where(and(eq(watchlist.userId, userId), eq(watchlist.symbol, symbol)));
+    
+    if (existing.length > 0) {
+      return {
+        symbol: existing[0].symbol,
+        name: existing[0].name,
+        addedAt: existing[0].addedAt.getTime(),
+      };
+    }
+    
+    const [inserted] = await db.insert(watchlist)
+      .values({ userId, symbol, name })
+      .returning();
+    
+    return {
+      symbol: inserted.symbol,
+      name: inserted.name,
+      addedAt: inserted.addedAt.getTime(),
+    };
+  }
+  
+  async removeFromWatchlist(userId: number, symbol: string): Promise<void> {
+    await db.delete(watchlist)
+      .where(and(eq(watchlist.userId, userId), eq(watchlist.symbol, symbol)));
+  }
+  
+  async getCash(userId: number): Promise<number> {
     const [user] = await db.select().from(users).where(eq(users.id, userId));
     return user?.cash ?? STARTING_CASH;
   }
@@ -479,6 +1881,404 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  async getCandles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<Candle[]> {
+    const rows = await db.select()
+      .from(candles)
+      .where(and(
+        eq(candles.symbol, symbol),
+        eq(candles.resolution, resolution),
+        gte(candles.time, new Date(from)),
+        lte(candles.time, new Date(to))
+      ))
+      .orderBy(candles.time);
+    
+    return rows.map(c => ({
+      time: c.time.getTime(),
+      open: c.open,
+      high: c.high,
+      low: c.low,
+      close: c.close,
+      volume: c.volume,
+    }));
+  }
+  
+  // Upserts so a bar fetched while still forming is replaced by its final values
+  async saveCandles(symbol: string, resolution: CandleResolution, bars: Candle[]): Promise<void> {
+    // Keep each statement well under Postgres' parameter limit
+    for (let i = 0; i < bars.length; i += 1000) {
+      await db.insert(candles)
+        .values(bars.slice(i, i + 1000).map(bar => ({
+          symbol,
+          resolution,
+          time: new Date(bar.time),
+          open: bar.open,
+          high: bar.high,
+          low: bar.low,
+          close: bar.close,
+          volume: bar.volume,
+        })))
+        .onConflictDoUpdate({
+          target: [candles.symbol, candles.resolution, candles.time],
+          set: {
+            open: sql`excluded.open`,
+            high: sql`excluded.high`,
+            low: sql`excluded.low`,
+            close: sql`excluded.close`,
+            volume: sql`excluded.volume`,
+          },
+        });
+    }
+  }
+  
+  async getCandleCoverage(symbol: string, resolution: CandleResolution): Promise<{ from: number; to: number } | undefined> {
+    const [row] = await db.select()
+      .from(candleCoverage)
+      .where(and(eq(candleCoverage.symbol, symbol), eq(candleCoverage.resolution, resolution)));
+    
+    return row ? { from: row.coveredFrom.getTime(), to: row.coveredTo.getTime() } : undefined;
+  }
+  
+  async setCandleCoverage(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<void> {
+    await db.insert(candleCoverage)
+      .values({ symbol, resolution, coveredFrom: new Date(from), coveredTo: new Date(to) })
+      .onConflictDoUpdate({
+        target: [candleCoverage.symbol, candleCoverage.resolution],
+        set: { coveredFrom: new Date(from), coveredTo: new Date(to) },
+      });
+  }
+  
+  async createBacktest(userId: number, name: string, config: BacktestConfig, result: BacktestResult): Promise<Backtest> {
+    const [row] = await db.insert(backtests)
+      .values({ userId, name, config, result })
+      .returning();
+    
+    return toBacktest(row);
+  }
+  
+  // Only the stats are read out of the stored result; curves can run to thousands of points
+  async getBacktests(userId: number): Promise<BacktestSummary[]> {
+    const rows = await db.select({
+      id: backtests.id,
+      name: backtests.name,
+      config: backtests.config,
+      stats: sql<BacktestStats>`${backtests.result}->'stats'`,
+      createdAt: backtests.createdAt,
+    })
+      .from(backtests)
+      .where(eq(backtests.userId, userId))
+      .orderBy(desc(backtests.createdAt));
+    
+    return rows.map(b => ({ ...b, id: String(b.id), createdAt: b.createdAt.getTime() }));
+  }
+  
+  async getBacktest(userId: number, id: string): Promise<Backtest | undefined> {
+    const [row] = await db.select()
+      .from(backtests)
+      .where(and(eq(backtests.id, parseInt(id)), eq(backtests.userId, userId)));
+    
+    return row ? toBacktest(row) : undefined;
+  }
+  
+  async deleteBacktest(userId: number, id: string): Promise<boolean> {
+    const deleted = await db.delete(backtests)
+      .where(and(eq(backtests.id, parseInt(id)), eq(backtests.userId, userId)))
+      .returning({ id: backtests.id });
+    
+    return deleted.length > 0;
+  }
+  
+  async createBot(userId: number, bot: InsertBot): Promise<Bot> {
+    const [row] = await db.insert(bots)
+      .values({ userId, ...bot, symbol: bot.symbol.toUpperCase() })
+      .returning();
+    
+    return toBot(row);
+  }
+  
+  async getBots(userId: number): Promise<Bot[]> {
+    const rows = await db.select()
+      .from(bots)
+      .where(eq(bots.userId, userId))
+      .orderBy(desc(bots.createdAt));
+    
+    return rows.map(toBot);
+  }
+  
+  async getBot(userId: number, id: string): Promise<Bot | undefined> {
+    const [row] = await db.select()
+      .from(bots)
+      .where(and(eq(bots.id, parseInt(id)), eq(bots.userId, userId)));
+    
+    return row ? toBot(row) : undefined;
+  }
+  
+  // Turning a bot on or off is recorded in its run log
+  async updateBot(userId: number, id: string, changes: UpdateBot): Promise<Bot | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select()
+        .from(bots)
+        .where(and(eq(bots.id, parseInt(id)), eq(bots.userId, userId)))
+        .for("update");
+      if (!existing) return undefined;
+      
+      const [row] = await tx.update(bots)
+        .set(changes)
+        .where(eq(bots.id, existing.id))
+        .returning();
+      
+      if (changes.enabled !== undefined && changes.enabled !== existing.enabled) {
+        await tx.insert(botRuns).values({
+          botId: existing.id,
+          action: changes.enabled ? "enable" : "pause",
+          message: changes.enabled ? "Bot enabled" : "Bot paused",
+        });
+      }
+      
+      return toBot(row);
+    });
+  }
+  
+  async getBotRuns(userId: number, id: string): Promise<BotRun[]> {
+    const rows = await db.select({ run: botRuns })
+      .from(botRuns)
+      .innerJoin(bots, eq(botRuns.botId, bots.id))
+      .where(and(eq(bots.id, parseInt(id)), eq(bots.userId, userId)))
+      .orderBy(desc(botRuns.createdAt))
+      .limit(200);
+    
+    return rows.map(r => toBotRun(r.run));
+  }
+  
+  async getEnabledBots(): Promise<(Bot & { userId: number })[]> {
+    const rows = await db.select()
+      .from(bots)
+      .where(eq(bots.enabled, true));
+    
+    return rows.map(b => ({ ...toBot(b), userId: b.userId }));
+  }
+  
+  async markBotRun(botId: string, lastBarTime?: number): Promise<void> {
+    await db.update(bots)
+      .set({ lastRunAt: new Date(), ...(lastBarTime !== undefined ? { lastBarTime: new Date(lastBarTime) } : {}) })
+      .where(eq(bots.id, parseInt(botId)));
+  }
+  
+  async logBotRun(botId: string, action: BotRunAction, message: string): Promise<void> {
+    await db.insert(botRuns).values({ botId: parseInt(botId), action, message });
+  }
+  
+  // Fills a bot's order on its owner's account, updates the shares the bot
+  // holds and logs the run, all in one transaction. Buys must fit the bot's
+  // budget; sells only ever sell shares the bot bought and the account still holds.
+  async executeBotTrade(botId: string, order: TradeOrder, message: string): Promise<Trade | undefined> {
+    const inserted = await db.transaction(async (tx) => {
+      const [bot] = await tx.select()
+        .from(bots)
+        .where(eq(bots.id, parseInt(botId)))
+        .for("update");
+      if (!bot) {
+        throw new TradeRejectedError("Bot not found");
+      }
+      
+      const account = await this.lockAccount(tx, bot.userId);
+      const reserved = await this.getReservedCash(tx, bot.userId);
+      let quantity = order.quantity;
+      
+      if (order.type === "buy") {
+        const invested = bot.quantity * (bot.entryPrice ?? 0);
+        if (invested + quantity * order.price > bot.budget) {
+          throw new TradeRejectedError("Bot budget exhausted");
+        }
+      } else {
+        const [position] = await tx.select()
+          .from(positions)
+          .where(and(eq(positions.userId, bot.userId), eq(positions.symbol, order.symbol)));
+        quantity = Math.min(quantity, bot.quantity, Math.max(0, position?.quantity ?? 0));
+        
+        // Shares sold by hand since the bot bought them are no longer the bot's
+        if (quantity === 0) {
+          await tx.update(bots).set({ quantity: 0, entryPrice: null }).where(eq(bots.id, bot.id));
+          await tx.insert(botRuns).values({ botId: bot.id, action: "skip", message: "The bot's shares are no longer held" });
+          return undefined;
+        }
+      }
+      
+      const trade = await this.applyTrade(tx, account, reserved, { ...order, quantity }, null, bot.id);
+      
+      const held = bot.quantity + (order.type === "buy" ? quantity : -quantity);
+      const entryPrice = order.type === "buy"
+        ? (bot.quantity * (bot.entryPrice ?? 0) + quantity * order.price) / held
+        : held > 0 ? bot.entryPrice : null;
+      await tx.update(bots)
+        .set({ quantity: held, entryPrice })
+        .where(eq(bots.id, bot.id));
+      await tx.insert(botRuns).values({ botId: bot.id, action: order.type, message, tradeId: trade.id });
+      
+      return trade;
+    });
+    
+    return inserted ? toTrade(inserted) : undefined;
+  }
+  
+  async createTradeProposal(userId: number, proposal: NewTradeProposal): Promise<TradeProposal> {
+    const [row] = await db.insert(tradeProposals)
+      .values({
+        userId,
+        ...proposal,
+        decidedAt: proposal.status === "invalid" ? new Date() : null,
+      })
+      .returning();
+    
+    return toTradeProposal(row);
+  }
+  
+  async getTradeProposals(userId: number, conversationId?: number): Promise<TradeProposal[]> {
+    const rows = await db.select()
+      .from(tradeProposals)
+      .where(and(
+        eq(tradeProposals.userId, userId),
+        conversationId !== undefined ? eq(tradeProposals.conversationId, conversationId) : undefined,
+      ))
+      .orderBy(desc(tradeProposals.createdAt))
+      .limit(200);
+    
+    return rows.map(toTradeProposal);
+  }
+  
+  async getTradeProposal(userId: number, id: string): Promise<TradeProposal | undefined> {
+    const [row] = await db.select()
+      .from(tradeProposals)
+      .where(and(eq(tradeProposals.id, parseInt(id)), eq(tradeProposals.userId, userId)));
+    
+    return row ? toTradeProposal(row) : undefined;
+  }
+  
+  // Moves a pending proposal younger than maxAgeMs to executing, so that only
+  // one confirm can act on it. It stays there until settleTradeProposal.
+  async claimTradeProposal(userId: number, id: string, maxAgeMs: number): Promise<TradeProposal | undefined> {
+    const [row] = await db.update(tradeProposals)
+      .set({ status: "executing", decidedAt: new Date() })
+      .where(and(
+        eq(tradeProposals.id, parseInt(id)),
+        eq(tradeProposals.userId, userId),
+        eq(tradeProposals.status, "pending"),
+        gt(tradeProposals.createdAt, new Date(Date.now() - maxAgeMs)),
+      ))
+      .returning();
+    
+    return row ? toTradeProposal(row) : undefined;
+  }
+  
+  async settleTradeProposal(id: string, outcome: TradeProposalOutcome): Promise<TradeProposal> {
+    const [row] = await db.update(tradeProposals)
+      .set({
+        status: outcome.status,
+        result: outcome.result,
+        tradeId: outcome.tradeId ? parseInt(outcome.tradeId) : null,
+        orderId: outcome.orderId ? parseInt(outcome.orderId) : null,
+        optionTradeId: outcome.optionTradeId ? parseInt(outcome.optionTradeId) : null,
+        decidedAt: new Date(),
+      })
+      .where(eq(tradeProposals.id, parseInt(id)))
+      .returning();
+    
+    return toTradeProposal(row);
+  }
+  
+  // Decides a pending proposal without executing it
+  async closeTradeProposal(userId: number, id: string, status: "rejected" | "expired", result: string): Promise<TradeProposal | undefined> {
+    const [row] = await db.update(tradeProposals)
+      .set({ status, result, decidedAt: new Date() })
+      .where(and(
+        eq(tradeProposals.id, parseInt(id)),
+        eq(tradeProposals.userId, userId),
+        eq(tradeProposals.status, "pending"),
+      ))
+      .returning();
+    
+    return row ? toTradeProposal(row) : undefined;
+  }
+  
+  // Fails proposals claimed more than maxAgeMs ago that never settled, e.g.
+  // because the server restarted mid-trade. Returns how many it failed.
+  async failStuckTradeProposals(maxAgeMs: number): Promise<number> {
+    const rows = await db.update(tradeProposals)
+      .set({ status: "failed", result: "Interrupted before it was recorded; check your trades and orders", decidedAt: new Date() })
+      .where(and(
+        eq(tradeProposals.status, "executing"),
+        lt(tradeProposals.decidedAt, new Date(Date.now() - maxAgeMs)),
+      ))
+      .returning({ id: tradeProposals.id });
+    
+    return rows.length;
+  }
+  
+  async createAgentRun(userId: number, run: NewAgentRun): Promise<AgentRun> {
+    const [row] = await db.insert(agentRuns)
+      .values({ ...run, userId })
+      .returning();
+    
+    const saved = toAgentRun(row);
+    if (!saved) {
+      throw new Error(`Agent run ${row.id} does not match the ${row.agent} report schema`);
+    }
+    return saved;
+  }
+  
+  // Listings skip the stored report and portfolio snapshot
+  async getAgentRuns(userId: number, query: AgentRunQuery): Promise<AgentRunSummary[]> {
+    const rows = await db.select({
+      id: agentRuns.id,
+      agent: agentRuns.agent,
+      symbol: agentRuns.symbol,
+      input: agentRuns.input,
+      headline: agentRuns.headline,
+      model: agentRuns.model,
+      inputTokens: agentRuns.inputTokens,
+      outputTokens: agentRuns.outputTokens,
+      createdAt: agentRuns.createdAt,
+    })
+      .from(agentRuns)
+      .where(and(
+        eq(agentRuns.userId, userId),
+        query.agent ? eq(agentRuns.agent, query.agent) : undefined,
+        query.symbol ? eq(agentRuns.symbol, query.symbol) : undefined,
+      ))
+      .orderBy(desc(agentRuns.createdAt))
+      .limit(100);
+    
+    return rows.map(({ inputTokens, outputTokens, ...r }) => ({
+      ...r,
+      id: String(r.id),
+      agent: r.agent as AgentType,
+      usage: { inputTokens, outputTokens },
+      createdAt: r.createdAt.getTime(),
+    }));
+  }
+  
+  async getAgentRun(userId: number, id: string): Promise<AgentRun | undefined> {
+    const [row] = await db.select()
+      .from(agentRuns)
+      .where(and(eq(agentRuns.id, parseInt(id)), eq(agentRuns.userId, userId)));
+    
+    if (!row) return undefined;
+    
+    // A report that no longer reads is treated as gone rather than failing
+    const run = toAgentRun(row);
+    if (!run) {
+      console.warn(`Agent run ${row.id} has an unreadable ${row.agent} report`);
+    }
+    return run ?? undefined;
+  }
+  
+  async deleteAgentRun(userId: number, id: string): Promise<boolean> {
+    const deleted = await db.delete(agentRuns)
+      .where(and(eq(agentRuns.id, parseInt(id)), eq(agentRuns.userId, userId)))
+      .returning({ id: agentRuns.id });
+    
+    return deleted.length > 0;
+  }
+  
   async getLeaderboard(): Promise<UserProfile[]> {
     const allUsers = await db.select().from(users);
     
@@ -495,6 +2295,7 @@ export class DatabaseStorage implements IStorage {
         totalProfitLoss: portfolio.totalProfitLoss,
         totalProfitLossPercent: portfolio.totalProfitLossPercent,
         tradesCount: userTrades.length,
+        botTradesCount: userTrades.filter(t => t.botId !== null).length,
       });
     }
     
@@ -511,6 +2312,9 @@ export class DatabaseStorage implements IStorage {
       quantity: trades.quantity,
       price: trades.price,
       total: trades.total,
+      quoteTimestamp: trades.quoteTimestamp,
+      reason: trades.reason,
+      botId: trades.botId,
       timestamp: trades.timestamp,
       username: users.username,
     })
@@ -526,6 +2330,9 @@ export class DatabaseStorage implements IStorage {
       quantity: t.quantity,
       price: t.price,
       total: t.total,
+      quoteTimestamp: t.quoteTimestamp ? t.quoteTimestamp.getTime() : null,
+      reason: t.reason as TradeReason | null,
+      botId: t.botId !== null ? String(t.botId) : null,
       timestamp: t.timestamp.getTime(),
       username: t.username,
     }));
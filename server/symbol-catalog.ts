@@ -0,0 +1,113 @@
+// Symbols every market data provider knows about without a lookup
+import type { CompanyProfile } from "@shared/schema";
+
+export type SymbolMatch = { symbol: string; description: string };
+
+// Approximate crypto prices that simulated price paths are anchored to
+export const CRYPTO_REFERENCE_PRICES: Record<string, number> = {
+  "BINANCE:BTCUSDT": 105000,
+  "BINANCE:ETHUSDT": 3300,
+  "BINANCE:SOLUSDT": 250,
+  "BINANCE:BNBUSDT": 700,
+  "BINANCE:XRPUSDT": 3.2,
+  "BINANCE:ADAUSDT": 1.05,
+  "BINANCE:DOGEUSDT": 0.38,
+  "BINANCE:DOTUSDT": 7.5,
+  "BINANCE:MATICUSDT": 0.5,
+  "BINANCE:LTCUSDT": 130,
+};
+
+export const CRYPTO_PROFILES: Record<string, CompanyProfile> = {
+  "BINANCE:BTCUSDT": { symbol: "BINANCE:BTCUSDT", name: "Bitcoin", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://bitcoin.org" },
+  "BINANCE:ETHUSDT": { symbol: "BINANCE:ETHUSDT", name: "Ethereum", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://ethereum.org" },
+  "BINANCE:SOLUSDT": { symbol: "BINANCE:SOLUSDT", name: "Solana", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://solana.com" },
+  "BINANCE:BNBUSDT": { symbol: "BINANCE:BNBUSDT", name: "Binance Coin", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://www.binance.com" },
+  "BINANCE:XRPUSDT": { symbol: "BINANCE:XRPUSDT", name: "Ripple", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://ripple.com" },
+  "BINANCE:ADAUSDT": { symbol: "BINANCE:ADAUSDT", name: "Cardano", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://cardano.org" },
+  "BINANCE:DOGEUSDT": { symbol: "BINANCE:DOGEUSDT", name: "Dogecoin", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://dogecoin.com" },
+  "BINANCE:DOTUSDT": { symbol: "BINANCE:DOTUSDT", name: "Polkadot", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://polkadot.network" },
+  "BINANCE:MATICUSDT": { symbol: "BINANCE:MATICUSDT", name: "Polygon", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://polygon.technology" },
+  "BINANCE:LTCUSDT": { symbol: "BINANCE:LTCUSDT", name: "Litecoin", exchange: "Binance", industry: "Cryptocurrency", logo: "", weburl: "https://litecoin.org" },
+};
+
+export const CRYPTO_SYMBOLS = [
+  { symbol: "BINANCE:BTCUSDT", description: "Bitcoin / US Dollar", keywords: ["bitcoin", "btc", "crypto"] },
+  { symbol: "BINANCE:ETHUSDT", description: "Ethereum / US Dollar", keywords: ["ethereum", "eth", "crypto"] },
+  { symbol: "BINANCE:SOLUSDT", description: "Solana / US Dollar", keywords: ["solana", "sol", "crypto"] },
+  { symbol: "BINANCE:BNBUSDT", description: "Binance Coin / US Dollar", keywords: ["binance", "bnb", "crypto"] },
+  { symbol: "BINANCE:XRPUSDT", description: "Ripple / US Dollar", keywords: ["ripple", "xrp", "crypto"] },
+  { symbol: "BINANCE:ADAUSDT", description: "Cardano / US Dollar", keywords: ["cardano", "ada", "crypto"] },
+  { symbol: "BINANCE:DOGEUSDT", description: "Dogecoin / US Dollar", keywords: ["dogecoin", "doge", "crypto"] },
+  { symbol: "BINANCE:DOTUSDT", description: "Polkadot / US Dollar", keywords: ["polkadot", "dot", "crypto"] },
+  { symbol: "BINANCE:MATICUSDT", description: "Polygon / US Dollar", keywords: ["polygon", "matic", "crypto"] },
+  { symbol: "BINANCE:LTCUSDT", description: "Litecoin / US Dollar", keywords: ["litecoin", "ltc", "crypto"] },
+];
+
+export const POPULAR_STOCKS = [
+  { symbol: "AAPL", description: "Apple Inc", keywords: ["apple", "iphone", "mac", "tech"] },
+  { symbol: "MSFT", description: "Microsoft Corporation", keywords: ["microsoft", "windows", "azure", "tech"] },
+  { symbol: "GOOGL", description: "Alphabet Inc", keywords: ["google", "alphabet", "youtube", "tech"] },
+  { symbol: "AMZN", description: "Amazon.com Inc", keywords: ["amazon", "aws", "ecommerce", "tech"] },
+  { symbol: "NVDA", description: "NVIDIA Corporation", keywords: ["nvidia", "gpu", "ai", "tech", "graphics"] },
+  { symbol: "META", description: "Meta Platforms Inc", keywords: ["meta", "facebook", "instagram", "whatsapp", "tech"] },
+  { symbol: "TSLA", description: "Tesla Inc", keywords: ["tesla", "electric", "ev", "car", "musk"] },
+  { symbol: "JPM", description: "JPMorgan Chase & Co", keywords: ["jpmorgan", "chase", "bank", "finance"] },
+  { symbol: "V", description: "Visa Inc", keywords: ["visa", "payment", "credit", "finance"] },
+  { symbol: "MA", description: "Mastercard Inc", keywords: ["mastercard", "payment", "credit", "finance"] },
+  { symbol: "WMT", description: "Walmart Inc", keywords: ["walmart", "retail", "store"] },
+  { symbol: "JNJ", description: "Johnson & Johnson", keywords: ["johnson", "pharma", "healthcare"] },
+  { symbol: "PG", description: "Procter & Gamble Co", keywords: ["procter", "gamble", "consumer"] },
+  { symbol: "UNH", description: "UnitedHealth Group Inc", keywords: ["unitedhealth", "health", "insurance"] },
+  { symbol: "HD", description: "Home Depot Inc", keywords: ["home", "depot", "retail", "hardware"] },
+  { symbol: "BAC", description: "Bank of America Corp", keywords: ["bank", "america", "finance"] },
+  { symbol: "KO", description: "Coca-Cola Co", keywords: ["coca", "cola", "coke", "beverage"] },
+  { symbol: "PEP", description: "PepsiCo Inc", keywords: ["pepsi", "pepsico", "beverage"] },
+  { symbol: "DIS", description: "Walt Disney Co", keywords: ["disney", "entertainment", "streaming"] },
+  { symbol: "NFLX", description: "Netflix Inc", keywords: ["netflix", "streaming", "entertainment"] },
+  { symbol: "AMD", description: "Advanced Micro Devices Inc", keywords: ["amd", "cpu", "gpu", "tech", "chips"] },
+  { symbol: "INTC", description: "Intel Corporation", keywords: ["intel", "cpu", "chips", "tech"] },
+  { symbol: "CRM", description: "Salesforce Inc", keywords: ["salesforce", "crm", "cloud", "tech"] },
+  { symbol: "ORCL", description: "Oracle Corporation", keywords: ["oracle", "database", "cloud", "tech"] },
+  { symbol: "ADBE", description: "Adobe Inc", keywords: ["adobe", "photoshop", "creative", "tech"] },
+  { symbol: "PYPL", description: "PayPal Holdings Inc", keywords: ["paypal", "payment", "fintech"] },
+  { symbol: "UBER", description: "Uber Technologies Inc", keywords: ["uber", "rideshare", "delivery"] },
+  { symbol: "ABNB", description: "Airbnb Inc", keywords: ["airbnb", "travel", "rental"] },
+  { symbol: "SQ", description: "Block Inc", keywords: ["block", "square", "payment", "fintech"] },
+  { symbol: "SPOT", description: "Spotify Technology SA", keywords: ["spotify", "music", "streaming"] },
+  { symbol: "ZM", description: "Zoom Video Communications", keywords: ["zoom", "video", "conferencing"] },
+  { symbol: "SHOP", description: "Shopify Inc", keywords: ["shopify", "ecommerce", "tech"] },
+  { symbol: "SNAP", description: "Snap Inc", keywords: ["snap", "snapchat", "social"] },
+  { symbol: "PINS", description: "Pinterest Inc", keywords: ["pinterest", "social", "images"] },
+  { symbol: "PLTR", description: "Palantir Technologies Inc", keywords: ["palantir", "data", "analytics", "ai"] },
+  { symbol: "COIN", description: "Coinbase Global Inc", keywords: ["coinbase", "crypto", "exchange"] },
+  { symbol: "GME", description: "GameStop Corp", keywords: ["gamestop", "gaming", "retail"] },
+  { symbol: "AMC", description: "AMC Entertainment Holdings", keywords: ["amc", "movies", "theater"] },
+  { symbol: "NKE", description: "Nike Inc", keywords: ["nike", "shoes", "sports", "apparel"] },
+  { symbol: "SBUX", description: "Starbucks Corporation", keywords: ["starbucks", "coffee", "restaurant"] },
+  { symbol: "MCD", description: "McDonald's Corporation", keywords: ["mcdonalds", "fast food", "restaurant"] },
+  { symbol: "XOM", description: "Exxon Mobil Corporation", keywords: ["exxon", "mobil", "oil", "energy"] },
+  { symbol: "CVX", description: "Chevron Corporation", keywords: ["chevron", "oil", "energy"] },
+  { symbol: "BA", description: "Boeing Co", keywords: ["boeing", "airplane", "aerospace"] },
+  { symbol: "GE", description: "General Electric Co", keywords: ["general", "electric", "industrial"] },
+  { symbol: "F", description: "Ford Motor Company", keywords: ["ford", "car", "auto"] },
+  { symbol: "GM", description: "General Motors Co", keywords: ["general", "motors", "car", "auto"] },
+  { symbol: "T", description: "AT&T Inc", keywords: ["att", "telecom", "phone"] },
+  { symbol: "VZ", description: "Verizon Communications", keywords: ["verizon", "telecom", "phone"] },
+];
+
+export function isCryptoSymbol(symbol: string): boolean {
+  // Crypto pairs carry an exchange prefix like BINANCE:
+  return symbol.includes(":");
+}
+
+// Crypto pairs, then popular stocks, matching the query by symbol, name or keyword
+export function searchCatalog(query: string): SymbolMatch[] {
+  const lowerQuery = query.toLowerCase();
+  return [...CRYPTO_SYMBOLS, ...POPULAR_STOCKS]
+    .filter(item =>
+      item.symbol.toLowerCase().includes(lowerQuery) ||
+      item.description.toLowerCase().includes(lowerQuery) ||
+      item.keywords.some(keyword => keyword.includes(lowerQuery))
+    )
+    .map(({ symbol, description }) => ({ symbol, description }));
+}
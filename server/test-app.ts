@@ -0,0 +1,57 @@
+// The real routes served over a throwaway database, for integration tests.
+// vi.mock only applies in the file that calls it, so each test file still
+// stubs the background jobs itself.
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { startTestDatabase } from "./test-database";
+
+export interface TestResponse<T> {
+  status: number;
+  body: T;
+}
+
+let baseUrl: string;
+let accounts = 0;
+
+// Resolves to a function that stops the server and its database
+export async function startTestApp(): Promise<() => Promise<void>> {
+  const stopDatabase = await startTestDatabase();
+  const { registerRoutes } = await import("./routes");
+  const { pool } = await import("./db");
+
+  const app = express();
+  app.use(express.json());
+  const server: Server = createServer(app);
+  await registerRoutes(server, app);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  return async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await pool.end();
+    await stopDatabase();
+  };
+}
+
+export async function request<T>(cookie: string, method: string, url: string, body?: unknown): Promise<TestResponse<T>> {
+  const res = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: { "Content-Type": "application/json", cookie },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+// Registers a fresh account and returns its session cookie
+export async function signUp(): Promise<string> {
+  const res = await fetch(`${baseUrl}/api/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: `trader${++accounts}`, password: "password" }),
+  });
+  if (res.status !== 201) {
+    throw new Error(`Sign-up failed with ${res.status}`);
+  }
+  return res.headers.get("set-cookie")!.split(";")[0];
+}
@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Trade, TradeProposal } from "@shared/schema";
+import { request, signUp, startTestApp } from "./test-app";
+
+// The background jobs trade on their own schedule, which would race the
+// assertions below
+vi.mock("./order-matcher", async (importOriginal) => ({ ...await importOriginal<object>(), startOrderMatcher: vi.fn() }));
+vi.mock("./risk-monitor", async (importOriginal) => ({ ...await importOriginal<object>(), startRiskMonitor: vi.fn() }));
+vi.mock("./option-expiry", async (importOriginal) => ({ ...await importOriginal<object>(), startOptionExpiry: vi.fn() }));
+vi.mock("./price-stream", async (importOriginal) => ({ ...await importOriginal<object>(), startPriceStream: vi.fn() }));
+vi.mock("./bot-runner", async (importOriginal) => ({ ...await importOriginal<object>(), startBotRunner: vi.fn() }));
+// Swept by hand below
+vi.mock("./trade-proposals", async (importOriginal) => ({ ...await importOriginal<object>(), startProposalSweep: vi.fn() }));
+
+let stopApp: () => Promise<void>;
+
+beforeAll(async () => {
+  stopApp = await startTestApp();
+});
+
+afterAll(async () => {
+  await stopApp?.();
+});
+
+describe("chat trade proposals", () => {
+  async function propose(cookie: string): Promise<TradeProposal> {
+    const { recordProposal } = await import("./trade-proposals");
+    const { body: user } = await request<{ id: number }>(cookie, "GET", "/api/user");
+    const order = { kind: "market", side: "buy", order: { symbol: "AMZN", quantity: 5 } };
+    return recordProposal(user.id, null, "buy 5 amazon", JSON.stringify(order));
+  }
+
+  // Backdates a proposal's timestamps by `ms`
+  async function age(proposal: TradeProposal, ms: number) {
+    const { db } = await import("./db");
+    const { tradeProposals } = await import("@shared/schema");
+    const { eq, sql } = await import("drizzle-orm");
+    const interval = `${ms} milliseconds`;
+    await db.update(tradeProposals)
+      .set({
+        createdAt: sql`${tradeProposals.createdAt} - ${interval}::interval`,
+        decidedAt: sql`${tradeProposals.decidedAt} - ${interval}::interval`,
+      })
+      .where(eq(tradeProposals.id, Number(proposal.id)));
+  }
+
+  it("executes a proposal once however many times it is confirmed", async () => {
+    const cookie = await signUp();
+    const proposal = await propose(cookie);
+
+    const responses = await Promise.all(Array.from({ length: 5 }, () =>
+      request<TradeProposal>(cookie, "POST", `/api/trade-proposals/${proposal.id}/confirm`)
+    ));
+    const executed = responses.filter(r => r.status === 200);
+    expect(executed).toHaveLength(1);
+    expect(responses.filter(r => r.status === 404)).toHaveLength(4);
+    expect(executed[0].body.status).toBe("executed");
+
+    const { body: trades } = await request<Trade[]>(cookie, "GET", "/api/trades");
+    expect(trades.map(t => t.id)).toEqual([executed[0].body.tradeId]);
+  });
+
+  it("expires a proposal confirmed after the TTL without trading", async () => {
+    const cookie = await signUp();
+    const proposal = await propose(cookie);
+    await age(proposal, 16 * 60 * 1000);
+
+    const res = await request<TradeProposal>(cookie, "POST", `/api/trade-proposals/${proposal.id}/confirm`);
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe("expired");
+    expect((await request<Trade[]>(cookie, "GET", "/api/trades")).body).toEqual([]);
+  });
+
+  it("fails proposals left executing", async () => {
+    const cookie = await signUp();
+    const proposal = await propose(cookie);
+    const { storage } = await import("./storage");
+    const { body: user } = await request<{ id: number }>(cookie, "GET", "/api/user");
+    await storage.claimTradeProposal(user.id, proposal.id, 60 * 1000);
+
+    // Not yet stuck
+    await storage.failStuckTradeProposals(5 * 60 * 1000);
+    expect((await storage.getTradeProposal(user.id, proposal.id))?.status).toBe("executing");
+
+    await age(proposal, 10 * 60 * 1000);
+    await storage.failStuckTradeProposals(5 * 60 * 1000);
+    expect((await storage.getTradeProposal(user.id, proposal.id))?.status).toBe("failed");
+  });
+
+  it("rejects malformed proposal ids with a 400", async () => {
+    const cookie = await signUp();
+    expect((await request(cookie, "POST", "/api/trade-proposals/abc/confirm")).status).toBe(400);
+    expect((await request(cookie, "GET", "/api/trade-proposals?conversationId=1.5")).status).toBe(400);
+    // Checked before the voice stream opens, so no transcription is spent
+    expect((await request(cookie, "POST", "/api/voice/turn", { audio: "AAAA", proposalId: "abc" })).status).toBe(400);
+    expect((await request(cookie, "POST", "/api/voice/turn", { audio: "AAAA", proposalId: "2147483648" })).status).toBe(400);
+  });
+});
@@ -0,0 +1,170 @@
+// Orders the AI chat drafts from requests like "buy 20 NVDA if it's under $900".
+// The model only proposes: every draft is validated against the trade schemas and
+// logged with the message that asked for it, and nothing executes until the user
+// confirms, at which point it goes through the same path as a manual order.
+import type OpenAI from "openai";
+import { proposedOrderSchema, type ProposedOrder, type TradeProposal } from "@shared/schema";
+import { storage, TradeRejectedError } from "./storage";
+import { executeMarketTrade, placeOrder, executeOptionOrder, QuoteUnavailableError } from "./trading";
+import { log } from "./log";
+
+// Prices move; a proposal left this long has to be asked for again
+const PROPOSAL_TTL_MS = 15 * 60 * 1000;
+
+// A trade settles in seconds, so a proposal executing this long was cut off
+const STUCK_EXECUTING_MS = 5 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const ORDER_TYPE_LABELS = { limit: "limit", stop: "stop", stop_limit: "stop-limit" };
+
+export const PROPOSE_ORDER_TOOL: OpenAI.Chat.ChatCompletionTool = {
+  type: "function",
+  function: {
+    name: "propose_order",
+    description: "Draft an order for the user to confirm when they ask to buy, sell, close or trade options. "
+      + "Use kind \"market\" to trade now, \"order\" for a conditional price (\"if it's under $900\" is a buy limit at 900), "
+      + "\"option\" for option contracts. Work out quantities such as \"half my TSLA\" from the user's positions. "
+      + "The order only executes once the user confirms it in the app.",
+    parameters: {
+      type: "object",
+      properties: {
+        kind: { type: "string", enum: ["market", "order", "option"] },
+        side: { type: "string", enum: ["buy", "sell"], description: "For kind \"market\" only" },
+        order: {
+          type: "object",
+          description: "market: {symbol, quantity}. "
+            + "order: {symbol, side, orderType (limit|stop|stop_limit), quantity, limitPrice?, stopPrice?, timeInForce (day|gtc)}. "
+            + "option: {symbol, optionType (call|put), strikePrice, expirationDate (YYYY-MM-DD), contracts, action (buy|sell)}.",
+        },
+      },
+      required: ["kind", "order"],
+    },
+  },
+};
+
+function formatPrice(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+export function describeProposedOrder(proposed: ProposedOrder): string {
+  switch (proposed.kind) {
+    case "market": {
+      const { symbol, quantity } = proposed.order;
+      return `${proposed.side === "buy" ? "Buy" : "Sell"} ${quantity} ${symbol} at market`;
+    }
+    case "order": {
+      const { side, orderType, quantity, symbol, limitPrice, stopPrice, timeInForce } = proposed.order;
+      const prices = [
+        stopPrice !== undefined ? `stop ${formatPrice(stopPrice)}` : null,
+        limitPrice !== undefined ? `limit ${formatPrice(limitPrice)}` : null,
+      ].filter(Boolean).join(", ");
+      return `${side === "buy" ? "Buy" : "Sell"} ${quantity} ${symbol} with a ${ORDER_TYPE_LABELS[orderType]} order (${prices}, ${timeInForce === "gtc" ? "good till cancelled" : "day"})`;
+    }
+    case "option": {
+      const { action, contracts, symbol, strikePrice, optionType, expirationDate } = proposed.order;
+      return `${action === "buy" ? "Buy" : "Sell"} ${contracts} ${symbol} ${formatPrice(strikePrice)} ${optionType}${contracts === 1 ? "" : "s"} expiring ${expirationDate}`;
+    }
+  }
+}
+
+function withUpperSymbol(proposed: ProposedOrder): ProposedOrder {
+  return { ...proposed, order: { ...proposed.order, symbol: proposed.order.symbol.toUpperCase() } } as ProposedOrder;
+}
+
+// Validates a propose_order call and logs it, valid or not
+export async function recordProposal(
+  userId: number,
+  conversationId: number | null,
+  utterance: string,
+  rawArguments: string,
+): Promise<TradeProposal> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawArguments);
+  } catch {
+    parsed = undefined;
+  }
+
+  const result = proposedOrderSchema.safeParse(parsed);
+  if (!result.success) {
+    return storage.createTradeProposal(userId, {
+      conversationId,
+      utterance,
+      rawArguments,
+      proposal: null,
+      summary: "Invalid order",
+      status: "invalid",
+      result: parsed === undefined
+        ? "Arguments were not valid JSON"
+        : result.error.errors.map(e => `${e.path.join(".") || "order"}: ${e.message}`).join("; "),
+    });
+  }
+
+  const proposal = withUpperSymbol(result.data);
+  return storage.createTradeProposal(userId, {
+    conversationId,
+    utterance,
+    rawArguments,
+    proposal,
+    summary: describeProposedOrder(proposal),
+    status: "pending",
+    result: null,
+  });
+}
+
+async function execute(userId: number, proposal: ProposedOrder) {
+  switch (proposal.kind) {
+    case "market": {
+      const trade = await executeMarketTrade(userId, proposal.side, proposal.order);
+      return { result: `Filled ${trade.quantity} ${trade.symbol} at ${formatPrice(trade.price)}`, tradeId: trade.id };
+    }
+    case "order": {
+      const order = await placeOrder(userId, proposal.order);
+      return { result: `Order ${order.id} placed`, orderId: order.id };
+    }
+    case "option": {
+      const trade = await executeOptionOrder(userId, proposal.order);
+      return { result: `Filled at ${formatPrice(trade.premium)} per share`, optionTradeId: trade.id };
+    }
+  }
+}
+
+// Executes a pending proposal the user has confirmed. Returns undefined when it
+// is not theirs or was already decided. Rejections and missing quotes are
+// recorded on the proposal; anything else is recorded and rethrown.
+export async function confirmProposal(userId: number, id: string): Promise<TradeProposal | undefined> {
+  const claimed = await storage.claimTradeProposal(userId, id, PROPOSAL_TTL_MS);
+  if (!claimed) {
+    // Still pending after a failed claim means it is past the TTL
+    return storage.closeTradeProposal(userId, id, "expired", "Proposal expired before it was confirmed");
+  }
+
+  try {
+    // Only drafts that passed validation are ever pending
+    const outcome = await execute(userId, claimed.proposal!);
+    return storage.settleTradeProposal(id, { status: "executed", ...outcome });
+  } catch (error) {
+    if (error instanceof TradeRejectedError || error instanceof QuoteUnavailableError) {
+      return storage.settleTradeProposal(id, { status: "failed", result: error.message });
+    }
+    await storage.settleTradeProposal(id, { status: "failed", result: "Execution failed" });
+    throw error;
+  }
+}
+
+export async function rejectProposal(userId: number, id: string): Promise<TradeProposal | undefined> {
+  return storage.closeTradeProposal(userId, id, "rejected", "Declined by the user");
+}
+
+async function sweepStuckProposals(): Promise<void> {
+  const count = await storage.failStuckTradeProposals(STUCK_EXECUTING_MS);
+  if (count > 0) log(`Failed ${count} proposals left executing`, "trade-proposals");
+}
+
+// Fails proposals a crash or restart left executing, at startup and then
+// every minute
+export function startProposalSweep(): void {
+  const sweep = () => sweepStuckProposals().catch((error) => console.error("Error sweeping trade proposals:", error));
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,206 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { OptionPosition, OptionTrade, Portfolio, Position, StockQuote, Trade } from "@shared/schema";
+import { request, signUp, startTestApp } from "./test-app";
+
+// The background jobs trade on their own schedule, which would race the
+// assertions below
+vi.mock("./order-matcher", async (importOriginal) => ({ ...await importOriginal<object>(), startOrderMatcher: vi.fn() }));
+vi.mock("./risk-monitor", async (importOriginal) => ({ ...await importOriginal<object>(), startRiskMonitor: vi.fn() }));
+vi.mock("./option-expiry", async (importOriginal) => ({ ...await importOriginal<object>(), startOptionExpiry: vi.fn() }));
+vi.mock("./price-stream", async (importOriginal) => ({ ...await importOriginal<object>(), startPriceStream: vi.fn() }));
+vi.mock("./bot-runner", async (importOriginal) => ({ ...await importOriginal<object>(), startBotRunner: vi.fn() }));
+vi.mock("./trade-proposals", async (importOriginal) => ({ ...await importOriginal<object>(), startProposalSweep: vi.fn() }));
+
+const STARTING_CASH = 100000;
+// Cash is a real column, so sums drift by a few cents
+const CENTS = 1;
+
+async function quote(cookie: string, symbol: string): Promise<StockQuote> {
+  return (await request<StockQuote>(cookie, "GET", `/api/quote/${symbol}`)).body;
+}
+
+// Replays the trade log oldest first. Trades for one account serialize on its
+// row lock, so id order is commit order.
+function replayCash(trades: { id: string; total: number; credit: boolean }[]): number[] {
+  let cash = STARTING_CASH;
+  return trades
+    .sort((a, b) => Number(a.id) - Number(b.id))
+    .map((trade) => (cash += trade.credit ? trade.total : -trade.total));
+}
+
+let stopApp: () => Promise<void>;
+
+beforeAll(async () => {
+  stopApp = await startTestApp();
+});
+
+afterAll(async () => {
+  await stopApp?.();
+});
+
+describe("parallel stock orders on one account", () => {
+  it("rejects buys past the balance with a 400 and never overspends", async () => {
+    const cookie = await signUp();
+    const { currentPrice } = await quote(cookie, "AAPL");
+    // Twenty buys of about $12k each; only eight fit in the account
+    const quantity = Math.floor(12000 / currentPrice);
+    const oversized = Math.ceil((STARTING_CASH * 1.5) / currentPrice);
+
+    const orders = [
+      ...Array.from({ length: 20 }, () => quantity),
+      ...Array.from({ length: 3 }, () => oversized),
+    ];
+    const responses = await Promise.all(orders.map((qty) =>
+      request<Trade & { error?: string }>(cookie, "POST", "/api/trades/buy", { symbol: "AAPL", quantity: qty })
+    ));
+
+    // Lock waits and failed transactions would show up as 500s
+    expect(responses.map(r => r.status).filter(s => s !== 200 && s !== 400)).toEqual([]);
+    responses.slice(20).forEach(r => expect(r.status).toBe(400));
+
+    const filled = responses.filter(r => r.status === 200);
+    const rejected = responses.filter(r => r.status === 400);
+    expect(filled.length).toBeGreaterThan(0);
+    expect(rejected.length).toBeGreaterThan(3);
+    rejected.forEach(r => expect(r.body.error).toBe("Insufficient funds"));
+
+    const { body: portfolio } = await request<Portfolio>(cookie, "GET", "/api/portfolio");
+    const { body: trades } = await request<Trade[]>(cookie, "GET", "/api/trades");
+    expect(trades.map(t => t.id).sort()).toEqual(filled.map(r => r.body.id).sort());
+
+    const running = replayCash(trades.map(t => ({ id: t.id, total: t.total, credit: false })));
+    running.forEach(cash => expect(cash).toBeGreaterThanOrEqual(-CENTS));
+    expect(portfolio.cash).toBeGreaterThanOrEqual(0);
+    expect(portfolio.cash).toBeCloseTo(running[running.length - 1], 0);
+
+    // Buys only draw cash down, so a rejected buy cost more than what is left
+    expect(portfolio.cash).toBeLessThan(quantity * currentPrice * 1.05);
+  });
+
+  it("keeps positions and the trade log in step under mixed buys and sells", async () => {
+    const cookie = await signUp();
+    const opening = await request<Trade>(cookie, "POST", "/api/trades/buy", { symbol: "MSFT", quantity: 100 });
+    expect(opening.status).toBe(200);
+
+    // Fifteen sells of 10 against 100 shares plus what the buys add; shorting
+    // is off, so any sell past the holding must be turned away
+    const orders = [
+      ...Array.from({ length: 15 }, () => ({ side: "sell", quantity: 10 })),
+      ...Array.from({ length: 10 }, () => ({ side: "buy", quantity: 5 })),
+    ].sort(() => Math.random() - 0.5);
+    const responses = await Promise.all(orders.map(({ side, quantity }) =>
+      request<Trade & { error?: string }>(cookie, "POST", `/api/trades/${side}`, { symbol: "MSFT", quantity })
+    ));
+
+    expect(responses.map(r => r.status).filter(s => s !== 200 && s !== 400)).toEqual([]);
+    responses
+      .filter(r => r.status === 400)
+      .forEach(r => expect(r.body.error).toBe("Insufficient shares to sell"));
+
+    const { body: trades } = await request<Trade[]>(cookie, "GET", "/api/trades");
+    const { body: positions } = await request<Position[]>(cookie, "GET", "/api/positions");
+    const { body: portfolio } = await request<Portfolio>(cookie, "GET", "/api/portfolio");
+
+    // Every filled order left exactly one trade row
+    const filledIds = [opening.body.id, ...responses.filter(r => r.status === 200).map(r => r.body.id)];
+    expect(trades.map(t => t.id).sort()).toEqual(filledIds.sort());
+
+    // The position is the sum of the trade log, and never went short on the way
+    let held = 0;
+    for (const trade of [...trades].sort((a, b) => Number(a.id) - Number(b.id))) {
+      held += trade.type === "buy" ? trade.quantity : -trade.quantity;
+      expect(held).toBeGreaterThanOrEqual(0);
+    }
+    expect(positions.find(p => p.symbol === "MSFT")?.quantity ?? 0).toBe(held);
+
+    const running = replayCash(trades.map(t => ({ id: t.id, total: t.total, credit: t.type === "sell" })));
+    running.forEach(cash => expect(cash).toBeGreaterThanOrEqual(-CENTS));
+    expect(portfolio.cash).toBeCloseTo(running[running.length - 1], 0);
+  });
+});
+
+describe("parallel option orders on one account", () => {
+  it("rejects premium past the balance with a 400 and never overspends", async () => {
+    const cookie = await signUp();
+    const { currentPrice } = await quote(cookie, "NVDA");
+    const expiration = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+    const contract = {
+      symbol: "NVDA",
+      optionType: "call",
+      strikePrice: Math.round(currentPrice),
+      expirationDate: expiration,
+      action: "buy",
+    };
+
+    // Price one contract first, then size orders at about 30% of the account
+    const first = await request<OptionTrade>(cookie, "POST", "/api/options/trade", { ...contract, contracts: 1 });
+    expect(first.status).toBe(200);
+    const contracts = Math.ceil((STARTING_CASH * 0.3) / first.body.total);
+
+    const responses = await Promise.all(Array.from({ length: 6 }, () =>
+      request<OptionTrade & { error?: string }>(cookie, "POST", "/api/options/trade", { ...contract, contracts })
+    ));
+
+    expect(responses.map(r => r.status).filter(s => s !== 200 && s !== 400)).toEqual([]);
+    const filled = responses.filter(r => r.status === 200);
+    expect(filled.length).toBeGreaterThan(0);
+    expect(filled.length).toBeLessThanOrEqual(3);
+    responses.filter(r => r.status === 400).forEach(r => expect(r.body.error).toBe("Insufficient funds"));
+
+    const { body: trades } = await request<OptionTrade[]>(cookie, "GET", "/api/options/trades");
+    const { body: options } = await request<OptionPosition[]>(cookie, "GET", "/api/options");
+    const { body: portfolio } = await request<Portfolio>(cookie, "GET", "/api/portfolio");
+
+    const filledIds = [first.body.id, ...filled.map(r => r.body.id)];
+    expect(trades.map(t => t.id).sort()).toEqual(filledIds.sort());
+    expect(options.reduce((sum, o) => sum + o.contracts, 0)).toBe(trades.reduce((sum, t) => sum + t.contracts, 0));
+
+    const running = replayCash(trades.map(t => ({ id: t.id, total: t.total, credit: false })));
+    running.forEach(cash => expect(cash).toBeGreaterThanOrEqual(-CENTS));
+    expect(portfolio.cash).toBeGreaterThanOrEqual(0);
+    expect(portfolio.cash).toBeCloseTo(running[running.length - 1], 0);
+  });
+});
+
+describe("resting orders", () => {
+  const limitBuy = (quantity: number) => ({ symbol: "META", side: "buy", orderType: "limit", quantity, limitPrice: 100, timeInForce: "gtc" });
+
+  it("lets a margin account rest a buy above its cash", async () => {
+    const cookie = await signUp();
+    expect((await request(cookie, "PATCH", "/api/account", { accountType: "margin" })).status).toBe(200);
+
+    // $150k against $100k cash and $200k of leveraged buying power
+    expect((await request(cookie, "POST", "/api/orders", limitBuy(1500))).status).toBe(200);
+    const refused = await request<{ error: string }>(cookie, "POST", "/api/orders", limitBuy(600));
+    expect(refused.status).toBe(400);
+    expect(refused.body.error).toBe("Insufficient buying power");
+  });
+
+  it("holds a cash account to its cash", async () => {
+    const cookie = await signUp();
+    const refused = await request<{ error: string }>(cookie, "POST", "/api/orders", limitBuy(1500));
+    expect(refused.status).toBe(400);
+    expect(refused.body.error).toBe("Insufficient buying power");
+  });
+});
+
+describe("account settings", () => {
+  it("rejects an update with nothing to change", async () => {
+    const cookie = await signUp();
+    const res = await request<{ error: string }>(cookie, "PATCH", "/api/account", {});
+    expect(res.status).toBe(400);
+  });
+
+  it("keeps shorting on while a short is open", async () => {
+    const cookie = await signUp();
+    expect((await request(cookie, "PATCH", "/api/account", { shortingEnabled: true })).status).toBe(200);
+    expect((await request(cookie, "POST", "/api/trades/sell", { symbol: "TSLA", quantity: 10 })).status).toBe(200);
+
+    const refused = await request<{ error: string }>(cookie, "PATCH", "/api/account", { shortingEnabled: false });
+    expect(refused.status).toBe(400);
+    expect(refused.body.error).toBe("Cover your short positions before turning off shorting");
+
+    expect((await request(cookie, "POST", "/api/trades/buy", { symbol: "TSLA", quantity: 10 })).status).toBe(200);
+    expect((await request(cookie, "PATCH", "/api/account", { shortingEnabled: false })).status).toBe(200);
+  });
+});
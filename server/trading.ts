@@ -0,0 +1,55 @@
+// Order execution shared by the trade endpoints and confirmed AI proposals.
+// Prices always come from the server-side quote, never from the caller.
+import type { StockQuote, Trade, Order, OptionTrade, InsertOrder, InsertOptionTrade } from "@shared/schema";
+import { storage, TradeRejectedError } from "./storage";
+import { isQuoteStale } from "./market-data";
+import { getQuote } from "./quote-cache";
+import { quoteOption, yearsToExpiry } from "./option-pricing";
+
+// Thrown when there is no quote fresh enough to fill at; routes answer 503
+export class QuoteUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuoteUnavailableError";
+  }
+}
+
+async function fillQuote(symbol: string): Promise<StockQuote> {
+  const quote = await getQuote(symbol);
+  if (!quote) {
+    throw new QuoteUnavailableError("No quote available for this symbol");
+  }
+  if (isQuoteStale(quote)) {
+    throw new QuoteUnavailableError("Quote is stale, try again when the market is open");
+  }
+  return quote;
+}
+
+export async function executeMarketTrade(
+  userId: number,
+  type: "buy" | "sell",
+  { symbol, quantity }: { symbol: string; quantity: number },
+): Promise<Trade> {
+  const quote = await fillQuote(symbol);
+  return storage.executeTrade(userId, {
+    symbol,
+    type,
+    quantity,
+    price: quote.currentPrice,
+    quoteTimestamp: quote.timestamp,
+  });
+}
+
+export function placeOrder(userId: number, order: InsertOrder): Promise<Order> {
+  return storage.createOrder(userId, { ...order, symbol: order.symbol.toUpperCase() });
+}
+
+// Premium is the model's fair value at the server-side quote
+export async function executeOptionOrder(userId: number, trade: InsertOptionTrade): Promise<OptionTrade> {
+  if (yearsToExpiry(trade.expirationDate) <= 0) {
+    throw new TradeRejectedError("Option has expired");
+  }
+  const quote = await fillQuote(trade.symbol);
+  const { premium } = quoteOption(quote, trade);
+  return storage.executeOptionTrade(userId, { ...trade, premium });
+}
@@ -0,0 +1,192 @@
+// Push-to-talk assistant on the dashboard. Each turn is transcribed, answered by
+// a text model that can look up quotes and draft orders, and spoken back one
+// sentence at a time as text-to-speech audio on the event stream.
+//
+// Orders are trade proposals, the same as in the chat, but they are confirmed by
+// voice: the client sends the pending proposal with the next recording, and a
+// clear yes or no in that recording decides it before the model is asked.
+import type OpenAI from "openai";
+import type { TradeProposal, VoiceTurn } from "@shared/schema";
+import { openai, speechToText, textToSpeechStream, SentenceParser } from "./replit_integrations/audio";
+import { storage } from "./storage";
+import { getQuote } from "./quote-cache";
+import { voiceSystemPrompt } from "./agent-prompts";
+import { PROPOSE_ORDER_TOOL, recordProposal, confirmProposal, rejectProposal } from "./trade-proposals";
+import type { EventStream } from "./agent-stream";
+
+const MODEL = "gpt-5.1";
+const MAX_TURNS = 4;
+
+type Voice = VoiceTurn["voice"];
+
+const GET_QUOTE_TOOL: OpenAI.Chat.ChatCompletionTool = {
+  type: "function",
+  function: {
+    name: "get_quote",
+    description: "Latest quote for a stock: price, day change, open, high, low and previous close.",
+    parameters: {
+      type: "object",
+      properties: { symbol: { type: "string", description: "Ticker, e.g. AAPL" } },
+      required: ["symbol"],
+    },
+  },
+};
+
+// "No, don't do it" contains "do it", so a no always wins
+const REJECT_WORDS = /\b(no|nope|cancel|reject|don't|do not|stop|never ?mind)\b/i;
+const CONFIRM_WORDS = /\b(yes|yeah|yep|confirm|confirmed|do it|go ahead|place it|execute)\b/i;
+
+export interface VoiceTurnResult {
+  transcript: string;
+  reply: string;
+  proposal: TradeProposal | null;
+}
+
+interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export function spokenDecision(transcript: string): "confirm" | "reject" | null {
+  if (REJECT_WORDS.test(transcript)) return "reject";
+  if (CONFIRM_WORDS.test(transcript)) return "confirm";
+  return null;
+}
+
+function decisionReply(proposal: TradeProposal | undefined): string {
+  if (!proposal) return "That order is no longer waiting for confirmation.";
+  switch (proposal.status) {
+    case "executed":
+      return `Done. ${proposal.result}.`;
+    case "rejected":
+      return "Okay, I've cancelled that order.";
+    default:
+      return `That order didn't go through. ${proposal.result}.`;
+  }
+}
+
+// Feeds reply text in as it streams and speaks each sentence once it is complete
+function createSpeaker(voice: Voice, stream: EventStream) {
+  const parser = new SentenceParser();
+  let spoken = "";
+
+  const speak = async ({ seq, text }: { seq: number; text: string }) => {
+    if (stream.signal.aborted) return;
+    stream.send({ type: "sentence", seq, text });
+    for await (const data of await textToSpeechStream(text, voice)) {
+      if (stream.signal.aborted) return;
+      stream.send({ type: "audio", seq, data });
+    }
+  };
+
+  return {
+    async say(text: string) {
+      spoken += text;
+      for (const sentence of parser.feed(text)) await speak(sentence);
+    },
+    async finish(): Promise<string> {
+      const last = parser.flush();
+      if (last) await speak(last);
+      return spoken.trim();
+    },
+  };
+}
+
+async function lookupQuote(rawArguments: string): Promise<unknown> {
+  let symbol: unknown;
+  try {
+    symbol = JSON.parse(rawArguments).symbol;
+  } catch {
+    symbol = undefined;
+  }
+  if (typeof symbol !== "string" || !symbol.trim()) return { error: "symbol is required" };
+  return (await getQuote(symbol.trim().toUpperCase())) ?? { error: "No quote available" };
+}
+
+export async function runVoiceTurn(userId: number, turn: VoiceTurn, stream: EventStream): Promise<VoiceTurnResult> {
+  const transcript = (await speechToText(Buffer.from(turn.audio, "base64"), "webm")).trim();
+  stream.send({ type: "user_transcript", data: transcript });
+
+  const speaker = createSpeaker(turn.voice, stream);
+  if (!transcript) {
+    await speaker.say("Sorry, I didn't catch that. Hold the button and try again.");
+    return { transcript, reply: await speaker.finish(), proposal: null };
+  }
+
+  const pending = turn.proposalId ? await storage.getTradeProposal(userId, String(turn.proposalId)) : undefined;
+  const awaiting = pending?.status === "pending" ? pending : undefined;
+
+  const decision = awaiting ? spokenDecision(transcript) : null;
+  if (awaiting && decision) {
+    const decided = decision === "confirm"
+      ? await confirmProposal(userId, awaiting.id)
+      : await rejectProposal(userId, awaiting.id);
+    if (decided) stream.send({ type: "proposal", proposal: decided });
+    await speaker.say(decisionReply(decided));
+    return { transcript, reply: await speaker.finish(), proposal: decided ?? null };
+  }
+
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    { role: "system", content: await voiceSystemPrompt(userId, awaiting?.summary) },
+    { role: "user", content: transcript },
+  ];
+  let proposal: TradeProposal | null = null;
+
+  for (let round = 0; round < MAX_TURNS && !proposal; round++) {
+    const completion = await openai.chat.completions.create({
+      model: MODEL,
+      messages,
+      tools: [GET_QUOTE_TOOL, PROPOSE_ORDER_TOOL],
+      // The last round has to answer with what it has
+      tool_choice: round === MAX_TURNS - 1 ? "none" : "auto",
+      stream: true,
+      max_completion_tokens: 1024,
+    }, { signal: stream.signal });
+
+    let text = "";
+    const calls = new Map<number, ToolCall>();
+    for await (const chunk of completion) {
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        text += delta.content;
+        await speaker.say(delta.content);
+      }
+      delta?.tool_calls?.forEach((fragment) => {
+        const call = calls.get(fragment.index) ?? { id: "", name: "", arguments: "" };
+        call.id ||= fragment.id ?? "";
+        call.name ||= fragment.function?.name ?? "";
+        call.arguments += fragment.function?.arguments ?? "";
+        calls.set(fragment.index, call);
+      });
+    }
+    if (calls.size === 0) break;
+
+    // Only one order can wait on a spoken answer, so only the first is drafted
+    const order = Array.from(calls.values()).find(call => call.name === "propose_order");
+    if (order) {
+      proposal = await recordProposal(userId, null, transcript, order.arguments);
+      stream.send({ type: "proposal", proposal });
+      await speaker.say(proposal.status === "pending"
+        ? ` Here's the order: ${proposal.summary}. Say confirm to place it, or cancel.`
+        : " I couldn't work out a valid order from that. Try again with the symbol and the quantity.");
+      break;
+    }
+
+    messages.push({
+      role: "assistant",
+      content: text || null,
+      tool_calls: Array.from(calls.values()).map(call => ({
+        id: call.id,
+        type: "function" as const,
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    });
+    for (const call of Array.from(calls.values())) {
+      const result = call.name === "get_quote" ? await lookupQuote(call.arguments) : { error: `Unknown tool ${call.name}` };
+      messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(result) });
+    }
+  }
+
+  return { transcript, reply: await speaker.finish(), proposal };
+}
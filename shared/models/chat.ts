@@ -2,9 +2,13 @@ import { pgTable, serial, integer, text, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
+import { users } from "./users";
 
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
+  // Null for conversations from before chat was scoped to a user; nobody can
+  // see those, since every lookup filters on the owner
+  userId: integer("user_id").references(() => users.id),
   title: text("title").notNull(),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
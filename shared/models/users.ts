@@ -0,0 +1,24 @@
+import { pgTable, serial, text, real, boolean, varchar, timestamp } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// Users table. Lives on its own so the chat models can reference it without
+// importing ../schema, which re-exports them.
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  cash: real("cash").notNull().default(100000),
+  shortingEnabled: boolean("shorting_enabled").notNull().default(false),
+  accountType: varchar("account_type", { length: 10 }).notNull().default("cash"), // cash or margin
+  marginInterestAccruedAt: timestamp("margin_interest_accrued_at"), // debit interest charged up to here
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
@@ -1,9 +1,10 @@
 import { z } from "zod";
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, timestamp, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, timestamp, serial, boolean, uniqueIndex, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
+import { users } from "./models/users";
 
-// Stock quote from Finnhub
+// Stock quote from the market data provider
 export interface StockQuote {
   symbol: string;
   currentPrice: number;
@@ -39,36 +40,80 @@ export interface NewsArticle {
   datetime: number;
 }
 
+// OHLCV bar; time is when the bar opens, in milliseconds
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Bar length: minutes, or a day, week or month
+export type CandleResolution = "1" | "5" | "15" | "30" | "60" | "D" | "W" | "M";
+
+// Technical indicators; overlays share the price axis, the rest get their own pane
+export const INDICATOR_NAMES = ["sma", "ema", "bollinger", "vwap", "rsi", "macd", "atr", "obv"] as const;
+export type IndicatorName = typeof INDICATOR_NAMES[number];
+
+// One requested indicator, e.g. "sma:50" or "macd:12:26:9"; each line holds
+// one value per candle, null while the indicator warms up
+export interface IndicatorSeries {
+  id: string;
+  name: IndicatorName;
+  overlay: boolean;
+  lines: Record<string, (number | null)[]>;
+}
+
+export interface IndicatorResponse {
+  candles: Candle[];
+  indicators: IndicatorSeries[];
+}
+
 // Trade types
 export type TradeType = "buy" | "sell";
 export type OptionType = "call" | "put";
 
-// ============ Database Tables ============
+// Options settle in cash at intrinsic value, or by delivering shares at the strike
+export type OptionSettlement = "cash" | "deliver";
+export type OptionTradeAction = "buy" | "sell" | "expire" | "exercise" | "assign";
+export type StrategyType = "vertical" | "straddle" | "strangle" | "iron_condor" | "butterfly" | "calendar";
 
-// Users table
-export const users = pgTable("users", {
-  id: serial("id").primaryKey(),
-  username: text("username").notNull().unique(),
-  password: text("password").notNull(),
-  cash: real("cash").notNull().default(100000),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+// Account types and why a trade happened without an order
+export type AccountType = "cash" | "margin";
+export type TradeReason = "margin_call" | "short_maintenance" | "option_exercise" | "option_assignment";
 
-export const insertUserSchema = createInsertSchema(users).pick({
-  username: true,
-  password: true,
-});
+// Order types
+export type OrderType = "limit" | "stop" | "stop_limit";
+export type TimeInForce = "day" | "gtc";
+export type OrderStatus = "open" | "filled" | "cancelled" | "expired" | "rejected";
 
-export type InsertUser = z.infer<typeof insertUserSchema>;
-export type User = typeof users.$inferSelect;
+// Why a simulated position was closed
+export type BacktestExitReason = "signal" | "stop_loss" | "take_profit" | "end_of_test";
 
-// Positions table (stock holdings)
+// What a trading bot did on a run worth logging
+export type BotRunAction = "buy" | "sell" | "skip" | "error" | "enable" | "pause" | "kill";
+
+// Where an order the AI chat drafted stands. Invalid drafts never reach the
+// user; pending ones wait for a confirm or reject, and a confirmed one is
+// executing until its trade goes through or fails.
+export type TradeProposalStatus = "invalid" | "pending" | "executing" | "executed" | "rejected" | "failed" | "expired";
+
+export type AgentType = "research" | "sentiment" | "game_theory" | "risk";
+
+// ============ Database Tables ============
+
+// Positions table (stock holdings, negative quantity for shorts)
 export const positions = pgTable("positions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
   symbol: varchar("symbol", { length: 20 }).notNull(),
   quantity: integer("quantity").notNull(),
   averagePrice: real("average_price").notNull(),
+  lastPrice: real("last_price"), // most recent quote seen for valuation
+  borrowAccruedAt: timestamp("borrow_accrued_at"), // shorts only: borrow fees charged up to here
+  borrowFees: real("borrow_fees").notNull().default(0),
 });
 
 export type DbPosition = typeof positions.$inferSelect;
@@ -82,11 +127,52 @@ export const trades = pgTable("trades", {
   quantity: integer("quantity").notNull(),
   price: real("price").notNull(),
   total: real("total").notNull(),
+  quoteTimestamp: timestamp("quote_timestamp"), // timestamp of the quote the fill was priced from
+  reason: varchar("reason", { length: 30 }), // set on forced liquidations, null for user trades
+  botId: integer("bot_id").references(() => bots.id), // set when a trading bot placed the trade
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
 export type DbTrade = typeof trades.$inferSelect;
 
+// Orders table (resting limit/stop orders)
+export const orders = pgTable("orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  symbol: varchar("symbol", { length: 20 }).notNull(),
+  side: varchar("side", { length: 10 }).notNull(), // buy or sell
+  orderType: varchar("order_type", { length: 20 }).notNull(), // limit, stop or stop_limit
+  quantity: integer("quantity").notNull(),
+  limitPrice: real("limit_price"),
+  stopPrice: real("stop_price"),
+  timeInForce: varchar("time_in_force", { length: 10 }).notNull().default("day"), // day or gtc
+  status: varchar("status", { length: 20 }).notNull().default("open"),
+  statusReason: text("status_reason"),
+  triggeredAt: timestamp("triggered_at"), // set once a stop_limit's stop price is hit
+  tradeId: integer("trade_id").references(() => trades.id),
+  filledPrice: real("filled_price"),
+  filledAt: timestamp("filled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type DbOrder = typeof orders.$inferSelect;
+
+// Multi-leg option strategies; legs are option positions carrying its id
+export const optionStrategies = pgTable("option_strategies", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  symbol: varchar("symbol", { length: 20 }).notNull(),
+  strategyType: varchar("strategy_type", { length: 20 }).notNull(),
+  quantity: integer("quantity").notNull(),
+  netPremium: real("net_premium").notNull(), // per share; positive is a debit, negative a credit
+  collateral: real("collateral").default(0).notNull(), // cash reserved against worst-case settlement
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"),
+});
+
+export type DbOptionStrategy = typeof optionStrategies.$inferSelect;
+
 // Options positions table
 export const optionPositions = pgTable("option_positions", {
   id: serial("id").primaryKey(),
@@ -97,6 +183,10 @@ export const optionPositions = pgTable("option_positions", {
   expirationDate: varchar("expiration_date", { length: 20 }).notNull(),
   contracts: integer("contracts").notNull(),
   premium: real("premium").notNull(),
+  underlyingPrice: real("underlying_price"), // last seen price of the stock, used for marks
+  impliedVolatility: real("implied_volatility"),
+  settlement: varchar("settlement", { length: 10 }).default("cash").notNull(), // how it settles at expiry
+  strategyId: integer("strategy_id").references(() => optionStrategies.id), // null for standalone contracts
 });
 
 export type DbOptionPosition = typeof optionPositions.$inferSelect;
@@ -112,7 +202,8 @@ export const optionTrades = pgTable("option_trades", {
   contracts: integer("contracts").notNull(),
   premium: real("premium").notNull(),
   total: real("total").notNull(),
-  action: varchar("action", { length: 10 }).notNull(), // buy or sell
+  action: varchar("action", { length: 10 }).notNull(), // buy, sell, expire, exercise or assign
+  strategyId: integer("strategy_id").references(() => optionStrategies.id),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
@@ -139,6 +230,115 @@ export const portfolioHistory = pgTable("portfolio_history", {
 
 export type DbPortfolioHistory = typeof portfolioHistory.$inferSelect;
 
+// Candle cache: OHLCV bars fetched from the market data provider
+export const candles = pgTable("candles", {
+  id: serial("id").primaryKey(),
+  symbol: varchar("symbol", { length: 20 }).notNull(),
+  resolution: varchar("resolution", { length: 2 }).notNull(),
+  time: timestamp("time").notNull(),
+  open: real("open").notNull(),
+  high: real("high").notNull(),
+  low: real("low").notNull(),
+  close: real("close").notNull(),
+  volume: real("volume").notNull(),
+}, (table) => [
+  uniqueIndex("candles_symbol_resolution_time_idx").on(table.symbol, table.resolution, table.time),
+]);
+
+// Span of time already fetched per symbol and resolution. Cached bars inside
+// it are complete, so only the parts of a request outside it are fetched.
+export const candleCoverage = pgTable("candle_coverage", {
+  id: serial("id").primaryKey(),
+  symbol: varchar("symbol", { length: 20 }).notNull(),
+  resolution: varchar("resolution", { length: 2 }).notNull(),
+  coveredFrom: timestamp("covered_from").notNull(),
+  coveredTo: timestamp("covered_to").notNull(),
+}, (table) => [
+  uniqueIndex("candle_coverage_symbol_resolution_idx").on(table.symbol, table.resolution),
+]);
+
+// Backtest runs; rules and results are kept whole as JSON
+export const backtests = pgTable("backtests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  config: jsonb("config").$type<BacktestConfig>().notNull(),
+  result: jsonb("result").$type<BacktestResult>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type DbBacktest = typeof backtests.$inferSelect;
+
+// Trading bots run backtest-style rules against live quotes on the owner's account.
+// quantity and entryPrice track the shares the bot itself bought.
+export const bots = pgTable("bots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  symbol: varchar("symbol", { length: 20 }).notNull(),
+  resolution: varchar("resolution", { length: 2 }).notNull(),
+  rules: jsonb("rules").$type<BacktestRules>().notNull(),
+  budget: real("budget").notNull(), // most the bot may have invested at cost
+  enabled: boolean("enabled").default(false).notNull(),
+  quantity: integer("quantity").default(0).notNull(),
+  entryPrice: real("entry_price"),
+  lastBarTime: timestamp("last_bar_time"), // newest closed bar whose signals have been acted on
+  lastRunAt: timestamp("last_run_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type DbBot = typeof bots.$inferSelect;
+
+// Bot run log; quiet runs that found no signal are not recorded
+export const botRuns = pgTable("bot_runs", {
+  id: serial("id").primaryKey(),
+  botId: integer("bot_id").references(() => bots.id).notNull(),
+  action: varchar("action", { length: 20 }).notNull(),
+  message: text("message").notNull(),
+  tradeId: integer("trade_id").references(() => trades.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type DbBotRun = typeof botRuns.$inferSelect;
+
+// Audit log of every order the AI chat proposed, with the message that asked for it
+export const tradeProposals = pgTable("trade_proposals", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  conversationId: integer("conversation_id"), // kept after the conversation is deleted
+  utterance: text("utterance").notNull(),
+  rawArguments: text("raw_arguments").notNull(), // as the model sent them
+  proposal: jsonb("proposal").$type<ProposedOrder>(), // null when they failed validation
+  summary: text("summary").notNull(),
+  status: varchar("status", { length: 20 }).notNull(),
+  result: text("result"), // validation error, rejection reason or fill summary
+  tradeId: integer("trade_id").references(() => trades.id),
+  orderId: integer("order_id").references(() => orders.id),
+  optionTradeId: integer("option_trade_id").references(() => optionTrades.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  decidedAt: timestamp("decided_at"),
+});
+
+export type DbTradeProposal = typeof tradeProposals.$inferSelect;
+
+// Every analysis an agent ran, with what it was given and what it returned
+export const agentRuns = pgTable("agent_runs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  agent: varchar("agent", { length: 20 }).notNull(),
+  symbol: varchar("symbol", { length: 20 }), // for finding earlier runs on the same stock
+  input: jsonb("input").$type<AgentRunInput>().notNull(),
+  portfolio: jsonb("portfolio").$type<AgentPortfolioSnapshot>(), // null when the agent never looked
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").notNull(),
+  outputTokens: integer("output_tokens").notNull(),
+  headline: text("headline").notNull(),
+  output: jsonb("output").$type<AgentRun["output"]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type DbAgentRun = typeof agentRuns.$inferSelect;
+
 // Social posts table
 export const posts = pgTable("posts", {
   id: serial("id").primaryKey(),
@@ -170,6 +370,7 @@ export const postLikes = pgTable("post_likes", {
 // ============ Frontend Interfaces ============
 
 // Position in portfolio (with computed fields for display)
+// Short positions carry a negative quantity and a negative totalValue
 export interface Position {
   id: string;
   symbol: string;
@@ -179,6 +380,7 @@ export interface Position {
   totalValue: number;
   profitLoss: number;
   profitLossPercent: number;
+  borrowFees: number;
 }
 
 // Options position (with computed fields)
@@ -192,6 +394,96 @@ export interface OptionPosition {
   premium: number;
   currentPremium: number;
   profitLoss: number;
+  underlyingPrice: number | null;
+  impliedVolatility: number | null;
+  greeks: OptionGreeks | null; // null until the underlying has been quoted
+  settlement: OptionSettlement;
+  strategyId: string | null;
+}
+
+// Sensitivities per share: theta per day, vega per vol point, rho per rate point
+export interface OptionGreeks {
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+}
+
+// One leg of a multi-leg strategy; contracts are signed (negative when written)
+export interface StrategyLeg {
+  optionType: OptionType;
+  strikePrice: number;
+  expirationDate: string;
+  contracts: number;
+  premium: number;
+}
+
+// Strategy P/L per underlying price at the first leg's expiration
+export interface PayoffPoint {
+  price: number;
+  value: number;
+}
+
+export interface StrategyQuote {
+  symbol: string;
+  strategyType: StrategyType;
+  quantity: number;
+  underlyingPrice: number;
+  legs: (StrategyLeg & { greeks: OptionGreeks })[];
+  netPremium: number; // per share; positive is a debit, negative a credit
+  maxProfit: number | null; // null when unlimited
+  maxLoss: number | null;
+  collateral: number;
+  payoff: PayoffPoint[];
+}
+
+export interface OptionStrategy {
+  id: string;
+  symbol: string;
+  strategyType: StrategyType;
+  quantity: number;
+  netPremium: number;
+  collateral: number;
+  legs: OptionPosition[];
+  payoff: PayoffPoint[];
+  createdAt: number;
+}
+
+// One side of an option chain row; bid/ask straddle the model mark
+export interface OptionChainEntry {
+  bid: number;
+  ask: number;
+  mark: number;
+  greeks: OptionGreeks;
+}
+
+export interface OptionChainRow {
+  strikePrice: number;
+  call: OptionChainEntry;
+  put: OptionChainEntry;
+}
+
+// Strike ladder for one expiration, plus every expiration on offer
+export interface OptionChain {
+  symbol: string;
+  underlyingPrice: number;
+  impliedVolatility: number;
+  expirations: string[];
+  expirationDate: string;
+  strikes: OptionChainRow[];
+}
+
+// Server-side fair value for a contract
+export interface OptionQuote {
+  symbol: string;
+  optionType: OptionType;
+  strikePrice: number;
+  expirationDate: string;
+  underlyingPrice: number;
+  impliedVolatility: number;
+  premium: number;
+  greeks: OptionGreeks;
 }
 
 // Trade record
@@ -202,6 +494,9 @@ export interface Trade {
   quantity: number;
   price: number;
   total: number;
+  quoteTimestamp: number | null;
+  reason: TradeReason | null;
+  botId: string | null;
   timestamp: number;
 }
 
@@ -215,10 +510,29 @@ export interface OptionTrade {
   contracts: number;
   premium: number;
   total: number;
-  action: "buy" | "sell";
+  action: OptionTradeAction;
+  strategyId: string | null;
   timestamp: number;
 }
 
+// Resting order
+export interface Order {
+  id: string;
+  symbol: string;
+  side: TradeType;
+  orderType: OrderType;
+  quantity: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  timeInForce: TimeInForce;
+  status: OrderStatus;
+  statusReason: string | null;
+  triggered: boolean;
+  filledPrice: number | null;
+  filledAt: number | null;
+  createdAt: number;
+}
+
 // Watchlist item
 export interface WatchlistItem {
   symbol: string;
@@ -226,9 +540,19 @@ export interface WatchlistItem {
   addedAt: number;
 }
 
+// Cash split between what is earmarked (open buy orders, written put collateral)
+// and what is still spendable
+export interface BuyingPower {
+  cash: number;
+  reserved: number;
+  available: number;
+}
+
 // Portfolio summary
 export interface Portfolio {
   cash: number;
+  buyingPower: BuyingPower;
+  margin: MarginStatus;
   totalValue: number;
   stocksValue: number;
   optionsValue: number;
@@ -238,6 +562,24 @@ export interface Portfolio {
   totalProfitLossPercent: number;
 }
 
+// Account settings
+export interface Account {
+  accountType: AccountType;
+  shortingEnabled: boolean;
+}
+
+// Margin health. Equity here is stock equity (cash + longs - shorts);
+// options carry no loan value and are left out.
+export interface MarginStatus {
+  equity: number;
+  longMarketValue: number;
+  shortMarketValue: number;
+  debitBalance: number;
+  maintenanceRequirement: number;
+  maintenanceRatio: number | null; // equity / gross market value, null with no positions
+  marginCall: boolean;
+}
+
 // Portfolio history point for chart
 export interface PortfolioHistoryPoint {
   timestamp: number;
@@ -252,8 +594,177 @@ export interface UserProfile {
   totalProfitLoss: number;
   totalProfitLossPercent: number;
   tradesCount: number;
+  botTradesCount: number;
+}
+
+// One round trip in a backtest
+export interface BacktestTrade {
+  symbol: string;
+  quantity: number;
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  profitLoss: number;
+  returnPercent: number;
+  exitReason: BacktestExitReason;
 }
 
+export interface EquityPoint {
+  time: number;
+  equity: number;
+}
+
+// Percentages are in percent; sharpe is annualized with a zero risk-free rate
+export interface BacktestStats {
+  startingEquity: number;
+  endingEquity: number;
+  totalReturn: number;
+  cagr: number;
+  sharpe: number;
+  maxDrawdown: number;
+  winRate: number;
+  tradeCount: number;
+}
+
+export interface BacktestResult {
+  stats: BacktestStats;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+}
+
+// Listings leave out the equity curve and trade list
+export interface BacktestSummary {
+  id: string;
+  name: string;
+  config: BacktestConfig;
+  stats: BacktestStats;
+  createdAt: number;
+}
+
+export interface Backtest extends BacktestSummary {
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+}
+
+export interface Bot {
+  id: string;
+  name: string;
+  symbol: string;
+  resolution: CandleResolution;
+  rules: BacktestRules;
+  budget: number;
+  enabled: boolean;
+  quantity: number;
+  entryPrice: number | null;
+  invested: number; // cost of the shares the bot holds
+  lastBarTime: number | null;
+  lastRunAt: number | null;
+  createdAt: number;
+}
+
+export interface BotRun {
+  id: string;
+  action: BotRunAction;
+  message: string;
+  tradeId: string | null;
+  createdAt: number;
+}
+
+// A news article the research agent cited; sections refer to these by number
+export interface ResearchSource {
+  number: number;
+  headline: string;
+  source: string;
+  url: string;
+  datetime: number;
+}
+
+export interface ResearchSection {
+  title: string;
+  content: string;
+  citations: number[];
+}
+
+// A data lookup the research agent made on its way to the report
+export interface ResearchToolCall {
+  tool: string;
+  input: Record<string, unknown>;
+}
+
+export interface ResearchReport {
+  symbol: string | null;
+  summary: string;
+  sections: ResearchSection[];
+  sources: ResearchSource[];
+  toolCalls: ResearchToolCall[];
+}
+
+export interface TradeProposal {
+  id: string;
+  conversationId: number | null;
+  utterance: string;
+  proposal: ProposedOrder | null;
+  summary: string;
+  status: TradeProposalStatus;
+  result: string | null;
+  tradeId: string | null;
+  orderId: string | null;
+  optionTradeId: string | null;
+  createdAt: number;
+  decidedAt: number | null;
+}
+
+// What an agent was asked; which fields apply depends on the agent
+export interface AgentRunInput {
+  symbol?: string;
+  query?: string;
+  scenario?: string;
+  options?: string;
+}
+
+// The holdings an agent was shown, kept so old analyses can be read in context
+export interface AgentPortfolioSnapshot {
+  cash: number;
+  totalValue: number;
+  dayChange: number;
+  totalProfitLossPercent: number;
+  positions: {
+    symbol: string;
+    quantity: number;
+    averagePrice: number;
+    currentPrice: number;
+    profitLossPercent: number;
+  }[];
+}
+
+export interface AgentUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Listings leave out the report and the portfolio snapshot
+export interface AgentRunSummary {
+  id: string;
+  agent: AgentType;
+  symbol: string | null;
+  input: AgentRunInput;
+  headline: string;
+  model: string;
+  usage: AgentUsage;
+  createdAt: number;
+}
+
+export type AgentRun = AgentRunSummary & { portfolio: AgentPortfolioSnapshot | null } & (
+  | { agent: "research"; output: ResearchReport }
+  | { agent: "sentiment"; output: SentimentReport }
+  | { agent: "game_theory"; output: GameTheoryReport }
+  | { agent: "risk"; output: RiskReport }
+);
+
+// An agent paired with its report, with the two kept in step
+export type AgentReport = { [R in AgentRun as R["agent"]]: Pick<R, "agent" | "output"> }[AgentType];
+
 // Social post for display
 export interface Post {
   id: number;
@@ -269,6 +780,12 @@ export interface Post {
 
 // ============ API Validation Schemas ============
 
+// Ids in paths are serial keys, so anything else is a 400 rather than a NaN
+// reaching the query
+export const idParamsSchema = z.object({
+  id: z.coerce.number().int().positive().max(2147483647),
+});
+
 export const insertTradeSchema = z.object({
   symbol: z.string().min(1).max(20),
   type: z.enum(["buy", "sell"]),
@@ -276,29 +793,393 @@ export const insertTradeSchema = z.object({
   price: z.number().positive(),
 });
 
+// Fill price is taken from the server-side quote, never from the client
 export const insertBuySellSchema = z.object({
   symbol: z.string().min(1).max(20),
   quantity: z.number().positive().int(),
-  price: z.number().positive(),
 });
 
+// Contracts are identified by calendar date, YYYY-MM-DD
+const expirationDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine(date => !isNaN(Date.parse(date)), { message: "Invalid expiration date" });
+
 export const insertOptionTradeSchema = z.object({
   symbol: z.string().min(1).max(20),
   optionType: z.enum(["call", "put"]),
   strikePrice: z.number().positive(),
-  expirationDate: z.string(),
+  expirationDate: expirationDateSchema,
   contracts: z.number().positive().int(),
-  premium: z.number().positive(),
   action: z.enum(["buy", "sell"]),
+  settlement: z.enum(["cash", "deliver"]).optional(),
+});
+
+export const exerciseOptionSchema = z.object({
+  contracts: z.number().positive().int().optional(), // defaults to the whole position
+  settlement: z.enum(["cash", "deliver"]).default("cash"),
 });
 
+// Long strategies pay a debit for the body, short ones collect a credit
+const strategySide = z.enum(["long", "short"]).default("long");
+
+const strategyBase = {
+  symbol: z.string().min(1).max(20),
+  quantity: z.number().positive().int(),
+};
+
+export const strategyOrderSchema = z.discriminatedUnion("strategyType", [
+  // Buys longStrike and sells shortStrike, so it is a debit or credit spread by strike order
+  z.object({
+    ...strategyBase,
+    strategyType: z.literal("vertical"),
+    optionType: z.enum(["call", "put"]),
+    expirationDate: expirationDateSchema,
+    longStrike: z.number().positive(),
+    shortStrike: z.number().positive(),
+  }),
+  z.object({
+    ...strategyBase,
+    strategyType: z.literal("straddle"),
+    side: strategySide,
+    expirationDate: expirationDateSchema,
+    strikePrice: z.number().positive(),
+  }),
+  z.object({
+    ...strategyBase,
+    strategyType: z.literal("strangle"),
+    side: strategySide,
+    expirationDate: expirationDateSchema,
+    putStrike: z.number().positive(),
+    callStrike: z.number().positive(),
+  }),
+  // Strikes ascending: long put wing, short put, short call, long call wing
+  z.object({
+    ...strategyBase,
+    strategyType: z.literal("iron_condor"),
+    side: z.enum(["long", "short"]).default("short"),
+    expirationDate: expirationDateSchema,
+    strikes: z.tuple([z.number().positive(), z.number().positive(), z.number().positive(), z.number().positive()]),
+  }),
+  z.object({
+    ...strategyBase,
+    strategyType: z.literal("butterfly"),
+    side: strategySide,
+    optionType: z.enum(["call", "put"]),
+    expirationDate: expirationDateSchema,
+    lowerStrike: z.number().positive(),
+    middleStrike: z.number().positive(),
+    upperStrike: z.number().positive(),
+  }),
+  // Sells the near expiration and buys the far one at the same strike
+  z.object({
+    ...strategyBase,
+    strategyType: z.literal("calendar"),
+    optionType: z.enum(["call", "put"]),
+    strikePrice: z.number().positive(),
+    nearExpiration: expirationDateSchema,
+    farExpiration: expirationDateSchema,
+  }),
+]).superRefine((order, ctx) => {
+  const ascending = (values: number[]) => values.every((v, i) => i === 0 || v > values[i - 1]);
+  let valid = true;
+  switch (order.strategyType) {
+    case "vertical":
+      valid = order.longStrike !== order.shortStrike;
+      break;
+    case "strangle":
+      valid = order.putStrike < order.callStrike;
+      break;
+    case "iron_condor":
+      valid = ascending(order.strikes);
+      break;
+    case "butterfly":
+      valid = ascending([order.lowerStrike, order.middleStrike, order.upperStrike]);
+      break;
+    case "calendar":
+      valid = order.nearExpiration < order.farExpiration;
+      break;
+  }
+  if (!valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Strikes or expirations are out of order for this strategy" });
+  }
+});
+
+export const updateOptionPositionSchema = z.object({
+  settlement: z.enum(["cash", "deliver"]),
+});
+
+export const optionChainQuerySchema = z.object({
+  expiration: expirationDateSchema.optional(),
+});
+
+export const optionQuoteSchema = z.object({
+  symbol: z.string().min(1).max(20),
+  optionType: z.enum(["call", "put"]),
+  strikePrice: z.coerce.number().positive(),
+  expirationDate: expirationDateSchema,
+});
+
+// Price fields required by each order type
+function hasRequiredOrderPrices(order: { orderType: OrderType; limitPrice?: number; stopPrice?: number }): boolean {
+  const needsLimit = order.orderType === "limit" || order.orderType === "stop_limit";
+  const needsStop = order.orderType === "stop" || order.orderType === "stop_limit";
+  return (!needsLimit || order.limitPrice !== undefined) && (!needsStop || order.stopPrice !== undefined);
+}
+
+export const insertOrderSchema = z.object({
+  symbol: z.string().min(1).max(20),
+  side: z.enum(["buy", "sell"]),
+  orderType: z.enum(["limit", "stop", "stop_limit"]),
+  quantity: z.number().positive().int(),
+  limitPrice: z.number().positive().optional(),
+  stopPrice: z.number().positive().optional(),
+  timeInForce: z.enum(["day", "gtc"]).default("day"),
+}).refine(hasRequiredOrderPrices, {
+  message: "Limit orders need a limitPrice, stop orders a stopPrice, stop-limit orders both",
+});
+
+// Replacing an order keeps its symbol, side and type
+export const replaceOrderSchema = z.object({
+  quantity: z.number().positive().int().optional(),
+  limitPrice: z.number().positive().optional(),
+  stopPrice: z.number().positive().optional(),
+  timeInForce: z.enum(["day", "gtc"]).optional(),
+});
+
+export const updateAccountSchema = z.object({
+  accountType: z.enum(["cash", "margin"]).optional(),
+  shortingEnabled: z.boolean().optional(),
+}).refine(changes => Object.keys(changes).length > 0, { message: "Provide a setting to change" });
+
 export const insertWatchlistSchema = z.object({
   symbol: z.string().min(1).max(20),
 });
 
+export const candleQuerySchema = z.object({
+  resolution: z.enum(["1", "5", "15", "30", "60", "D", "W", "M"]).default("D"),
+  from: z.coerce.number().int().nonnegative().optional(),
+  to: z.coerce.number().int().nonnegative().optional(),
+});
+
+const INDICATOR_SPEC_PATTERN = `(${INDICATOR_NAMES.join("|")})(:\\d+(\\.\\d+)?){0,3}`;
+
+// Indicators are a comma-separated list of name[:param...], e.g. "sma:20,rsi,macd:12:26:9"
+const indicatorSpecSchema = z.string().regex(
+  new RegExp(`^${INDICATOR_SPEC_PATTERN}$`),
+  { message: "Expected name[:param...] with a known indicator name" },
+);
+
+export const indicatorQuerySchema = candleQuerySchema.extend({
+  indicators: z.string().min(1)
+    .transform(list => list.split(",").map(spec => spec.trim().toLowerCase()))
+    .pipe(z.array(indicatorSpecSchema).min(1).max(10)),
+});
+
+// A bar field, or an indicator with an optional line: "close", "sma:50",
+// "bollinger:20:2.lower", "macd:12:26:9.signal"
+const backtestOperandSchema = z.string().regex(
+  new RegExp(`^((open|high|low|close|volume)|${INDICATOR_SPEC_PATTERN}(\\.[a-z]+)?)$`),
+  { message: "Expected a bar field or an indicator spec" },
+);
+
+const backtestConditionSchema = z.object({
+  left: backtestOperandSchema,
+  op: z.enum([">", "<", "crosses_above", "crosses_below"]),
+  right: z.union([backtestOperandSchema, z.number()]),
+});
+
+// Enters when every entry condition holds at a bar's close and exits when any
+// exit condition does; orders fill at the next bar's open
+export const backtestRulesSchema = z.object({
+  entry: z.array(backtestConditionSchema).min(1).max(10),
+  exit: z.array(backtestConditionSchema).max(10).default([]),
+  sizing: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("percent_equity"), value: z.number().positive().max(100) }),
+    z.object({ type: z.literal("fixed_cash"), value: z.number().positive() }),
+    z.object({ type: z.literal("fixed_shares"), value: z.number().positive().int() }),
+  ]),
+  stopLossPercent: z.number().positive().max(100).optional(),
+  takeProfitPercent: z.number().positive().optional(),
+});
+
+export const insertBacktestSchema = z.object({
+  name: z.string().min(1).max(100),
+  symbols: z.array(z.string().min(1).max(20)).min(1).max(10),
+  resolution: z.enum(["1", "5", "15", "30", "60", "D", "W", "M"]).default("D"),
+  from: z.number().int().nonnegative(),
+  to: z.number().int().nonnegative().optional(),
+  startingCash: z.number().positive().default(100000),
+  rules: backtestRulesSchema,
+});
+
+export const insertBotSchema = z.object({
+  name: z.string().min(1).max(100),
+  symbol: z.string().min(1).max(20),
+  resolution: z.enum(["1", "5", "15", "30", "60", "D", "W", "M"]).default("D"),
+  rules: backtestRulesSchema,
+  budget: z.number().positive(),
+});
+
+export const updateBotSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  rules: backtestRulesSchema.optional(),
+  budget: z.number().positive().optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const researchRequestSchema = z.object({
+  symbol: z.string().trim().min(1).max(20).transform(s => s.toUpperCase()).optional(),
+  query: z.string().trim().max(500).optional(),
+}).refine(r => r.symbol || r.query, { message: "Provide a symbol or a question" });
+
+export const sentimentRequestSchema = z.object({
+  symbol: z.string().trim().min(1).max(20).transform(s => s.toUpperCase()).optional(),
+});
+
+export const gameTheoryRequestSchema = z.object({
+  scenario: z.string().trim().max(2000).optional(),
+  options: z.string().trim().max(1000).optional(),
+});
+
+export const agentRunQuerySchema = z.object({
+  agent: z.enum(["research", "sentiment", "game_theory", "risk"]).optional(),
+  symbol: z.string().trim().min(1).max(20).transform(s => s.toUpperCase()).optional(),
+});
+
+// What the sentiment, game theory and risk agents must return. The model fills
+// these in through a forced tool call and is asked again when they don't parse.
+const agentStanceSchema = z.enum(["bullish", "bearish", "neutral"]);
+
+export const sentimentReportSchema = z.object({
+  score: z.number().int().min(1).max(10),
+  sentiment: agentStanceSchema,
+  summary: z.string().min(1),
+  narratives: z.array(z.object({
+    stance: agentStanceSchema,
+    narrative: z.string().min(1),
+  })).min(1).max(8),
+});
+
+export const gameTheoryReportSchema = z.object({
+  summary: z.string().min(1),
+  players: z.array(z.object({
+    name: z.string().min(1),
+    incentive: z.string().min(1),
+  })).min(1).max(6),
+  equilibrium: z.string().min(1),
+  strategies: z.array(z.object({
+    name: z.string().min(1),
+    successProbability: z.number().min(0).max(1),
+    expectedReturnPercent: z.number(),
+    upside: z.string().min(1),
+    downside: z.string().min(1),
+  })).min(1).max(6),
+  recommendation: z.object({
+    strategy: z.string().min(1),
+    rationale: z.string().min(1),
+  }),
+  confidence: z.enum(["low", "medium", "high"]),
+}).refine(r => r.strategies.some(s => s.name === r.recommendation.strategy), {
+  message: "Must match the name of one of the strategies",
+  path: ["recommendation", "strategy"],
+});
+
+export const riskReportSchema = z.object({
+  score: z.number().int().min(1).max(10),
+  level: z.enum(["low", "moderate", "high", "severe"]),
+  summary: z.string().min(1),
+  findings: z.array(z.object({
+    category: z.enum(["concentration", "sector", "volatility", "downside", "liquidity", "leverage"]),
+    severity: z.enum(["low", "medium", "high"]),
+    finding: z.string().min(1),
+    recommendation: z.string().min(1),
+  })).min(1).max(8),
+  hedges: z.array(z.string().min(1)).max(5),
+});
+
+// The research report as saved. It is built on the server rather than filled
+// in by the model, so this only checks runs read back from history.
+export const researchReportSchema: z.ZodType<ResearchReport> = z.object({
+  symbol: z.string().nullable(),
+  summary: z.string(),
+  sections: z.array(z.object({
+    title: z.string(),
+    content: z.string(),
+    citations: z.array(z.number().int()),
+  })),
+  sources: z.array(z.object({
+    number: z.number().int(),
+    headline: z.string(),
+    source: z.string(),
+    url: z.string(),
+    datetime: z.number(),
+  })),
+  toolCalls: z.array(z.object({
+    tool: z.string(),
+    input: z.record(z.unknown()),
+  })),
+});
+
+// An order drafted by the AI chat, in the same shapes the trade endpoints take:
+// a market buy or sell, a resting order, or an option trade
+export const proposedOrderSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("market"), side: z.enum(["buy", "sell"]), order: insertBuySellSchema }),
+  z.object({ kind: z.literal("order"), order: insertOrderSchema }),
+  z.object({ kind: z.literal("option"), order: insertOptionTradeSchema }),
+]);
+
+// Proposals from one chat conversation, or from all of them
+export const tradeProposalQuerySchema = z.object({
+  conversationId: idParamsSchema.shape.id.optional(),
+});
+
+// One push-to-talk turn: a base64 WebM recording of the question or answer,
+// plus the order the previous turn drafted if it is still waiting on a yes or no
+export const voiceTurnSchema = z.object({
+  audio: z.string().min(1).max(4_000_000),
+  voice: z.enum(["alloy", "echo", "fable", "onyx", "nova", "shimmer"]).default("alloy"),
+  proposalId: idParamsSchema.shape.id.optional(),
+});
+
+// Messages a client sends on the price stream socket
+export const priceStreamRequestSchema = z.object({
+  type: z.enum(["subscribe", "unsubscribe"]),
+  symbols: z.array(z.string().min(1).max(20)).min(1).max(50),
+});
+
+// Messages the price stream pushes to clients
+export type PriceStreamMessage =
+  | { type: "quote"; quote: StockQuote }
+  | { type: "error"; error: string };
+
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
 export type InsertOptionTrade = z.infer<typeof insertOptionTradeSchema>;
+export type OptionQuoteRequest = z.infer<typeof optionQuoteSchema>;
+export type ExerciseOption = z.infer<typeof exerciseOptionSchema>;
+export type StrategyOrder = z.infer<typeof strategyOrderSchema>;
 export type InsertWatchlist = z.infer<typeof insertWatchlistSchema>;
+export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type ReplaceOrder = z.infer<typeof replaceOrderSchema>;
+export type UpdateAccount = z.infer<typeof updateAccountSchema>;
+export type PriceStreamRequest = z.infer<typeof priceStreamRequestSchema>;
+export type CandleQuery = z.infer<typeof candleQuerySchema>;
+export type IndicatorQuery = z.infer<typeof indicatorQuerySchema>;
+export type BacktestRules = z.infer<typeof backtestRulesSchema>;
+export type BacktestCondition = z.infer<typeof backtestConditionSchema>;
+export type BacktestConfig = z.infer<typeof insertBacktestSchema>;
+export type InsertBot = z.infer<typeof insertBotSchema>;
+export type UpdateBot = z.infer<typeof updateBotSchema>;
+export type ResearchRequest = z.infer<typeof researchRequestSchema>;
+export type ProposedOrder = z.infer<typeof proposedOrderSchema>;
+export type VoiceTurn = z.infer<typeof voiceTurnSchema>;
+export type SentimentReport = z.infer<typeof sentimentReportSchema>;
+export type GameTheoryReport = z.infer<typeof gameTheoryReportSchema>;
+export type RiskReport = z.infer<typeof riskReportSchema>;
+export type SentimentRequest = z.infer<typeof sentimentRequestSchema>;
+export type GameTheoryRequest = z.infer<typeof gameTheoryRequestSchema>;
+export type AgentRunQuery = z.infer<typeof agentRunQuerySchema>;
+
+export * from "./models/users";
 
 // Re-export chat models for OpenAI integration
 export * from "./models/chat";
@@ -0,0 +1,22 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Integration tests start Postgres and push the schema before they run
+    hookTimeout: 120_000,
+    env: {
+      MARKET_DATA_PROVIDER: "simulated",
+      SESSION_SECRET: "test",
+      ANTHROPIC_API_KEY: "test",
+      AI_INTEGRATIONS_OPENAI_API_KEY: "test",
+    },
+  },
+});